@@ -234,9 +234,9 @@ const WEBAPP_ENDPOINTS = {
   workspace_create_task: {
     endpoint: '/api/workspace/tasks',
     method: 'POST',
-    description: 'Create new task',
-    parameters: ['title', 'description?', 'priority?', 'due_date?', 'created_by'],
-    example: 'Create task "Review project proposal"',
+    description: 'Create new task, optionally broken into subtasks (subtasks is a list of titles or of {title, description?, priority?, due_date?})',
+    parameters: ['title', 'description?', 'priority?', 'due_date?', 'created_by', 'subtasks?'],
+    example: 'Create task "Launch website" with subtasks "Write copy", "Set up hosting" and "Announce launch"',
     implementation: 'executeWorkspaceCreateTask'
   },
   workspace_update_task: {
@@ -255,6 +255,22 @@ const WEBAPP_ENDPOINTS = {
     example: 'Assign task to team member',
     implementation: 'executeWorkspaceAssignTask'
   },
+  workspace_pinned_messages: {
+    endpoint: '/api/workspace/channels/:channelId/pins',
+    method: 'GET',
+    description: 'Get pinned messages of a channel, or of all the user\'s channels if no channel is given',
+    parameters: ['userId', 'channelId?', 'channelName?'],
+    example: 'What is pinned in #general?',
+    implementation: 'executeWorkspacePinnedMessages'
+  },
+  workspace_saved_items: {
+    endpoint: '/api/workspace/bookmarks/:userId',
+    method: 'GET',
+    description: 'Get messages the user saved for later',
+    parameters: ['userId'],
+    example: 'Show my saved messages',
+    implementation: 'executeWorkspaceSavedItems'
+  },
 
   // Calendar Management
   calendar_events: {
@@ -632,7 +648,7 @@ INSTRUCTIONS:
 
 5. You have access to ALL these functions:
    - Gmail management (read, search, delete, summarize emails, find promotional/marketing emails, unsubscribe)
-   - Workspace features (channels, messages, tasks, assignments)
+   - Workspace features (channels, messages, pinned messages, saved items, tasks, assignments)
    - Calendar management (events, scheduling)
    - Meeting tools (create rooms, notes, summaries)
    - Google Meetings (create, list, view details, cancel meetings with Google Meet integration)
@@ -810,6 +826,10 @@ async function executeEndpointFunction(endpoint, parameters, userId, req = null)
       return await executeWorkspaceUpdateTask(parameters.taskId, parameters);
     case 'executeWorkspaceAssignTask':
       return await executeWorkspaceAssignTask(parameters);
+    case 'executeWorkspacePinnedMessages':
+      return await executeWorkspacePinnedMessages(parameters);
+    case 'executeWorkspaceSavedItems':
+      return await executeWorkspaceSavedItems(parameters.userId);
 
     // Calendar functions
     case 'executeCalendarEvents':
@@ -2197,6 +2217,7 @@ async function executeWorkspaceMessages(channelId) {
         sender:profiles(*)
       `)
       .eq('channel_id', channelId)
+      .is('deleted_at', null)
       .order('created_at', { ascending: true })
       .limit(100);
 
@@ -2265,7 +2286,7 @@ async function executeWorkspaceTasks(userId) {
 
 async function executeWorkspaceCreateTask(parameters) {
   try {
-    const { title, description, priority = 'medium', due_date, created_by } = parameters;
+    const { title, description, priority = 'medium', due_date, created_by, subtasks = [] } = parameters;
     
     const { data, error } = await supabase
       .from('tasks')
@@ -2283,7 +2304,39 @@ async function executeWorkspaceCreateTask(parameters) {
       return { success: false, error: error.message };
     }
 
-    return { success: true, task: data };
+    // Subtasks may come as plain titles or as task objects
+    const subtaskRows = (Array.isArray(subtasks) ? subtasks : [])
+      .map(subtask => (typeof subtask === 'string' ? { title: subtask } : subtask || {}))
+      .filter(subtask => typeof subtask.title === 'string' && subtask.title.trim())
+      .map(subtask => ({
+        title: subtask.title.trim(),
+        description: subtask.description,
+        priority: subtask.priority || priority,
+        due_date: subtask.due_date || due_date,
+        created_by,
+        parent_task_id: data.id
+      }));
+
+    if (subtaskRows.length === 0) {
+      return { success: true, task: data };
+    }
+
+    const { data: createdSubtasks, error: subtasksError } = await supabase
+      .from('tasks')
+      .insert(subtaskRows)
+      .select();
+
+    if (subtasksError) {
+      // Don't leave a parent behind without the breakdown that was asked for
+      await supabase.from('tasks').delete().eq('id', data.id);
+      return { success: false, error: subtasksError.message };
+    }
+
+    return {
+      success: true,
+      task: { ...data, subtasks: createdSubtasks },
+      userMessage: `Created task "${data.title}" with ${createdSubtasks.length} subtask${createdSubtasks.length === 1 ? '' : 's'}: ${createdSubtasks.map(subtask => subtask.title).join(', ')}.`
+    };
   } catch (error) {
     return { success: false, error: error.message };
   }
@@ -2338,6 +2391,97 @@ async function executeWorkspaceAssignTask(parameters) {
   }
 }
 
+async function executeWorkspacePinnedMessages(parameters) {
+  try {
+    const { userId, channelId, channelName } = parameters;
+
+    // Pins are only listed for channels the user belongs to
+    const { data: memberships, error: membershipError } = await supabase
+      .from('channel_members')
+      .select('channel_id, channel:channels(id, name)')
+      .eq('user_id', userId);
+
+    if (membershipError) {
+      return { success: false, error: membershipError.message };
+    }
+
+    let channelIds = (memberships || []).map(membership => membership.channel_id);
+
+    if (channelId || channelName) {
+      const normalizedName = channelName ? channelName.replace(/^#/, '').toLowerCase() : null;
+      const match = (memberships || []).find(membership =>
+        membership.channel_id === channelId ||
+        (normalizedName && membership.channel?.name?.toLowerCase() === normalizedName)
+      );
+
+      if (!match) {
+        return { success: false, error: 'Channel not found', userMessage: 'I couldn\'t find that channel among the channels you belong to.' };
+      }
+      channelIds = [match.channel_id];
+    }
+
+    if (channelIds.length === 0) {
+      return { success: true, pins: [] };
+    }
+
+    const { data, error } = await supabase
+      .from('pinned_messages')
+      .select(`
+        id,
+        channel_id,
+        pinned_at,
+        pinned_by_user:profiles(full_name, username),
+        channel:channels(name),
+        message:messages(
+          id,
+          content,
+          created_at,
+          sender:profiles(full_name, username)
+        )
+      `)
+      .in('channel_id', channelIds)
+      .order('pinned_at', { ascending: false })
+      .limit(50);
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, pins: data || [] };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+}
+
+async function executeWorkspaceSavedItems(userId) {
+  try {
+    const { data, error } = await supabase
+      .from('message_bookmarks')
+      .select(`
+        id,
+        created_at,
+        message:messages(
+          id,
+          content,
+          created_at,
+          sender:profiles(full_name, username),
+          channel:channels(name)
+        )
+      `)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, bookmarks: data || [] };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+}
+
 // Calendar Functions
 async function executeCalendarEvents(userId, start_date, end_date) {
   try {
@@ -0,0 +1,192 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const http = require('http');
+const { MAX_HTML_BYTES, fetchLinkPreview } = require('../utils/linkPreview');
+
+const OG_PAGE = `<!DOCTYPE html>
+<html>
+<head>
+<title>Fallback title</title>
+<meta property="og:title" content="Launch &amp; Learn">
+<meta property="og:description" content="Everything about the launch">
+<meta property="og:image" content="/images/cover.png">
+<meta property="og:site_name" content="Stub Site">
+</head>
+<body>Body text</body>
+</html>`;
+
+// Stub server on loopback; routes are registered per test
+const routes = new Map();
+let bytesSent = 0;
+const server = http.createServer((req, res) => {
+  const handler = routes.get(req.url);
+  if (handler) {
+    handler(req, res);
+  } else {
+    res.writeHead(404).end();
+  }
+});
+
+let port;
+let origin;
+
+// The stub is reached through fake hostnames: preview.test is allowed, internal.test stands in
+// for a private address
+const overrides = () => ({
+  lookup: async (hostname) => {
+    if (hostname === 'preview.test') return [{ address: '127.0.0.1', family: 4 }];
+    if (hostname === 'internal.test') return [{ address: '127.0.0.2', family: 4 }];
+    throw new Error(`Unknown host ${hostname}`);
+  },
+  isAllowedAddress: address => address === '127.0.0.1',
+  allowedPorts: [String(port)]
+});
+
+test.before(async () => {
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  port = server.address().port;
+  origin = `http://preview.test:${port}`;
+});
+
+test.after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+test.beforeEach(() => {
+  routes.clear();
+  bytesSent = 0;
+});
+
+test('reads OpenGraph metadata and resolves relative image URLs', async () => {
+  routes.set('/article', (req, res) => {
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' }).end(OG_PAGE);
+  });
+
+  const preview = await fetchLinkPreview(`${origin}/article`, overrides());
+
+  assert.deepEqual(preview, {
+    url: `${origin}/article`,
+    title: 'Launch & Learn',
+    description: 'Everything about the launch',
+    image_url: `${origin}/images/cover.png`,
+    site_name: 'Stub Site'
+  });
+});
+
+test('falls back to the title tag and host name', async () => {
+  routes.set('/plain', (req, res) => {
+    res.writeHead(200, { 'Content-Type': 'text/html' }).end('<html><head><title>Plain page</title></head></html>');
+  });
+
+  const preview = await fetchLinkPreview(`${origin}/plain`, overrides());
+
+  assert.equal(preview.title, 'Plain page');
+  assert.equal(preview.description, null);
+  assert.equal(preview.image_url, null);
+  assert.equal(preview.site_name, 'preview.test');
+});
+
+test('follows redirects and keeps the original URL', async () => {
+  routes.set('/short', (req, res) => res.writeHead(301, { Location: '/middle' }).end());
+  routes.set('/middle', (req, res) => res.writeHead(302, { Location: `${origin}/article` }).end());
+  routes.set('/article', (req, res) => {
+    res.writeHead(200, { 'Content-Type': 'text/html' }).end(OG_PAGE);
+  });
+
+  const preview = await fetchLinkPreview(`${origin}/short`, overrides());
+
+  assert.equal(preview.url, `${origin}/short`);
+  assert.equal(preview.title, 'Launch & Learn');
+});
+
+test('refuses redirects to a non-public address', async () => {
+  routes.set('/escape', (req, res) => {
+    res.writeHead(302, { Location: `http://internal.test:${port}/admin` }).end();
+  });
+
+  await assert.rejects(fetchLinkPreview(`${origin}/escape`, overrides()), /non-public host internal\.test/);
+});
+
+test('gives up after too many redirects', async () => {
+  routes.set('/loop', (req, res) => res.writeHead(302, { Location: '/loop' }).end());
+
+  await assert.rejects(fetchLinkPreview(`${origin}/loop`, overrides()), /Too many redirects/);
+});
+
+test('refuses loopback addresses and non-standard ports by default', async () => {
+  routes.set('/article', (req, res) => {
+    res.writeHead(200, { 'Content-Type': 'text/html' }).end(OG_PAGE);
+  });
+
+  await assert.rejects(fetchLinkPreview(`http://127.0.0.1:${port}/article`), /Refusing to fetch/);
+  await assert.rejects(
+    fetchLinkPreview(`http://127.0.0.1:${port}/article`, { allowedPorts: [String(port)] }),
+    /non-public host/
+  );
+});
+
+test('refuses responses that are not HTML', async () => {
+  routes.set('/data.json', (req, res) => {
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end('{"title":"nope"}');
+  });
+
+  await assert.rejects(fetchLinkPreview(`${origin}/data.json`, overrides()), /Not an HTML page/);
+});
+
+test('stops reading oversized pages at the size limit', async () => {
+  routes.set('/huge', (req, res) => {
+    res.writeHead(200, { 'Content-Type': 'text/html' });
+    res.write('<html><head><meta property="og:title" content="Huge page">');
+
+    // Keep writing filler until the client hangs up
+    const filler = `<!-- ${'x'.repeat(16 * 1024)} -->`;
+    const pump = () => {
+      while (!res.destroyed && bytesSent < 20 * MAX_HTML_BYTES) {
+        bytesSent += filler.length;
+        if (!res.write(filler)) {
+          res.once('drain', pump);
+          return;
+        }
+      }
+    };
+    res.on('close', () => res.removeAllListeners('drain'));
+    pump();
+  });
+
+  const preview = await fetchLinkPreview(`${origin}/huge`, overrides());
+
+  assert.equal(preview.title, 'Huge page');
+  assert.ok(bytesSent < 20 * MAX_HTML_BYTES, `server sent ${bytesSent} bytes before the client stopped`);
+});
+
+test('times out when the server stops sending', async () => {
+  routes.set('/stalled', (req, res) => {
+    res.writeHead(200, { 'Content-Type': 'text/html' });
+    res.write('<html><head>');
+  });
+
+  await assert.rejects(
+    fetchLinkPreview(`${origin}/stalled`, { ...overrides(), timeoutMs: 200 }),
+    /timed out/
+  );
+});
+
+test('aborts a page that trickles in past the deadline', async () => {
+  let dripTimer;
+  routes.set('/drip', (req, res) => {
+    res.writeHead(200, { 'Content-Type': 'text/html' });
+    // One byte every 20 ms never trips the idle timeout
+    dripTimer = setInterval(() => res.write(' '), 20);
+    res.on('close', () => clearInterval(dripTimer));
+  });
+
+  const started = Date.now();
+  await assert.rejects(
+    fetchLinkPreview(`${origin}/drip`, { ...overrides(), timeoutMs: 1000, deadlineMs: 300 }),
+    /took too long/
+  );
+  clearInterval(dripTimer);
+
+  assert.ok(Date.now() - started < 1000, 'the deadline, not the idle timeout, ended the request');
+});
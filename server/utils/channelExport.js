@@ -0,0 +1,242 @@
+// Supported export formats
+const EXPORT_FORMATS = {
+  json: { contentType: 'application/json; charset=utf-8', extension: 'json' },
+  markdown: { contentType: 'text/markdown; charset=utf-8', extension: 'md' },
+  html: { contentType: 'text/html; charset=utf-8', extension: 'html' }
+};
+
+/**
+ * Formats a timestamp the same way in every export, independent of the server's locale
+ * @param {string} timestamp - ISO timestamp
+ * @returns {string} - e.g. "2025-06-30 14:03 UTC"
+ */
+function formatTimestamp(timestamp) {
+  return `${new Date(timestamp).toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+/**
+ * Escapes text for use in HTML element content and attribute values
+ * @param {string} text - Raw text
+ * @returns {string} - Escaped text
+ */
+function escapeHtml(text) {
+  return String(text ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Builds the export record of a message
+ * @param {Object} message - Message row with its sender profile
+ * @param {Object[]} attachments - file_attachments rows linked to the message
+ * @returns {Object} - Self-contained message record
+ */
+function toExportMessage(message, attachments) {
+  const isAssistant = message.type === 'ai_task_creation' || message.type === 'ai_summary';
+  const deleted = !!message.deleted_at;
+
+  return {
+    id: message.id,
+    sent_at: message.created_at,
+    sender: {
+      id: message.sender_id,
+      name: isAssistant ? 'AI Assistant' : message.sender?.full_name || message.sender?.username || 'Unknown User',
+      username: isAssistant ? null : message.sender?.username || null
+    },
+    type: message.type,
+    content: deleted ? null : message.content,
+    edited_at: message.edited_at || null,
+    deleted_at: message.deleted_at || null,
+    thread_parent_id: message.thread_parent_id || null,
+    reply_count: message.reply_count || 0,
+    reactions: (message.reactions || []).map(reaction => ({
+      emoji: reaction.emoji,
+      count: reaction.count,
+      users: reaction.user_names || []
+    })),
+    attachments: attachments.map(attachment => ({
+      id: attachment.id,
+      filename: attachment.original_filename,
+      mime_type: attachment.mime_type,
+      size: attachment.file_size,
+      uploaded_at: attachment.created_at
+    })),
+    poll: message.metadata?.poll || null,
+    link_previews: message.metadata?.link_previews || []
+  };
+}
+
+/**
+ * Describes the attachments and reactions of a message as short text lines
+ * @param {Object} record - Export record from toExportMessage
+ * @returns {{attachments: string[], reactions: string|null}}
+ */
+function describeExtras(record) {
+  return {
+    attachments: record.attachments.map(attachment =>
+      `${attachment.filename} (${attachment.mime_type}, ${Math.max(1, Math.round(attachment.size / 1024))} KB)`
+    ),
+    reactions: record.reactions.length > 0
+      ? record.reactions.map(reaction => `${reaction.emoji} ${reaction.count}`).join('  ')
+      : null
+  };
+}
+
+/**
+ * Writes the body text of a poll, which is stored in metadata rather than content
+ * @param {Object} poll - metadata.poll of a poll message
+ * @returns {string[]} - Question and one line per option with its vote count
+ */
+function describePoll(poll) {
+  const counts = Object.fromEntries((poll.results || []).map(result => [result.option_id, result.count]));
+  return [
+    `Poll: ${poll.question}${poll.closed_at ? ' (closed)' : ''}`,
+    ...(poll.options || []).map(option => `- ${option.text}: ${counts[option.id] || 0}`)
+  ];
+}
+
+/**
+ * Creates a streaming writer for a channel export. Messages are written in batches as they are
+ * read, so large channels are never held in memory at once.
+ * @param {'json'|'markdown'|'html'} format - Output format
+ * @param {(chunk: string) => void} write - Writes a chunk to the response
+ * @param {{channel: Object, from: string|null, to: string, exportedAt: string, exportedBy: string}} details
+ * @returns {{begin: () => void, writeMessages: (records: Object[]) => void, end: () => void, fail: (reason: string) => void}}
+ */
+function createExportWriter(format, write, details) {
+  const { channel, from, to, exportedAt, exportedBy } = details;
+  const channelLabel = channel.type === 'dm' ? channel.name : `#${channel.name}`;
+  const rangeLabel = `${from ? formatTimestamp(from) : 'the beginning'} to ${formatTimestamp(to)}`;
+  let count = 0;
+
+  if (format === 'json') {
+    return {
+      begin: () => write(`{"channel":${JSON.stringify({
+        id: channel.id,
+        name: channel.name,
+        type: channel.type
+      })},"range":${JSON.stringify({ from, to })},"exported_at":${JSON.stringify(exportedAt)},"exported_by":${JSON.stringify(exportedBy)},"messages":[`),
+      writeMessages: (records) => {
+        for (const record of records) {
+          write(`${count++ > 0 ? ',' : ''}\n${JSON.stringify(record)}`);
+        }
+      },
+      end: () => write(`\n],"message_count":${count},"complete":true}\n`),
+      fail: (reason) => write(`\n],"message_count":${count},"complete":false,"error":${JSON.stringify(`Export interrupted: ${reason}`)}}\n`)
+    };
+  }
+
+  if (format === 'markdown') {
+    return {
+      begin: () => write(
+        `# ${channelLabel}\n\n` +
+        `Messages from ${rangeLabel}. Exported by ${exportedBy} on ${formatTimestamp(exportedAt)}.\n`
+      ),
+      writeMessages: (records) => {
+        for (const record of records) {
+          count++;
+          const extras = describeExtras(record);
+          const lines = [
+            '',
+            '---',
+            '',
+            `**${record.sender.name}** · ${formatTimestamp(record.sent_at)}` +
+              `${record.thread_parent_id ? ' · reply in thread' : ''}${record.edited_at && !record.deleted_at ? ' · edited' : ''}`,
+            ''
+          ];
+
+          if (record.deleted_at) {
+            lines.push('_This message was deleted._');
+          } else if (record.poll) {
+            lines.push(...describePoll(record.poll));
+          } else {
+            lines.push(record.content || '');
+          }
+
+          if (extras.attachments.length > 0) {
+            lines.push('', 'Attachments:', ...extras.attachments.map(attachment => `- ${attachment}`));
+          }
+          if (extras.reactions) {
+            lines.push('', `Reactions: ${extras.reactions}`);
+          }
+
+          write(`${lines.join('\n')}\n`);
+        }
+      },
+      end: () => write(`\n---\n\n${count} ${count === 1 ? 'message' : 'messages'}\n`),
+      fail: (reason) => write(
+        `\n---\n\n**Export incomplete:** it was interrupted after ${count} ${count === 1 ? 'message' : 'messages'} (${reason}). ` +
+        'Messages after this point are missing.\n'
+      )
+    };
+  }
+
+  return {
+    begin: () => write(`<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(channelLabel)} transcript</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 760px; margin: 2rem auto; padding: 0 1rem; color: #1f2937; }
+  header { border-bottom: 2px solid #d4af37; margin-bottom: 1.5rem; }
+  .meta { color: #6b7280; font-size: 0.85rem; }
+  .message { border-bottom: 1px solid #e5e7eb; padding: 0.75rem 0; }
+  .message.reply { margin-left: 1.5rem; }
+  .sender { font-weight: 600; }
+  .content { white-space: pre-wrap; word-wrap: break-word; margin-top: 0.25rem; }
+  .deleted { font-style: italic; color: #9ca3af; }
+  .error { color: #b91c1c; border-top: 2px solid #b91c1c; margin-top: 1rem; }
+  ul { margin: 0.25rem 0; padding-left: 1.25rem; font-size: 0.9rem; }
+</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(channelLabel)}</h1>
+<p class="meta">Messages from ${escapeHtml(rangeLabel)}. Exported by ${escapeHtml(exportedBy)} on ${escapeHtml(formatTimestamp(exportedAt))}.</p>
+</header>
+<main>
+`),
+    writeMessages: (records) => {
+      for (const record of records) {
+        count++;
+        const extras = describeExtras(record);
+        const body = record.deleted_at
+          ? '<div class="content deleted">This message was deleted.</div>'
+          : `<div class="content">${escapeHtml(record.poll ? describePoll(record.poll).join('\n') : record.content)}</div>`;
+
+        write(
+          `<article class="message${record.thread_parent_id ? ' reply' : ''}" id="message-${escapeHtml(record.id)}">\n` +
+          `<div><span class="sender">${escapeHtml(record.sender.name)}</span> <span class="meta">${escapeHtml(formatTimestamp(record.sent_at))}` +
+          `${record.thread_parent_id ? ' · reply in thread' : ''}${record.edited_at && !record.deleted_at ? ' · edited' : ''}</span></div>\n` +
+          `${body}\n` +
+          (extras.attachments.length > 0
+            ? `<ul>${extras.attachments.map(attachment => `<li>${escapeHtml(attachment)}</li>`).join('')}</ul>\n`
+            : '') +
+          (extras.reactions ? `<div class="meta">${escapeHtml(extras.reactions)}</div>\n` : '') +
+          '</article>\n'
+        );
+      }
+    },
+    end: () => write(`</main>
+<footer class="meta"><p>${count} ${count === 1 ? 'message' : 'messages'}</p></footer>
+</body>
+</html>
+`),
+    fail: (reason) => write(`</main>
+<footer class="error"><p><strong>Export incomplete:</strong> it was interrupted after ${count} ${count === 1 ? 'message' : 'messages'} (${escapeHtml(reason)}). Messages after this point are missing.</p></footer>
+</body>
+</html>
+`)
+  };
+}
+
+module.exports = {
+  EXPORT_FORMATS,
+  toExportMessage,
+  createExportWriter
+};
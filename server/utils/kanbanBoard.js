@@ -0,0 +1,100 @@
+// Task statuses a board column can map to, in workflow order
+const TASK_STATUSES = ['backlog', 'todo', 'in_progress', 'in_review', 'blocked', 'completed', 'cancelled'];
+
+// Board limits
+const MAX_BOARD_COLUMNS = 12;
+const MAX_COLUMN_TITLE_LENGTH = 40;
+const MAX_WIP_LIMIT = 999;
+
+// Columns used until a user or project saves its own configuration
+const DEFAULT_BOARD_COLUMNS = [
+  { id: 'backlog', title: 'Backlog', status: 'backlog', wip_limit: null },
+  { id: 'todo', title: 'To Do', status: 'todo', wip_limit: null },
+  { id: 'in_progress', title: 'In Progress', status: 'in_progress', wip_limit: null },
+  { id: 'in_review', title: 'In Review', status: 'in_review', wip_limit: null },
+  { id: 'completed', title: 'Done', status: 'completed', wip_limit: null }
+];
+
+// Digits of task ranks, in byte order so ranks sort the same in Postgres (C collation) and JavaScript
+const RANK_DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+const RANK_PATTERN = /^[0-9A-Za-z]*[1-9A-Za-z]$/;
+
+/**
+ * Creates a rank that sorts strictly between two others. Generated ranks never end in the lowest
+ * digit, so there is always room for another rank below them.
+ * @param {string|null} before - Rank of the task above, or null for the top of the column
+ * @param {string|null} after - Rank of the task below, or null for the bottom of the column
+ * @returns {string} - New rank
+ */
+function rankBetween(before, after) {
+  let upper = after;
+  let rank = '';
+
+  for (let i = 0; ; i++) {
+    const low = before && i < before.length ? RANK_DIGITS.indexOf(before[i]) : 0;
+    const high = upper && i < upper.length ? RANK_DIGITS.indexOf(upper[i]) : RANK_DIGITS.length;
+
+    if (high - low > 1) {
+      return rank + RANK_DIGITS[Math.floor((low + high) / 2)];
+    }
+
+    rank += RANK_DIGITS[low];
+    // Once the prefix is below the upper rank, any longer rank with this prefix is too
+    if (high > low) upper = null;
+  }
+}
+
+/**
+ * Validates board columns sent by a client and returns them in the stored shape
+ * @param {Object[]} columns - Columns with title, status and an optional wip_limit
+ * @returns {{columns?: Object[], error?: string}} - Normalized columns, or the reason they are invalid
+ */
+function normalizeBoardColumns(columns) {
+  if (!Array.isArray(columns) || columns.length === 0) {
+    return { error: 'A board needs at least one column' };
+  }
+
+  if (columns.length > MAX_BOARD_COLUMNS) {
+    return { error: `A board can have at most ${MAX_BOARD_COLUMNS} columns` };
+  }
+
+  const normalized = [];
+  const seenStatuses = new Set();
+
+  for (const column of columns) {
+    const title = typeof column?.title === 'string' ? column.title.trim() : '';
+    if (!title || title.length > MAX_COLUMN_TITLE_LENGTH) {
+      return { error: `Column titles must be 1-${MAX_COLUMN_TITLE_LENGTH} characters` };
+    }
+
+    if (!TASK_STATUSES.includes(column.status)) {
+      return { error: `Column "${title}" has an invalid status` };
+    }
+
+    // One column per status, so dropping a card on a column is never ambiguous or lossy
+    if (seenStatuses.has(column.status)) {
+      return { error: `Only one column can show the "${column.status}" status` };
+    }
+    seenStatuses.add(column.status);
+
+    let wipLimit = null;
+    if (column.wip_limit !== null && column.wip_limit !== undefined && column.wip_limit !== '') {
+      wipLimit = Number(column.wip_limit);
+      if (!Number.isInteger(wipLimit) || wipLimit < 1 || wipLimit > MAX_WIP_LIMIT) {
+        return { error: `WIP limits must be whole numbers between 1 and ${MAX_WIP_LIMIT}` };
+      }
+    }
+
+    normalized.push({ id: column.status, title, status: column.status, wip_limit: wipLimit });
+  }
+
+  return { columns: normalized };
+}
+
+module.exports = {
+  TASK_STATUSES,
+  DEFAULT_BOARD_COLUMNS,
+  RANK_PATTERN,
+  rankBetween,
+  normalizeBoardColumns
+};
@@ -0,0 +1,316 @@
+const http = require('http');
+const https = require('https');
+const dns = require('dns');
+const net = require('net');
+
+// Fetch limits for link previews
+const MAX_PREVIEW_URLS = 3;
+// The idle timeout catches servers that stop sending; the deadline catches servers that send
+// a byte at a time and would otherwise keep a request open indefinitely
+const FETCH_TIMEOUT_MS = 5000;
+const FETCH_DEADLINE_MS = 10000;
+const MAX_REDIRECTS = 3;
+const MAX_HTML_BYTES = 512 * 1024;
+const ALLOWED_PORTS = ['', '80', '443'];
+const USER_AGENT = 'SimAllyBot/1.0 (link preview)';
+
+const URL_PATTERN = /https?:\/\/[^\s<>()"'`]+/gi;
+
+/**
+ * Finds the distinct http(s) URLs in a chat message
+ * @param {string} content - Message text
+ * @returns {string[]} - Up to MAX_PREVIEW_URLS URLs in order of appearance
+ */
+function extractUrls(content) {
+  const urls = [];
+
+  for (const match of (content || '').match(URL_PATTERN) || []) {
+    // Sentence punctuation right after a link is not part of it
+    const candidate = match.replace(/[.,;:!?*_~\]]+$/, '');
+    try {
+      const url = new URL(candidate).toString();
+      if (!urls.includes(url)) urls.push(url);
+    } catch {
+      // Not a valid URL
+    }
+    if (urls.length >= MAX_PREVIEW_URLS) break;
+  }
+
+  return urls;
+}
+
+/**
+ * Checks whether an IP address belongs to a private, loopback, link-local or otherwise
+ * non-public range that the server must never be made to request
+ * @param {string} address - IPv4 or IPv6 address
+ * @returns {boolean} - True if the address is not publicly routable
+ */
+function isPrivateAddress(address) {
+  if (net.isIPv4(address)) {
+    const [a, b, c] = address.split('.').map(Number);
+    return a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 0 && c === 0) ||
+      (a === 192 && b === 168) ||
+      (a === 198 && (b === 18 || b === 19)) ||
+      a >= 224;
+  }
+
+  if (net.isIPv6(address)) {
+    const normalized = address.toLowerCase();
+
+    // IPv4-mapped addresses, in dotted or hex form
+    const mappedDotted = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mappedDotted) return isPrivateAddress(mappedDotted[1]);
+    const mappedHex = normalized.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (mappedHex) {
+      const high = parseInt(mappedHex[1], 16);
+      const low = parseInt(mappedHex[2], 16);
+      return isPrivateAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+    }
+
+    return normalized === '::' ||
+      normalized === '::1' ||
+      /^f[cd]/.test(normalized) ||
+      /^fe[89ab]/.test(normalized) ||
+      normalized.startsWith('ff') ||
+      normalized.startsWith('64:ff9b:') ||
+      normalized.startsWith('2001:db8:');
+  }
+
+  return true;
+}
+
+/**
+ * Resolves a hostname with the system resolver
+ * @param {string} hostname - Hostname or IP literal, without brackets
+ * @returns {Promise<{address: string, family: number}[]>} - Every address the name resolves to
+ */
+function lookupAddresses(hostname) {
+  return dns.promises.lookup(hostname, { all: true, verbatim: true });
+}
+
+/**
+ * Resolves a hostname and rejects it unless every address it resolves to is allowed
+ * @param {string} hostname - Hostname or IP literal from a URL
+ * @param {Object} options - Resolver and address check from fetchLinkPreview
+ * @returns {Promise<{address: string, family: number}>} - The address to connect to
+ */
+async function resolvePublicAddress(hostname, options) {
+  const addresses = await options.lookup(hostname.replace(/^\[|\]$/g, ''));
+
+  if (addresses.length === 0 || addresses.some(entry => !options.isAllowedAddress(entry.address))) {
+    throw new Error(`Refusing to fetch non-public host ${hostname}`);
+  }
+
+  return addresses[0];
+}
+
+/**
+ * Requests a page from an address that has already been checked
+ * @param {URL} url - Page to request
+ * @param {{address: string, family: number}} resolved - Vetted address for the URL's host
+ * @param {{timeoutMs: number, deadline: number}} limits - Idle timeout and the time by which the whole fetch must be done
+ * @returns {Promise<{redirect?: URL, html?: string}>} - Redirect target or the start of the HTML
+ */
+function requestPage(url, resolved, limits) {
+  return new Promise((resolvePromise, rejectPromise) => {
+    const client = url.protocol === 'https:' ? https : http;
+    let deadlineTimer = null;
+
+    const resolve = (value) => {
+      clearTimeout(deadlineTimer);
+      resolvePromise(value);
+    };
+    const reject = (error) => {
+      clearTimeout(deadlineTimer);
+      rejectPromise(error);
+    };
+
+    const req = client.request(url, {
+      method: 'GET',
+      headers: {
+        'User-Agent': USER_AGENT,
+        Accept: 'text/html,application/xhtml+xml'
+      },
+      // Connect to the vetted address so a second DNS answer cannot point somewhere private
+      lookup: (_hostname, options, callback) => {
+        if (options && options.all) {
+          callback(null, [resolved]);
+        } else {
+          callback(null, resolved.address, resolved.family);
+        }
+      },
+      timeout: limits.timeoutMs
+    }, (res) => {
+      if (res.statusCode >= 300 && res.statusCode < 400 && res.headers.location) {
+        res.resume();
+        resolve({ redirect: new URL(res.headers.location, url) });
+        return;
+      }
+
+      if (res.statusCode < 200 || res.statusCode >= 300) {
+        res.resume();
+        reject(new Error(`Unexpected status ${res.statusCode}`));
+        return;
+      }
+
+      const contentType = String(res.headers['content-type'] || '');
+      if (!contentType.includes('text/html') && !contentType.includes('application/xhtml+xml')) {
+        res.resume();
+        reject(new Error('Not an HTML page'));
+        return;
+      }
+
+      // Metadata lives in the head, so stop reading once it is complete or the size limit is hit
+      const chunks = [];
+      let size = 0;
+      const finish = () => resolve({ html: Buffer.concat(chunks).toString('utf8') });
+
+      res.on('data', (chunk) => {
+        chunks.push(chunk);
+        size += chunk.length;
+        if (size >= MAX_HTML_BYTES || chunk.toString('utf8').toLowerCase().includes('</head>')) {
+          res.destroy();
+          finish();
+        }
+      });
+      res.on('end', finish);
+      res.on('error', reject);
+    });
+
+    req.on('timeout', () => req.destroy(new Error('Link preview request timed out')));
+    req.on('error', reject);
+
+    // Destroying the request also aborts a response that is still being read
+    deadlineTimer = setTimeout(() => {
+      const error = new Error('Link preview request took too long');
+      req.destroy(error);
+      reject(error);
+    }, Math.max(0, limits.deadline - Date.now()));
+
+    req.end();
+  });
+}
+
+/**
+ * Decodes the HTML entities that commonly appear in meta tags
+ * @param {string} text - Attribute or element text
+ * @returns {string} - Decoded text
+ */
+function decodeEntities(text) {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_match, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_match, decimal) => String.fromCodePoint(parseInt(decimal, 10)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Reads OpenGraph, Twitter card and standard metadata from an HTML page
+ * @param {string} html - Start of the page
+ * @param {URL} pageUrl - Final URL of the page, for resolving relative image URLs
+ * @returns {{title: string, description: string|null, image_url: string|null, site_name: string}|null}
+ */
+function parsePreview(html, pageUrl) {
+  const meta = {};
+
+  for (const tag of html.match(/<meta\s[^>]*>/gi) || []) {
+    const attributes = {};
+    for (const [, name, , doubleQuoted, singleQuoted, bare] of tag.matchAll(/([\w:-]+)\s*=\s*("([^"]*)"|'([^']*)'|([^\s"'>]+))/g)) {
+      attributes[name.toLowerCase()] = doubleQuoted ?? singleQuoted ?? bare;
+    }
+
+    const key = (attributes.property || attributes.name || '').toLowerCase();
+    if (key && attributes.content && !(key in meta)) {
+      meta[key] = decodeEntities(attributes.content).trim();
+    }
+  }
+
+  const titleTag = html.match(/<title[^>]*>([^<]*)<\/title>/i);
+  const title = meta['og:title'] || meta['twitter:title'] || (titleTag ? decodeEntities(titleTag[1]).trim() : '');
+  const description = meta['og:description'] || meta['twitter:description'] || meta.description || null;
+
+  if (!title) return null;
+
+  let imageUrl = null;
+  const image = meta['og:image'] || meta['twitter:image'];
+  if (image) {
+    try {
+      const resolvedImage = new URL(image, pageUrl);
+      if (resolvedImage.protocol === 'https:' || resolvedImage.protocol === 'http:') {
+        imageUrl = resolvedImage.toString();
+      }
+    } catch {
+      // Ignore malformed image URLs
+    }
+  }
+
+  return {
+    title: title.slice(0, 200),
+    description: description ? description.slice(0, 300) : null,
+    image_url: imageUrl,
+    site_name: (meta['og:site_name'] || pageUrl.hostname).slice(0, 100)
+  };
+}
+
+/**
+ * Fetches preview metadata for a URL, following a few redirects. Every hop must use http(s) on a
+ * standard port and resolve only to public addresses.
+ * @param {string} rawUrl - URL found in a message
+ * @param {Object} [overrides] - Replacements for the network checks and limits, used by tests
+ * @param {(hostname: string) => Promise<{address: string, family: number}[]>} [overrides.lookup] - Resolves a hostname
+ * @param {(address: string) => boolean} [overrides.isAllowedAddress] - Whether an address may be requested
+ * @param {string[]} [overrides.allowedPorts] - Ports that may be requested, '' meaning the protocol default
+ * @param {number} [overrides.timeoutMs] - Idle timeout of each request
+ * @param {number} [overrides.deadlineMs] - Time limit for the whole fetch, redirects included
+ * @returns {Promise<{url: string, title: string, description: string|null, image_url: string|null, site_name: string}|null>}
+ */
+async function fetchLinkPreview(rawUrl, overrides = {}) {
+  const options = {
+    lookup: lookupAddresses,
+    isAllowedAddress: address => !isPrivateAddress(address),
+    allowedPorts: ALLOWED_PORTS,
+    timeoutMs: FETCH_TIMEOUT_MS,
+    deadlineMs: FETCH_DEADLINE_MS,
+    ...overrides
+  };
+  const limits = { timeoutMs: options.timeoutMs, deadline: Date.now() + options.deadlineMs };
+  let url = new URL(rawUrl);
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    if ((url.protocol !== 'http:' && url.protocol !== 'https:') || !options.allowedPorts.includes(url.port)) {
+      throw new Error(`Refusing to fetch ${url.protocol}//${url.host}`);
+    }
+    if (url.username || url.password) {
+      throw new Error('Refusing to fetch URLs with credentials');
+    }
+
+    const resolved = await resolvePublicAddress(url.hostname, options);
+    const result = await requestPage(url, resolved, limits);
+
+    if (result.redirect) {
+      url = result.redirect;
+      continue;
+    }
+
+    const preview = parsePreview(result.html, url);
+    return preview ? { url: rawUrl, ...preview } : null;
+  }
+
+  throw new Error('Too many redirects');
+}
+
+module.exports = {
+  MAX_HTML_BYTES,
+  extractUrls,
+  isPrivateAddress,
+  fetchLinkPreview
+};
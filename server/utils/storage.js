@@ -0,0 +1,242 @@
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const { createClient } = require('@supabase/supabase-js');
+require('dotenv').config();
+
+// Storage driver: 'supabase' (default) or 'local' for self-hosted deployments
+const STORAGE_DRIVER = process.env.STORAGE_DRIVER || 'supabase';
+const STORAGE_BUCKET = process.env.STORAGE_BUCKET || 'workspace-attachments';
+const LOCAL_STORAGE_DIR = process.env.LOCAL_STORAGE_DIR || path.join(__dirname, '..', 'uploads');
+
+// Upload limits
+const MAX_ATTACHMENT_SIZE = parseInt(process.env.MAX_ATTACHMENT_SIZE, 10) || 25 * 1024 * 1024;
+const ALLOWED_MIME_PREFIXES = ['image/', 'video/', 'audio/', 'text/'];
+const ALLOWED_MIME_TYPES = [
+  'application/pdf',
+  'application/zip',
+  'application/json',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-powerpoint',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+];
+
+// Leading bytes of the binary formats accepted as attachments, as [offset, hex] pairs
+const PNG = [[0, '89504e470d0a1a0a']];
+const JPEG = [[0, 'ffd8ff']];
+const GIF = [[0, '47494638']];
+const WEBP = [[0, '52494646'], [8, '57454250']];
+const BMP = [[0, '424d']];
+const TIFF_LE = [[0, '49492a00']];
+const TIFF_BE = [[0, '4d4d002a']];
+const ICO = [[0, '00000100']];
+const ISO_MEDIA = [[4, '66747970']];
+const MATROSKA = [[0, '1a45dfa3']];
+const OGG = [[0, '4f676753']];
+const WAV = [[0, '52494646'], [8, '57415645']];
+const AVI = [[0, '52494646'], [8, '41564920']];
+const MPEG_VIDEO = [[0, '000001ba']];
+const ID3 = [[0, '494433']];
+const MP3_FRAMES = ['fffb', 'fff3', 'fff2', 'ffe3'].map(hex => [[0, hex]]);
+const ADTS_FRAMES = ['fff1', 'fff9'].map(hex => [[0, hex]]);
+const FLAC = [[0, '664c6143']];
+const PDF = [[0, '25504446']];
+const ZIP = [[0, '504b0304']];
+const OLE = [[0, 'd0cf11e0a1b11ae1']];
+
+// Signatures an upload must start with for each binary type; types missing here are refused
+const CONTENT_SIGNATURES = {
+  'image/png': [PNG],
+  'image/jpeg': [JPEG],
+  'image/jpg': [JPEG],
+  'image/gif': [GIF],
+  'image/webp': [WEBP],
+  'image/bmp': [BMP],
+  'image/tiff': [TIFF_LE, TIFF_BE],
+  'image/x-icon': [ICO],
+  'image/vnd.microsoft.icon': [ICO],
+  'image/avif': [ISO_MEDIA],
+  'image/heic': [ISO_MEDIA],
+  'image/heif': [ISO_MEDIA],
+  'video/mp4': [ISO_MEDIA],
+  'video/quicktime': [ISO_MEDIA],
+  'video/webm': [MATROSKA],
+  'video/x-matroska': [MATROSKA],
+  'video/ogg': [OGG],
+  'video/x-msvideo': [AVI],
+  'video/mpeg': [MPEG_VIDEO],
+  'audio/mpeg': [ID3, ...MP3_FRAMES],
+  'audio/mp3': [ID3, ...MP3_FRAMES],
+  'audio/mp4': [ISO_MEDIA],
+  'audio/x-m4a': [ISO_MEDIA],
+  'audio/aac': [ID3, ...ADTS_FRAMES],
+  'audio/wav': [WAV],
+  'audio/x-wav': [WAV],
+  'audio/wave': [WAV],
+  'audio/ogg': [OGG],
+  'audio/webm': [MATROSKA],
+  'audio/flac': [FLAC],
+  'audio/x-flac': [FLAC],
+  'application/pdf': [PDF],
+  'application/zip': [ZIP],
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': [ZIP],
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': [ZIP],
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': [ZIP],
+  'application/msword': [OLE],
+  'application/vnd.ms-excel': [OLE],
+  'application/vnd.ms-powerpoint': [OLE]
+};
+
+// Text types (SVG is XML) carry no signature; they are only checked for binary content
+const TEXT_MIME_TYPES = ['application/json', 'image/svg+xml'];
+const TEXT_SNIFF_BYTES = 8192;
+
+/**
+ * Checks whether a MIME type may be uploaded as an attachment
+ * @param {string} mimeType - MIME type reported by the client
+ * @returns {boolean} - True if the type is allowed
+ */
+function isAllowedMimeType(mimeType) {
+  if (!mimeType) return false;
+  const normalized = mimeType.toLowerCase();
+  return ALLOWED_MIME_PREFIXES.some(prefix => normalized.startsWith(prefix)) ||
+    ALLOWED_MIME_TYPES.includes(normalized);
+}
+
+/**
+ * Checks that the uploaded bytes really are of the type the client claimed, so a file cannot
+ * be stored (and later served) as an image just by sending an image MIME type
+ * @param {string} mimeType - Allowed MIME type reported by the client
+ * @param {Buffer} buffer - File content
+ * @returns {boolean} - True if the content matches the type
+ */
+function matchesFileContent(mimeType, buffer) {
+  const normalized = (mimeType || '').toLowerCase();
+
+  if (normalized.startsWith('text/') || TEXT_MIME_TYPES.includes(normalized)) {
+    return !buffer.subarray(0, TEXT_SNIFF_BYTES).includes(0);
+  }
+
+  const signatures = CONTENT_SIGNATURES[normalized] || [];
+  return signatures.some(signature =>
+    signature.every(([offset, hex]) => {
+      const bytes = Buffer.from(hex, 'hex');
+      return buffer.length >= offset + bytes.length &&
+        buffer.subarray(offset, offset + bytes.length).equals(bytes);
+    })
+  );
+}
+
+/**
+ * Builds a unique storage key for an uploaded file
+ * @param {string} userId - ID of the uploader
+ * @param {string} originalFilename - Filename supplied by the client
+ * @returns {string} - Storage key, e.g. "<userId>/<random>.png"
+ */
+function buildStorageKey(userId, originalFilename) {
+  const extension = path.extname(originalFilename || '').toLowerCase().replace(/[^a-z0-9.]/g, '');
+  return `${userId}/${Date.now()}-${crypto.randomBytes(8).toString('hex')}${extension}`;
+}
+
+/**
+ * Storage adapter backed by a Supabase Storage bucket
+ */
+function createSupabaseStorage() {
+  const supabase = createClient(
+    process.env.VITE_SUPABASE_URL,
+    process.env.VITE_SUPABASE_SERVICE_ROLE_KEY
+  );
+  const bucket = supabase.storage.from(STORAGE_BUCKET);
+
+  return {
+    driver: 'supabase',
+
+    async upload(key, buffer, mimeType) {
+      const { error } = await bucket.upload(key, buffer, {
+        contentType: mimeType,
+        upsert: false
+      });
+      if (error) throw error;
+      return key;
+    },
+
+    async read(key) {
+      const { data, error } = await bucket.download(key);
+      if (error) throw error;
+      return Buffer.from(await data.arrayBuffer());
+    },
+
+    async remove(key) {
+      const { error } = await bucket.remove([key]);
+      if (error) throw error;
+    },
+
+    async getSignedUrl(key, { expiresIn = 3600, downloadName } = {}) {
+      const { data, error } = await bucket.createSignedUrl(key, expiresIn, downloadName ? { download: downloadName } : undefined);
+      if (error) throw error;
+      return data.signedUrl;
+    }
+  };
+}
+
+/**
+ * Storage adapter that keeps files on the local disk
+ */
+function createLocalStorage() {
+  const resolveKey = (key) => {
+    const filePath = path.resolve(LOCAL_STORAGE_DIR, key);
+    if (!filePath.startsWith(path.resolve(LOCAL_STORAGE_DIR) + path.sep)) {
+      throw new Error('Invalid storage key');
+    }
+    return filePath;
+  };
+
+  return {
+    driver: 'local',
+
+    async upload(key, buffer) {
+      const filePath = resolveKey(key);
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.writeFile(filePath, buffer, { flag: 'wx' });
+      return key;
+    },
+
+    async read(key) {
+      return fs.promises.readFile(resolveKey(key));
+    },
+
+    async remove(key) {
+      await fs.promises.rm(resolveKey(key), { force: true });
+    },
+
+    // Local files have no public URL; they are streamed by the API instead
+    async getSignedUrl() {
+      return null;
+    }
+  };
+}
+
+/**
+ * Creates the storage adapter configured by STORAGE_DRIVER
+ * @returns {Object} - Adapter exposing upload, read, remove and getSignedUrl
+ */
+function createStorage() {
+  if (STORAGE_DRIVER === 'local') {
+    return createLocalStorage();
+  }
+  if (STORAGE_DRIVER !== 'supabase') {
+    throw new Error(`Unknown storage driver: ${STORAGE_DRIVER}`);
+  }
+  return createSupabaseStorage();
+}
+
+module.exports = {
+  createStorage,
+  isAllowedMimeType,
+  matchesFileContent,
+  buildStorageKey,
+  MAX_ATTACHMENT_SIZE
+};
@@ -0,0 +1,89 @@
+const DEPENDENCY_TYPES = ['finish_to_start', 'start_to_start', 'finish_to_finish', 'start_to_finish'];
+
+// Statuses of a task that has been started; cancelled tasks no longer hold anything up
+const STARTED_STATUSES = ['in_progress', 'in_review', 'completed', 'cancelled'];
+const FINISHED_STATUSES = ['completed', 'cancelled'];
+
+// Statuses that count as starting or finishing work on a task
+const WORKING_STATUSES = ['in_progress', 'in_review'];
+
+/**
+ * Checks whether a predecessor has progressed far enough for a dependency to be met
+ * @param {string} dependencyType - One of DEPENDENCY_TYPES
+ * @param {string} predecessorStatus - Current status of the task depended on
+ * @returns {boolean} - True if the dependency no longer holds the task up
+ */
+function isDependencyMet(dependencyType, predecessorStatus) {
+  return dependencyType.startsWith('finish_')
+    ? FINISHED_STATUSES.includes(predecessorStatus)
+    : STARTED_STATUSES.includes(predecessorStatus);
+}
+
+/**
+ * Lists the dependencies that stop a task from moving to a status. Starting a task needs its
+ * *_to_start dependencies met; completing it needs all of them.
+ * @param {Object[]} dependencies - Dependencies of the task, each with a `predecessor` {id, title, status}
+ * @param {string} targetStatus - Status the task is moving to
+ * @returns {Object[]} - The unmet dependencies that apply to the move
+ */
+function getUnmetDependencies(dependencies, targetStatus) {
+  let applicable;
+  if (targetStatus === 'completed') {
+    applicable = dependencies;
+  } else if (WORKING_STATUSES.includes(targetStatus)) {
+    applicable = dependencies.filter(dependency => dependency.dependency_type.endsWith('_to_start'));
+  } else {
+    return [];
+  }
+
+  return applicable.filter(dependency =>
+    dependency.predecessor && !isDependencyMet(dependency.dependency_type, dependency.predecessor.status)
+  );
+}
+
+/**
+ * Checks whether adding "task depends on predecessor" would close a loop, i.e. whether the
+ * predecessor already depends on the task, directly or through other tasks
+ * @param {string} taskId - Task that would get the dependency
+ * @param {string} predecessorId - Task it would depend on
+ * @param {(taskIds: string[]) => Promise<Object[]>} loadDependencies - Loads the task_dependencies rows of tasks
+ * @returns {Promise<string[]|null>} - Task ids along the loop, from the predecessor back to the task, or null
+ */
+async function findDependencyCycle(taskId, predecessorId, loadDependencies) {
+  // Breadth-first walk up the dependency graph, remembering how each task was reached
+  const reachedFrom = new Map([[predecessorId, null]]);
+  let frontier = [predecessorId];
+
+  while (frontier.length > 0) {
+    const rows = await loadDependencies(frontier);
+    const next = [];
+
+    for (const row of rows) {
+      if (reachedFrom.has(row.depends_on_task_id)) continue;
+      reachedFrom.set(row.depends_on_task_id, row.task_id);
+
+      if (row.depends_on_task_id === taskId) {
+        const path = [taskId];
+        let current = row.task_id;
+        while (current) {
+          path.unshift(current);
+          current = reachedFrom.get(current);
+        }
+        return path;
+      }
+
+      next.push(row.depends_on_task_id);
+    }
+
+    frontier = next;
+  }
+
+  return null;
+}
+
+module.exports = {
+  DEPENDENCY_TYPES,
+  isDependencyMet,
+  getUnmetDependencies,
+  findDependencyCycle
+};
@@ -1,7 +1,13 @@
 const express = require('express');
 const cors = require('cors');
+const path = require('path');
 const { createClient } = require('@supabase/supabase-js');
 const WorkspaceProcessor = require('./workspace-processor');
+const { createStorage, isAllowedMimeType, matchesFileContent, buildStorageKey, MAX_ATTACHMENT_SIZE } = require('./utils/storage');
+const { extractUrls, fetchLinkPreview } = require('./utils/linkPreview');
+const { EXPORT_FORMATS, toExportMessage, createExportWriter } = require('./utils/channelExport');
+const { TASK_STATUSES, DEFAULT_BOARD_COLUMNS, RANK_PATTERN, rankBetween, normalizeBoardColumns } = require('./utils/kanbanBoard');
+const { DEPENDENCY_TYPES, getUnmetDependencies, findDependencyCycle } = require('./utils/taskDependencies');
 require('dotenv').config();
 
 const app = express();
@@ -24,6 +30,72 @@ const supabase = createClient(
 // Initialize workspace processor
 const workspaceProcessor = new WorkspaceProcessor();
 
+// Initialize attachment storage (Supabase Storage or local disk)
+const storage = createStorage();
+
+// Result types supported by workspace search
+const SEARCH_RESULT_TYPES = ['message', 'task', 'event', 'project', 'comment'];
+
+// Group DMs are meant for small conversations; larger groups should use a channel
+const MAX_DM_PARTICIPANTS = 8;
+
+// Scheduled messages can be queued up to a year ahead; due ones are dispatched every 30 seconds
+const MAX_SCHEDULE_AHEAD_MS = 365 * 24 * 60 * 60 * 1000;
+const SCHEDULED_DISPATCH_INTERVAL_MS = 30 * 1000;
+
+// Poll limits; polls past their closing time are closed on the same schedule as message dispatch
+const MAX_POLL_OPTIONS = 10;
+const MAX_POLL_QUESTION_LENGTH = 300;
+const MAX_POLL_OPTION_LENGTH = 100;
+const MAX_POLL_DURATION_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Link previews are cached per URL; failed fetches are retried sooner than successful ones expire
+const LINK_PREVIEW_TTL_MS = 24 * 60 * 60 * 1000;
+const LINK_PREVIEW_FAILURE_TTL_MS = 60 * 60 * 1000;
+
+// Retention policies are whole days up to ten years; expired history is purged hourly
+const MIN_RETENTION_DAYS = 1;
+const MAX_RETENTION_DAYS = 3650;
+const RETENTION_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Channel exports read messages in pages so long histories are streamed rather than buffered
+const EXPORT_PAGE_SIZE = 500;
+
+// Channel roles, from least to most privileged
+const CHANNEL_ROLES = ['member', 'admin', 'owner'];
+
+// Look up a user's role in a channel
+const getChannelMembership = async (channelId, userId) => {
+  const [{ data: channel }, { data: member }] = await Promise.all([
+    supabase.from('channels').select('id, name, type, created_by, announcement_only, legal_hold, archived_at').eq('id', channelId).maybeSingle(),
+    supabase.from('channel_members').select('role').eq('channel_id', channelId).eq('user_id', userId).maybeSingle()
+  ]);
+
+  const role = member?.role || null;
+
+  return {
+    channel,
+    role,
+    isMember: !!role,
+    isAdmin: role === 'admin' || role === 'owner',
+    isOwner: role === 'owner'
+  };
+};
+
+// Archived channels are read-only
+const isChannelArchived = async (channelId) => {
+  const { data: channel } = await supabase
+    .from('channels')
+    .select('archived_at')
+    .eq('id', channelId)
+    .maybeSingle();
+
+  return !!channel?.archived_at;
+};
+
+// Whether one channel role is strictly more privileged than another
+const outranks = (role, otherRole) => CHANNEL_ROLES.indexOf(role) > CHANNEL_ROLES.indexOf(otherRole);
+
 // Enhanced CORS configuration for production
 const corsOptions = {
   origin: function (origin, callback) {
@@ -153,14 +225,14 @@ app.post('/api/workspace/channels', async (req, res) => {
       });
     }
     
-    // Add creator as admin member
+    // Add creator as owner (the new-channel trigger may already have added them)
     const { error: memberError } = await supabase
       .from('channel_members')
-      .insert({
+      .upsert({
         channel_id: channel.id,
         user_id: userId,
-        role: 'admin'
-      });
+        role: 'owner'
+      }, { onConflict: 'channel_id,user_id' });
     
     if (memberError) {
       console.error('Error adding creator as member:', memberError);
@@ -179,6 +251,92 @@ app.post('/api/workspace/channels', async (req, res) => {
   }
 });
 
+// Start or reopen a direct message with one or more users
+app.post('/api/workspace/dms', async (req, res) => {
+  try {
+    const { userId, participantIds } = req.body;
+    
+    if (!userId || !Array.isArray(participantIds) || participantIds.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID and at least one participant are required'
+      });
+    }
+    
+    const allParticipantIds = [...new Set([userId, ...participantIds])];
+    
+    if (allParticipantIds.length < 2) {
+      return res.status(400).json({
+        success: false,
+        error: 'Choose someone to message'
+      });
+    }
+    
+    if (allParticipantIds.length > MAX_DM_PARTICIPANTS) {
+      return res.status(400).json({
+        success: false,
+        error: `Group messages can have at most ${MAX_DM_PARTICIPANTS} people`
+      });
+    }
+    
+    const { data: profiles, error: profilesError } = await supabase
+      .from('profiles')
+      .select('id, username, full_name')
+      .in('id', allParticipantIds);
+    
+    if (profilesError) {
+      console.error('Error fetching DM participants:', profilesError);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to start conversation'
+      });
+    }
+    
+    if (!profiles || profiles.length !== allParticipantIds.length) {
+      return res.status(404).json({
+        success: false,
+        error: 'One or more users were not found'
+      });
+    }
+    
+    const channelName = `DM: ${profiles
+      .map(profile => profile.full_name || profile.username)
+      .sort((a, b) => a.localeCompare(b))
+      .join(', ')}`;
+    
+    const { data: channelId, error } = await supabase.rpc('get_or_create_dm_channel', {
+      participant_ids: allParticipantIds,
+      created_by_param: userId,
+      channel_name: channelName
+    });
+    
+    if (error) {
+      console.error('Error creating DM channel:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to start conversation'
+      });
+    }
+    
+    const { data: channel } = await supabase
+      .from('channels')
+      .select('*')
+      .eq('id', channelId)
+      .single();
+    
+    res.json({
+      success: true,
+      channel
+    });
+  } catch (error) {
+    console.error('Error starting DM:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
 // Join channel with password support
 app.post('/api/workspace/channels/:channelId/join', async (req, res) => {
   try {
@@ -206,6 +364,13 @@ app.post('/api/workspace/channels/:channelId/join', async (req, res) => {
       });
     }
     
+    if (channel.type === 'dm') {
+      return res.status(403).json({
+        success: false,
+        error: 'Direct messages cannot be joined'
+      });
+    }
+    
     // Check password for private channels
     if (channel.type === 'private') {
       const channelPassword = channel.metadata?.password;
@@ -262,54 +427,88 @@ app.post('/api/workspace/channels/:channelId/join', async (req, res) => {
   }
 });
 
-// Leave channel
-app.post('/api/workspace/channels/:channelId/leave', async (req, res) => {
+// Invite links expire after at most 30 days and can be used at most 1000 times
+const MAX_INVITE_EXPIRY_HOURS = 24 * 30;
+const MAX_INVITE_USES = 1000;
+
+// Create an invite link for a channel
+app.post('/api/workspace/channels/:channelId/invites', async (req, res) => {
   try {
     const { channelId } = req.params;
-    const { userId } = req.body;
-    
+    const { userId, expiresInHours = 24 * 7, maxUses = null } = req.body;
+
     if (!userId) {
       return res.status(400).json({
         success: false,
         error: 'User ID is required'
       });
     }
-    
-    // Check if it's the general channel
-    const { data: channel } = await supabase
-      .from('channels')
-      .select('name')
-      .eq('id', channelId)
-      .single();
-    
-    if (channel?.name === 'general') {
+
+    if (expiresInHours !== null && (!Number.isInteger(expiresInHours) || expiresInHours < 1 || expiresInHours > MAX_INVITE_EXPIRY_HOURS)) {
       return res.status(400).json({
         success: false,
-        error: 'Cannot leave the general channel'
+        error: `Invites must expire within 1 to ${MAX_INVITE_EXPIRY_HOURS} hours`
       });
     }
-    
-    // Remove user from channel
-    const { error } = await supabase
-      .from('channel_members')
-      .delete()
-      .eq('channel_id', channelId)
-      .eq('user_id', userId);
-    
+
+    if (maxUses !== null && (!Number.isInteger(maxUses) || maxUses < 1 || maxUses > MAX_INVITE_USES)) {
+      return res.status(400).json({
+        success: false,
+        error: `Usage limit must be between 1 and ${MAX_INVITE_USES}`
+      });
+    }
+
+    const { channel, isMember } = await getChannelMembership(channelId, userId);
+
+    if (!channel) {
+      return res.status(404).json({
+        success: false,
+        error: 'Channel not found'
+      });
+    }
+
+    if (!isMember) {
+      return res.status(403).json({
+        success: false,
+        error: 'Only channel members can create invites'
+      });
+    }
+
+    if (channel.type === 'dm') {
+      return res.status(400).json({
+        success: false,
+        error: 'Direct messages do not support invite links'
+      });
+    }
+
+    const { data: invite, error } = await supabase
+      .from('channel_invites')
+      .insert({
+        channel_id: channelId,
+        created_by: userId,
+        expires_at: expiresInHours === null ? null : new Date(Date.now() + expiresInHours * 60 * 60 * 1000).toISOString(),
+        max_uses: maxUses
+      })
+      .select(`
+        *,
+        creator:profiles(full_name, username)
+      `)
+      .single();
+
     if (error) {
-      console.error('Error leaving channel:', error);
+      console.error('Error creating invite:', error);
       return res.status(500).json({
         success: false,
-        error: 'Failed to leave channel'
+        error: 'Failed to create invite'
       });
     }
-    
+
     res.json({
       success: true,
-      message: 'Successfully left channel'
+      invite
     });
   } catch (error) {
-    console.error('Error leaving channel:', error);
+    console.error('Error creating invite:', error);
     res.status(500).json({
       success: false,
       error: error.message
@@ -317,67 +516,59 @@ app.post('/api/workspace/channels/:channelId/leave', async (req, res) => {
   }
 });
 
-// Delete channel
-app.delete('/api/workspace/channels/:channelId', async (req, res) => {
+// List invites of a channel; admins see every invite, members only their own
+app.get('/api/workspace/channels/:channelId/invites', async (req, res) => {
   try {
     const { channelId } = req.params;
-    const { userId } = req.body;
-    
+    const { userId } = req.query;
+
     if (!userId) {
       return res.status(400).json({
         success: false,
         error: 'User ID is required'
       });
     }
-    
-    // Check if user is the creator of the channel
-    const { data: channel, error: channelError } = await supabase
-      .from('channels')
-      .select('created_by, name')
-      .eq('id', channelId)
-      .single();
-    
-    if (channelError || !channel) {
-      return res.status(404).json({
-        success: false,
-        error: 'Channel not found'
-      });
-    }
-    
-    if (channel.created_by !== userId) {
+
+    const { isMember, isAdmin } = await getChannelMembership(channelId, userId);
+
+    if (!isMember) {
       return res.status(403).json({
         success: false,
-        error: 'Only the channel creator can delete this channel'
+        error: 'You are not a member of this channel'
       });
     }
-    
-    if (channel.name === 'general') {
-      return res.status(400).json({
-        success: false,
-        error: 'Cannot delete the general channel'
-      });
+
+    let query = supabase
+      .from('channel_invites')
+      .select(`
+        *,
+        creator:profiles(full_name, username)
+      `)
+      .eq('channel_id', channelId)
+      .is('revoked_at', null)
+      .order('created_at', { ascending: false });
+
+    if (!isAdmin) {
+      query = query.eq('created_by', userId);
     }
-    
-    // Delete the channel (cascading deletes will handle related data)
-    const { error: deleteError } = await supabase
-      .from('channels')
-      .delete()
-      .eq('id', channelId);
-    
-    if (deleteError) {
-      console.error('Error deleting channel:', deleteError);
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching invites:', error);
       return res.status(500).json({
         success: false,
-        error: 'Failed to delete channel'
+        error: 'Failed to fetch invites'
       });
     }
-    
+
     res.json({
       success: true,
-      message: 'Channel deleted successfully'
+      invites: data || [],
+      can_manage_all: isAdmin
     });
   } catch (error) {
-    console.error('Error deleting channel:', error);
+    console.error('Error getting invites:', error);
     res.status(500).json({
       success: false,
       error: error.message
@@ -385,60 +576,60 @@ app.delete('/api/workspace/channels/:channelId', async (req, res) => {
   }
 });
 
-// Delete message
-app.delete('/api/workspace/messages/:messageId', async (req, res) => {
+// Revoke an invite
+app.delete('/api/workspace/invites/:inviteId', async (req, res) => {
   try {
-    const { messageId } = req.params;
+    const { inviteId } = req.params;
     const { userId } = req.body;
-    
+
     if (!userId) {
       return res.status(400).json({
         success: false,
         error: 'User ID is required'
       });
     }
-    
-    // Check if user is the sender of the message
-    const { data: message, error: messageError } = await supabase
-      .from('messages')
-      .select('sender_id')
-      .eq('id', messageId)
-      .single();
-    
-    if (messageError || !message) {
+
+    const { data: invite } = await supabase
+      .from('channel_invites')
+      .select('id, channel_id, created_by')
+      .eq('id', inviteId)
+      .maybeSingle();
+
+    if (!invite) {
       return res.status(404).json({
         success: false,
-        error: 'Message not found'
+        error: 'Invite not found'
       });
     }
-    
-    if (message.sender_id !== userId) {
+
+    const { isAdmin } = await getChannelMembership(invite.channel_id, userId);
+
+    if (invite.created_by !== userId && !isAdmin) {
       return res.status(403).json({
         success: false,
-        error: 'You can only delete your own messages'
+        error: 'Only the invite creator or a channel admin can revoke this invite'
       });
     }
-    
-    // Delete the message
-    const { error: deleteError } = await supabase
-      .from('messages')
-      .delete()
-      .eq('id', messageId);
-    
-    if (deleteError) {
-      console.error('Error deleting message:', deleteError);
+
+    const { error } = await supabase
+      .from('channel_invites')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', inviteId);
+
+    if (error) {
+      console.error('Error revoking invite:', error);
       return res.status(500).json({
         success: false,
-        error: 'Failed to delete message'
+        error: 'Failed to revoke invite'
       });
     }
-    
+
     res.json({
       success: true,
-      message: 'Message deleted successfully'
+      message: 'Invite revoked successfully'
     });
   } catch (error) {
-    console.error('Error deleting message:', error);
+    console.error('Error revoking invite:', error);
     res.status(500).json({
       success: false,
       error: error.message
@@ -446,64 +637,3648 @@ app.delete('/api/workspace/messages/:messageId', async (req, res) => {
   }
 });
 
-// Edit message
-app.put('/api/workspace/messages/:messageId', async (req, res) => {
+// Preview an invite before joining
+app.get('/api/workspace/invites/:code', async (req, res) => {
   try {
-    const { messageId } = req.params;
-    const { userId, content } = req.body;
-    
-    if (!userId || !content) {
-      return res.status(400).json({
-        success: false,
-        error: 'User ID and content are required'
-      });
-    }
-    
-    // Check if user is the sender of the message
-    const { data: message, error: messageError } = await supabase
-      .from('messages')
-      .select('sender_id, content')
-      .eq('id', messageId)
-      .single();
-    
-    if (messageError || !message) {
+    const { code } = req.params;
+
+    const { data: invite } = await supabase
+      .from('channel_invites')
+      .select(`
+        id,
+        expires_at,
+        max_uses,
+        current_uses,
+        revoked_at,
+        creator:profiles(full_name, username),
+        channel:channels(id, name, description, type)
+      `)
+      .eq('invite_code', code)
+      .maybeSingle();
+
+    if (!invite || !invite.channel) {
       return res.status(404).json({
         success: false,
-        error: 'Message not found'
+        error: 'Invite not found'
       });
     }
-    
-    if (message.sender_id !== userId) {
+
+    const { count: memberCount } = await supabase
+      .from('channel_members')
+      .select('user_id', { count: 'exact', head: true })
+      .eq('channel_id', invite.channel.id);
+
+    let status = 'valid';
+    if (invite.revoked_at) {
+      status = 'revoked';
+    } else if (invite.expires_at && new Date(invite.expires_at) < new Date()) {
+      status = 'expired';
+    } else if (invite.max_uses !== null && invite.current_uses >= invite.max_uses) {
+      status = 'used_up';
+    }
+
+    res.json({
+      success: true,
+      invite: {
+        status,
+        expires_at: invite.expires_at,
+        creator: invite.creator,
+        channel: invite.channel,
+        member_count: memberCount || 0
+      }
+    });
+  } catch (error) {
+    console.error('Error getting invite:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Redeem an invite and join its channel
+app.post('/api/workspace/invites/:code/redeem', async (req, res) => {
+  try {
+    const { code } = req.params;
+    const { userId } = req.body;
+
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required'
+      });
+    }
+
+    const { data, error } = await supabase.rpc('redeem_channel_invite', {
+      invite_code_param: code,
+      user_id_param: userId
+    });
+
+    if (error) {
+      console.error('Error redeeming invite:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to redeem invite'
+      });
+    }
+
+    if (!data?.success) {
+      return res.status(data?.error === 'Invite not found' ? 404 : 410).json({
+        success: false,
+        error: data?.error || 'Invite is no longer valid'
+      });
+    }
+
+    res.json({
+      success: true,
+      channel_id: data.channel_id,
+      already_member: data.already_member,
+      message: data.already_member ? 'You are already a member of this channel' : 'Successfully joined channel'
+    });
+  } catch (error) {
+    console.error('Error redeeming invite:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Leave channel
+app.post('/api/workspace/channels/:channelId/leave', async (req, res) => {
+  try {
+    const { channelId } = req.params;
+    const { userId } = req.body;
+    
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required'
+      });
+    }
+    
+    // Check if it's the general channel
+    const { channel, isOwner } = await getChannelMembership(channelId, userId);
+    
+    if (channel?.name === 'general') {
+      return res.status(400).json({
+        success: false,
+        error: 'Cannot leave the general channel'
+      });
+    }
+    
+    // Owners would leave the channel without anyone able to delete it
+    if (isOwner) {
+      return res.status(400).json({
+        success: false,
+        error: 'Channel owners cannot leave their channel; delete it instead'
+      });
+    }
+    
+    // Remove user from channel
+    const { error } = await supabase
+      .from('channel_members')
+      .delete()
+      .eq('channel_id', channelId)
+      .eq('user_id', userId);
+    
+    if (error) {
+      console.error('Error leaving channel:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to leave channel'
+      });
+    }
+    
+    res.json({
+      success: true,
+      message: 'Successfully left channel'
+    });
+  } catch (error) {
+    console.error('Error leaving channel:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Mark channel as read
+app.post('/api/workspace/channels/:channelId/read', async (req, res) => {
+  try {
+    const { channelId } = req.params;
+    const { userId, messageId } = req.body;
+
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required'
+      });
+    }
+
+    // Only members have a read marker
+    const { data: membership } = await supabase
+      .from('channel_members')
+      .select('user_id')
+      .eq('channel_id', channelId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (!membership) {
+      return res.status(403).json({
+        success: false,
+        error: 'You are not a member of this channel'
+      });
+    }
+
+    const { data, error } = await supabase.rpc('mark_channel_read', {
+      channel_id_param: channelId,
+      user_id_param: userId,
+      message_id_param: messageId || null
+    });
+
+    if (error) {
+      console.error('Error marking channel as read:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to mark channel as read'
+      });
+    }
+
+    const readState = data?.[0] || {};
+
+    res.json({
+      success: true,
+      last_read_message_id: readState.last_read_message_id || null,
+      last_read_at: readState.last_read_at || null
+    });
+  } catch (error) {
+    console.error('Error marking channel as read:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Get read markers of all channel members (read receipts)
+app.get('/api/workspace/channels/:channelId/read-state', async (req, res) => {
+  try {
+    const { channelId } = req.params;
+    const { userId } = req.query;
+
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required'
+      });
+    }
+
+    const { isMember } = await getChannelMembership(channelId, userId);
+
+    if (!isMember) {
+      return res.status(403).json({
+        success: false,
+        error: 'You are not a member of this channel'
+      });
+    }
+
+    const { data, error } = await supabase
+      .from('channel_members')
+      .select(`
+        user_id,
+        last_read_message_id,
+        last_read_at,
+        user:profiles(full_name, username)
+      `)
+      .eq('channel_id', channelId);
+
+    if (error) {
+      console.error('Error fetching channel read state:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch read state'
+      });
+    }
+
+    res.json({
+      success: true,
+      members: data || []
+    });
+  } catch (error) {
+    console.error('Error getting channel read state:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Get unread and mention counts for a user's channels
+app.get('/api/workspace/unread/:userId', async (req, res) => {
+  try {
+    const { userId } = req.params;
+
+    const { data, error } = await supabase.rpc('get_channel_unread_counts', {
+      user_id_param: userId
+    });
+
+    if (error) {
+      console.error('Error fetching unread counts:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch unread counts'
+      });
+    }
+
+    res.json({
+      success: true,
+      counts: data || []
+    });
+  } catch (error) {
+    console.error('Error getting unread counts:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Permanently delete a channel and its history; archiving is the reversible alternative
+app.delete('/api/workspace/channels/:channelId', async (req, res) => {
+  try {
+    const { channelId } = req.params;
+    const { userId, confirmName } = req.body;
+    
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required'
+      });
+    }
+    
+    // Check if user owns the channel
+    const { channel, isOwner } = await getChannelMembership(channelId, userId);
+    
+    if (!channel) {
+      return res.status(404).json({
+        success: false,
+        error: 'Channel not found'
+      });
+    }
+    
+    if (!isOwner) {
+      return res.status(403).json({
+        success: false,
+        error: 'Only the channel owner can delete this channel'
+      });
+    }
+    
+    if (channel.name === 'general') {
+      return res.status(400).json({
+        success: false,
+        error: 'Cannot delete the general channel'
+      });
+    }
+    
+    if (confirmName !== channel.name) {
+      return res.status(400).json({
+        success: false,
+        error: 'Type the channel name to confirm deletion'
+      });
+    }
+    
+    // Delete the channel (cascading deletes will handle related data)
+    const { error: deleteError } = await supabase
+      .from('channels')
+      .delete()
+      .eq('id', channelId);
+    
+    if (deleteError) {
+      console.error('Error deleting channel:', deleteError);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to delete channel'
+      });
+    }
+    
+    res.json({
+      success: true,
+      message: 'Channel deleted successfully'
+    });
+  } catch (error) {
+    console.error('Error deleting channel:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Archive a channel, making it read-only while keeping its history searchable
+app.post('/api/workspace/channels/:channelId/archive', async (req, res) => {
+  try {
+    const { channelId } = req.params;
+    const { userId } = req.body;
+
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required'
+      });
+    }
+
+    const { channel, isAdmin } = await getChannelMembership(channelId, userId);
+
+    if (!channel) {
+      return res.status(404).json({
+        success: false,
+        error: 'Channel not found'
+      });
+    }
+
+    if (!isAdmin) {
+      return res.status(403).json({
+        success: false,
+        error: 'Only channel admins can archive this channel'
+      });
+    }
+
+    if (channel.name === 'general' || channel.type === 'dm') {
+      return res.status(400).json({
+        success: false,
+        error: channel.type === 'dm' ? 'Direct messages cannot be archived' : 'Cannot archive the general channel'
+      });
+    }
+
+    if (channel.archived_at) {
+      return res.status(409).json({
+        success: false,
+        error: 'Channel is already archived'
+      });
+    }
+
+    const { data: archivedChannel, error } = await supabase
+      .from('channels')
+      .update({
+        archived_at: new Date().toISOString(),
+        archived_by: userId,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', channelId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error archiving channel:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to archive channel'
+      });
+    }
+
+    // Pending scheduled messages would fail against a read-only channel
+    await supabase
+      .from('scheduled_messages')
+      .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+      .eq('channel_id', channelId)
+      .eq('status', 'pending');
+
+    const { data: archiver } = await supabase
+      .from('profiles')
+      .select('full_name, username')
+      .eq('id', userId)
+      .maybeSingle();
+
+    await supabase
+      .from('messages')
+      .insert({
+        channel_id: channelId,
+        sender_id: userId,
+        content: `${archiver?.full_name || archiver?.username || 'An admin'} archived this channel`,
+        type: 'system'
+      });
+
+    res.json({
+      success: true,
+      channel: archivedChannel
+    });
+  } catch (error) {
+    console.error('Error archiving channel:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Restore an archived channel
+app.post('/api/workspace/channels/:channelId/unarchive', async (req, res) => {
+  try {
+    const { channelId } = req.params;
+    const { userId } = req.body;
+
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required'
+      });
+    }
+
+    const { channel, isAdmin } = await getChannelMembership(channelId, userId);
+
+    if (!channel) {
+      return res.status(404).json({
+        success: false,
+        error: 'Channel not found'
+      });
+    }
+
+    if (!isAdmin) {
+      return res.status(403).json({
+        success: false,
+        error: 'Only channel admins can restore this channel'
+      });
+    }
+
+    if (!channel.archived_at) {
+      return res.status(409).json({
+        success: false,
+        error: 'Channel is not archived'
+      });
+    }
+
+    const { data: restoredChannel, error } = await supabase
+      .from('channels')
+      .update({
+        archived_at: null,
+        archived_by: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', channelId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error restoring channel:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to restore channel'
+      });
+    }
+
+    const { data: restorer } = await supabase
+      .from('profiles')
+      .select('full_name, username')
+      .eq('id', userId)
+      .maybeSingle();
+
+    await supabase
+      .from('messages')
+      .insert({
+        channel_id: channelId,
+        sender_id: userId,
+        content: `${restorer?.full_name || restorer?.username || 'An admin'} restored this channel`,
+        type: 'system'
+      });
+
+    res.json({
+      success: true,
+      channel: restoredChannel
+    });
+  } catch (error) {
+    console.error('Error restoring channel:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Update channel settings
+app.put('/api/workspace/channels/:channelId', async (req, res) => {
+  try {
+    const { channelId } = req.params;
+    const { userId, name, description, announcementOnly, retentionDays } = req.body;
+    
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required'
+      });
+    }
+    
+    const { channel, isAdmin } = await getChannelMembership(channelId, userId);
+    
+    if (!channel) {
+      return res.status(404).json({
+        success: false,
+        error: 'Channel not found'
+      });
+    }
+    
+    if (!isAdmin) {
+      return res.status(403).json({
+        success: false,
+        error: 'Only channel admins can change channel settings'
+      });
+    }
+    
+    const updates = {};
+    
+    if (name !== undefined) {
+      if (typeof name !== 'string' || !name.trim()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Channel name cannot be empty'
+        });
+      }
+      
+      if (channel.name === 'general' && name.trim() !== 'general') {
+        return res.status(400).json({
+          success: false,
+          error: 'Cannot rename the general channel'
+        });
+      }
+      
+      updates.name = name.trim();
+    }
+    
+    if (description !== undefined) {
+      if (description !== null && typeof description !== 'string') {
+        return res.status(400).json({
+          success: false,
+          error: 'Channel description must be text'
+        });
+      }
+      
+      updates.description = description?.trim() || null;
+    }
+    
+    if (announcementOnly !== undefined) {
+      updates.announcement_only = !!announcementOnly;
+    }
+    
+    if (retentionDays !== undefined) {
+      if (retentionDays !== null && (!Number.isInteger(retentionDays) || retentionDays < MIN_RETENTION_DAYS || retentionDays > MAX_RETENTION_DAYS)) {
+        return res.status(400).json({
+          success: false,
+          error: `Retention must be between ${MIN_RETENTION_DAYS} and ${MAX_RETENTION_DAYS} days, or unlimited`
+        });
+      }
+      
+      updates.retention_days = retentionDays;
+    }
+    
+    const { data: updatedChannel, error } = await supabase
+      .from('channels')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', channelId)
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error updating channel:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to update channel'
+      });
+    }
+    
+    res.json({
+      success: true,
+      channel: updatedChannel
+    });
+  } catch (error) {
+    console.error('Error updating channel:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Dry run of a channel's retention policy, or of a proposed one, reporting what would be purged
+app.get('/api/workspace/channels/:channelId/retention/preview', async (req, res) => {
+  try {
+    const { channelId } = req.params;
+    const { userId, retentionDays } = req.query;
+
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required'
+      });
+    }
+
+    const days = retentionDays ? Number(retentionDays) : null;
+    if (days !== null && (!Number.isInteger(days) || days < MIN_RETENTION_DAYS || days > MAX_RETENTION_DAYS)) {
+      return res.status(400).json({
+        success: false,
+        error: `Retention must be between ${MIN_RETENTION_DAYS} and ${MAX_RETENTION_DAYS} days`
+      });
+    }
+
+    const { channel, isAdmin } = await getChannelMembership(channelId, userId);
+
+    if (!channel) {
+      return res.status(404).json({
+        success: false,
+        error: 'Channel not found'
+      });
+    }
+
+    if (!isAdmin) {
+      return res.status(403).json({
+        success: false,
+        error: 'Only channel admins can view the retention report'
+      });
+    }
+
+    const { data, error } = await supabase.rpc('preview_channel_purge', {
+      channel_id_param: channelId,
+      retention_days_param: days
+    });
+
+    if (error) {
+      console.error('Error previewing retention purge:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to build retention report'
+      });
+    }
+
+    res.json({
+      success: true,
+      report: data
+    });
+  } catch (error) {
+    console.error('Error previewing retention purge:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Place or lift a legal hold, which suspends purging regardless of the retention policy
+app.put('/api/workspace/channels/:channelId/legal-hold', async (req, res) => {
+  try {
+    const { channelId } = req.params;
+    const { userId, enabled } = req.body;
+
+    if (!userId || typeof enabled !== 'boolean') {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID and enabled are required'
+      });
+    }
+
+    const { channel, isAdmin } = await getChannelMembership(channelId, userId);
+
+    if (!channel) {
+      return res.status(404).json({
+        success: false,
+        error: 'Channel not found'
+      });
+    }
+
+    if (!isAdmin) {
+      return res.status(403).json({
+        success: false,
+        error: 'Only channel admins can change the legal hold'
+      });
+    }
+
+    const { data: updatedChannel, error } = await supabase
+      .from('channels')
+      .update({
+        legal_hold: enabled,
+        legal_hold_by: enabled ? userId : null,
+        legal_hold_at: enabled ? new Date().toISOString() : null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', channelId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating legal hold:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to update legal hold'
+      });
+    }
+
+    const { error: logError } = await supabase
+      .from('activity_logs')
+      .insert({
+        user_id: userId,
+        action: enabled ? 'legal_hold_placed' : 'legal_hold_lifted',
+        resource_type: 'channel',
+        resource_id: channelId,
+        old_values: { legal_hold: !!channel.legal_hold },
+        new_values: { legal_hold: enabled }
+      });
+
+    if (logError) {
+      console.error('Error logging legal hold change:', logError);
+    }
+
+    res.json({
+      success: true,
+      channel: updatedChannel
+    });
+  } catch (error) {
+    console.error('Error updating legal hold:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Export a channel's messages in a date range as a JSON, Markdown or HTML download
+app.get('/api/workspace/channels/:channelId/export', async (req, res) => {
+  let writer = null;
+
+  try {
+    const { channelId } = req.params;
+    const { userId, format = 'json', from, to } = req.query;
+
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required'
+      });
+    }
+
+    if (!EXPORT_FORMATS[format]) {
+      return res.status(400).json({
+        success: false,
+        error: `Unknown export format: ${format}`
+      });
+    }
+
+    const fromDate = from ? new Date(from) : null;
+    const toDate = to ? new Date(to) : new Date();
+    if ((fromDate && isNaN(fromDate.getTime())) || isNaN(toDate.getTime()) || (fromDate && fromDate > toDate)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid date range'
+      });
+    }
+
+    const { channel, isMember } = await getChannelMembership(channelId, userId);
+
+    if (!channel) {
+      return res.status(404).json({
+        success: false,
+        error: 'Channel not found'
+      });
+    }
+
+    if (!isMember) {
+      return res.status(403).json({
+        success: false,
+        error: 'You are not a member of this channel'
+      });
+    }
+
+    const { data: exporter } = await supabase
+      .from('profiles')
+      .select('full_name, username')
+      .eq('id', userId)
+      .maybeSingle();
+
+    const { contentType, extension } = EXPORT_FORMATS[format];
+    const filename = `${channel.name.replace(/[^\w.-]+/g, '-')}-${fromDate ? fromDate.toISOString().slice(0, 10) : 'start'}-to-${toDate.toISOString().slice(0, 10)}.${extension}`;
+
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(filename)}`);
+    res.setHeader('Cache-Control', 'no-store');
+
+    writer = createExportWriter(format, chunk => res.write(chunk), {
+      channel,
+      from: fromDate ? fromDate.toISOString() : null,
+      to: toDate.toISOString(),
+      exportedAt: new Date().toISOString(),
+      exportedBy: exporter?.full_name || exporter?.username || userId
+    });
+
+    writer.begin();
+
+    let exportedCount = 0;
+    for (let offset = 0; ; offset += EXPORT_PAGE_SIZE) {
+      let query = supabase
+        .from('messages')
+        .select(`
+          *,
+          sender:profiles!sender_id(id, full_name, username)
+        `)
+        .eq('channel_id', channelId)
+        .lte('created_at', toDate.toISOString())
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(offset, offset + EXPORT_PAGE_SIZE - 1);
+
+      if (fromDate) query = query.gte('created_at', fromDate.toISOString());
+
+      const { data: messages, error } = await query;
+
+      if (error) {
+        throw new Error(`Failed to read messages: ${error.message}`);
+      }
+
+      if (!messages || messages.length === 0) break;
+
+      const { data: attachments } = await supabase
+        .from('file_attachments')
+        .select('id, message_id, original_filename, mime_type, file_size, created_at')
+        .in('message_id', messages.map(message => message.id));
+
+      writer.writeMessages(messages.map(message =>
+        toExportMessage(message, (attachments || []).filter(attachment => attachment.message_id === message.id))
+      ));
+      exportedCount += messages.length;
+
+      if (messages.length < EXPORT_PAGE_SIZE) break;
+    }
+
+    writer.end();
+    res.end();
+
+    const { error: logError } = await supabase
+      .from('activity_logs')
+      .insert({
+        user_id: userId,
+        action: 'channel_exported',
+        resource_type: 'channel',
+        resource_id: channelId,
+        new_values: {
+          format,
+          from: fromDate ? fromDate.toISOString() : null,
+          to: toDate.toISOString(),
+          messages: exportedCount
+        }
+      });
+
+    if (logError) {
+      console.error('Error logging channel export:', logError);
+    }
+  } catch (error) {
+    console.error('Error exporting channel:', error);
+
+    // Once streaming has started the status can no longer change, so the download itself has to say
+    // that it is incomplete
+    if (res.headersSent) {
+      writer?.fail(error.message);
+      res.end();
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Get channel members with their roles
+app.get('/api/workspace/channels/:channelId/members', async (req, res) => {
+  try {
+    const { channelId } = req.params;
+    const { userId } = req.query;
+    
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required'
+      });
+    }
+    
+    const { role } = await getChannelMembership(channelId, userId);
+    
+    if (!role) {
+      return res.status(403).json({
+        success: false,
+        error: 'You are not a member of this channel'
+      });
+    }
+    
+    const { data, error } = await supabase
+      .from('channel_members')
+      .select(`
+        user_id,
+        role,
+        joined_at,
+        user:profiles(id, username, full_name, avatar_url)
+      `)
+      .eq('channel_id', channelId);
+    
+    if (error) {
+      console.error('Error fetching channel members:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch channel members'
+      });
+    }
+    
+    const members = (data || []).sort((a, b) =>
+      CHANNEL_ROLES.indexOf(b.role) - CHANNEL_ROLES.indexOf(a.role) ||
+      (a.user?.full_name || a.user?.username || '').localeCompare(b.user?.full_name || b.user?.username || '')
+    );
+    
+    res.json({
+      success: true,
+      members,
+      role
+    });
+  } catch (error) {
+    console.error('Error getting channel members:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Change a member's role (owner only)
+app.put('/api/workspace/channels/:channelId/members/:memberId/role', async (req, res) => {
+  try {
+    const { channelId, memberId } = req.params;
+    const { userId, role } = req.body;
+    
+    if (!userId || !role) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID and role are required'
+      });
+    }
+    
+    if (!['admin', 'member'].includes(role)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Role must be admin or member'
+      });
+    }
+    
+    const { isOwner } = await getChannelMembership(channelId, userId);
+    
+    if (!isOwner) {
+      return res.status(403).json({
+        success: false,
+        error: 'Only the channel owner can change roles'
+      });
+    }
+    
+    const { role: currentRole } = await getChannelMembership(channelId, memberId);
+    
+    if (!currentRole) {
+      return res.status(404).json({
+        success: false,
+        error: 'Member not found'
+      });
+    }
+    
+    if (currentRole === 'owner') {
+      return res.status(400).json({
+        success: false,
+        error: "The owner's role cannot be changed"
+      });
+    }
+    
+    const { error } = await supabase
+      .from('channel_members')
+      .update({ role })
+      .eq('channel_id', channelId)
+      .eq('user_id', memberId);
+    
+    if (error) {
+      console.error('Error updating member role:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to update member role'
+      });
+    }
+    
+    res.json({
+      success: true,
+      message: 'Member role updated successfully'
+    });
+  } catch (error) {
+    console.error('Error updating member role:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Remove a member from a channel
+app.delete('/api/workspace/channels/:channelId/members/:memberId', async (req, res) => {
+  try {
+    const { channelId, memberId } = req.params;
+    const { userId } = req.body;
+    
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required'
+      });
+    }
+    
+    const { channel, role } = await getChannelMembership(channelId, userId);
+    const { role: memberRole } = await getChannelMembership(channelId, memberId);
+    
+    if (!channel || !memberRole) {
+      return res.status(404).json({
+        success: false,
+        error: 'Member not found'
+      });
+    }
+    
+    // Admins can remove members, the owner can also remove admins
+    if (!outranks(role, 'member') || !outranks(role, memberRole)) {
+      return res.status(403).json({
+        success: false,
+        error: 'You do not have permission to remove this member'
+      });
+    }
+    
+    if (channel.name === 'general') {
+      return res.status(400).json({
+        success: false,
+        error: 'Members cannot be removed from the general channel'
+      });
+    }
+    
+    const { error } = await supabase
+      .from('channel_members')
+      .delete()
+      .eq('channel_id', channelId)
+      .eq('user_id', memberId);
+    
+    if (error) {
+      console.error('Error removing member:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to remove member'
+      });
+    }
+    
+    res.json({
+      success: true,
+      message: 'Member removed successfully'
+    });
+  } catch (error) {
+    console.error('Error removing member:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Delete message
+app.delete('/api/workspace/messages/:messageId', async (req, res) => {
+  try {
+    const { messageId } = req.params;
+    const { userId } = req.body;
+    
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required'
+      });
+    }
+    
+    // Check if user is the sender of the message or a channel admin
+    const { data: message, error: messageError } = await supabase
+      .from('messages')
+      .select('sender_id, channel_id, deleted_at')
+      .eq('id', messageId)
+      .single();
+    
+    if (messageError || !message || message.deleted_at) {
+      return res.status(404).json({
+        success: false,
+        error: 'Message not found'
+      });
+    }
+
+    if (await isChannelArchived(message.channel_id)) {
+      return res.status(403).json({
+        success: false,
+        error: 'This channel is archived'
+      });
+    }
+    
+    if (message.sender_id !== userId) {
+      const { isAdmin } = await getChannelMembership(message.channel_id, userId);
+      
+      if (!isAdmin) {
+        return res.status(403).json({
+          success: false,
+          error: 'You can only delete your own messages'
+        });
+      }
+    }
+    
+    // Leave a tombstone so replies keep their thread; the deletion is recorded in activity_logs
+    const { data: deleted, error: deleteError } = await supabase.rpc('soft_delete_message', {
+      message_id_param: messageId,
+      deleter_id_param: userId
+    });
+    
+    if (deleteError) {
+      console.error('Error deleting message:', deleteError);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to delete message'
+      });
+    }
+
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: 'Message not found'
+      });
+    }
+    
+    res.json({
+      success: true,
+      message: 'Message deleted successfully'
+    });
+  } catch (error) {
+    console.error('Error deleting message:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Get the preview for a URL from the cache, fetching it again once the cached entry has expired
+const getLinkPreview = async (url) => {
+  const { data: cached } = await supabase
+    .from('link_previews')
+    .select('*')
+    .eq('url', url)
+    .maybeSingle();
+
+  if (cached && new Date(cached.expires_at).getTime() > Date.now()) {
+    return cached.status === 'ok'
+      ? { url, title: cached.title, description: cached.description, image_url: cached.image_url, site_name: cached.site_name }
+      : null;
+  }
+
+  let preview = null;
+  try {
+    preview = await fetchLinkPreview(url);
+  } catch (error) {
+    // Unreachable, not HTML or pointing at a private network; cached as failed below
+  }
+
+  const { error } = await supabase
+    .from('link_previews')
+    .upsert({
+      url,
+      status: preview ? 'ok' : 'failed',
+      title: preview?.title || null,
+      description: preview?.description || null,
+      image_url: preview?.image_url || null,
+      site_name: preview?.site_name || null,
+      fetched_at: new Date().toISOString(),
+      expires_at: new Date(Date.now() + (preview ? LINK_PREVIEW_TTL_MS : LINK_PREVIEW_FAILURE_TTL_MS)).toISOString()
+    }, { onConflict: 'url' });
+
+  if (error) {
+    console.error('Error caching link preview:', error);
+  }
+
+  return preview;
+};
+
+// Store previews for the links in a message in its metadata
+const unfurlMessageLinks = async (messageId) => {
+  const { data: message } = await supabase
+    .from('messages')
+    .select('content, metadata')
+    .eq('id', messageId)
+    .maybeSingle();
+
+  if (!message) return [];
+
+  const previews = (await Promise.all(extractUrls(message.content).map(getLinkPreview))).filter(Boolean);
+
+  // Nothing to add and nothing stale to remove
+  if (previews.length === 0 && !message.metadata?.link_previews) return [];
+
+  const { error } = await supabase.rpc('set_message_link_previews', {
+    message_id_param: messageId,
+    previews
+  });
+
+  if (error) {
+    console.error('Error storing link previews:', error);
+  }
+
+  return previews;
+};
+
+// Unfurl the links in a message the user just sent
+app.post('/api/workspace/messages/:messageId/link-previews', async (req, res) => {
+  try {
+    const { messageId } = req.params;
+    const { userId } = req.body;
+
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required'
+      });
+    }
+
+    const { data: message, error: messageError } = await supabase
+      .from('messages')
+      .select('sender_id')
+      .eq('id', messageId)
+      .single();
+
+    if (messageError || !message) {
+      return res.status(404).json({
+        success: false,
+        error: 'Message not found'
+      });
+    }
+
+    if (message.sender_id !== userId) {
+      return res.status(403).json({
+        success: false,
+        error: 'Only the sender can add link previews to a message'
+      });
+    }
+
+    const previews = await unfurlMessageLinks(messageId);
+
+    res.json({
+      success: true,
+      link_previews: previews
+    });
+  } catch (error) {
+    console.error('Error unfurling links:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Edit message
+app.put('/api/workspace/messages/:messageId', async (req, res) => {
+  try {
+    const { messageId } = req.params;
+    const { userId, content } = req.body;
+    
+    // Blanking a message is a deletion, which goes through the delete route and its audit record
+    if (!userId || typeof content !== 'string' || !content.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID and content are required'
+      });
+    }
+    
+    // Check if user is the sender of the message
+    const { data: message, error: messageError } = await supabase
+      .from('messages')
+      .select('sender_id, channel_id, content, type, deleted_at')
+      .eq('id', messageId)
+      .single();
+    
+    if (messageError || !message || message.deleted_at) {
+      return res.status(404).json({
+        success: false,
+        error: 'Message not found'
+      });
+    }
+
+    if (await isChannelArchived(message.channel_id)) {
+      return res.status(403).json({
+        success: false,
+        error: 'This channel is archived'
+      });
+    }
+    
+    if (message.sender_id !== userId) {
+      return res.status(403).json({
+        success: false,
+        error: 'You can only edit your own messages'
+      });
+    }
+
+    if (message.type === 'poll') {
+      return res.status(400).json({
+        success: false,
+        error: 'Polls cannot be edited'
+      });
+    }
+    
+    // Nothing changed, so there is no revision to keep
+    if (content.trim() === message.content) {
+      return res.json({
+        success: true,
+        message: 'Message unchanged'
+      });
+    }
+    
+    // Update the message, keeping the previous content as a revision
+    const { error: updateError } = await supabase.rpc('edit_message', {
+      message_id_param: messageId,
+      editor_id_param: userId,
+      content_param: content.trim()
+    });
+    
+    if (updateError) {
+      console.error('Error updating message:', updateError);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to update message'
+      });
+    }
+
+    // Previews follow the edited links; the realtime update delivers them
+    unfurlMessageLinks(messageId).catch(error => console.error('Error unfurling links:', error));
+    
+    res.json({
+      success: true,
+      message: 'Message updated successfully'
+    });
+  } catch (error) {
+    console.error('Error editing message:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Get the earlier versions of an edited message, oldest first
+app.get('/api/workspace/messages/:messageId/revisions', async (req, res) => {
+  try {
+    const { messageId } = req.params;
+    const { userId } = req.query;
+
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required'
+      });
+    }
+
+    const { data: message, error: messageError } = await supabase
+      .from('messages')
+      .select('channel_id, deleted_at')
+      .eq('id', messageId)
+      .single();
+
+    if (messageError || !message || message.deleted_at) {
+      return res.status(404).json({
+        success: false,
+        error: 'Message not found'
+      });
+    }
+
+    const { channel, isMember } = await getChannelMembership(message.channel_id, userId);
+
+    if (channel?.type !== 'public' && !isMember) {
+      return res.status(403).json({
+        success: false,
+        error: 'You do not have access to this channel'
+      });
+    }
+
+    const { data, error } = await supabase
+      .from('message_revisions')
+      .select(`
+        id,
+        message_id,
+        content,
+        edited_by,
+        created_at,
+        editor:profiles(full_name, username)
+      `)
+      .eq('message_id', messageId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching message revisions:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch edit history'
+      });
+    }
+
+    res.json({
+      success: true,
+      revisions: data || []
+    });
+  } catch (error) {
+    console.error('Error getting message revisions:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Toggle a reaction on a message
+app.post('/api/workspace/messages/:messageId/reactions', async (req, res) => {
+  try {
+    const { messageId } = req.params;
+    const { userId, emoji } = req.body;
+
+    if (!userId || typeof emoji !== 'string' || !emoji.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID and emoji are required'
+      });
+    }
+
+    if (emoji.trim().length > 32) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid emoji'
+      });
+    }
+
+    // Check that the message exists
+    const { data: message, error: messageError } = await supabase
+      .from('messages')
+      .select('id, channel_id, deleted_at')
+      .eq('id', messageId)
+      .single();
+
+    if (messageError || !message || message.deleted_at) {
+      return res.status(404).json({
+        success: false,
+        error: 'Message not found'
+      });
+    }
+
+    const { channel, isMember } = await getChannelMembership(message.channel_id, userId);
+
+    if (!isMember) {
+      return res.status(403).json({
+        success: false,
+        error: 'You are not a member of this channel'
+      });
+    }
+
+    if (channel?.archived_at) {
+      return res.status(403).json({
+        success: false,
+        error: 'This channel is archived'
+      });
+    }
+
+    // Remove the reaction if the user already reacted with this emoji, otherwise add it
+    const { data: existingReaction } = await supabase
+      .from('message_reactions')
+      .select('id')
+      .eq('message_id', messageId)
+      .eq('user_id', userId)
+      .eq('emoji', emoji.trim())
+      .maybeSingle();
+
+    const { error: toggleError } = existingReaction
+      ? await supabase
+          .from('message_reactions')
+          .delete()
+          .eq('id', existingReaction.id)
+      : await supabase
+          .from('message_reactions')
+          .insert({
+            message_id: messageId,
+            user_id: userId,
+            emoji: emoji.trim()
+          });
+
+    // A unique violation means a concurrent request added the same reaction first
+    if (toggleError && toggleError.code !== '23505') {
+      console.error('Error toggling reaction:', toggleError);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to update reaction'
+      });
+    }
+
+    // Return the refreshed reaction summary maintained by the database trigger
+    const { data: updatedMessage } = await supabase
+      .from('messages')
+      .select('reactions')
+      .eq('id', messageId)
+      .single();
+
+    res.json({
+      success: true,
+      reacted: !existingReaction,
+      reactions: updatedMessage?.reactions || []
+    });
+  } catch (error) {
+    console.error('Error toggling reaction:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Get pinned messages of a channel, newest pin first
+app.get('/api/workspace/channels/:channelId/pins', async (req, res) => {
+  try {
+    const { channelId } = req.params;
+    const { userId } = req.query;
+
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required'
+      });
+    }
+
+    const { isMember } = await getChannelMembership(channelId, userId);
+
+    if (!isMember) {
+      return res.status(403).json({
+        success: false,
+        error: 'You are not a member of this channel'
+      });
+    }
+
+    const { data, error } = await supabase
+      .from('pinned_messages')
+      .select(`
+        id,
+        channel_id,
+        message_id,
+        pinned_by,
+        pinned_at,
+        pinned_by_user:profiles(full_name, username),
+        message:messages(
+          *,
+          sender:profiles(*)
+        )
+      `)
+      .eq('channel_id', channelId)
+      .order('pinned_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching pinned messages:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch pinned messages'
+      });
+    }
+
+    res.json({
+      success: true,
+      pins: data || []
+    });
+  } catch (error) {
+    console.error('Error getting pinned messages:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Pin a message to its channel
+app.post('/api/workspace/messages/:messageId/pin', async (req, res) => {
+  try {
+    const { messageId } = req.params;
+    const { userId } = req.body;
+
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required'
+      });
+    }
+
+    const { data: message, error: messageError } = await supabase
+      .from('messages')
+      .select('id, channel_id, deleted_at')
+      .eq('id', messageId)
+      .single();
+
+    if (messageError || !message || message.deleted_at) {
+      return res.status(404).json({
+        success: false,
+        error: 'Message not found'
+      });
+    }
+
+    if (await isChannelArchived(message.channel_id)) {
+      return res.status(403).json({
+        success: false,
+        error: 'This channel is archived'
+      });
+    }
+
+    // Any channel member may pin
+    const { data: membership } = await supabase
+      .from('channel_members')
+      .select('user_id')
+      .eq('channel_id', message.channel_id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (!membership) {
+      return res.status(403).json({
+        success: false,
+        error: 'You are not a member of this channel'
+      });
+    }
+
+    // Pinning an already pinned message keeps the original pin
+    const { error: pinError } = await supabase
+      .from('pinned_messages')
+      .upsert({
+        channel_id: message.channel_id,
+        message_id: messageId,
+        pinned_by: userId
+      }, { onConflict: 'message_id', ignoreDuplicates: true });
+
+    if (pinError) {
+      console.error('Error pinning message:', pinError);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to pin message'
+      });
+    }
+
+    const { data: pin } = await supabase
+      .from('pinned_messages')
+      .select(`
+        id,
+        channel_id,
+        message_id,
+        pinned_by,
+        pinned_at,
+        pinned_by_user:profiles(full_name, username)
+      `)
+      .eq('message_id', messageId)
+      .single();
+
+    res.json({
+      success: true,
+      pin
+    });
+  } catch (error) {
+    console.error('Error pinning message:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Unpin a message
+app.delete('/api/workspace/messages/:messageId/pin', async (req, res) => {
+  try {
+    const { messageId } = req.params;
+    const { userId } = req.body;
+
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required'
+      });
+    }
+
+    const { data: pin } = await supabase
+      .from('pinned_messages')
+      .select('id, channel_id')
+      .eq('message_id', messageId)
+      .maybeSingle();
+
+    if (!pin) {
+      return res.status(404).json({
+        success: false,
+        error: 'Message is not pinned'
+      });
+    }
+
+    if (await isChannelArchived(pin.channel_id)) {
+      return res.status(403).json({
+        success: false,
+        error: 'This channel is archived'
+      });
+    }
+
+    const { data: membership } = await supabase
+      .from('channel_members')
+      .select('user_id')
+      .eq('channel_id', pin.channel_id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (!membership) {
+      return res.status(403).json({
+        success: false,
+        error: 'You are not a member of this channel'
+      });
+    }
+
+    const { error: deleteError } = await supabase
+      .from('pinned_messages')
+      .delete()
+      .eq('id', pin.id);
+
+    if (deleteError) {
+      console.error('Error unpinning message:', deleteError);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to unpin message'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Message unpinned successfully'
+    });
+  } catch (error) {
+    console.error('Error unpinning message:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Get a user's saved items across channels
+app.get('/api/workspace/bookmarks/:userId', async (req, res) => {
+  try {
+    const { userId } = req.params;
+
+    const { data, error } = await supabase
+      .from('message_bookmarks')
+      .select(`
+        id,
+        user_id,
+        message_id,
+        created_at,
+        message:messages(
+          *,
+          sender:profiles(*),
+          channel:channels(id, name, type)
+        )
+      `)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching saved items:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch saved items'
+      });
+    }
+
+    res.json({
+      success: true,
+      bookmarks: data || []
+    });
+  } catch (error) {
+    console.error('Error getting saved items:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Save a message for later
+app.post('/api/workspace/messages/:messageId/bookmark', async (req, res) => {
+  try {
+    const { messageId } = req.params;
+    const { userId } = req.body;
+
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required'
+      });
+    }
+
+    const { data: message, error: messageError } = await supabase
+      .from('messages')
+      .select('id, channel_id, deleted_at')
+      .eq('id', messageId)
+      .single();
+
+    if (messageError || !message || message.deleted_at) {
+      return res.status(404).json({
+        success: false,
+        error: 'Message not found'
+      });
+    }
+
+    // Only messages the user can read may be saved
+    const { data: membership } = await supabase
+      .from('channel_members')
+      .select('user_id')
+      .eq('channel_id', message.channel_id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (!membership) {
+      return res.status(403).json({
+        success: false,
+        error: 'You are not a member of this channel'
+      });
+    }
+
+    const { error: bookmarkError } = await supabase
+      .from('message_bookmarks')
+      .upsert({
+        user_id: userId,
+        message_id: messageId
+      }, { onConflict: 'user_id,message_id', ignoreDuplicates: true });
+
+    if (bookmarkError) {
+      console.error('Error saving message:', bookmarkError);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to save message'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Message saved successfully'
+    });
+  } catch (error) {
+    console.error('Error saving message:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Remove a message from saved items
+app.delete('/api/workspace/messages/:messageId/bookmark', async (req, res) => {
+  try {
+    const { messageId } = req.params;
+    const { userId } = req.body;
+
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required'
+      });
+    }
+
+    const { error } = await supabase
+      .from('message_bookmarks')
+      .delete()
+      .eq('message_id', messageId)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error removing saved message:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to remove saved message'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Message removed from saved items'
+    });
+  } catch (error) {
+    console.error('Error removing saved message:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Validate the content and send time of a scheduled message; returns an error message or null
+const validateScheduledMessage = (content, scheduledFor) => {
+  if (content !== undefined && (typeof content !== 'string' || !content.trim())) {
+    return 'Message content is required';
+  }
+
+  if (scheduledFor !== undefined) {
+    const sendAt = new Date(scheduledFor).getTime();
+    if (isNaN(sendAt)) {
+      return 'Invalid send time';
+    }
+    if (sendAt <= Date.now()) {
+      return 'Send time must be in the future';
+    }
+    if (sendAt > Date.now() + MAX_SCHEDULE_AHEAD_MS) {
+      return 'Messages can be scheduled at most a year ahead';
+    }
+  }
+
+  return null;
+};
+
+// Schedule a message
+app.post('/api/workspace/scheduled-messages', async (req, res) => {
+  try {
+    const { userId, channelId, content, scheduledFor, threadParentId } = req.body;
+
+    if (!userId || !channelId || content === undefined || scheduledFor === undefined) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID, channel ID, content and send time are required'
+      });
+    }
+
+    const validationError = validateScheduledMessage(content, scheduledFor);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        error: validationError
+      });
+    }
+
+    const { channel, isMember, isAdmin } = await getChannelMembership(channelId, userId);
+
+    if (!isMember) {
+      return res.status(403).json({
+        success: false,
+        error: 'You are not a member of this channel'
+      });
+    }
+
+    if (channel.announcement_only && !isAdmin) {
+      return res.status(403).json({
+        success: false,
+        error: 'Only channel admins can post in this channel'
+      });
+    }
+
+    if (channel.archived_at) {
+      return res.status(403).json({
+        success: false,
+        error: 'This channel is archived'
+      });
+    }
+
+    const { data: scheduledMessage, error } = await supabase
+      .from('scheduled_messages')
+      .insert({
+        channel_id: channelId,
+        sender_id: userId,
+        content: content.trim(),
+        thread_parent_id: threadParentId || null,
+        scheduled_for: new Date(scheduledFor).toISOString()
+      })
+      .select(`
+        *,
+        channel:channels(id, name, type)
+      `)
+      .single();
+
+    if (error) {
+      console.error('Error scheduling message:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to schedule message'
+      });
+    }
+
+    res.json({
+      success: true,
+      scheduled_message: scheduledMessage
+    });
+  } catch (error) {
+    console.error('Error scheduling message:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Get a user's pending and failed scheduled messages
+app.get('/api/workspace/scheduled-messages/:userId', async (req, res) => {
+  try {
+    const { userId } = req.params;
+
+    const { data, error } = await supabase
+      .from('scheduled_messages')
+      .select(`
+        *,
+        channel:channels(id, name, type)
+      `)
+      .eq('sender_id', userId)
+      .in('status', ['pending', 'failed'])
+      .order('scheduled_for', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching scheduled messages:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch scheduled messages'
+      });
+    }
+
+    res.json({
+      success: true,
+      scheduled_messages: data || []
+    });
+  } catch (error) {
+    console.error('Error getting scheduled messages:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Edit a pending scheduled message; failed ones are rescheduled
+app.put('/api/workspace/scheduled-messages/:scheduledMessageId', async (req, res) => {
+  try {
+    const { scheduledMessageId } = req.params;
+    const { userId, content, scheduledFor } = req.body;
+
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required'
+      });
+    }
+
+    const validationError = validateScheduledMessage(content, scheduledFor);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        error: validationError
+      });
+    }
+
+    const { data: existing } = await supabase
+      .from('scheduled_messages')
+      .select('sender_id, status')
+      .eq('id', scheduledMessageId)
+      .maybeSingle();
+
+    if (!existing || existing.sender_id !== userId) {
+      return res.status(404).json({
+        success: false,
+        error: 'Scheduled message not found'
+      });
+    }
+
+    if (!['pending', 'failed'].includes(existing.status)) {
+      return res.status(409).json({
+        success: false,
+        error: 'This message has already been sent or cancelled'
+      });
+    }
+
+    const updates = { status: 'pending', error: null, updated_at: new Date().toISOString() };
+    if (content !== undefined) updates.content = content.trim();
+    if (scheduledFor !== undefined) updates.scheduled_for = new Date(scheduledFor).toISOString();
+
+    // Only update while still unsent, in case the dispatcher got to it first
+    const { data: scheduledMessage, error } = await supabase
+      .from('scheduled_messages')
+      .update(updates)
+      .eq('id', scheduledMessageId)
+      .in('status', ['pending', 'failed'])
+      .select(`
+        *,
+        channel:channels(id, name, type)
+      `)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error updating scheduled message:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to update scheduled message'
+      });
+    }
+
+    if (!scheduledMessage) {
+      return res.status(409).json({
+        success: false,
+        error: 'This message has already been sent or cancelled'
+      });
+    }
+
+    res.json({
+      success: true,
+      scheduled_message: scheduledMessage
+    });
+  } catch (error) {
+    console.error('Error updating scheduled message:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Cancel a scheduled message
+app.delete('/api/workspace/scheduled-messages/:scheduledMessageId', async (req, res) => {
+  try {
+    const { scheduledMessageId } = req.params;
+    const { userId } = req.body;
+
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required'
+      });
+    }
+
+    const { data, error } = await supabase
+      .from('scheduled_messages')
+      .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+      .eq('id', scheduledMessageId)
+      .eq('sender_id', userId)
+      .in('status', ['pending', 'failed'])
+      .select('id');
+
+    if (error) {
+      console.error('Error cancelling scheduled message:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to cancel scheduled message'
+      });
+    }
+
+    if (!data || data.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'No pending scheduled message found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Scheduled message cancelled'
+    });
+  } catch (error) {
+    console.error('Error cancelling scheduled message:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Validate a new poll; returns an error message or null
+const validatePoll = (question, options, closesAt) => {
+  if (typeof question !== 'string' || !question.trim()) {
+    return 'Poll question is required';
+  }
+
+  if (question.trim().length > MAX_POLL_QUESTION_LENGTH) {
+    return `Poll questions can be at most ${MAX_POLL_QUESTION_LENGTH} characters`;
+  }
+
+  if (!Array.isArray(options) || options.some(option => typeof option !== 'string' || !option.trim())) {
+    return 'Poll options must be non-empty text';
+  }
+
+  if (options.length < 2 || options.length > MAX_POLL_OPTIONS) {
+    return `Polls need between 2 and ${MAX_POLL_OPTIONS} options`;
+  }
+
+  if (options.some(option => option.trim().length > MAX_POLL_OPTION_LENGTH)) {
+    return `Poll options can be at most ${MAX_POLL_OPTION_LENGTH} characters`;
+  }
+
+  const normalizedOptions = options.map(option => option.trim().toLowerCase());
+  if (new Set(normalizedOptions).size !== normalizedOptions.length) {
+    return 'Poll options must be different from each other';
+  }
+
+  if (closesAt) {
+    const closeTime = new Date(closesAt).getTime();
+    if (isNaN(closeTime)) {
+      return 'Invalid closing time';
+    }
+    if (closeTime <= Date.now()) {
+      return 'Closing time must be in the future';
+    }
+    if (closeTime > Date.now() + MAX_POLL_DURATION_MS) {
+      return 'Polls can stay open for at most 30 days';
+    }
+  }
+
+  return null;
+};
+
+// Create a poll
+app.post('/api/workspace/polls', async (req, res) => {
+  try {
+    const { userId, channelId, question, options, allowMultiple, anonymous, closesAt } = req.body;
+
+    if (!userId || !channelId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID and channel ID are required'
+      });
+    }
+
+    const validationError = validatePoll(question, options, closesAt);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        error: validationError
+      });
+    }
+
+    const { channel, isMember, isAdmin } = await getChannelMembership(channelId, userId);
+
+    if (!isMember) {
+      return res.status(403).json({
+        success: false,
+        error: 'You are not a member of this channel'
+      });
+    }
+
+    if (channel.announcement_only && !isAdmin) {
+      return res.status(403).json({
+        success: false,
+        error: 'Only channel admins can post in this channel'
+      });
+    }
+
+    if (channel.archived_at) {
+      return res.status(403).json({
+        success: false,
+        error: 'This channel is archived'
+      });
+    }
+
+    const { data: messageId, error } = await supabase.rpc('create_poll', {
+      sender_id_param: userId,
+      channel_id_param: channelId,
+      question_param: question.trim(),
+      options_param: options.map((option, index) => ({ id: String(index + 1), text: option.trim() })),
+      allow_multiple_param: !!allowMultiple,
+      anonymous_param: !!anonymous,
+      closes_at_param: closesAt ? new Date(closesAt).toISOString() : null
+    });
+
+    if (error) {
+      console.error('Error creating poll:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to create poll'
+      });
+    }
+
+    const { data: message } = await supabase
+      .from('messages')
+      .select(`
+        *,
+        sender:profiles(*)
+      `)
+      .eq('id', messageId)
+      .single();
+
+    res.json({
+      success: true,
+      message
+    });
+  } catch (error) {
+    console.error('Error creating poll:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Get the options a user voted for; the only way to see your own vote on an anonymous poll
+app.get('/api/workspace/polls/:pollId/votes', async (req, res) => {
+  try {
+    const { pollId } = req.params;
+    const { userId } = req.query;
+
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required'
+      });
+    }
+
+    const { data, error } = await supabase
+      .from('poll_votes')
+      .select('option_id')
+      .eq('poll_id', pollId)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error fetching poll votes:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch poll votes'
+      });
+    }
+
+    res.json({
+      success: true,
+      option_ids: (data || []).map(vote => vote.option_id)
+    });
+  } catch (error) {
+    console.error('Error fetching poll votes:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Vote on a poll, replacing any earlier vote; an empty list withdraws it
+app.post('/api/workspace/polls/:pollId/votes', async (req, res) => {
+  try {
+    const { pollId } = req.params;
+    const { userId, optionIds } = req.body;
+
+    if (!userId || !Array.isArray(optionIds)) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID and option IDs are required'
+      });
+    }
+
+    const { data: poll, error: pollError } = await supabase
+      .from('polls')
+      .select('id, channel_id, options, allow_multiple, closes_at, closed_at')
+      .eq('id', pollId)
+      .maybeSingle();
+
+    if (pollError || !poll) {
+      return res.status(404).json({
+        success: false,
+        error: 'Poll not found'
+      });
+    }
+
+    if (poll.closed_at || (poll.closes_at && new Date(poll.closes_at).getTime() <= Date.now())) {
+      return res.status(409).json({
+        success: false,
+        error: 'This poll is closed'
+      });
+    }
+
+    const validOptionIds = poll.options.map(option => option.id);
+    if (optionIds.some(optionId => !validOptionIds.includes(optionId))) {
+      return res.status(400).json({
+        success: false,
+        error: 'Unknown poll option'
+      });
+    }
+
+    if (!poll.allow_multiple && optionIds.length > 1) {
+      return res.status(400).json({
+        success: false,
+        error: 'This poll allows only one choice'
+      });
+    }
+
+    const { channel, isMember } = await getChannelMembership(poll.channel_id, userId);
+
+    if (!isMember) {
+      return res.status(403).json({
+        success: false,
+        error: 'You are not a member of this channel'
+      });
+    }
+
+    if (channel.archived_at) {
+      return res.status(403).json({
+        success: false,
+        error: 'This channel is archived'
+      });
+    }
+
+    const { data: summary, error } = await supabase.rpc('cast_poll_vote', {
+      poll_id_param: pollId,
+      user_id_param: userId,
+      option_ids: optionIds
+    });
+
+    if (error) {
+      // The poll may have closed between the check above and the vote
+      if (error.message?.includes('Poll is closed')) {
+        return res.status(409).json({
+          success: false,
+          error: 'This poll is closed'
+        });
+      }
+
+      console.error('Error voting on poll:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to record vote'
+      });
+    }
+
+    res.json({
+      success: true,
+      poll: summary,
+      option_ids: [...new Set(optionIds)]
+    });
+  } catch (error) {
+    console.error('Error voting on poll:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Close a poll early (creator or channel admins)
+app.post('/api/workspace/polls/:pollId/close', async (req, res) => {
+  try {
+    const { pollId } = req.params;
+    const { userId } = req.body;
+
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required'
+      });
+    }
+
+    const { data: poll, error: pollError } = await supabase
+      .from('polls')
+      .select('id, channel_id, created_by')
+      .eq('id', pollId)
+      .maybeSingle();
+
+    if (pollError || !poll) {
+      return res.status(404).json({
+        success: false,
+        error: 'Poll not found'
+      });
+    }
+
+    if (poll.created_by !== userId) {
+      const { isAdmin } = await getChannelMembership(poll.channel_id, userId);
+
+      if (!isAdmin) {
+        return res.status(403).json({
+          success: false,
+          error: 'Only the poll creator or channel admins can close this poll'
+        });
+      }
+    }
+
+    const { data: summary, error } = await supabase.rpc('close_poll', { poll_id_param: pollId });
+
+    if (error) {
+      console.error('Error closing poll:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to close poll'
+      });
+    }
+
+    if (!summary) {
+      return res.status(409).json({
+        success: false,
+        error: 'This poll is already closed'
+      });
+    }
+
+    res.json({
+      success: true,
+      poll: summary
+    });
+  } catch (error) {
+    console.error('Error closing poll:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Parse raw upload bodies, answering oversized or malformed uploads with JSON errors
+const parseAttachmentBody = express.raw({ type: 'application/octet-stream', limit: MAX_ATTACHMENT_SIZE });
+const rawAttachmentBody = (req, res, next) => {
+  parseAttachmentBody(req, res, (error) => {
+    if (error) {
+      const tooLarge = error.type === 'entity.too.large';
+      return res.status(tooLarge ? 413 : 400).json({
+        success: false,
+        error: tooLarge
+          ? `File exceeds the ${Math.round(MAX_ATTACHMENT_SIZE / 1024 / 1024)}MB limit`
+          : 'Invalid upload body'
+      });
+    }
+    next();
+  });
+};
+
+// Stream an attachment inline or as a download, depending on the storage driver
+const sendAttachment = async (res, attachment, { download = false } = {}) => {
+  // Only media is rendered inline; everything else (including SVG and HTML) is forced to download
+  const inline = !download &&
+    /^(image|video|audio)\//.test(attachment.mime_type) &&
+    attachment.mime_type !== 'image/svg+xml';
+
+  const signedUrl = await storage.getSignedUrl(attachment.file_path, {
+    downloadName: inline ? undefined : attachment.original_filename
+  });
+
+  if (signedUrl) {
+    return res.redirect(signedUrl);
+  }
+
+  const buffer = await storage.read(attachment.file_path);
+  res.setHeader('Content-Type', attachment.mime_type);
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+  res.setHeader(
+    'Content-Disposition',
+    `${inline ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeURIComponent(attachment.original_filename)}`
+  );
+  res.send(buffer);
+};
+
+// Whether a user may see an attachment: its uploader, or anyone who can see what it is linked to
+const canAccessAttachment = async (attachment, userId) => {
+  if (attachment.uploaded_by === userId) return true;
+
+  if (attachment.message_id) {
+    const { data: message } = await supabase
+      .from('messages')
+      .select('channel_id')
+      .eq('id', attachment.message_id)
+      .maybeSingle();
+
+    if (message && (await getChannelMembership(message.channel_id, userId)).isMember) return true;
+  }
+
+  if (attachment.task_id) {
+    const { data: task } = await supabase
+      .from('tasks')
+      .select('id, created_by, project_id')
+      .eq('id', attachment.task_id)
+      .maybeSingle();
+
+    if (task && await canAccessTask(task, userId)) return true;
+  }
+
+  if (attachment.project_id) {
+    const { isMember } = await getProjectAccess(attachment.project_id, userId);
+    if (isMember) return true;
+  }
+
+  return false;
+};
+
+// Upload attachment
+app.post('/api/workspace/attachments', rawAttachmentBody, async (req, res) => {
+  try {
+    const { userId, filename, mimeType, taskId, projectId, messageId } = req.query;
+
+    if (!userId || !filename) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID and filename are required'
+      });
+    }
+
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'File content is required'
+      });
+    }
+
+    const resolvedMimeType = (mimeType || 'application/octet-stream').toLowerCase();
+    if (!isAllowedMimeType(resolvedMimeType)) {
+      return res.status(415).json({
+        success: false,
+        error: `File type ${resolvedMimeType} is not allowed`
+      });
+    }
+
+    if (!matchesFileContent(resolvedMimeType, req.body)) {
+      return res.status(415).json({
+        success: false,
+        error: `File content does not match its type (${resolvedMimeType})`
+      });
+    }
+
+    // Store the file, then record it in file_attachments
+    const storageKey = buildStorageKey(userId, filename);
+    await storage.upload(storageKey, req.body, resolvedMimeType);
+
+    const { data: attachment, error } = await supabase
+      .from('file_attachments')
+      .insert({
+        filename: path.basename(storageKey),
+        original_filename: filename,
+        file_size: req.body.length,
+        mime_type: resolvedMimeType,
+        file_path: storageKey,
+        uploaded_by: userId,
+        task_id: taskId || null,
+        project_id: projectId || null,
+        message_id: messageId || null
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving attachment:', error);
+      await storage.remove(storageKey).catch(() => {});
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to save attachment'
+      });
+    }
+
+    res.json({
+      success: true,
+      attachment
+    });
+  } catch (error) {
+    console.error('Error uploading attachment:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Link uploaded attachments to a message, task or project
+app.put('/api/workspace/attachments/link', async (req, res) => {
+  try {
+    const { userId, attachmentIds, messageId, taskId, projectId } = req.body;
+
+    if (!userId || !Array.isArray(attachmentIds) || attachmentIds.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID and attachment IDs are required'
+      });
+    }
+
+    if (!messageId && !taskId && !projectId) {
+      return res.status(400).json({
+        success: false,
+        error: 'A message, task or project ID is required'
+      });
+    }
+
+    const updates = {};
+    if (messageId) updates.message_id = messageId;
+    if (taskId) updates.task_id = taskId;
+    if (projectId) updates.project_id = projectId;
+
+    // Users can only link attachments they uploaded
+    const { data: attachments, error } = await supabase
+      .from('file_attachments')
+      .update(updates)
+      .in('id', attachmentIds)
+      .eq('uploaded_by', userId)
+      .select();
+
+    if (error) {
+      console.error('Error linking attachments:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to link attachments'
+      });
+    }
+
+    res.json({
+      success: true,
+      attachments: attachments || []
+    });
+  } catch (error) {
+    console.error('Error linking attachments:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// List attachments for a message, task or project
+app.get('/api/workspace/attachments', async (req, res) => {
+  try {
+    const { userId, messageId, taskId, projectId } = req.query;
+
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required'
+      });
+    }
+
+    if (!messageId && !taskId && !projectId) {
+      return res.status(400).json({
+        success: false,
+        error: 'A message, task or project ID is required'
+      });
+    }
+
+    // Every listed attachment is linked to the requested message, task and project, so access to
+    // one of them is access to all of the results
+    const parent = { message_id: messageId, task_id: taskId, project_id: projectId };
+    if (!(await canAccessAttachment(parent, userId))) {
+      return res.status(403).json({
+        success: false,
+        error: 'You do not have access to these attachments'
+      });
+    }
+
+    let query = supabase
+      .from('file_attachments')
+      .select(`
+        *,
+        uploader:profiles!uploaded_by(full_name)
+      `)
+      .order('created_at', { ascending: true });
+
+    if (messageId) query = query.eq('message_id', messageId);
+    if (taskId) query = query.eq('task_id', taskId);
+    if (projectId) query = query.eq('project_id', projectId);
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching attachments:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch attachments'
+      });
+    }
+
+    res.json({
+      success: true,
+      attachments: data || []
+    });
+  } catch (error) {
+    console.error('Error getting attachments:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Serve attachment content for inline previews
+app.get('/api/workspace/attachments/:attachmentId/content', async (req, res) => {
+  try {
+    const { attachmentId } = req.params;
+    const { userId } = req.query;
+
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required'
+      });
+    }
+
+    const { data: attachment, error } = await supabase
+      .from('file_attachments')
+      .select('*')
+      .eq('id', attachmentId)
+      .single();
+
+    if (error || !attachment) {
+      return res.status(404).json({
+        success: false,
+        error: 'Attachment not found'
+      });
+    }
+
+    if (!(await canAccessAttachment(attachment, userId))) {
       return res.status(403).json({
         success: false,
-        error: 'You can only edit your own messages'
+        error: 'You do not have access to this attachment'
+      });
+    }
+
+    await sendAttachment(res, attachment);
+  } catch (error) {
+    console.error('Error serving attachment:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Download attachment and count the download
+app.get('/api/workspace/attachments/:attachmentId/download', async (req, res) => {
+  try {
+    const { attachmentId } = req.params;
+    const { userId } = req.query;
+
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required'
+      });
+    }
+
+    const { data: attachment, error } = await supabase
+      .from('file_attachments')
+      .select('*')
+      .eq('id', attachmentId)
+      .single();
+
+    if (error || !attachment) {
+      return res.status(404).json({
+        success: false,
+        error: 'Attachment not found'
+      });
+    }
+
+    if (!(await canAccessAttachment(attachment, userId))) {
+      return res.status(403).json({
+        success: false,
+        error: 'You do not have access to this attachment'
+      });
+    }
+
+    const { error: countError } = await supabase.rpc('increment_attachment_download_count', {
+      attachment_id_param: attachmentId
+    });
+
+    if (countError) {
+      console.error('Error counting attachment download:', countError);
+    }
+
+    await sendAttachment(res, attachment, { download: true });
+  } catch (error) {
+    console.error('Error downloading attachment:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Delete attachment
+app.delete('/api/workspace/attachments/:attachmentId', async (req, res) => {
+  try {
+    const { attachmentId } = req.params;
+    const { userId } = req.body;
+
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required'
+      });
+    }
+
+    const { data: attachment, error: attachmentError } = await supabase
+      .from('file_attachments')
+      .select('id, file_path, uploaded_by')
+      .eq('id', attachmentId)
+      .single();
+
+    if (attachmentError || !attachment) {
+      return res.status(404).json({
+        success: false,
+        error: 'Attachment not found'
+      });
+    }
+
+    if (attachment.uploaded_by !== userId) {
+      return res.status(403).json({
+        success: false,
+        error: 'You can only delete your own attachments'
+      });
+    }
+
+    const { error: deleteError } = await supabase
+      .from('file_attachments')
+      .delete()
+      .eq('id', attachmentId);
+
+    if (deleteError) {
+      console.error('Error deleting attachment:', deleteError);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to delete attachment'
+      });
+    }
+
+    await storage.remove(attachment.file_path).catch(error => {
+      console.error('Error removing stored file:', error);
+    });
+
+    res.json({
+      success: true,
+      message: 'Attachment deleted successfully'
+    });
+  } catch (error) {
+    console.error('Error deleting attachment:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Delete task
+app.delete('/api/workspace/tasks/:taskId', async (req, res) => {
+  try {
+    const { taskId } = req.params;
+    const { userId } = req.body;
+    
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required'
+      });
+    }
+    
+    // Check if user is the creator of the task
+    const { data: task, error: taskError } = await supabase
+      .from('tasks')
+      .select('created_by')
+      .eq('id', taskId)
+      .single();
+    
+    if (taskError || !task) {
+      return res.status(404).json({
+        success: false,
+        error: 'Task not found'
+      });
+    }
+    
+    if (task.created_by !== userId) {
+      return res.status(403).json({
+        success: false,
+        error: 'Only the task creator can delete this task'
+      });
+    }
+    
+    // Delete the task (cascading deletes will handle assignments)
+    const { error: deleteError } = await supabase
+      .from('tasks')
+      .delete()
+      .eq('id', taskId);
+    
+    if (deleteError) {
+      console.error('Error deleting task:', deleteError);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to delete task'
+      });
+    }
+    
+    res.json({
+      success: true,
+      message: 'Task deleted successfully'
+    });
+  } catch (error) {
+    console.error('Error deleting task:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Get channels with membership info
+app.get('/api/workspace/channels/:userId', async (req, res) => {
+  try {
+    const { userId } = req.params;
+    
+    // Get all channels with membership information
+    const { data: channels, error } = await supabase
+      .from('channels')
+      .select(`
+        *,
+        channel_members!left(
+          user_id,
+          role,
+          user:profiles(id, username, full_name)
+        )
+      `)
+      .order('created_at', { ascending: true });
+    
+    if (error) {
+      console.error('Error fetching channels:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch channels'
+      });
+    }
+    
+    // Add membership info to each channel; DMs are only listed for their participants
+    const channelsWithMembership = channels
+      .filter(channel => channel.type !== 'dm' || channel.channel_members.some(member => member.user_id === userId))
+      .map(channel => {
+        const membership = channel.channel_members.find(member => member.user_id === userId);
+        const result = {
+          ...channel,
+          is_member: !!membership,
+          member_role: membership?.role || null
+        };
+        
+        if (channel.type === 'dm') {
+          // Name DMs after the other participants, as seen by this user
+          result.dm_participants = channel.channel_members
+            .filter(member => member.user_id !== userId && member.user)
+            .map(member => member.user);
+          if (result.dm_participants.length > 0) {
+            result.name = result.dm_participants.map(p => p.full_name || p.username).join(', ');
+          }
+        }
+        
+        return result;
+      });
+    
+    res.json({
+      success: true,
+      channels: channelsWithMembership
+    });
+  } catch (error) {
+    console.error('Error getting channels:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Get projects
+app.get('/api/workspace/projects', async (req, res) => {
+  try {
+    const { data, error } = await supabase
+      .from('projects')
+      .select(`
+        *,
+        department:departments(name),
+        project_manager:profiles!project_manager_id(full_name),
+        tasks(id, status),
+        milestones:project_milestones(id, status)
+      `)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching projects:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch projects'
+      });
+    }
+
+    res.json({
+      success: true,
+      projects: data || []
+    });
+  } catch (error) {
+    console.error('Error getting projects:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Create project
+app.post('/api/workspace/projects', async (req, res) => {
+  try {
+    const { name, description, status, priority, start_date, end_date, budget, department_id, project_manager_id, client_name } = req.body;
+    
+    if (!name) {
+      return res.status(400).json({
+        success: false,
+        error: 'Project name is required'
       });
     }
     
-    // Update the message
-    const { error: updateError } = await supabase
-      .from('messages')
-      .update({
-        content: content.trim(),
-        edited_at: new Date().toISOString(),
-        original_content: message.content
+    const { data, error } = await supabase
+      .from('projects')
+      .insert({
+        name,
+        description,
+        status: status || 'planning',
+        priority: priority || 'medium',
+        start_date,
+        end_date,
+        budget,
+        department_id,
+        project_manager_id,
+        client_name
       })
-      .eq('id', messageId);
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error creating project:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to create project'
+      });
+    }
     
+    res.json({
+      success: true,
+      project: data
+    });
+  } catch (error) {
+    console.error('Error creating project:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Look up a user's role in a project; project managers and leads can change its board
+const getProjectAccess = async (projectId, userId) => {
+  const [{ data: project }, { data: member }] = await Promise.all([
+    supabase.from('projects').select('id, name, project_manager_id').eq('id', projectId).maybeSingle(),
+    supabase.from('project_members').select('role').eq('project_id', projectId).eq('user_id', userId).maybeSingle()
+  ]);
+
+  const isManager = project?.project_manager_id === userId;
+  const role = member?.role || (isManager ? 'manager' : null);
+
+  return {
+    project,
+    role,
+    isMember: !!role,
+    canManage: role === 'manager' || role === 'lead'
+  };
+};
+
+// Whether a user created, is assigned to, or shares the project of a task
+const canAccessTask = async (task, userId) => {
+  if (task.created_by === userId) return true;
+
+  const { data: assignment } = await supabase
+    .from('task_assignments')
+    .select('user_id')
+    .eq('task_id', task.id)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (assignment) return true;
+
+  if (task.project_id) {
+    const { isMember } = await getProjectAccess(task.project_id, userId);
+    return isMember;
+  }
+
+  return false;
+};
+
+// Get the Kanban board of a project, or the user's personal board
+app.get('/api/workspace/boards', async (req, res) => {
+  try {
+    const { userId, projectId } = req.query;
+
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required'
+      });
+    }
+
+    let canEdit = true;
+    let query = supabase.from('kanban_boards').select('*');
+
+    if (projectId) {
+      const { project, isMember, canManage } = await getProjectAccess(projectId, userId);
+
+      if (!project) {
+        return res.status(404).json({
+          success: false,
+          error: 'Project not found'
+        });
+      }
+
+      if (!isMember) {
+        return res.status(403).json({
+          success: false,
+          error: 'Only project members can view this board'
+        });
+      }
+
+      canEdit = canManage;
+      query = query.eq('project_id', projectId);
+    } else {
+      query = query.eq('user_id', userId);
+    }
+
+    const { data: board, error } = await query.maybeSingle();
+
+    if (error) {
+      console.error('Error fetching board:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch board'
+      });
+    }
+
+    res.json({
+      success: true,
+      board: board || {
+        id: null,
+        project_id: projectId || null,
+        user_id: projectId ? null : userId,
+        columns: DEFAULT_BOARD_COLUMNS
+      },
+      canEdit
+    });
+  } catch (error) {
+    console.error('Error getting board:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Save the column configuration of a Kanban board
+app.put('/api/workspace/boards', async (req, res) => {
+  try {
+    const { userId, projectId, columns } = req.body;
+
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required'
+      });
+    }
+
+    const { columns: normalizedColumns, error: columnsError } = normalizeBoardColumns(columns);
+    if (columnsError) {
+      return res.status(400).json({
+        success: false,
+        error: columnsError
+      });
+    }
+
+    if (projectId) {
+      const { project, canManage } = await getProjectAccess(projectId, userId);
+
+      if (!project) {
+        return res.status(404).json({
+          success: false,
+          error: 'Project not found'
+        });
+      }
+
+      if (!canManage) {
+        return res.status(403).json({
+          success: false,
+          error: 'Only project managers and leads can change the project board'
+        });
+      }
+    }
+
+    const { data: board, error } = await supabase
+      .from('kanban_boards')
+      .upsert({
+        project_id: projectId || null,
+        user_id: projectId ? null : userId,
+        columns: normalizedColumns,
+        updated_by: userId,
+        updated_at: new Date().toISOString()
+      }, { onConflict: projectId ? 'project_id' : 'user_id' })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving board:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to save board'
+      });
+    }
+
+    res.json({
+      success: true,
+      board
+    });
+  } catch (error) {
+    console.error('Error saving board:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Rank of the nearest task of a status above or below a rank, ignoring one task
+const getAdjacentRank = async (status, rank, direction, excludeTaskId) => {
+  let query = supabase
+    .from('tasks')
+    .select('rank')
+    .eq('status', status)
+    .neq('id', excludeTaskId)
+    .not('rank', 'is', null)
+    .order('rank', { ascending: direction === 'below' })
+    .limit(1);
+
+  if (rank) {
+    query = direction === 'below' ? query.gt('rank', rank) : query.lt('rank', rank);
+  }
+
+  const { data } = await query.maybeSingle();
+  return data?.rank || null;
+};
+
+// Dependencies of a task, with the task each one waits on
+const getTaskDependencies = async (taskId) => {
+  const { data } = await supabase
+    .from('task_dependencies')
+    .select('id, task_id, depends_on_task_id, dependency_type, created_at, predecessor:tasks!depends_on_task_id(id, title, status)')
+    .eq('task_id', taskId);
+
+  return data || [];
+};
+
+// Move a task to a board column, between the cards it was dropped between
+app.put('/api/workspace/tasks/:taskId/move', async (req, res) => {
+  try {
+    const { taskId } = req.params;
+    const { userId, status, beforeTaskId, afterTaskId, force } = req.body;
+
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required'
+      });
+    }
+
+    if (!TASK_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid task status'
+      });
+    }
+
+    const { data: task } = await supabase
+      .from('tasks')
+      .select('id, status, created_by, project_id')
+      .eq('id', taskId)
+      .maybeSingle();
+
+    if (!task) {
+      return res.status(404).json({
+        success: false,
+        error: 'Task not found'
+      });
+    }
+
+    if (!(await canAccessTask(task, userId))) {
+      return res.status(403).json({
+        success: false,
+        error: 'You do not have access to this task'
+      });
+    }
+
+    // Starting or finishing a blocked task needs an explicit override
+    if (task.status !== status && !force) {
+      const blockers = getUnmetDependencies(await getTaskDependencies(taskId), status);
+      if (blockers.length > 0) {
+        return res.status(409).json({
+          success: false,
+          error: 'This task is blocked by unfinished tasks',
+          blockers: blockers.map(dependency => ({ ...dependency.predecessor, dependency_type: dependency.dependency_type }))
+        });
+      }
+    }
+
+    // Rank from the neighbours as they are stored now, not as the client last saw them
+    const neighbourIds = [beforeTaskId, afterTaskId].filter(id => id && id !== taskId);
+    const { data: neighbours } = neighbourIds.length > 0
+      ? await supabase.from('tasks').select('id, status, rank').in('id', neighbourIds)
+      : { data: [] };
+
+    const findNeighbour = (id) => (neighbours || []).find(neighbour =>
+      neighbour.id === id && neighbour.status === status && RANK_PATTERN.test(neighbour.rank || '')
+    );
+    const before = findNeighbour(beforeTaskId);
+    let after = findNeighbour(afterTaskId);
+
+    // If someone else reordered the column meanwhile, the neighbours are no longer adjacent;
+    // the card then goes right below the one it was dropped under
+    if (before && after && before.rank >= after.rank) {
+      after = null;
+    }
+
+    let lowerRank = before?.rank || null;
+    let upperRank = after?.rank || null;
+
+    if (before && !after) {
+      upperRank = await getAdjacentRank(status, before.rank, 'below', taskId);
+    } else if (!before && after) {
+      lowerRank = await getAdjacentRank(status, after.rank, 'above', taskId);
+    } else if (!before && !after) {
+      // Dropped on an empty column, or on one whose cards moved away: go to the end
+      lowerRank = await getAdjacentRank(status, null, 'above', taskId);
+    }
+
+    let rank = rankBetween(lowerRank, upperRank);
+
+    // Two moves into the same gap at once compute the same rank; step past the one already stored
+    const { data: collision } = await supabase
+      .from('tasks')
+      .select('id')
+      .eq('status', status)
+      .eq('rank', rank)
+      .neq('id', taskId)
+      .limit(1)
+      .maybeSingle();
+
+    if (collision) {
+      rank = rankBetween(rank, await getAdjacentRank(status, rank, 'below', taskId));
+    }
+
+    const { data: updatedTask, error: updateError } = await supabase
+      .from('tasks')
+      .update({ status, rank, updated_at: new Date().toISOString() })
+      .eq('id', taskId)
+      .select('id, status, rank, updated_at')
+      .single();
+
     if (updateError) {
-      console.error('Error updating message:', updateError);
+      console.error('Error moving task:', updateError);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to move task'
+      });
+    }
+
+    res.json({
+      success: true,
+      task: updatedTask
+    });
+  } catch (error) {
+    console.error('Error moving task:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Add a dependency to a task
+app.post('/api/workspace/tasks/:taskId/dependencies', async (req, res) => {
+  try {
+    const { taskId } = req.params;
+    const { userId, dependsOnTaskId, dependencyType = 'finish_to_start' } = req.body;
+
+    if (!userId || !dependsOnTaskId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID and the task to depend on are required'
+      });
+    }
+
+    if (!DEPENDENCY_TYPES.includes(dependencyType)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid dependency type'
+      });
+    }
+
+    if (dependsOnTaskId === taskId) {
+      return res.status(400).json({
+        success: false,
+        error: 'A task cannot depend on itself'
+      });
+    }
+
+    const { data: tasks } = await supabase
+      .from('tasks')
+      .select('id, title, status, created_by, project_id')
+      .in('id', [taskId, dependsOnTaskId]);
+
+    const task = (tasks || []).find(t => t.id === taskId);
+    const predecessor = (tasks || []).find(t => t.id === dependsOnTaskId);
+
+    if (!task || !predecessor) {
+      return res.status(404).json({
+        success: false,
+        error: 'Task not found'
+      });
+    }
+
+    if (!(await canAccessTask(task, userId)) || !(await canAccessTask(predecessor, userId))) {
+      return res.status(403).json({
+        success: false,
+        error: 'You do not have access to both tasks'
+      });
+    }
+
+    const cycle = await findDependencyCycle(taskId, dependsOnTaskId, async (taskIds) => {
+      const { data, error } = await supabase
+        .from('task_dependencies')
+        .select('task_id, depends_on_task_id')
+        .in('task_id', taskIds);
+
+      if (error) throw error;
+      return data || [];
+    });
+
+    if (cycle) {
+      const { data: cycleTasks } = await supabase.from('tasks').select('id, title').in('id', cycle);
+      const titles = cycle.map(id => cycleTasks?.find(t => t.id === id)?.title || 'Unknown task');
+
+      return res.status(409).json({
+        success: false,
+        error: `This would create a dependency loop: ${[task.title, ...titles].map(title => `"${title}"`).join(' → ')}`,
+        cycle
+      });
+    }
+
+    const { data: dependency, error } = await supabase
+      .from('task_dependencies')
+      .insert({
+        task_id: taskId,
+        depends_on_task_id: dependsOnTaskId,
+        dependency_type: dependencyType
+      })
+      .select('id, task_id, depends_on_task_id, dependency_type, created_at, predecessor:tasks!depends_on_task_id(id, title, status)')
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return res.status(409).json({
+          success: false,
+          error: 'This dependency already exists'
+        });
+      }
+
+      console.error('Error adding dependency:', error);
       return res.status(500).json({
         success: false,
-        error: 'Failed to update message'
+        error: 'Failed to add dependency'
       });
     }
-    
+
     res.json({
       success: true,
-      message: 'Message updated successfully'
+      dependency
     });
   } catch (error) {
-    console.error('Error editing message:', error);
+    console.error('Error adding dependency:', error);
     res.status(500).json({
       success: false,
       error: error.message
@@ -511,60 +4286,58 @@ app.put('/api/workspace/messages/:messageId', async (req, res) => {
   }
 });
 
-// Delete task
-app.delete('/api/workspace/tasks/:taskId', async (req, res) => {
+// Remove a dependency from a task
+app.delete('/api/workspace/tasks/:taskId/dependencies/:dependencyId', async (req, res) => {
   try {
-    const { taskId } = req.params;
+    const { taskId, dependencyId } = req.params;
     const { userId } = req.body;
-    
+
     if (!userId) {
       return res.status(400).json({
         success: false,
         error: 'User ID is required'
       });
     }
-    
-    // Check if user is the creator of the task
-    const { data: task, error: taskError } = await supabase
+
+    const { data: task } = await supabase
       .from('tasks')
-      .select('created_by')
+      .select('id, created_by, project_id')
       .eq('id', taskId)
-      .single();
-    
-    if (taskError || !task) {
+      .maybeSingle();
+
+    if (!task) {
       return res.status(404).json({
         success: false,
         error: 'Task not found'
       });
     }
-    
-    if (task.created_by !== userId) {
+
+    if (!(await canAccessTask(task, userId))) {
       return res.status(403).json({
         success: false,
-        error: 'Only the task creator can delete this task'
+        error: 'You do not have access to this task'
       });
     }
-    
-    // Delete the task (cascading deletes will handle assignments)
-    const { error: deleteError } = await supabase
-      .from('tasks')
+
+    const { error } = await supabase
+      .from('task_dependencies')
       .delete()
-      .eq('id', taskId);
-    
-    if (deleteError) {
-      console.error('Error deleting task:', deleteError);
+      .eq('id', dependencyId)
+      .eq('task_id', taskId);
+
+    if (error) {
+      console.error('Error removing dependency:', error);
       return res.status(500).json({
         success: false,
-        error: 'Failed to delete task'
+        error: 'Failed to remove dependency'
       });
     }
-    
+
     res.json({
-      success: true,
-      message: 'Task deleted successfully'
+      success: true
     });
   } catch (error) {
-    console.error('Error deleting task:', error);
+    console.error('Error removing dependency:', error);
     res.status(500).json({
       success: false,
       error: error.message
@@ -572,40 +4345,82 @@ app.delete('/api/workspace/tasks/:taskId', async (req, res) => {
   }
 });
 
-// Get channels with membership info
-app.get('/api/workspace/channels/:userId', async (req, res) => {
+// Load a task and check that the user may change its checklist
+const getChecklistTask = async (taskId, userId) => {
+  const { data: task } = await supabase
+    .from('tasks')
+    .select('id, created_by, project_id')
+    .eq('id', taskId)
+    .maybeSingle();
+
+  if (!task) return { status: 404, error: 'Task not found' };
+  if (!(await canAccessTask(task, userId))) return { status: 403, error: 'You do not have access to this task' };
+  return { task };
+};
+
+// Add an item to the checklist of a task
+app.post('/api/workspace/tasks/:taskId/checklist', async (req, res) => {
   try {
-    const { userId } = req.params;
-    
-    // Get all channels with membership information
-    const { data: channels, error } = await supabase
-      .from('channels')
-      .select(`
-        *,
-        channel_members!left(user_id, role)
-      `)
-      .order('created_at', { ascending: true });
-    
+    const { taskId } = req.params;
+    const { userId } = req.body;
+    const content = typeof req.body.content === 'string' ? req.body.content.trim() : '';
+
+    if (!userId || !content) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID and the item text are required'
+      });
+    }
+
+    if (content.length > 500) {
+      return res.status(400).json({
+        success: false,
+        error: 'Checklist items can be at most 500 characters'
+      });
+    }
+
+    const access = await getChecklistTask(taskId, userId);
+    if (access.error) {
+      return res.status(access.status).json({
+        success: false,
+        error: access.error
+      });
+    }
+
+    // New items go to the end of the list
+    const { data: last } = await supabase
+      .from('task_checklist_items')
+      .select('position')
+      .eq('task_id', taskId)
+      .order('position', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const { data: item, error } = await supabase
+      .from('task_checklist_items')
+      .insert({
+        task_id: taskId,
+        content,
+        position: last ? last.position + 1 : 0,
+        created_by: userId
+      })
+      .select()
+      .single();
+
     if (error) {
-      console.error('Error fetching channels:', error);
+      console.error('Error adding checklist item:', error);
       return res.status(500).json({
         success: false,
-        error: 'Failed to fetch channels'
+        error: 'Failed to add checklist item'
       });
     }
-    
-    // Add membership info to each channel
-    const channelsWithMembership = channels.map(channel => ({
-      ...channel,
-      is_member: channel.channel_members.some(member => member.user_id === userId)
-    }));
-    
+
     res.json({
       success: true,
-      channels: channelsWithMembership
+      item
     });
   } catch (error) {
-    console.error('Error getting channels:', error);
+    console.error('Error adding checklist item:', error);
     res.status(500).json({
       success: false,
       error: error.message
@@ -613,34 +4428,79 @@ app.get('/api/workspace/channels/:userId', async (req, res) => {
   }
 });
 
-// Get projects
-app.get('/api/workspace/projects', async (req, res) => {
+// Tick off, untick or reword a checklist item
+app.put('/api/workspace/tasks/:taskId/checklist/:itemId', async (req, res) => {
   try {
-    const { data, error } = await supabase
-      .from('projects')
-      .select(`
-        *,
-        department:departments(name),
-        project_manager:profiles!project_manager_id(full_name),
-        tasks(id, status),
-        milestones:project_milestones(id, status)
-      `)
-      .order('created_at', { ascending: false });
+    const { taskId, itemId } = req.params;
+    const { userId, content, isCompleted } = req.body;
+
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required'
+      });
+    }
+
+    const updates = {};
+    if (typeof isCompleted === 'boolean') {
+      updates.is_completed = isCompleted;
+      updates.completed_at = isCompleted ? new Date().toISOString() : null;
+    }
+    if (content !== undefined) {
+      const trimmed = typeof content === 'string' ? content.trim() : '';
+      if (!trimmed || trimmed.length > 500) {
+        return res.status(400).json({
+          success: false,
+          error: 'Checklist items need between 1 and 500 characters'
+        });
+      }
+      updates.content = trimmed;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Nothing to update'
+      });
+    }
+
+    const access = await getChecklistTask(taskId, userId);
+    if (access.error) {
+      return res.status(access.status).json({
+        success: false,
+        error: access.error
+      });
+    }
+
+    const { data: item, error } = await supabase
+      .from('task_checklist_items')
+      .update(updates)
+      .eq('id', itemId)
+      .eq('task_id', taskId)
+      .select()
+      .maybeSingle();
 
     if (error) {
-      console.error('Error fetching projects:', error);
+      console.error('Error updating checklist item:', error);
       return res.status(500).json({
         success: false,
-        error: 'Failed to fetch projects'
+        error: 'Failed to update checklist item'
+      });
+    }
+
+    if (!item) {
+      return res.status(404).json({
+        success: false,
+        error: 'Checklist item not found'
       });
     }
 
     res.json({
       success: true,
-      projects: data || []
+      item
     });
   } catch (error) {
-    console.error('Error getting projects:', error);
+    console.error('Error updating checklist item:', error);
     res.status(500).json({
       success: false,
       error: error.message
@@ -648,49 +4508,46 @@ app.get('/api/workspace/projects', async (req, res) => {
   }
 });
 
-// Create project
-app.post('/api/workspace/projects', async (req, res) => {
+// Remove an item from the checklist of a task
+app.delete('/api/workspace/tasks/:taskId/checklist/:itemId', async (req, res) => {
   try {
-    const { name, description, status, priority, start_date, end_date, budget, department_id, project_manager_id, client_name } = req.body;
-    
-    if (!name) {
+    const { taskId, itemId } = req.params;
+    const { userId } = req.body;
+
+    if (!userId) {
       return res.status(400).json({
         success: false,
-        error: 'Project name is required'
+        error: 'User ID is required'
       });
     }
-    
-    const { data, error } = await supabase
-      .from('projects')
-      .insert({
-        name,
-        description,
-        status: status || 'planning',
-        priority: priority || 'medium',
-        start_date,
-        end_date,
-        budget,
-        department_id,
-        project_manager_id,
-        client_name
-      })
-      .select()
-      .single();
-    
+
+    const access = await getChecklistTask(taskId, userId);
+    if (access.error) {
+      return res.status(access.status).json({
+        success: false,
+        error: access.error
+      });
+    }
+
+    const { error } = await supabase
+      .from('task_checklist_items')
+      .delete()
+      .eq('id', itemId)
+      .eq('task_id', taskId);
+
     if (error) {
-      console.error('Error creating project:', error);
+      console.error('Error removing checklist item:', error);
       return res.status(500).json({
         success: false,
-        error: 'Failed to create project'
+        error: 'Failed to remove checklist item'
       });
     }
-    
+
     res.json({
-      success: true,
-      project: data
+      success: true
     });
   } catch (error) {
-    console.error('Error creating project:', error);
+    console.error('Error removing checklist item:', error);
     res.status(500).json({
       success: false,
       error: error.message
@@ -1022,6 +4879,79 @@ app.put('/api/workspace/notifications/:notificationId/read', async (req, res) =>
   }
 });
 
+// Search messages, tasks, events, projects and task comments
+app.get('/api/workspace/search', async (req, res) => {
+  try {
+    const { userId, q, types, channelId, senderId, from, to, limit } = req.query;
+
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required'
+      });
+    }
+
+    const query = typeof q === 'string' ? q.trim() : '';
+    if (query.length < 2) {
+      return res.status(400).json({
+        success: false,
+        error: 'Search query must be at least 2 characters'
+      });
+    }
+
+    const resultTypes = types
+      ? String(types).split(',').map(type => type.trim()).filter(Boolean)
+      : SEARCH_RESULT_TYPES;
+
+    const invalidType = resultTypes.find(type => !SEARCH_RESULT_TYPES.includes(type));
+    if (invalidType) {
+      return res.status(400).json({
+        success: false,
+        error: `Unknown result type: ${invalidType}`
+      });
+    }
+
+    const fromDate = from ? new Date(from) : null;
+    const toDate = to ? new Date(to) : null;
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid date range'
+      });
+    }
+
+    const { data, error } = await supabase.rpc('search_workspace', {
+      user_id_param: userId,
+      query_text: query,
+      result_types: resultTypes,
+      channel_id_param: channelId || null,
+      sender_id_param: senderId || null,
+      from_date: fromDate ? fromDate.toISOString() : null,
+      to_date: toDate ? toDate.toISOString() : null,
+      limit_count: Math.min(Math.max(parseInt(limit, 10) || 30, 1), 100)
+    });
+
+    if (error) {
+      console.error('Error searching workspace:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to search workspace'
+      });
+    }
+
+    res.json({
+      success: true,
+      results: data || []
+    });
+  } catch (error) {
+    console.error('Error searching workspace:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
 // Health check
 app.get('/api/workspace/health', (req, res) => {
   res.json({
@@ -1039,7 +4969,76 @@ app.get('/', (req, res) => {
   });
 });
 
+// Post due scheduled messages. The database claims and sends them in one transaction, so
+// messages queued before a restart go out on the next run and are never sent twice.
+const dispatchScheduledMessages = async () => {
+  try {
+    const startedAt = new Date().toISOString();
+    const { data: sentCount, error } = await supabase.rpc('dispatch_scheduled_messages', { batch_size: 50 });
+
+    if (error) {
+      console.error('Error dispatching scheduled messages:', error);
+      return;
+    }
+
+    if (sentCount > 0) {
+      // Unfurl links in the messages that just went out
+      const { data: sent } = await supabase
+        .from('scheduled_messages')
+        .select('message_id')
+        .eq('status', 'sent')
+        .gte('sent_at', startedAt);
+
+      for (const { message_id: messageId } of sent || []) {
+        if (messageId) await unfurlMessageLinks(messageId);
+      }
+    }
+  } catch (error) {
+    console.error('Error dispatching scheduled messages:', error);
+  }
+};
+
+// Close polls whose closing time has passed and announce their results
+const closeDuePolls = async () => {
+  try {
+    const { error } = await supabase.rpc('close_due_polls', { batch_size: 50 });
+
+    if (error) {
+      console.error('Error closing due polls:', error);
+    }
+  } catch (error) {
+    console.error('Error closing due polls:', error);
+  }
+};
+
+// Delete history that has outlived its channel's retention policy, along with the stored files
+const purgeExpiredHistory = async () => {
+  try {
+    const { data: purged, error } = await supabase.rpc('purge_expired_history', { batch_size: 500 });
+
+    if (error) {
+      console.error('Error purging expired history:', error);
+      return;
+    }
+
+    for (const filePath of purged?.file_paths || []) {
+      await storage.remove(filePath).catch(error => {
+        console.error('Error removing stored file:', error);
+      });
+    }
+  } catch (error) {
+    console.error('Error purging expired history:', error);
+  }
+};
+
+setInterval(dispatchScheduledMessages, SCHEDULED_DISPATCH_INTERVAL_MS);
+setInterval(closeDuePolls, SCHEDULED_DISPATCH_INTERVAL_MS);
+setInterval(purgeExpiredHistory, RETENTION_PURGE_INTERVAL_MS);
+
 app.listen(PORT, () => {
+  dispatchScheduledMessages();
+  closeDuePolls();
+  purgeExpiredHistory();
   //console.log(`Workspace API server running on http://localhost:${PORT}`);
   //console.log(`Health check: http://localhost:${PORT}/api/workspace/health`);
   //console.log(`CORS configured for: ${FRONTEND_URL}`);
@@ -253,9 +253,11 @@ class WorkspaceProcessor {
           content,
           type,
           created_at,
+          reactions,
           sender:profiles(full_name, username)
         `)
         .eq('channel_id', channelId)
+        .is('deleted_at', null)
         .gte('created_at', since)
         .order('created_at', { ascending: true });
 
@@ -266,14 +268,29 @@ class WorkspaceProcessor {
       // Generate summary using AI
       const messageText = messages
         .filter(m => m.type === 'text')
-        .map(m => `${m.sender?.full_name || 'Unknown'}: ${m.content}`)
+        .map(m => `${m.sender?.full_name || 'Unknown'}: ${m.content}${this.formatReactions(m.reactions)}`)
         .join('\n');
 
+      // Reactions are a cheap signal of how the team feels about the discussion
+      const reactionTotals = {};
+      messages.forEach(m => {
+        (m.reactions || []).forEach(reaction => {
+          reactionTotals[reaction.emoji] = (reactionTotals[reaction.emoji] || 0) + reaction.count;
+        });
+      });
+      const reactionText = Object.entries(reactionTotals)
+        .sort((a, b) => b[1] - a[1])
+        .map(([emoji, count]) => `${emoji} x${count}`)
+        .join(', ');
+
       const prompt = `
         Summarize this channel conversation from the last ${timeframe}:
         
         ${messageText}
         
+        Reactions across the conversation: ${reactionText || 'none'}
+        Use the reactions as a signal for the overall sentiment.
+        
         Provide a concise summary including:
         - Key topics discussed
         - Important decisions made
@@ -300,6 +317,14 @@ class WorkspaceProcessor {
     }
   }
 
+  formatReactions(reactions) {
+    if (!reactions || reactions.length === 0) {
+      return '';
+    }
+
+    return ` [reactions: ${reactions.map(r => `${r.emoji} ${r.count}`).join(', ')}]`;
+  }
+
   async extractMeetingNotes(transcript, participants, duration) {
     try {
       const prompt = `
@@ -8,6 +8,7 @@ import AssistantPage from './pages/AssistantPage';
 import GameModePage from './pages/GameModePage';
 import MeetingPage from './pages/MeetingPage';
 import WorkspacePage from './pages/WorkspacePage';
+import JoinChannelPage from './pages/JoinChannelPage';
 import ProfessionalServicesPage from './pages/ProfessionalServicesPage';
 import ProtectedRoute from './components/ProtectedRoute';
 const VITE_AI_API_URL = import.meta.env.VITE_AI_API_URL;
@@ -50,6 +51,11 @@ function App() {
                   <WorkspacePage />
                 </ProtectedRoute>
               } />
+              <Route path="/join/:code" element={
+                <ProtectedRoute>
+                  <JoinChannelPage />
+                </ProtectedRoute>
+              } />
               <Route path="/professional-services" element={
                 <ProtectedRoute>
                   <ProfessionalServicesPage />
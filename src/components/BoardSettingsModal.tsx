@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, Columns, Plus, Trash2, X } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { TASK_STATUS_LABELS, type BoardColumn, type TaskStatus } from '../lib/supabase';
+import GlassCard from './ui/GlassCard';
+import Button from './ui/Button';
+
+interface BoardSettingsModalProps {
+  boardName: string;
+  columns: BoardColumn[];
+  onSave: (columns: BoardColumn[]) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const MAX_BOARD_COLUMNS = 12;
+
+const BoardSettingsModal: React.FC<BoardSettingsModalProps> = ({ boardName, columns, onSave, onClose }) => {
+  const [draft, setDraft] = useState<BoardColumn[]>(columns);
+  const [saving, setSaving] = useState(false);
+
+  const allStatuses = Object.keys(TASK_STATUS_LABELS) as TaskStatus[];
+  const unusedStatuses = allStatuses.filter(status => !draft.some(column => column.status === status));
+
+  const updateColumn = (index: number, changes: Partial<BoardColumn>) => {
+    setDraft(prev => prev.map((column, i) => (i === index ? { ...column, ...changes } : column)));
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    setDraft(prev => {
+      const next = [...prev];
+      const [column] = next.splice(index, 1);
+      next.splice(index + offset, 0, column);
+      return next;
+    });
+  };
+
+  const addColumn = () => {
+    const status = unusedStatuses[0];
+    if (!status) return;
+    setDraft(prev => [...prev, { id: status, title: TASK_STATUS_LABELS[status], status, wip_limit: null }]);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    const saved = await onSave(draft.map(column => ({ ...column, id: column.status, title: column.title.trim() })));
+    setSaving(false);
+    if (saved) onClose();
+  };
+
+  const isValid = draft.length > 0 && draft.every(column => column.title.trim());
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-start justify-center z-50 p-4 pt-24"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        className="w-full max-w-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <GlassCard className="p-0 overflow-hidden" goldBorder>
+          {/* Header */}
+          <div className="flex items-center justify-between px-4 py-3 border-b silver-border">
+            <div className="flex items-center space-x-2">
+              <Columns className="w-5 h-5 text-yellow-600" />
+              <h3 className="font-bold text-primary">Columns of {boardName}</h3>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-1 text-secondary hover:text-primary"
+              title="Close"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="p-4 space-y-2 max-h-[60vh] overflow-y-auto" style={{ scrollbarWidth: 'thin' }}>
+            <div className="grid grid-cols-[1fr_10rem_6rem_5rem] gap-2 px-1 text-xs text-secondary">
+              <span>Title</span>
+              <span>Status</span>
+              <span>WIP limit</span>
+              <span />
+            </div>
+
+            {draft.map((column, index) => (
+              <div key={column.status} className="grid grid-cols-[1fr_10rem_6rem_5rem] gap-2 items-center">
+                <input
+                  type="text"
+                  value={column.title}
+                  maxLength={40}
+                  onChange={(e) => updateColumn(index, { title: e.target.value })}
+                  className="glass-panel rounded-lg px-3 py-2 text-sm text-primary focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                />
+                <select
+                  value={column.status}
+                  onChange={(e) => updateColumn(index, { status: e.target.value as TaskStatus })}
+                  className="glass-panel rounded-lg px-2 py-2 text-sm text-primary focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                >
+                  {allStatuses
+                    .filter(status => status === column.status || unusedStatuses.includes(status))
+                    .map(status => (
+                      <option key={status} value={status}>{TASK_STATUS_LABELS[status]}</option>
+                    ))}
+                </select>
+                <input
+                  type="number"
+                  min={1}
+                  max={999}
+                  value={column.wip_limit ?? ''}
+                  placeholder="None"
+                  onChange={(e) => updateColumn(index, { wip_limit: e.target.value ? Number(e.target.value) : null })}
+                  className="glass-panel rounded-lg px-3 py-2 text-sm text-primary focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                />
+                <div className="flex items-center justify-end space-x-1">
+                  <button
+                    onClick={() => moveColumn(index, -1)}
+                    disabled={index === 0}
+                    className="p-1 text-secondary hover:text-primary disabled:opacity-30"
+                    title="Move left"
+                  >
+                    <ArrowUp className="w-3 h-3" />
+                  </button>
+                  <button
+                    onClick={() => moveColumn(index, 1)}
+                    disabled={index === draft.length - 1}
+                    className="p-1 text-secondary hover:text-primary disabled:opacity-30"
+                    title="Move right"
+                  >
+                    <ArrowDown className="w-3 h-3" />
+                  </button>
+                  <button
+                    onClick={() => setDraft(prev => prev.filter((_, i) => i !== index))}
+                    disabled={draft.length === 1}
+                    className="p-1 text-secondary hover:text-red-500 disabled:opacity-30"
+                    title="Remove column"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              </div>
+            ))}
+
+            {unusedStatuses.length > 0 && draft.length < MAX_BOARD_COLUMNS && (
+              <button
+                onClick={addColumn}
+                className="flex items-center space-x-1 text-sm text-secondary hover:text-primary pt-2"
+              >
+                <Plus className="w-4 h-4" />
+                <span>Add column</span>
+              </button>
+            )}
+
+            <p className="text-xs text-secondary pt-2">
+              Each column shows the tasks of one status. Tasks whose status has no column are hidden from this board.
+            </p>
+          </div>
+
+          <div className="flex justify-end space-x-2 p-4 border-t silver-border">
+            <Button onClick={onClose} variant="secondary" size="sm">
+              Cancel
+            </Button>
+            <Button onClick={handleSave} variant="premium" size="sm" disabled={!isValid || saving}>
+              {saving ? 'Saving...' : 'Save columns'}
+            </Button>
+          </div>
+        </GlassCard>
+      </motion.div>
+    </div>
+  );
+};
+
+export default BoardSettingsModal;
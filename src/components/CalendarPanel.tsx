@@ -8,6 +8,7 @@ import Button from './ui/Button';
 
 interface CalendarPanelProps {
   tasks: Task[];
+  focusDate?: string | null;
 }
 
 interface Task {
@@ -33,7 +34,7 @@ interface CalendarEvent {
   is_reminder?: boolean;
 }
 
-const CalendarPanel: React.FC<CalendarPanelProps> = ({ tasks }) => {
+const CalendarPanel: React.FC<CalendarPanelProps> = ({ tasks, focusDate }) => {
   const { user } = useAuth();
   const [currentDate, setCurrentDate] = useState(new Date());
   const [events, setEvents] = useState<CalendarEvent[]>([]);
@@ -60,6 +61,16 @@ const CalendarPanel: React.FC<CalendarPanelProps> = ({ tasks }) => {
     loadEvents();
   }, [user, currentDate]);
 
+  useEffect(() => {
+    if (!focusDate) return;
+
+    // Open the day of a focused event, e.g. when jumping from search
+    const date = new Date(focusDate);
+    setCurrentDate(new Date(date.getFullYear(), date.getMonth(), 1));
+    setSelectedDate(new Date(date.getFullYear(), date.getMonth(), date.getDate()));
+    setShowDateModal(true);
+  }, [focusDate]);
+
   const loadEvents = async () => {
     if (!user) return;
 
@@ -0,0 +1,258 @@
+import React, { useState, useEffect } from 'react';
+import { Link2, Copy, Check, Trash2, X } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { useAuth } from '../contexts/AuthContext';
+import { type Channel, type ChannelInvite } from '../lib/supabase';
+import GlassCard from './ui/GlassCard';
+import Button from './ui/Button';
+
+interface ChannelInviteModalProps {
+  channel: Channel;
+  onClose: () => void;
+}
+
+const EXPIRY_OPTIONS: { label: string; hours: number | null }[] = [
+  { label: '1 hour', hours: 1 },
+  { label: '1 day', hours: 24 },
+  { label: '7 days', hours: 24 * 7 },
+  { label: '30 days', hours: 24 * 30 },
+  { label: 'Never', hours: null }
+];
+
+const MAX_USES_OPTIONS: { label: string; uses: number | null }[] = [
+  { label: 'No limit', uses: null },
+  { label: '1 use', uses: 1 },
+  { label: '5 uses', uses: 5 },
+  { label: '10 uses', uses: 10 },
+  { label: '25 uses', uses: 25 },
+  { label: '100 uses', uses: 100 }
+];
+
+const getInviteUrl = (code: string) => `${window.location.origin}/join/${code}`;
+
+const ChannelInviteModal: React.FC<ChannelInviteModalProps> = ({ channel, onClose }) => {
+  const { user } = useAuth();
+  const [invites, setInvites] = useState<ChannelInvite[]>([]);
+  const [canManageAll, setCanManageAll] = useState(false);
+  const [expiryIndex, setExpiryIndex] = useState(2);
+  const [maxUsesIndex, setMaxUsesIndex] = useState(0);
+  const [creating, setCreating] = useState(false);
+  const [copiedCode, setCopiedCode] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadInvites = async () => {
+      try {
+        const response = await fetch(
+          `${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/channels/${channel.id}/invites?userId=${user.id}`,
+          { credentials: 'include' }
+        );
+        const data = await response.json();
+        if (data.success) {
+          setInvites(data.invites);
+          setCanManageAll(data.can_manage_all);
+        }
+      } catch (error) {
+        console.error('Error loading invites:', error);
+      }
+    };
+
+    loadInvites();
+  }, [channel.id, user]);
+
+  const copyInvite = async (code: string) => {
+    try {
+      await navigator.clipboard.writeText(getInviteUrl(code));
+      setCopiedCode(code);
+      setTimeout(() => setCopiedCode(current => (current === code ? null : current)), 2000);
+    } catch (error) {
+      console.error('Error copying invite link:', error);
+    }
+  };
+
+  const handleCreateInvite = async () => {
+    if (!user) return;
+
+    setCreating(true);
+    try {
+      const response = await fetch(`${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/channels/${channel.id}/invites`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          userId: user.id,
+          expiresInHours: EXPIRY_OPTIONS[expiryIndex].hours,
+          maxUses: MAX_USES_OPTIONS[maxUsesIndex].uses
+        })
+      });
+
+      const data = await response.json();
+      if (data.success) {
+        setInvites(prev => [data.invite, ...prev]);
+        copyInvite(data.invite.invite_code);
+      } else {
+        alert(data.error || 'Failed to create invite');
+      }
+    } catch (error) {
+      console.error('Error creating invite:', error);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevokeInvite = async (invite: ChannelInvite) => {
+    if (!user || !confirm('Revoke this invite link? People who already joined stay in the channel.')) return;
+
+    try {
+      const response = await fetch(`${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/invites/${invite.id}`, {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ userId: user.id })
+      });
+
+      const data = await response.json();
+      if (data.success) {
+        setInvites(prev => prev.filter(i => i.id !== invite.id));
+      } else {
+        alert(data.error || 'Failed to revoke invite');
+      }
+    } catch (error) {
+      console.error('Error revoking invite:', error);
+    }
+  };
+
+  const describeInvite = (invite: ChannelInvite) => {
+    const parts = [
+      `${invite.current_uses}${invite.max_uses !== null ? `/${invite.max_uses}` : ''} uses`
+    ];
+
+    if (invite.max_uses !== null && invite.current_uses >= invite.max_uses) {
+      parts.push('Used up');
+    } else if (invite.expires_at && new Date(invite.expires_at) < new Date()) {
+      parts.push('Expired');
+    } else {
+      parts.push(invite.expires_at
+        ? `Expires ${new Date(invite.expires_at).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}`
+        : 'Never expires');
+    }
+
+    if (canManageAll && invite.created_by !== user?.id) {
+      parts.push(`by ${invite.creator?.full_name || invite.creator?.username || 'Unknown User'}`);
+    }
+
+    return parts.join(' • ');
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-start justify-center z-50 p-4 pt-24"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        className="w-full max-w-lg"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <GlassCard className="p-0 overflow-hidden" goldBorder>
+          {/* Header */}
+          <div className="flex items-center justify-between px-4 py-3 border-b silver-border">
+            <div className="flex items-center space-x-2">
+              <Link2 className="w-5 h-5 text-yellow-600" />
+              <h3 className="font-bold text-primary">Invite people to #{channel.name}</h3>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-1 text-secondary hover:text-primary"
+              title="Close"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          {/* New invite */}
+          <div className="p-4 border-b silver-border space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block">
+                <span className="block text-xs font-medium text-secondary mb-1">Expire after</span>
+                <select
+                  value={expiryIndex}
+                  onChange={(e) => setExpiryIndex(Number(e.target.value))}
+                  className="w-full glass-panel rounded-lg px-3 py-2 text-sm text-primary bg-transparent focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                >
+                  {EXPIRY_OPTIONS.map((option, index) => (
+                    <option key={option.label} value={index}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="block">
+                <span className="block text-xs font-medium text-secondary mb-1">Max number of uses</span>
+                <select
+                  value={maxUsesIndex}
+                  onChange={(e) => setMaxUsesIndex(Number(e.target.value))}
+                  className="w-full glass-panel rounded-lg px-3 py-2 text-sm text-primary bg-transparent focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                >
+                  {MAX_USES_OPTIONS.map((option, index) => (
+                    <option key={option.label} value={index}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <Button
+              onClick={handleCreateInvite}
+              variant="premium"
+              size="sm"
+              className="w-full"
+              disabled={creating}
+            >
+              {creating ? 'Generating...' : 'Generate & copy link'}
+            </Button>
+          </div>
+
+          {/* Active invites */}
+          <div className="max-h-72 overflow-y-auto" style={{ scrollbarWidth: 'thin' }}>
+            <h4 className="px-4 pt-3 text-xs font-semibold text-secondary uppercase tracking-wider">
+              {canManageAll ? 'Active invites' : 'Your active invites'} ({invites.length})
+            </h4>
+
+            {invites.length === 0 && (
+              <p className="px-4 py-6 text-center text-sm text-secondary">
+                No active invite links.
+              </p>
+            )}
+
+            {invites.map(invite => (
+              <div key={invite.id} className="px-4 py-3 flex items-center space-x-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-primary font-mono truncate">{getInviteUrl(invite.invite_code)}</p>
+                  <p className="text-xs text-secondary mt-1 truncate">{describeInvite(invite)}</p>
+                </div>
+                <button
+                  onClick={() => copyInvite(invite.invite_code)}
+                  className="p-1 rounded text-secondary hover:text-primary"
+                  title="Copy link"
+                >
+                  {copiedCode === invite.invite_code
+                    ? <Check className="w-4 h-4 text-green-500" />
+                    : <Copy className="w-4 h-4" />}
+                </button>
+                <button
+                  onClick={() => handleRevokeInvite(invite)}
+                  className="p-1 rounded text-secondary hover:text-red-400"
+                  title="Revoke invite"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </GlassCard>
+      </motion.div>
+    </div>
+  );
+};
+
+export default ChannelInviteModal;
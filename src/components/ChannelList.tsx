@@ -1,10 +1,13 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Hash, Lock, Plus, Users, Search, MessageCircle, Calendar, MoreVertical, FileText, UserPlus, LogOut, Key, Trash2, Video, ExternalLink } from 'lucide-react';
+import { Hash, Lock, Plus, Users, Search, MessageCircle, Calendar, MoreVertical, FileText, UserPlus, LogOut, Key, Trash2, Video, ExternalLink, Archive, ArchiveRestore, Download, ChevronDown, ChevronRight } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { type Channel } from '../lib/supabase';
+import { type Channel, type ChannelRole } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import GlassCard from './ui/GlassCard';
 import Button from './ui/Button';
+import ChannelInviteModal from './ChannelInviteModal';
+import ExportChannelModal from './ExportChannelModal';
+import NewMessageModal from './NewMessageModal';
 const VITE_AI_API_URL = import.meta.env.VITE_AI_API_URL;
 const VITE_API_URL = import.meta.env.VITE_API_URL;
 const VITE_MEDIA_API_URL = import.meta.env.VITE_MEDIA_API_URL;
@@ -12,17 +15,21 @@ const VITE_WORKSPACE_API_URL = import.meta.env.VITE_WORKSPACE_API_URL;
 const VITE_APP_URL = import.meta.env.VITE_APP_URL;
 const FRONTEND_URL = import.meta.env.VITE_FRONTEND_URL;
 
+type ChannelWithStatus = Channel & { unread_count?: number; mention_count?: number; is_member?: boolean; member_role?: ChannelRole | null };
+
 interface ChannelListProps {
-  channels: (Channel & { unread_count?: number; is_member?: boolean })[];
+  channels: ChannelWithStatus[];
   activeChannel: Channel | null;
   onChannelSelect: (channel: Channel) => void;
   onCreateChannel: (name: string, description: string, type: 'public' | 'private', password?: string) => void;
-  onDeleteChannel: (channelId: string) => void;
+  onDeleteChannel: (channelId: string, confirmName: string) => void;
+  onArchiveChannel: (channelId: string, archived: boolean) => void;
   onJoinChannel: (channelId: string, password?: string) => void;
   onLeaveChannel: (channelId: string) => void;
   onSummarizeChannel: (channelId: string) => void;
   onStartMeeting: (channelId: string, channelName: string) => void;
   onJoinMeeting: (url: string) => void;
+  onStartDirectMessage: (participantIds: string[]) => void;
 }
 
 const ChannelList: React.FC<ChannelListProps> = ({
@@ -31,13 +38,15 @@ const ChannelList: React.FC<ChannelListProps> = ({
   onChannelSelect,
   onCreateChannel,
   onDeleteChannel,
+  onArchiveChannel,
   onJoinChannel,
   onLeaveChannel,
   onSummarizeChannel,
   onStartMeeting,
-  onJoinMeeting
+  onJoinMeeting,
+  onStartDirectMessage
 }) => {
-  const { user, isGoogleConnected } = useAuth();
+  const { isGoogleConnected } = useAuth();
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [showJoinModal, setShowJoinModal] = useState(false);
   const [selectedChannelForJoin, setSelectedChannelForJoin] = useState<Channel | null>(null);
@@ -50,6 +59,10 @@ const ChannelList: React.FC<ChannelListProps> = ({
     password: ''
   });
   const [joinPassword, setJoinPassword] = useState('');
+  const [inviteChannel, setInviteChannel] = useState<Channel | null>(null);
+  const [exportChannel, setExportChannel] = useState<Channel | null>(null);
+  const [showNewMessage, setShowNewMessage] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
   const menuRefs = useRef<{ [key: string]: HTMLDivElement | null }>({});
 
   // Close menu when clicking outside
@@ -79,9 +92,10 @@ const ChannelList: React.FC<ChannelListProps> = ({
     channel.name.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
-  const publicChannels = filteredChannels.filter(c => c.type === 'public');
-  const privateChannels = filteredChannels.filter(c => c.type === 'private');
+  const publicChannels = filteredChannels.filter(c => c.type === 'public' && !c.archived_at);
+  const privateChannels = filteredChannels.filter(c => c.type === 'private' && !c.archived_at);
   const dmChannels = filteredChannels.filter(c => c.type === 'dm');
+  const archivedChannels = filteredChannels.filter(c => c.type !== 'dm' && c.archived_at);
 
   const handleCreateChannel = () => {
     if (!newChannel.name.trim()) return;
@@ -133,15 +147,19 @@ const ChannelList: React.FC<ChannelListProps> = ({
     return channel.name;
   };
 
-  const canDeleteChannel = (channel: Channel) => {
-    return channel.created_by === user?.id && channel.name !== 'general';
+  const canDeleteChannel = (channel: ChannelWithStatus) => {
+    return channel.member_role === 'owner' && channel.name !== 'general';
+  };
+
+  const canArchiveChannel = (channel: ChannelWithStatus) => {
+    return (channel.member_role === 'owner' || channel.member_role === 'admin') && channel.name !== 'general';
   };
 
   const isMember = (channel: Channel) => {
     return channel.is_member !== false; // Default to true if not specified
   };
 
-  const handleChannelAction = (action: string, channel: Channel) => {
+  const handleChannelAction = (action: string, channel: ChannelWithStatus) => {
     setShowChannelMenu(null);
     
     switch (action) {
@@ -154,19 +172,73 @@ const ChannelList: React.FC<ChannelListProps> = ({
       case 'summarize':
         onSummarizeChannel(channel.id);
         break;
+      case 'invite':
+        setInviteChannel(channel);
+        break;
       case 'start-meeting':
         onStartMeeting(channel.id, channel.name);
         break;
+      case 'export':
+        setExportChannel(channel);
+        break;
+      case 'archive':
+        if (canArchiveChannel(channel) && confirm(`Archive #${channel.name}? It becomes read-only but stays searchable, and an admin can restore it.`)) {
+          onArchiveChannel(channel.id, true);
+        }
+        break;
+      case 'unarchive':
+        onArchiveChannel(channel.id, false);
+        break;
       case 'delete':
-        if (canDeleteChannel(channel) && confirm(`Are you sure you want to delete #${channel.name}?`)) {
-          onDeleteChannel(channel.id);
+        if (canDeleteChannel(channel)) {
+          // Hard delete cannot be undone, so it takes the channel name rather than a click
+          const confirmName = prompt(
+            `This permanently deletes #${channel.name} and all of its messages and files. Archive it instead to keep its history.\n\nType the channel name to confirm:`
+          );
+          if (confirmName === null) break;
+          if (confirmName.trim() !== channel.name) {
+            alert('The channel name did not match; nothing was deleted.');
+            break;
+          }
+          onDeleteChannel(channel.id, confirmName.trim());
         }
         break;
     }
   };
 
-  const renderChannelItem = (channel: Channel) => {
+  const renderUnreadBadge = (channel: ChannelWithStatus, className = '') => {
+    if (channel.mention_count) {
+      return (
+        <div
+          className={`min-w-[1.25rem] h-5 px-1 bg-red-500 rounded-full flex items-center justify-center ${className}`}
+          title={`${channel.mention_count} unread mention${channel.mention_count > 1 ? 's' : ''}`}
+        >
+          <span className="text-xs text-white font-bold">
+            @{channel.mention_count > 9 ? '9+' : channel.mention_count}
+          </span>
+        </div>
+      );
+    }
+
+    if (channel.unread_count) {
+      return (
+        <div
+          className={`min-w-[1.25rem] h-5 px-1 bg-yellow-500/20 rounded-full flex items-center justify-center ${className}`}
+          title={`${channel.unread_count} unread message${channel.unread_count > 1 ? 's' : ''}`}
+        >
+          <span className="text-xs text-yellow-600 font-bold">
+            {channel.unread_count > 9 ? '9+' : channel.unread_count}
+          </span>
+        </div>
+      );
+    }
+
+    return null;
+  };
+
+  const renderChannelItem = (channel: ChannelWithStatus) => {
     const isChannelMember = isMember(channel);
+    const hasUnread = isChannelMember && !!channel.unread_count && activeChannel?.id !== channel.id;
     
     return (
       <motion.div
@@ -187,7 +259,7 @@ const ChannelList: React.FC<ChannelListProps> = ({
         >
           {getChannelIcon(channel)}
           <div className="flex-1 min-w-0">
-            <div className="font-medium truncate flex items-center space-x-2">
+            <div className={`truncate flex items-center space-x-2 ${hasUnread ? 'font-bold text-primary' : 'font-medium'}`}>
               <span>{formatChannelName(channel)}</span>
               {!isChannelMember && (
                 <span className="text-xs bg-yellow-500/20 text-yellow-500 px-2 py-1 rounded-full">
@@ -202,14 +274,8 @@ const ChannelList: React.FC<ChannelListProps> = ({
             )}
           </div>
           
-          {/* Unread indicator */}
-          {channel.unread_count && channel.unread_count > 0 && isChannelMember && (
-            <div className="w-5 h-5 bg-red-500 rounded-full flex items-center justify-center">
-              <span className="text-xs text-white font-bold">
-                {channel.unread_count > 9 ? '9+' : channel.unread_count}
-              </span>
-            </div>
-          )}
+          {/* Unread indicator - leaves room for the channel menu button */}
+          {hasUnread && renderUnreadBadge(channel, 'mr-6')}
         </button>
         
         {/* Channel menu button - Permanently visible */}
@@ -240,28 +306,60 @@ const ChannelList: React.FC<ChannelListProps> = ({
               boxShadow: '0 4px 20px rgba(0, 0, 0, 0.2)',
             }}
           >
-            {/* Start Meeting Option */}
+            {!channel.archived_at && (
+              <>
+                {/* Start Meeting Option */}
+                <button
+                  onClick={() => handleChannelAction('start-meeting', channel)}
+                  className={`w-full px-3 py-2 text-left text-sm flex items-center space-x-2 rounded-t-lg ${
+                    isGoogleConnected 
+                      ? 'text-primary hover:bg-surface' 
+                      : 'text-gray-500 cursor-not-allowed opacity-50'
+                  }`}
+                  disabled={!isGoogleConnected}
+                  title={!isGoogleConnected ? 'Connect Google account to start meetings' : 'Start a Google Meet'}
+                >
+                  <Video className="w-3 h-3" />
+                  <span>Start Meeting</span>
+                </button>
+                
+                <button
+                  onClick={() => handleChannelAction('summarize', channel)}
+                  className="w-full px-3 py-2 text-left text-sm text-primary hover:bg-surface flex items-center space-x-2"
+                >
+                  <FileText className="w-3 h-3" />
+                  <span>Summarize</span>
+                </button>
+
+                <button
+                  onClick={() => handleChannelAction('invite', channel)}
+                  className="w-full px-3 py-2 text-left text-sm text-primary hover:bg-surface flex items-center space-x-2"
+                >
+                  <UserPlus className="w-3 h-3" />
+                  <span>Invite People</span>
+                </button>
+              </>
+            )}
+
             <button
-              onClick={() => handleChannelAction('start-meeting', channel)}
-              className={`w-full px-3 py-2 text-left text-sm flex items-center space-x-2 rounded-t-lg ${
-                isGoogleConnected 
-                  ? 'text-primary hover:bg-surface' 
-                  : 'text-gray-500 cursor-not-allowed opacity-50'
+              onClick={() => handleChannelAction('export', channel)}
+              className={`w-full px-3 py-2 text-left text-sm text-primary hover:bg-surface flex items-center space-x-2 ${
+                channel.archived_at ? 'rounded-t-lg' : ''
               }`}
-              disabled={!isGoogleConnected}
-              title={!isGoogleConnected ? 'Connect Google account to start meetings' : 'Start a Google Meet'}
-            >
-              <Video className="w-3 h-3" />
-              <span>Start Meeting</span>
-            </button>
-            
-            <button
-              onClick={() => handleChannelAction('summarize', channel)}
-              className="w-full px-3 py-2 text-left text-sm text-primary hover:bg-surface flex items-center space-x-2"
             >
-              <FileText className="w-3 h-3" />
-              <span>Summarize</span>
+              <Download className="w-3 h-3" />
+              <span>Export History</span>
             </button>
+
+            {canArchiveChannel(channel) && (
+              <button
+                onClick={() => handleChannelAction(channel.archived_at ? 'unarchive' : 'archive', channel)}
+                className="w-full px-3 py-2 text-left text-sm text-primary hover:bg-surface flex items-center space-x-2"
+              >
+                {channel.archived_at ? <ArchiveRestore className="w-3 h-3" /> : <Archive className="w-3 h-3" />}
+                <span>{channel.archived_at ? 'Restore Channel' : 'Archive Channel'}</span>
+              </button>
+            )}
             
             {channel.name !== 'general' && (
               <button
@@ -279,7 +377,7 @@ const ChannelList: React.FC<ChannelListProps> = ({
                 className="w-full px-3 py-2 text-left text-sm text-red-400 hover:bg-red-500/10 flex items-center space-x-2 rounded-b-lg"
               >
                 <Trash2 className="w-3 h-3" />
-                <span>Delete</span>
+                <span>Delete Permanently</span>
               </button>
             )}
           </div>
@@ -345,13 +443,41 @@ const ChannelList: React.FC<ChannelListProps> = ({
           </div>
         )}
 
+        {/* Archived Channels - collapsed unless searching */}
+        {archivedChannels.length > 0 && (
+          <div>
+            <button
+              onClick={() => setShowArchived(prev => !prev)}
+              className="w-full text-xs font-semibold text-secondary uppercase tracking-wider mb-2 flex items-center hover:text-primary"
+            >
+              {showArchived || searchTerm ? <ChevronDown className="w-3 h-3 mr-1" /> : <ChevronRight className="w-3 h-3 mr-1" />}
+              <Archive className="w-3 h-3 mr-1" />
+              Archived ({archivedChannels.length})
+            </button>
+            {(showArchived || !!searchTerm) && (
+              <div className="space-y-1 opacity-75">
+                {archivedChannels.map(renderChannelItem)}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Direct Messages */}
-        {dmChannels.length > 0 && (
+        {(dmChannels.length > 0 || !searchTerm) && (
           <div>
-            <h3 className="text-xs font-semibold text-secondary uppercase tracking-wider mb-2 flex items-center">
-              <MessageCircle className="w-3 h-3 mr-1" />
-              Direct Messages ({dmChannels.length})
-            </h3>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-xs font-semibold text-secondary uppercase tracking-wider flex items-center">
+                <MessageCircle className="w-3 h-3 mr-1" />
+                Direct Messages ({dmChannels.length})
+              </h3>
+              <button
+                onClick={() => setShowNewMessage(true)}
+                className="p-1 rounded text-secondary hover:text-primary hover:bg-surface"
+                title="New message"
+              >
+                <Plus className="w-3 h-3" />
+              </button>
+            </div>
             <div className="space-y-1">
               {dmChannels.map((channel) => (
                 <motion.button
@@ -379,13 +505,7 @@ const ChannelList: React.FC<ChannelListProps> = ({
                   </div>
                   
                   {/* Unread indicator */}
-                  {channel.unread_count && channel.unread_count > 0 && (
-                    <div className="w-5 h-5 bg-red-500 rounded-full flex items-center justify-center">
-                      <span className="text-xs text-white font-bold">
-                        {channel.unread_count > 9 ? '9+' : channel.unread_count}
-                      </span>
-                    </div>
-                  )}
+                  {activeChannel?.id !== channel.id && renderUnreadBadge(channel)}
                 </motion.button>
               ))}
             </div>
@@ -606,6 +726,39 @@ const ChannelList: React.FC<ChannelListProps> = ({
           </div>
         )}
       </AnimatePresence>
+
+      {/* New Direct Message Modal */}
+      <AnimatePresence>
+        {showNewMessage && (
+          <NewMessageModal
+            onClose={() => setShowNewMessage(false)}
+            onStart={(participantIds) => {
+              setShowNewMessage(false);
+              onStartDirectMessage(participantIds);
+            }}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Invite Links Modal */}
+      <AnimatePresence>
+        {inviteChannel && (
+          <ChannelInviteModal
+            channel={inviteChannel}
+            onClose={() => setInviteChannel(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Export History Modal */}
+      <AnimatePresence>
+        {exportChannel && (
+          <ExportChannelModal
+            channel={exportChannel}
+            onClose={() => setExportChannel(null)}
+          />
+        )}
+      </AnimatePresence>
     </>
   );
 };
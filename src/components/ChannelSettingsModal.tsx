@@ -0,0 +1,433 @@
+import React, { useState, useEffect } from 'react';
+import { Settings, Megaphone, Crown, Shield, UserMinus, X, Archive, Scale, Loader2 } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { useAuth } from '../contexts/AuthContext';
+import { type Channel, type ChannelMember, type ChannelRole, type RetentionReport } from '../lib/supabase';
+import GlassCard from './ui/GlassCard';
+import Button from './ui/Button';
+
+interface ChannelSettingsModalProps {
+  channel: Channel;
+  onClose: () => void;
+  onChannelUpdated: (channel: Channel) => void;
+}
+
+const ROLE_LABELS: Record<ChannelRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member'
+};
+
+const ROLE_RANK: Record<ChannelRole, number> = { member: 0, admin: 1, owner: 2 };
+
+const RETENTION_OPTIONS: { label: string; days: number | null }[] = [
+  { label: 'Keep forever', days: null },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '180 days', days: 180 },
+  { label: '1 year', days: 365 }
+];
+
+const formatDate = (timestamp: string) => new Date(timestamp).toLocaleDateString([], {
+  year: 'numeric',
+  month: 'short',
+  day: 'numeric'
+});
+
+const ChannelSettingsModal: React.FC<ChannelSettingsModalProps> = ({ channel, onClose, onChannelUpdated }) => {
+  const { user } = useAuth();
+  const [members, setMembers] = useState<ChannelMember[]>([]);
+  const [role, setRole] = useState<ChannelRole | null>(null);
+  const [settings, setSettings] = useState({
+    name: channel.name,
+    description: channel.description || '',
+    announcementOnly: !!channel.announcement_only,
+    retentionDays: channel.retention_days ?? null
+  });
+  const [saving, setSaving] = useState(false);
+  const [retentionReport, setRetentionReport] = useState<RetentionReport | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [updatingHold, setUpdatingHold] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadMembers = async () => {
+      try {
+        const response = await fetch(
+          `${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/channels/${channel.id}/members?userId=${user.id}`,
+          { credentials: 'include' }
+        );
+        const data = await response.json();
+        if (data.success) {
+          setMembers(data.members);
+          setRole(data.role);
+        }
+      } catch (error) {
+        console.error('Error loading channel members:', error);
+      }
+    };
+
+    loadMembers();
+  }, [channel.id, user]);
+
+  const canEdit = role === 'owner' || role === 'admin';
+  const hasChanges =
+    settings.name.trim() !== channel.name ||
+    settings.description.trim() !== (channel.description || '') ||
+    settings.announcementOnly !== !!channel.announcement_only ||
+    settings.retentionDays !== (channel.retention_days ?? null);
+
+  // Keep a custom policy set through the API selectable
+  const retentionOptions = RETENTION_OPTIONS.some(option => option.days === (channel.retention_days ?? null))
+    ? RETENTION_OPTIONS
+    : [...RETENTION_OPTIONS, { label: `${channel.retention_days} days`, days: channel.retention_days ?? null }];
+
+  const handleSave = async () => {
+    if (!user || !settings.name.trim()) return;
+
+    setSaving(true);
+    try {
+      const response = await fetch(`${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/channels/${channel.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          userId: user.id,
+          name: settings.name,
+          description: settings.description,
+          announcementOnly: settings.announcementOnly,
+          retentionDays: settings.retentionDays
+        })
+      });
+
+      const data = await response.json();
+      if (data.success) {
+        onChannelUpdated(data.channel);
+      } else {
+        alert(data.error || 'Failed to update channel');
+      }
+    } catch (error) {
+      console.error('Error updating channel:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePreviewPurge = async () => {
+    if (!user || settings.retentionDays === null) return;
+
+    setPreviewing(true);
+    try {
+      const response = await fetch(
+        `${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/channels/${channel.id}/retention/preview?userId=${user.id}&retentionDays=${settings.retentionDays}`,
+        { credentials: 'include' }
+      );
+
+      const data = await response.json();
+      if (data.success) {
+        setRetentionReport(data.report);
+      } else {
+        alert(data.error || 'Failed to build retention report');
+      }
+    } catch (error) {
+      console.error('Error previewing retention purge:', error);
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleToggleLegalHold = async () => {
+    if (!user) return;
+
+    const enabled = !channel.legal_hold;
+    const prompt = enabled
+      ? `Place #${channel.name} on legal hold? Nothing will be purged until the hold is lifted.`
+      : `Lift the legal hold on #${channel.name}? History older than the retention policy will be purged.`;
+    if (!confirm(prompt)) return;
+
+    setUpdatingHold(true);
+    try {
+      const response = await fetch(`${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/channels/${channel.id}/legal-hold`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ userId: user.id, enabled })
+      });
+
+      const data = await response.json();
+      if (data.success) {
+        onChannelUpdated(data.channel);
+        setRetentionReport(null);
+      } else {
+        alert(data.error || 'Failed to update legal hold');
+      }
+    } catch (error) {
+      console.error('Error updating legal hold:', error);
+    } finally {
+      setUpdatingHold(false);
+    }
+  };
+
+  const handleRoleChange = async (member: ChannelMember, newRole: ChannelRole) => {
+    if (!user) return;
+
+    try {
+      const response = await fetch(
+        `${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/channels/${channel.id}/members/${member.user_id}/role`,
+        {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({ userId: user.id, role: newRole })
+        }
+      );
+
+      const data = await response.json();
+      if (data.success) {
+        setMembers(prev => prev.map(m => m.user_id === member.user_id ? { ...m, role: newRole } : m));
+      } else {
+        alert(data.error || 'Failed to change role');
+      }
+    } catch (error) {
+      console.error('Error changing member role:', error);
+    }
+  };
+
+  const handleRemoveMember = async (member: ChannelMember) => {
+    if (!user) return;
+
+    const memberName = member.user?.full_name || member.user?.username || 'this member';
+    if (!confirm(`Remove ${memberName} from #${channel.name}?`)) return;
+
+    try {
+      const response = await fetch(
+        `${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/channels/${channel.id}/members/${member.user_id}`,
+        {
+          method: 'DELETE',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({ userId: user.id })
+        }
+      );
+
+      const data = await response.json();
+      if (data.success) {
+        setMembers(prev => prev.filter(m => m.user_id !== member.user_id));
+      } else {
+        alert(data.error || 'Failed to remove member');
+      }
+    } catch (error) {
+      console.error('Error removing member:', error);
+    }
+  };
+
+  const canRemove = (member: ChannelMember) =>
+    !!role && canEdit && channel.name !== 'general' && ROLE_RANK[role] > ROLE_RANK[member.role];
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-start justify-center z-50 p-4 pt-24"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        className="w-full max-w-lg"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <GlassCard className="p-0 overflow-hidden" goldBorder>
+          {/* Header */}
+          <div className="flex items-center justify-between px-4 py-3 border-b silver-border">
+            <div className="flex items-center space-x-2">
+              <Settings className="w-5 h-5 text-yellow-600" />
+              <h3 className="font-bold text-primary">#{channel.name} settings</h3>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-1 text-secondary hover:text-primary"
+              title="Close"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          {/* General */}
+          <div className="p-4 border-b silver-border space-y-3">
+            <div>
+              <label className="block text-xs font-medium text-secondary mb-1">Channel Name</label>
+              <input
+                type="text"
+                value={settings.name}
+                onChange={(e) => setSettings(prev => ({ ...prev, name: e.target.value }))}
+                disabled={!canEdit || channel.name === 'general'}
+                className="w-full glass-panel rounded-lg px-3 py-2 text-sm text-primary placeholder-secondary focus:outline-none focus:ring-2 focus:ring-yellow-500 disabled:opacity-60"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-secondary mb-1">Description</label>
+              <textarea
+                value={settings.description}
+                onChange={(e) => setSettings(prev => ({ ...prev, description: e.target.value }))}
+                disabled={!canEdit}
+                placeholder="What's this channel about?"
+                className="w-full glass-panel rounded-lg px-3 py-2 text-sm text-primary placeholder-secondary focus:outline-none focus:ring-2 focus:ring-yellow-500 resize-none disabled:opacity-60"
+                rows={2}
+              />
+            </div>
+            <label className={`flex items-center space-x-3 p-3 glass-panel rounded-lg ${canEdit ? 'cursor-pointer' : 'opacity-60'}`}>
+              <input
+                type="checkbox"
+                checked={settings.announcementOnly}
+                onChange={(e) => setSettings(prev => ({ ...prev, announcementOnly: e.target.checked }))}
+                disabled={!canEdit}
+                className="text-yellow-500 focus:ring-yellow-500"
+              />
+              <Megaphone className="w-4 h-4 text-secondary" />
+              <div>
+                <div className="text-sm font-medium text-primary">Announcement only</div>
+                <div className="text-xs text-secondary">Only owners and admins can post; everyone can read</div>
+              </div>
+            </label>
+            <div className="p-3 glass-panel rounded-lg space-y-2">
+              <div className="flex items-center space-x-3">
+                <Archive className="w-4 h-4 text-secondary" />
+                <div className="flex-1">
+                  <div className="text-sm font-medium text-primary">Message retention</div>
+                  <div className="text-xs text-secondary">Older messages, attachments and summaries are deleted</div>
+                </div>
+                <select
+                  value={settings.retentionDays ?? ''}
+                  onChange={(e) => {
+                    setSettings(prev => ({ ...prev, retentionDays: e.target.value ? Number(e.target.value) : null }));
+                    setRetentionReport(null);
+                  }}
+                  disabled={!canEdit}
+                  className="glass-panel rounded-lg px-2 py-1 text-xs text-primary bg-transparent focus:outline-none focus:ring-2 focus:ring-yellow-500 disabled:opacity-60"
+                >
+                  {retentionOptions.map(option => (
+                    <option key={option.label} value={option.days ?? ''}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              {canEdit && settings.retentionDays !== null && (
+                <button
+                  onClick={handlePreviewPurge}
+                  disabled={previewing}
+                  className="flex items-center space-x-1 text-xs text-secondary hover:text-primary disabled:opacity-60"
+                >
+                  {previewing && <Loader2 className="w-3 h-3 animate-spin" />}
+                  <span>Preview what would be purged</span>
+                </button>
+              )}
+
+              {retentionReport && (
+                <div className="text-xs text-secondary space-y-1">
+                  {retentionReport.messages === 0 && retentionReport.summaries === 0 ? (
+                    <p>Nothing is older than {retentionReport.retention_days} days yet.</p>
+                  ) : (
+                    <p>
+                      {retentionReport.messages} {retentionReport.messages === 1 ? 'message' : 'messages'}
+                      {retentionReport.oldest_message_at && retentionReport.newest_message_at &&
+                        ` (${formatDate(retentionReport.oldest_message_at)} – ${formatDate(retentionReport.newest_message_at)})`},{' '}
+                      {retentionReport.attachments} {retentionReport.attachments === 1 ? 'attachment' : 'attachments'}
+                      {retentionReport.attachment_bytes > 0 && ` (${(retentionReport.attachment_bytes / 1024 / 1024).toFixed(1)}MB)`} and{' '}
+                      {retentionReport.summaries} {retentionReport.summaries === 1 ? 'summary' : 'summaries'} would be deleted.
+                    </p>
+                  )}
+                  {retentionReport.legal_hold && (
+                    <p className="text-yellow-600">Purging is suspended while the legal hold is in place.</p>
+                  )}
+                </div>
+              )}
+            </div>
+            <div className={`flex items-center space-x-3 p-3 glass-panel rounded-lg ${canEdit ? '' : 'opacity-60'}`}>
+              <Scale className={`w-4 h-4 ${channel.legal_hold ? 'text-yellow-600' : 'text-secondary'}`} />
+              <div className="flex-1">
+                <div className="text-sm font-medium text-primary">Legal hold</div>
+                <div className="text-xs text-secondary">
+                  {channel.legal_hold
+                    ? `On hold${channel.legal_hold_at ? ` since ${formatDate(channel.legal_hold_at)}` : ''}; nothing is purged`
+                    : 'Keeps all history, overriding the retention policy'}
+                </div>
+              </div>
+              {canEdit && (
+                <Button
+                  onClick={handleToggleLegalHold}
+                  variant="secondary"
+                  size="sm"
+                  className="text-xs"
+                  disabled={updatingHold}
+                >
+                  {channel.legal_hold ? 'Lift hold' : 'Place hold'}
+                </Button>
+              )}
+            </div>
+            {canEdit && (
+              <Button
+                onClick={handleSave}
+                variant="premium"
+                size="sm"
+                className="w-full"
+                disabled={saving || !hasChanges || !settings.name.trim()}
+              >
+                {saving ? 'Saving...' : 'Save changes'}
+              </Button>
+            )}
+          </div>
+
+          {/* Members */}
+          <div className="max-h-72 overflow-y-auto" style={{ scrollbarWidth: 'thin' }}>
+            <h4 className="px-4 pt-3 pb-1 text-xs font-semibold text-secondary uppercase tracking-wider">
+              Members ({members.length})
+            </h4>
+
+            {members.map(member => (
+              <div key={member.user_id} className="px-4 py-2 flex items-center space-x-3">
+                <div className="w-7 h-7 bg-gradient-gold-silver rounded-full flex items-center justify-center text-white text-xs font-bold flex-shrink-0">
+                  {(member.user?.full_name || member.user?.username || '?').charAt(0).toUpperCase()}
+                </div>
+                <span className="flex-1 min-w-0 text-sm text-primary truncate">
+                  {member.user?.full_name || member.user?.username || 'Unknown User'}
+                  {member.user_id === user?.id && <span className="text-secondary"> (you)</span>}
+                </span>
+
+                {role === 'owner' && member.role !== 'owner' ? (
+                  <select
+                    value={member.role}
+                    onChange={(e) => handleRoleChange(member, e.target.value as ChannelRole)}
+                    className="glass-panel rounded-lg px-2 py-1 text-xs text-primary bg-transparent focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                  >
+                    <option value="admin">{ROLE_LABELS.admin}</option>
+                    <option value="member">{ROLE_LABELS.member}</option>
+                  </select>
+                ) : (
+                  <span className="text-xs text-secondary flex items-center space-x-1">
+                    {member.role === 'owner' && <Crown className="w-3 h-3 text-yellow-600" />}
+                    {member.role === 'admin' && <Shield className="w-3 h-3 text-yellow-600" />}
+                    <span>{ROLE_LABELS[member.role]}</span>
+                  </span>
+                )}
+
+                {canRemove(member) && (
+                  <button
+                    onClick={() => handleRemoveMember(member)}
+                    className="p-1 rounded text-secondary hover:text-red-400"
+                    title="Remove from channel"
+                  >
+                    <UserMinus className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </GlassCard>
+      </motion.div>
+    </div>
+  );
+};
+
+export default ChannelSettingsModal;
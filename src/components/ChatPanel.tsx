@@ -1,10 +1,19 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Send, Bot, User, Hash, AtSign, Smile, Paperclip, MoreVertical, Reply, Edit, Trash2, Pin, Image, FileText, Download, Play, Pause, Volume2, VolumeX, Check, X, ExternalLink, Video } from 'lucide-react';
+import React, { useState, useRef, useEffect, useLayoutEffect } from 'react';
+import { Send, Bot, User, Hash, AtSign, Smile, Paperclip, MoreVertical, Reply, Edit, MessageSquare, Trash2, Pin, Image, FileText, Download, Play, Pause, Volume2, VolumeX, Check, X, ExternalLink, Video, Loader2, CheckCheck, PinOff, Bookmark, BookmarkCheck, Megaphone, Clock, SquareSlash, History, Archive } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import ReactMarkdown from 'react-markdown';
 import { useAuth } from '../contexts/AuthContext';
-import { type Channel, type Message } from '../lib/supabase';
+import { type Channel, type Message, type MessageReaction, type ChannelReadState, type TypingEvent, type PinnedMessage, type ChannelRole, type Poll, type LinkPreview } from '../lib/supabase';
 import Button from './ui/Button';
+import ThreadPanel from './ThreadPanel';
+import PinnedMessagesDrawer from './PinnedMessagesDrawer';
+import ScheduleSendMenu from './ScheduleSendMenu';
+import PollCard from './PollCard';
+import MessageMarkdown from './MessageMarkdown';
+import FormattingToolbar from './FormattingToolbar';
+import LinkPreviewCard from './LinkPreviewCard';
+import MessageHistoryModal from './MessageHistoryModal';
+import { getSlashCommands, findSlashCommand, parseSlashCommand, type SlashCommandContext } from '../lib/slashCommands';
 const VITE_AI_API_URL = import.meta.env.VITE_AI_API_URL;
 const VITE_API_URL = import.meta.env.VITE_API_URL;
 const VITE_MEDIA_API_URL = import.meta.env.VITE_MEDIA_API_URL;
@@ -18,6 +27,31 @@ interface ChatPanelProps {
   onSendMessage: (content: string, mentions?: string[], attachments?: File[]) => void;
   onEditMessage: (messageId: string, newContent: string) => void;
   onDeleteMessage: (messageId: string) => void;
+  activeThread: Message | null;
+  threadReplies: Message[];
+  onOpenThread: (message: Message) => void;
+  onCloseThread: () => void;
+  onSendThreadReply: (content: string, mentions: string[]) => void;
+  onToggleReaction: (messageId: string, emoji: string) => void;
+  hasMoreMessages: boolean;
+  loadingOlderMessages: boolean;
+  onLoadOlderMessages: () => Promise<void>;
+  highlightedMessageId?: string | null;
+  newMessagesSince?: string | null;
+  readState?: ChannelReadState[];
+  typingUsers?: TypingEvent[];
+  onTyping?: (isTyping: boolean) => void;
+  pinnedMessages: PinnedMessage[];
+  savedMessageIds: string[];
+  onTogglePin: (messageId: string) => void;
+  onToggleSaved: (messageId: string) => void;
+  onSelectPin: (pin: PinnedMessage) => void;
+  memberRole?: ChannelRole | null;
+  scheduledCount?: number;
+  onScheduleMessage?: (content: string, scheduledFor: string) => void;
+  onShowScheduled?: () => void;
+  commandContext?: Omit<SlashCommandContext, 'channel'>;
+  onPollUpdated?: (messageId: string, poll: Poll) => void;
 }
 
 const ChatPanel: React.FC<ChatPanelProps> = ({ 
@@ -25,28 +59,136 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
   messages, 
   onSendMessage, 
   onEditMessage, 
-  onDeleteMessage 
+  onDeleteMessage,
+  activeThread,
+  threadReplies,
+  onOpenThread,
+  onCloseThread,
+  onSendThreadReply,
+  onToggleReaction,
+  hasMoreMessages,
+  loadingOlderMessages,
+  onLoadOlderMessages,
+  highlightedMessageId,
+  newMessagesSince = null,
+  readState = [],
+  typingUsers = [],
+  onTyping,
+  pinnedMessages,
+  savedMessageIds,
+  onTogglePin,
+  onToggleSaved,
+  onSelectPin,
+  memberRole = null,
+  scheduledCount = 0,
+  onScheduleMessage,
+  onShowScheduled,
+  commandContext,
+  onPollUpdated
 }) => {
   const { user } = useAuth();
   const [messageInput, setMessageInput] = useState('');
   const [mentions, setMentions] = useState<string[]>([]);
   const [attachments, setAttachments] = useState<File[]>([]);
-  const [isTyping, setIsTyping] = useState(false);
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
-  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
   const [editingMessage, setEditingMessage] = useState<Message | null>(null);
   const [editContent, setEditContent] = useState('');
   const [dragOver, setDragOver] = useState(false);
   const [showMessageMenu, setShowMessageMenu] = useState<string | null>(null);
+  const [reactionPickerFor, setReactionPickerFor] = useState<string | null>(null);
   const [showCopiedMessage, setShowCopiedMessage] = useState(false);
+  const [showPinned, setShowPinned] = useState(false);
+  const [historyMessage, setHistoryMessage] = useState<Message | null>(null);
+  const [showScheduleMenu, setShowScheduleMenu] = useState(false);
+  const [selectedCommandIndex, setSelectedCommandIndex] = useState(0);
+  const [runningCommand, setRunningCommand] = useState(false);
+  const [commandNotice, setCommandNotice] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const messagesContainerRef = useRef<HTMLDivElement>(null);
+  const lastMessageIdRef = useRef<string | null>(null);
+  const scrollRestoreRef = useRef<{ scrollHeight: number; scrollTop: number } | null>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const typingSentAtRef = useRef(0);
+  const typingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useLayoutEffect(() => {
+    // Keep the viewport anchored when older messages are prepended
+    const container = messagesContainerRef.current;
+    if (container && scrollRestoreRef.current && !loadingOlderMessages) {
+      const { scrollHeight, scrollTop } = scrollRestoreRef.current;
+      container.scrollTop = container.scrollHeight - scrollHeight + scrollTop;
+      scrollRestoreRef.current = null;
+    }
+  }, [messages, loadingOlderMessages]);
 
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    // Only follow the conversation when a newer message arrives, not on prepends or updates
+    const lastMessageId = messages.length > 0 ? messages[messages.length - 1].id : null;
+    if (lastMessageId !== lastMessageIdRef.current) {
+      lastMessageIdRef.current = lastMessageId;
+      messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }
   }, [messages]);
 
+  useEffect(() => {
+    // Bring a message opened from search into view once it is rendered
+    if (!highlightedMessageId) return;
+    const timeout = setTimeout(() => {
+      document.getElementById(`message-${highlightedMessageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [highlightedMessageId]);
+
+  // First message from someone else that arrived after the user last read the channel
+  const firstUnreadMessageId = newMessagesSince
+    ? messages.find(message =>
+        message.sender_id !== user?.id &&
+        new Date(message.created_at).getTime() > new Date(newMessagesSince).getTime()
+      )?.id
+    : undefined;
+
+  // Admins can remove any message and are the only ones posting in announcement channels
+  const canModerate = memberRole === 'owner' || memberRole === 'admin';
+  // Archived channels keep their history but take no new messages, reactions or pins
+  const isArchived = !!channel?.archived_at;
+  const canPost = !isArchived && (!channel?.announcement_only || canModerate);
+
+  // Read receipts are shown on the user's most recent message
+  const lastOwnMessage = [...messages].reverse().find(message => message.sender_id === user?.id);
+  const seenBy = lastOwnMessage
+    ? readState.filter(member =>
+        member.user_id !== user?.id &&
+        member.last_read_at &&
+        new Date(member.last_read_at).getTime() >= new Date(lastOwnMessage.created_at).getTime()
+      )
+    : [];
+
+  const formatSeenBy = (members: ChannelReadState[]) => {
+    const names = members.map(member => member.user?.full_name || member.user?.username || 'Unknown User');
+    if (names.length <= 3) return names.join(', ');
+    return `${names.slice(0, 3).join(', ')} and ${names.length - 3} other${names.length - 3 > 1 ? 's' : ''}`;
+  };
+
+  const formatTypingUsers = (typing: TypingEvent[]) => {
+    if (typing.length === 1) return `${typing[0].name} is typing...`;
+    if (typing.length === 2) return `${typing[0].name} and ${typing[1].name} are typing...`;
+    return 'Several people are typing...';
+  };
+
+  const handleMessagesScroll = async () => {
+    const container = messagesContainerRef.current;
+    if (!container || !hasMoreMessages || loadingOlderMessages || scrollRestoreRef.current) return;
+
+    if (container.scrollTop < 100) {
+      scrollRestoreRef.current = {
+        scrollHeight: container.scrollHeight,
+        scrollTop: container.scrollTop
+      };
+      await onLoadOlderMessages();
+    }
+  };
+
   useEffect(() => {
     // Auto-resize textarea
     if (inputRef.current) {
@@ -55,28 +197,109 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
     }
   }, [messageInput, editContent]);
 
+  const stopTyping = () => {
+    if (typingTimeoutRef.current) {
+      clearTimeout(typingTimeoutRef.current);
+      typingTimeoutRef.current = null;
+    }
+    if (typingSentAtRef.current) {
+      typingSentAtRef.current = 0;
+      onTyping?.(false);
+    }
+  };
+
+  useEffect(() => {
+    setShowPinned(false);
+    setCommandNotice(null);
+  }, [channel?.id]);
+
+  useEffect(() => {
+    if (!commandNotice) return;
+    const timeout = setTimeout(() => setCommandNotice(null), 5000);
+    return () => clearTimeout(timeout);
+  }, [commandNotice]);
+
+  // Suggest commands while the first word of the message is being typed
+  const commandPrefix = commandContext ? messageInput.match(/^\/(\w*)$/)?.[1] : undefined;
+  const commandSuggestions = commandPrefix !== undefined ? getSlashCommands(commandPrefix) : [];
+
+  const completeCommand = (name: string) => {
+    setMessageInput(`/${name} `);
+    setSelectedCommandIndex(0);
+    inputRef.current?.focus();
+  };
+
+  const runCommand = async (name: string, args: string) => {
+    if (!commandContext || !channel) return;
+
+    const command = findSlashCommand(name);
+    if (!command) {
+      setCommandNotice({ type: 'error', text: `/${name} is not a command. Start with // to send it as a message.` });
+      return;
+    }
+
+    setRunningCommand(true);
+    try {
+      const result = await command.execute(args, { ...commandContext, channel });
+      setMessageInput('');
+      setMentions([]);
+      setCommandNotice(result ? { type: 'success', text: result } : null);
+    } catch (error) {
+      setCommandNotice({ type: 'error', text: error instanceof Error ? error.message : `/${name} failed` });
+    } finally {
+      setRunningCommand(false);
+    }
+  };
+
+  useEffect(() => {
+    // Typing never carries over to another channel
+    return () => {
+      if (typingTimeoutRef.current) {
+        clearTimeout(typingTimeoutRef.current);
+        typingTimeoutRef.current = null;
+      }
+      typingSentAtRef.current = 0;
+    };
+  }, [channel?.id]);
+
   const handleSendMessage = () => {
     if ((!messageInput.trim() && attachments.length === 0) || !channel) return;
 
-    let content = messageInput.trim();
-    
-    // Add reply reference if replying
-    if (replyingTo) {
-      content = `@${replyingTo.sender?.username || 'user'} ${content}`;
+    stopTyping();
+
+    const content = messageInput.trim();
+
+    const slashCommand = commandContext && attachments.length === 0 ? parseSlashCommand(content) : null;
+    if (slashCommand) {
+      if (!runningCommand) runCommand(slashCommand.name, slashCommand.args);
+      return;
     }
 
-    onSendMessage(content || '[Media]', mentions, attachments);
+    // A doubled slash sends the text as typed, minus the escape
+    onSendMessage((commandContext && content.startsWith('//') ? content.slice(1) : content) || '[Media]', mentions, attachments);
     setMessageInput('');
     setMentions([]);
     setAttachments([]);
-    setReplyingTo(null);
     setEditingMessage(null);
   };
 
+  const handleScheduleMessage = (scheduledFor: string) => {
+    const content = messageInput.trim();
+    if (!content || !onScheduleMessage) return;
+
+    stopTyping();
+    onScheduleMessage(content, scheduledFor);
+    setMessageInput('');
+    setMentions([]);
+    setShowScheduleMenu(false);
+  };
+
   const handleEditSubmit = () => {
     if (!editingMessage || !editContent.trim()) return;
     
-    onEditMessage(editingMessage.id, editContent.trim());
+    if (editContent.trim() !== editingMessage.content) {
+      onEditMessage(editingMessage.id, editContent.trim());
+    }
     setEditingMessage(null);
     setEditContent('');
   };
@@ -86,6 +309,22 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
     setEditContent('');
   };
 
+  const handleCommandKeyDown = (e: React.KeyboardEvent) => {
+    if (commandSuggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setSelectedCommandIndex(prev => (prev + step + commandSuggestions.length) % commandSuggestions.length);
+    } else if (e.key === 'Tab' || (e.key === 'Enter' && !e.shiftKey)) {
+      const selected = commandSuggestions[Math.min(selectedCommandIndex, commandSuggestions.length - 1)];
+      // Enter on a fully typed command runs it instead of completing it
+      if (e.key === 'Enter' && selected.name === commandPrefix?.toLowerCase()) return;
+      e.preventDefault();
+      completeCommand(selected.name);
+    }
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -99,26 +338,41 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
     }
   };
 
+  const updateMessageInput = (value: string) => {
+    setMessageInput(value);
+    setSelectedCommandIndex(0);
+    
+    // Extract mentions
+    const mentionMatches = value.match(/@(\w+)/g);
+    if (mentionMatches) {
+      const extractedMentions = mentionMatches.map(mention => mention.substring(1));
+      setMentions(extractedMentions);
+    } else {
+      setMentions([]);
+    }
+
+    // Let others know we're typing; repeat at most every 3 seconds and stop after 5 idle seconds
+    if (!value.trim()) {
+      stopTyping();
+    } else {
+      if (Date.now() - typingSentAtRef.current > 3000) {
+        typingSentAtRef.current = Date.now();
+        onTyping?.(true);
+      }
+      if (typingTimeoutRef.current) {
+        clearTimeout(typingTimeoutRef.current);
+      }
+      typingTimeoutRef.current = setTimeout(stopTyping, 5000);
+    }
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     const value = e.target.value;
     
     if (editingMessage) {
       setEditContent(value);
     } else {
-      setMessageInput(value);
-      
-      // Extract mentions
-      const mentionMatches = value.match(/@(\w+)/g);
-      if (mentionMatches) {
-        const extractedMentions = mentionMatches.map(mention => mention.substring(1));
-        setMentions(extractedMentions);
-      } else {
-        setMentions([]);
-      }
-
-      // Show typing indicator
-      setIsTyping(true);
-      setTimeout(() => setIsTyping(false), 1000);
+      updateMessageInput(value);
     }
   };
 
@@ -190,7 +444,20 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
     }
   };
 
-  const renderMessageContent = (content: string, messageType?: string, metadata?: any) => {
+  const renderMessageContent = (content: string, messageType?: string, metadata?: any, messageId?: string) => {
+    if (messageType === 'poll' && metadata?.poll && messageId) {
+      const poll = metadata.poll as Poll;
+      return (
+        <PollCard
+          messageId={messageId}
+          poll={poll}
+          canClose={!isArchived && (poll.created_by === user?.id || canModerate)}
+          readOnly={isArchived}
+          onUpdated={(id, updated) => onPollUpdated?.(id, updated)}
+        />
+      );
+    }
+
     // For AI summary messages, use ReactMarkdown
     if (messageType === 'ai_summary') {
       return (
@@ -240,47 +507,34 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
       );
     }
     
-    // Check if content contains HTML links (from AI assistant)
-    if (content.includes('<a href')) {
-      return (
-        <div 
-          className="break-words"
-          dangerouslySetInnerHTML={{ __html: content }}
-        />
-      );
-    }
-    
-    // For regular messages, render mentions with highlighting
-    const parts = content.split(/(@\w+)/g);
-    return parts.map((part, index) => {
-      if (part.startsWith('@')) {
-        return (
-          <span key={index} className="bg-yellow-500/20 text-yellow-600 px-1 rounded">
-            {part}
-          </span>
-        );
-      }
-      return part;
-    });
+    // Everything else is user-written markdown
+    return <MessageMarkdown content={content} />;
   };
 
   const renderAttachment = (attachment: any, messageId: string) => {
-    const fileType = attachment.type?.split('/')[0];
+    const fileType = attachment.type === 'image/svg+xml' ? 'file' : attachment.type?.split('/')[0];
     const fileName = attachment.name || 'Unknown file';
     const fileSize = attachment.size ? `${(attachment.size / 1024 / 1024).toFixed(1)}MB` : '';
+    // Attachment routes check the viewer's access, so the stored URLs get the viewer's ID added here
+    const withViewer = (url?: string) => (url && user ? `${url}${url.includes('?') ? '&' : '?'}userId=${user.id}` : url);
+    const contentUrl = withViewer(attachment.url);
+    const downloadUrl = withViewer(attachment.download_url || attachment.url);
 
     switch (fileType) {
       case 'image':
         return (
           <div key={attachment.id} className="mt-2 rounded-lg overflow-hidden max-w-sm">
             <img 
-              src={attachment.url} 
+              src={contentUrl} 
               alt={fileName}
               className="w-full h-auto max-h-64 object-cover cursor-pointer hover:opacity-90 transition-opacity"
-              onClick={() => window.open(attachment.url, '_blank')}
+              onClick={() => window.open(contentUrl, '_blank')}
             />
-            <div className="p-2 bg-black/20 text-xs text-white">
-              {fileName} • {fileSize}
+            <div className="p-2 bg-black/20 text-xs text-white flex items-center justify-between">
+              <span className="truncate">{fileName} • {fileSize}</span>
+              <a href={downloadUrl} className="ml-2 flex-shrink-0 hover:opacity-80" title="Download">
+                <Download className="w-3 h-3" />
+              </a>
             </div>
           </div>
         );
@@ -293,11 +547,14 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
               className="w-full h-auto max-h-64"
               preload="metadata"
             >
-              <source src={attachment.url} type={attachment.type} />
+              <source src={contentUrl} type={attachment.type} />
               Your browser does not support the video tag.
             </video>
-            <div className="p-2 bg-black/20 text-xs text-white">
-              {fileName} • {fileSize}
+            <div className="p-2 bg-black/20 text-xs text-white flex items-center justify-between">
+              <span className="truncate">{fileName} • {fileSize}</span>
+              <a href={downloadUrl} className="ml-2 flex-shrink-0 hover:opacity-80" title="Download">
+                <Download className="w-3 h-3" />
+              </a>
             </div>
           </div>
         );
@@ -311,9 +568,12 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
                 <p className="text-sm font-medium text-primary">{fileName}</p>
                 <p className="text-xs text-secondary">{fileSize}</p>
               </div>
+              <a href={downloadUrl} className="p-1 hover:bg-surface rounded" title="Download">
+                <Download className="w-4 h-4 text-secondary" />
+              </a>
             </div>
             <audio controls className="w-full mt-2">
-              <source src={attachment.url} type={attachment.type} />
+              <source src={contentUrl} type={attachment.type} />
               Your browser does not support the audio tag.
             </audio>
           </div>
@@ -329,7 +589,7 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
                 <p className="text-xs text-secondary">{fileSize}</p>
               </div>
               <Button
-                onClick={() => window.open(attachment.url, '_blank')}
+                onClick={() => window.open(downloadUrl, '_blank')}
                 variant="ghost"
                 size="sm"
                 className="p-1"
@@ -343,8 +603,7 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
   };
 
   const handleReply = (message: Message) => {
-    setReplyingTo(message);
-    inputRef.current?.focus();
+    onOpenThread(message);
   };
 
   const handleEdit = (message: Message) => {
@@ -373,6 +632,76 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
     inputRef.current?.focus();
   };
 
+  const handleToggleReaction = (messageId: string, emoji: string) => {
+    onToggleReaction(messageId, emoji);
+    setReactionPickerFor(null);
+  };
+
+  const formatReactionUsers = (reaction: MessageReaction) => {
+    const names = reaction.user_ids.map((userId, index) =>
+      userId === user?.id ? 'You' : reaction.user_names[index] || 'Unknown User'
+    );
+    return `${names.join(', ')} reacted with ${reaction.emoji}`;
+  };
+
+  const renderThreadSummary = (message: Message) => {
+    if (!message.reply_count) return null;
+
+    return (
+      <button
+        onClick={() => onOpenThread(message)}
+        className={`mt-2 flex items-center space-x-2 text-xs rounded-lg px-2 py-1 hover:bg-surface transition-colors ${
+          activeThread?.id === message.id ? 'text-yellow-500' : 'text-blue-400'
+        }`}
+      >
+        <MessageSquare className="w-3 h-3" />
+        <span className="font-medium">
+          {message.reply_count} {message.reply_count === 1 ? 'reply' : 'replies'}
+        </span>
+        {message.last_reply_at && (
+          <span className="text-secondary">
+            Last reply {formatTime(message.last_reply_at)}
+          </span>
+        )}
+      </button>
+    );
+  };
+
+  // Deleted messages stay in place so their replies keep a thread to belong to
+  const renderDeletedMessage = () => (
+    <div className="flex items-center space-x-1 text-sm italic text-secondary">
+      <Trash2 className="w-3 h-3" />
+      <span>This message was deleted</span>
+    </div>
+  );
+
+  const renderReactions = (message: Message) => {
+    if (!message.reactions || message.reactions.length === 0) return null;
+
+    return (
+      <div className="mt-2 flex flex-wrap gap-1">
+        {message.reactions.map(reaction => {
+          const hasReacted = !!user && reaction.user_ids.includes(user.id);
+          return (
+            <button
+              key={reaction.emoji}
+              onClick={() => handleToggleReaction(message.id, reaction.emoji)}
+              title={formatReactionUsers(reaction)}
+              className={`flex items-center space-x-1 px-2 py-0.5 rounded-full text-xs border transition-colors ${
+                hasReacted
+                  ? 'bg-yellow-500/20 border-yellow-500/50 text-yellow-600'
+                  : 'glass-panel border-transparent text-secondary hover:border-gold-border'
+              }`}
+            >
+              <span>{reaction.emoji}</span>
+              <span className="font-medium">{reaction.count}</span>
+            </button>
+          );
+        })}
+      </div>
+    );
+  };
+
   const getFileIcon = (file: File) => {
     const type = file.type.split('/')[0];
     switch (type) {
@@ -404,193 +733,347 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
   }
 
   return (
-    <div 
-      className={`flex-1 flex flex-col h-full ${dragOver ? 'bg-blue-500/10' : ''}`}
-      onDrop={handleDrop}
-      onDragOver={handleDragOver}
-      onDragLeave={handleDragLeave}
-    >
-      {/* Channel Header - Fixed at the top */}
-      <div className="glass-panel border-b silver-border p-4 flex-shrink-0">
-        <div className="flex items-center justify-between">
-          <div className="flex items-center space-x-3">
-            <div className="w-8 h-8 rounded-lg bg-gradient-gold-silver flex items-center justify-center">
-              <Hash className="w-4 h-4 text-white" />
-            </div>
-            <div>
-              <h2 className="font-bold text-primary">{channel.name}</h2>
-              {channel.description && (
-                <p className="text-sm text-secondary">{channel.description}</p>
-              )}
+    <div className="flex-1 flex h-full overflow-hidden">
+      <div 
+        className={`flex-1 flex flex-col h-full ${dragOver ? 'bg-blue-500/10' : ''}`}
+        onDrop={handleDrop}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+      >
+        {/* Channel Header - Fixed at the top */}
+        <div className="glass-panel border-b silver-border p-4 flex-shrink-0 relative">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <div className="w-8 h-8 rounded-lg bg-gradient-gold-silver flex items-center justify-center">
+                <Hash className="w-4 h-4 text-white" />
+              </div>
+              <div>
+                <h2 className="font-bold text-primary flex items-center space-x-2">
+                  <span>{channel.name}</span>
+                  {channel.announcement_only && (
+                    <span className="text-xs font-normal bg-yellow-500/20 text-yellow-600 px-2 py-0.5 rounded-full flex items-center space-x-1">
+                      <Megaphone className="w-3 h-3" />
+                      <span>Announcements</span>
+                    </span>
+                  )}
+                </h2>
+                {channel.description && (
+                  <p className="text-sm text-secondary">{channel.description}</p>
+                )}
+              </div>
             </div>
+            <button
+              onClick={() => setShowPinned(!showPinned)}
+              className={`flex items-center space-x-1 px-2 py-1 rounded-lg text-sm transition-colors ${
+                showPinned ? 'bg-yellow-500/20 text-yellow-600' : 'text-secondary hover:text-primary hover:bg-surface'
+              }`}
+              title="Pinned messages"
+            >
+              <Pin className="w-4 h-4" />
+              {pinnedMessages.length > 0 && <span>{pinnedMessages.length}</span>}
+            </button>
           </div>
+
+          <AnimatePresence>
+            {showPinned && (
+              <PinnedMessagesDrawer
+                channelName={channel.name}
+                pins={pinnedMessages}
+                onClose={() => setShowPinned(false)}
+                onSelect={(pin) => {
+                  setShowPinned(false);
+                  onSelectPin(pin);
+                }}
+                onUnpin={onTogglePin}
+              />
+            )}
+          </AnimatePresence>
         </div>
-      </div>
 
-      {/* Drag & Drop Overlay */}
-      {dragOver && (
-        <div className="absolute inset-0 bg-blue-500/20 border-2 border-dashed border-blue-500 flex items-center justify-center z-10">
-          <div className="text-center">
-            <Paperclip className="w-12 h-12 text-blue-500 mx-auto mb-4" />
-            <p className="text-blue-500 font-medium">Drop files here to share</p>
+        {/* Drag & Drop Overlay */}
+        {dragOver && (
+          <div className="absolute inset-0 bg-blue-500/20 border-2 border-dashed border-blue-500 flex items-center justify-center z-10">
+            <div className="text-center">
+              <Paperclip className="w-12 h-12 text-blue-500 mx-auto mb-4" />
+              <p className="text-blue-500 font-medium">Drop files here to share</p>
+            </div>
           </div>
-        </div>
-      )}
+        )}
 
-      {/* Messages - Scrollable */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-4" style={{ scrollbarWidth: 'thin' }}>
-        <AnimatePresence>
-          {messages.map((message, index) => {
-            const isConsecutive = index > 0 && 
-              messages[index - 1].sender_id === message.sender_id &&
-              new Date(message.created_at).getTime() - new Date(messages[index - 1].created_at).getTime() < 300000; // 5 minutes
-
-            return (
-              <motion.div
-                key={message.id}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                exit={{ opacity: 0, y: -20 }}
-                className={`group ${
-                  message.sender_id === user?.id ? 'flex flex-row-reverse' : 'flex'
-                }`}
-              >
-                <div className={`flex items-start space-x-3 max-w-4xl w-full ${
-                  message.sender_id === user?.id ? 'flex-row-reverse space-x-reverse' : ''
-                }`}>
-                  {/* Avatar */}
-                  {!isConsecutive && (
-                    <div className={`w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0 ${
-                      message.type === 'ai_task_creation' || message.type === 'ai_summary'
-                        ? 'bg-gradient-to-r from-blue-500 to-purple-500'
-                        : message.sender_id === user?.id
-                        ? 'bg-gradient-to-r from-blue-500 to-purple-500'
-                        : 'bg-gradient-gold-silver'
-                    }`}>
-                      {getMessageIcon(message)}
-                    </div>
-                  )}
-                  
-                  {isConsecutive && (
-                    <div className="w-8 h-8 flex-shrink-0" />
-                  )}
+        {/* Messages - Scrollable */}
+        <div
+          ref={messagesContainerRef}
+          onScroll={handleMessagesScroll}
+          className="flex-1 overflow-y-auto p-4 space-y-4"
+          style={{ scrollbarWidth: 'thin' }}
+        >
+          {/* Older history */}
+          {loadingOlderMessages && (
+            <div className="flex items-center justify-center py-2 text-secondary text-sm">
+              <Loader2 className="w-4 h-4 animate-spin mr-2" />
+              Loading earlier messages...
+            </div>
+          )}
+          {!hasMoreMessages && messages.length > 0 && (
+            <div className="text-center py-2 text-xs text-secondary">
+              Beginning of #{channel.name}
+            </div>
+          )}
+
+          <AnimatePresence>
+            {messages.map((message, index) => {
+              const pin = pinnedMessages.find(p => p.message_id === message.id);
+              const isSaved = savedMessageIds.includes(message.id);
+              const isConsecutive = index > 0 && 
+                messages[index - 1].sender_id === message.sender_id &&
+                new Date(message.created_at).getTime() - new Date(messages[index - 1].created_at).getTime() < 300000; // 5 minutes
 
-                  {/* Message */}
-                  <div className={`glass-panel rounded-2xl p-4 relative ${getMessageStyle(message)} ${
-                    isConsecutive ? 'mt-1' : ''
+              return [
+                message.id === firstUnreadMessageId && (
+                  <motion.div
+                    key="new-messages-divider"
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    className="flex items-center space-x-2 text-xs font-medium text-red-500"
+                  >
+                    <div className="flex-1 border-t border-red-500/50" />
+                    <span>New messages</span>
+                    <div className="flex-1 border-t border-red-500/50" />
+                  </motion.div>
+                ),
+                <motion.div
+                  key={message.id}
+                  id={`message-${message.id}`}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -20 }}
+                  className={`group ${
+                    message.sender_id === user?.id ? 'flex flex-row-reverse' : 'flex'
+                  }`}
+                >
+                  <div className={`flex items-start space-x-3 max-w-4xl w-full ${
+                    message.sender_id === user?.id ? 'flex-row-reverse space-x-reverse' : ''
                   }`}>
-                    {/* Sender info */}
+                    {/* Avatar */}
                     {!isConsecutive && (
-                      <div className="flex justify-between items-start mb-1">
-                        <div className="flex items-center space-x-2">
-                          <span className="font-medium text-primary text-sm">
-                            {message.type === 'ai_task_creation' || message.type === 'ai_summary'
-                              ? 'AI Assistant'
-                              : message.sender?.full_name || 'Unknown User'}
-                          </span>
-                          <span className="text-xs text-secondary">
-                            {formatTime(message.created_at)}
-                          </span>
-                          {message.edited_at && (
-                            <span className="text-xs text-secondary opacity-75">(edited)</span>
-                          )}
-                        </div>
+                      <div className={`w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0 ${
+                        message.type === 'ai_task_creation' || message.type === 'ai_summary'
+                          ? 'bg-gradient-to-r from-blue-500 to-purple-500'
+                          : message.sender_id === user?.id
+                          ? 'bg-gradient-to-r from-blue-500 to-purple-500'
+                          : 'bg-gradient-gold-silver'
+                      }`}>
+                        {getMessageIcon(message)}
                       </div>
                     )}
+                  
+                    {isConsecutive && (
+                      <div className="w-8 h-8 flex-shrink-0" />
+                    )}
 
-                    {/* Message content */}
-                    {editingMessage?.id === message.id ? (
-                      <div className="space-y-2">
-                        <textarea
-                          ref={inputRef}
-                          value={editContent}
-                          onChange={handleInputChange}
-                          onKeyPress={handleKeyPress}
-                          className="w-full glass-panel rounded-lg px-3 py-2 text-primary focus:outline-none focus:ring-2 focus:ring-yellow-500 resize-none"
-                          rows={1}
-                          autoFocus
-                        />
-                        <div className="flex items-center space-x-2">
-                          <Button
-                            onClick={handleEditSubmit}
-                            variant="premium"
-                            size="sm"
-                            className="text-xs"
-                          >
-                            <Check className="w-3 h-3 mr-1" />
-                            Save
-                          </Button>
-                          <Button
-                            onClick={handleEditCancel}
-                            variant="secondary"
-                            size="sm"
-                            className="text-xs"
-                          >
-                            <X className="w-3 h-3 mr-1" />
-                            Cancel
-                          </Button>
-                          <span className="text-xs text-secondary">
-                            Escape to cancel • Enter to save
-                          </span>
+                    {/* Message */}
+                    <div className={`glass-panel rounded-2xl p-4 relative ${getMessageStyle(message)} ${
+                      isConsecutive ? 'mt-1' : ''
+                    } ${highlightedMessageId === message.id ? 'ring-2 ring-yellow-500' : ''}`}>
+                      {/* Pin marker */}
+                      {pin && (
+                        <div className="flex items-center space-x-1 text-xs text-yellow-600 mb-1">
+                          <Pin className="w-3 h-3" />
+                          <span>Pinned by {pin.pinned_by_user?.full_name || 'Unknown User'}</span>
                         </div>
-                      </div>
-                    ) : (
-                      <>
-                        {message.content && message.content !== '[Media]' && (
-                          <div className={`text-primary max-w-full ${message.type !== 'ai_summary' ? 'whitespace-pre-wrap' : 'overflow-hidden'}`}>
-                            {renderMessageContent(message.content, message.type, message.metadata)}
-                          </div>
-                        )}
-
-                        {/* Attachments */}
-                        {message.metadata?.attachments && message.metadata.attachments.map((attachment: any) => 
-                          renderAttachment(attachment, message.id)
-                        )}
-
-                        {/* Task metadata */}
-                        {message.type === 'ai_task_creation' && message.metadata?.task_id && (
-                          <div className="mt-2 p-2 glass-panel rounded-lg bg-green-500/10 border-green-500/30">
-                            <p className="text-green-400 text-xs font-medium">
-                              ✓ Task created successfully
-                            </p>
+                      )}
+
+                      {/* Sender info */}
+                      {!isConsecutive && (
+                        <div className="flex justify-between items-start mb-1">
+                          <div className="flex items-center space-x-2">
+                            <span className="font-medium text-primary text-sm">
+                              {message.type === 'ai_task_creation' || message.type === 'ai_summary'
+                                ? 'AI Assistant'
+                                : message.sender?.full_name || 'Unknown User'}
+                            </span>
+                            <span className="text-xs text-secondary">
+                              {formatTime(message.created_at)}
+                            </span>
+                            {message.edited_at && !message.deleted_at && (
+                              <button
+                                onClick={() => setHistoryMessage(message)}
+                                className="text-xs text-secondary opacity-75 hover:opacity-100 hover:underline"
+                                title="View edit history"
+                              >
+                                (edited)
+                              </button>
+                            )}
                           </div>
-                        )}
-                        
-                        {/* Meeting Link Copy Button for messages with meeting metadata */}
-                        {message.metadata?.meeting && !message.content.includes('Join Meeting') && (
-                          <div className="mt-2">
+                        </div>
+                      )}
+
+                      {/* Message content */}
+                      {editingMessage?.id === message.id ? (
+                        <div className="space-y-2">
+                          <textarea
+                            ref={inputRef}
+                            value={editContent}
+                            onChange={handleInputChange}
+                            onKeyPress={handleKeyPress}
+                            className="w-full glass-panel rounded-lg px-3 py-2 text-primary focus:outline-none focus:ring-2 focus:ring-yellow-500 resize-none"
+                            rows={1}
+                            autoFocus
+                          />
+                          <div className="flex items-center space-x-2">
                             <Button
-                              onClick={() => handleCopyMeetingLink(message.metadata.meeting.url)}
+                              onClick={handleEditSubmit}
+                              variant="premium"
+                              size="sm"
+                              className="text-xs"
+                            >
+                              <Check className="w-3 h-3 mr-1" />
+                              Save
+                            </Button>
+                            <Button
+                              onClick={handleEditCancel}
                               variant="secondary"
                               size="sm"
-                              className="flex items-center space-x-2"
+                              className="text-xs"
                             >
-                              <ExternalLink className="w-4 h-4" />
-                              <span>Meeting Link</span>
+                              <X className="w-3 h-3 mr-1" />
+                              Cancel
                             </Button>
-                            {showCopiedMessage && (
-                              <span className="ml-2 text-green-500 text-xs">Meeting Link Copied in Clipboard</span>
-                            )}
+                            <span className="text-xs text-secondary">
+                              Escape to cancel • Enter to save
+                            </span>
                           </div>
-                        )}
-                      </>
-                    )}
+                        </div>
+                      ) : message.deleted_at ? (
+                        <>
+                          {renderDeletedMessage()}
 
-                    {/* Message actions */}
-                    {editingMessage?.id !== message.id && (
-                      <div className={`absolute top-2 ${
-                        message.sender_id === user?.id ? 'left-2' : 'right-2'
-                      } opacity-0 group-hover:opacity-100 transition-opacity`}>
-                        <div className="flex items-center space-x-1 glass-panel rounded-lg p-1">
-                          <button
-                            onClick={() => handleReply(message)}
-                            className="p-1 hover:bg-surface rounded"
-                            title="Reply"
-                          >
-                            <Reply className="w-3 h-3 text-secondary" />
-                          </button>
-                          {message.sender_id === user?.id && message.type === 'text' && (
-                            <>
+                          {/* Thread summary */}
+                          {renderThreadSummary(message)}
+                        </>
+                      ) : (
+                        <>
+                          {message.content && message.content !== '[Media]' && (
+                            <div className={`text-primary max-w-full ${message.type !== 'ai_summary' ? 'break-words' : 'overflow-hidden'}`}>
+                              {renderMessageContent(message.content, message.type, message.metadata, message.id)}
+                            </div>
+                          )}
+
+                          {/* Attachments */}
+                          {message.metadata?.attachments && message.metadata.attachments.map((attachment: any) => 
+                            renderAttachment(attachment, message.id)
+                          )}
+
+                          {/* Link previews */}
+                          {message.metadata?.link_previews?.map((preview: LinkPreview) => (
+                            <LinkPreviewCard key={preview.url} preview={preview} />
+                          ))}
+
+                          {/* Reactions */}
+                          {renderReactions(message)}
+
+                          {/* Thread summary */}
+                          {renderThreadSummary(message)}
+
+                          {/* Read receipts */}
+                          {message.id === lastOwnMessage?.id && seenBy.length > 0 && (
+                            <div className="mt-2 flex items-center space-x-1 text-xs text-secondary">
+                              <CheckCheck className="w-3 h-3 text-blue-400" />
+                              <span>Seen by {formatSeenBy(seenBy)}</span>
+                            </div>
+                          )}
+
+                          {/* Task metadata */}
+                          {message.type === 'ai_task_creation' && message.metadata?.task_id && (
+                            <div className="mt-2 p-2 glass-panel rounded-lg bg-green-500/10 border-green-500/30">
+                              <p className="text-green-400 text-xs font-medium">
+                                ✓ Task created successfully
+                              </p>
+                            </div>
+                          )}
+                        
+                          {/* Meeting Link Copy Button for messages with meeting metadata */}
+                          {message.metadata?.meeting && !message.content.includes('Join Meeting') && (
+                            <div className="mt-2">
+                              <Button
+                                onClick={() => handleCopyMeetingLink(message.metadata.meeting.url)}
+                                variant="secondary"
+                                size="sm"
+                                className="flex items-center space-x-2"
+                              >
+                                <ExternalLink className="w-4 h-4" />
+                                <span>Meeting Link</span>
+                              </Button>
+                              {showCopiedMessage && (
+                                <span className="ml-2 text-green-500 text-xs">Meeting Link Copied in Clipboard</span>
+                              )}
+                            </div>
+                          )}
+                        </>
+                      )}
+
+                      {/* Message actions */}
+                      {editingMessage?.id !== message.id && !message.deleted_at && !isArchived && (
+                        <div className={`absolute top-2 ${
+                          message.sender_id === user?.id ? 'left-2' : 'right-2'
+                        } ${reactionPickerFor === message.id ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'} transition-opacity`}>
+                          <div className="flex items-center space-x-1 glass-panel rounded-lg p-1">
+                            <button
+                              onClick={() => handleReply(message)}
+                              className="p-1 hover:bg-surface rounded"
+                              title="Reply in thread"
+                            >
+                              <Reply className="w-3 h-3 text-secondary" />
+                            </button>
+                            <div className="relative">
+                              <button
+                                onClick={() => setReactionPickerFor(reactionPickerFor === message.id ? null : message.id)}
+                                className="p-1 hover:bg-surface rounded"
+                                title="Add reaction"
+                              >
+                                <Smile className="w-3 h-3 text-secondary" />
+                              </button>
+                              {reactionPickerFor === message.id && (
+                                <div className={`absolute top-full mt-1 ${
+                                  message.sender_id === user?.id ? 'left-0' : 'right-0'
+                                } glass-panel rounded-lg p-2 grid grid-cols-5 gap-1 z-20 bg-primary`}>
+                                  {emojis.map(emoji => (
+                                    <button
+                                      key={emoji}
+                                      onClick={() => handleToggleReaction(message.id, emoji)}
+                                      className="p-1 hover:bg-surface rounded text-base"
+                                    >
+                                      {emoji}
+                                    </button>
+                                  ))}
+                                </div>
+                              )}
+                            </div>
+                            <button
+                              onClick={() => onTogglePin(message.id)}
+                              className="p-1 hover:bg-surface rounded"
+                              title={pin ? 'Unpin from channel' : 'Pin to channel'}
+                            >
+                              {pin ? <PinOff className="w-3 h-3 text-yellow-600" /> : <Pin className="w-3 h-3 text-secondary" />}
+                            </button>
+                            <button
+                              onClick={() => onToggleSaved(message.id)}
+                              className="p-1 hover:bg-surface rounded"
+                              title={isSaved ? 'Remove from saved items' : 'Save for later'}
+                            >
+                              {isSaved ? <BookmarkCheck className="w-3 h-3 text-yellow-600" /> : <Bookmark className="w-3 h-3 text-secondary" />}
+                            </button>
+                            {message.edited_at && (
+                              <button
+                                onClick={() => setHistoryMessage(message)}
+                                className="p-1 hover:bg-surface rounded"
+                                title="View edit history"
+                              >
+                                <History className="w-3 h-3 text-secondary" />
+                              </button>
+                            )}
+                            {message.sender_id === user?.id && message.type === 'text' && (
                               <button
                                 onClick={() => handleEdit(message)}
                                 className="p-1 hover:bg-surface rounded"
@@ -598,192 +1081,281 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
                               >
                                 <Edit className="w-3 h-3 text-secondary" />
                               </button>
+                            )}
+                            {((message.sender_id === user?.id && (message.type === 'text' || message.type === 'poll')) || canModerate) && (
                               <button
                                 onClick={() => handleDelete(message)}
                                 className="p-1 hover:bg-surface rounded"
-                                title="Delete"
+                                title={message.sender_id === user?.id ? 'Delete' : 'Delete as channel admin'}
                               >
                                 <Trash2 className="w-3 h-3 text-red-400" />
                               </button>
-                            </>
-                          )}
+                            )}
+                          </div>
                         </div>
-                      </div>
-                    )}
+                      )}
+                    </div>
                   </div>
-                </div>
-              </motion.div>
-            );
-          })}
-        </AnimatePresence>
-
-        {messages.length === 0 && (
-          <div className="text-center py-12">
-            <Hash className="w-12 h-12 text-secondary mx-auto mb-4 opacity-50" />
-            <h3 className="text-lg font-bold text-primary mb-2">Start the conversation</h3>
-            <p className="text-secondary">
-              Be the first to send a message in #{channel.name}
-            </p>
-          </div>
-        )}
+                </motion.div>
+              ];
+            })}
+          </AnimatePresence>
 
-        {/* Typing indicator */}
-        {isTyping && (
-          <motion.div
-            initial={{ opacity: 0, y: 10 }}
-            animate={{ opacity: 1, y: 0 }}
-            className="flex items-center space-x-2 text-secondary text-sm"
-          >
-            <div className="flex space-x-1">
-              <div className="w-2 h-2 bg-secondary rounded-full animate-bounce"></div>
-              <div className="w-2 h-2 bg-secondary rounded-full animate-bounce" style={{ animationDelay: '0.1s' }}></div>
-              <div className="w-2 h-2 bg-secondary rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
+          {messages.length === 0 && (
+            <div className="text-center py-12">
+              <Hash className="w-12 h-12 text-secondary mx-auto mb-4 opacity-50" />
+              <h3 className="text-lg font-bold text-primary mb-2">Start the conversation</h3>
+              <p className="text-secondary">
+                Be the first to send a message in #{channel.name}
+              </p>
             </div>
-            <span>Someone is typing...</span>
-          </motion.div>
-        )}
+          )}
 
-        <div ref={messagesEndRef} />
-      </div>
+          {/* Typing indicator */}
+          {typingUsers.length > 0 && (
+            <motion.div
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="flex items-center space-x-2 text-secondary text-sm"
+            >
+              <div className="flex space-x-1">
+                <div className="w-2 h-2 bg-secondary rounded-full animate-bounce"></div>
+                <div className="w-2 h-2 bg-secondary rounded-full animate-bounce" style={{ animationDelay: '0.1s' }}></div>
+                <div className="w-2 h-2 bg-secondary rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
+              </div>
+              <span>{formatTypingUsers(typingUsers)}</span>
+            </motion.div>
+          )}
 
-      {/* Reply indicator */}
-      {replyingTo && !editingMessage && (
-        <div className="px-4 py-2 glass-panel border-t border-b silver-border">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center space-x-2 text-sm">
-              <Reply className="w-4 h-4 text-secondary" />
-              <span className="text-secondary">Replying to</span>
-              <span className="font-medium text-primary">
-                {replyingTo.sender?.full_name}
-              </span>
-              <span className="text-secondary truncate max-w-xs">
-                {replyingTo.content}
+          <div ref={messagesEndRef} />
+        </div>
+
+        {/* Attachments Preview */}
+        {attachments.length > 0 && !editingMessage && (
+          <div className="px-4 py-2 glass-panel border-t silver-border">
+            <div className="flex items-center space-x-2 mb-2">
+              <Paperclip className="w-4 h-4 text-secondary" />
+              <span className="text-sm font-medium text-primary">
+                {attachments.length} file{attachments.length > 1 ? 's' : ''} attached
               </span>
             </div>
-            <button
-              onClick={() => setReplyingTo(null)}
-              className="text-secondary hover:text-primary"
-            >
-              ×
-            </button>
+            <div className="flex flex-wrap gap-2">
+              {attachments.map((file, index) => (
+                <div key={index} className="flex items-center space-x-2 glass-panel rounded-lg p-2">
+                  {getFileIcon(file)}
+                  <span className="text-xs text-primary truncate max-w-32">
+                    {file.name}
+                  </span>
+                  <button
+                    onClick={() => removeAttachment(index)}
+                    className="text-red-400 hover:text-red-300"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+            </div>
           </div>
-        </div>
-      )}
+        )}
 
-      {/* Attachments Preview */}
-      {attachments.length > 0 && !editingMessage && (
-        <div className="px-4 py-2 glass-panel border-t silver-border">
-          <div className="flex items-center space-x-2 mb-2">
-            <Paperclip className="w-4 h-4 text-secondary" />
-            <span className="text-sm font-medium text-primary">
-              {attachments.length} file{attachments.length > 1 ? 's' : ''} attached
+        {/* Archived channels are read-only for everyone */}
+        {!editingMessage && channel.archived_at && (
+          <div className="glass-panel border-t silver-border p-4 flex-shrink-0 flex items-center justify-center space-x-2 text-sm text-secondary">
+            <Archive className="w-4 h-4" />
+            <span>
+              #{channel.name} was archived on {new Date(channel.archived_at).toLocaleDateString()} and is read-only
             </span>
           </div>
-          <div className="flex flex-wrap gap-2">
-            {attachments.map((file, index) => (
-              <div key={index} className="flex items-center space-x-2 glass-panel rounded-lg p-2">
-                {getFileIcon(file)}
-                <span className="text-xs text-primary truncate max-w-32">
-                  {file.name}
-                </span>
-                <button
-                  onClick={() => removeAttachment(index)}
-                  className="text-red-400 hover:text-red-300"
-                >
-                  ×
-                </button>
-              </div>
-            ))}
+        )}
+
+        {/* Announcement channels are read-only for regular members */}
+        {!editingMessage && !isArchived && !canPost && (
+          <div className="glass-panel border-t silver-border p-4 flex-shrink-0 flex items-center justify-center space-x-2 text-sm text-secondary">
+            <Megaphone className="w-4 h-4" />
+            <span>Only channel admins can post in #{channel.name}</span>
           </div>
-        </div>
-      )}
+        )}
 
-      {/* Message Input - Fixed at bottom */}
-      {!editingMessage && (
-        <div className="glass-panel border-t silver-border p-4 flex-shrink-0">
-          <div className="flex items-end space-x-4">
-            <div className="flex-1">
-              <div className="relative">
-                <textarea
-                  ref={inputRef}
-                  value={messageInput}
-                  onChange={handleInputChange}
-                  onKeyPress={handleKeyPress}
-                  placeholder={`Message #${channel.name}... (use @username to mention)`}
-                  className="w-full glass-panel rounded-xl px-4 py-3 pr-20 text-primary placeholder-secondary focus:outline-none focus:ring-2 focus:ring-yellow-500 resize-none min-h-[50px] max-h-32"
-                  rows={1}
-                />
+        {/* Message Input - Fixed at bottom */}
+        {!editingMessage && canPost && (
+          <div className="glass-panel border-t silver-border p-4 flex-shrink-0">
+            {scheduledCount > 0 && onShowScheduled && (
+              <button
+                onClick={onShowScheduled}
+                className="mb-2 flex items-center space-x-1 text-xs text-secondary hover:text-primary"
+              >
+                <Clock className="w-3 h-3" />
+                <span>
+                  {scheduledCount} scheduled message{scheduledCount > 1 ? 's' : ''} in this conversation • View
+                </span>
+              </button>
+            )}
+            {commandNotice && (
+              <p className={`mb-2 text-xs ${commandNotice.type === 'error' ? 'text-red-400' : 'text-green-500'}`}>
+                {commandNotice.text}
+              </p>
+            )}
+            <div className="flex items-end space-x-4">
+              <div className="flex-1">
+                <FormattingToolbar inputRef={inputRef} value={messageInput} onChange={updateMessageInput} />
+                <div className="relative">
+                  {/* Slash command suggestions */}
+                  {commandSuggestions.length > 0 && (
+                    <div className="absolute bottom-full left-0 mb-2 w-full glass-panel rounded-lg shadow-lg border silver-border bg-primary z-20 overflow-hidden">
+                      {commandSuggestions.map((command, index) => (
+                        <button
+                          key={command.name}
+                          onMouseDown={(e) => e.preventDefault()}
+                          onClick={() => completeCommand(command.name)}
+                          onMouseEnter={() => setSelectedCommandIndex(index)}
+                          className={`w-full px-3 py-2 text-left flex items-start space-x-2 ${
+                            index === selectedCommandIndex ? 'bg-yellow-500/10' : ''
+                          }`}
+                        >
+                          <SquareSlash className="w-4 h-4 mt-0.5 text-yellow-600 flex-shrink-0" />
+                          <div className="min-w-0">
+                            <p className="text-sm text-primary">
+                              <span className="font-bold">/{command.name}</span>
+                              <span className="text-secondary"> — {command.description}</span>
+                            </p>
+                            <p className="text-xs text-secondary truncate">{command.usage}</p>
+                          </div>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  <textarea
+                    ref={inputRef}
+                    value={messageInput}
+                    onChange={handleInputChange}
+                    onKeyDown={handleCommandKeyDown}
+                    onKeyPress={handleKeyPress}
+                    placeholder={`Message ${channel.type === 'dm' ? '' : '#'}${channel.name}... (use @username to mention)`}
+                    className="w-full glass-panel rounded-xl px-4 py-3 pr-20 text-primary placeholder-secondary focus:outline-none focus:ring-2 focus:ring-yellow-500 resize-none min-h-[50px] max-h-32"
+                    rows={1}
+                  />
                 
-                {/* Input actions */}
-                <div className="absolute right-2 bottom-2 flex items-center space-x-1">
-                  <button
-                    onClick={() => setShowEmojiPicker(!showEmojiPicker)}
-                    className="p-1 hover:bg-surface rounded"
-                  >
-                    <Smile className="w-4 h-4 text-secondary" />
-                  </button>
-                  <button 
-                    onClick={() => fileInputRef.current?.click()}
-                    className="p-1 hover:bg-surface rounded"
-                  >
-                    <Paperclip className="w-4 h-4 text-secondary" />
-                  </button>
-                </div>
-              </div>
-              
-              {/* Hidden file input */}
-              <input
-                ref={fileInputRef}
-                type="file"
-                multiple
-                onChange={handleFileSelect}
-                className="hidden"
-                accept="image/*,video/*,audio/*,.pdf,.doc,.docx,.txt,.zip,.rar"
-              />
-              
-              {/* Emoji picker */}
-              {showEmojiPicker && (
-                <div className="absolute bottom-16 right-4 glass-panel rounded-lg p-3 grid grid-cols-5 gap-2 z-10">
-                  {emojis.map((emoji, index) => (
+                  {/* Input actions */}
+                  <div className="absolute right-2 bottom-2 flex items-center space-x-1">
                     <button
-                      key={index}
-                      onClick={() => addEmoji(emoji)}
-                      className="p-2 hover:bg-surface rounded text-lg"
+                      onClick={() => setShowEmojiPicker(!showEmojiPicker)}
+                      className="p-1 hover:bg-surface rounded"
+                    >
+                      <Smile className="w-4 h-4 text-secondary" />
+                    </button>
+                    <button 
+                      onClick={() => fileInputRef.current?.click()}
+                      className="p-1 hover:bg-surface rounded"
                     >
-                      {emoji}
+                      <Paperclip className="w-4 h-4 text-secondary" />
                     </button>
-                  ))}
+                  </div>
                 </div>
-              )}
               
-              <div className="flex items-center justify-between mt-2">
-                <div className="flex items-center space-x-2 text-xs text-secondary">
-                  <AtSign className="w-3 h-3" />
-                  <span>Use @username to mention users</span>
-                  {mentions.length > 0 && (
-                    <span className="text-yellow-500">
-                      • Mentioning: {mentions.join(', ')}
-                    </span>
-                  )}
-                </div>
-                <div className="text-xs text-secondary">
-                  Enter to send • Shift+Enter for new line
+                {/* Hidden file input */}
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  multiple
+                  onChange={handleFileSelect}
+                  className="hidden"
+                  accept="image/*,video/*,audio/*,.pdf,.doc,.docx,.txt,.zip,.rar"
+                />
+              
+                {/* Emoji picker */}
+                {showEmojiPicker && (
+                  <div className="absolute bottom-16 right-4 glass-panel rounded-lg p-3 grid grid-cols-5 gap-2 z-10">
+                    {emojis.map((emoji, index) => (
+                      <button
+                        key={index}
+                        onClick={() => addEmoji(emoji)}
+                        className="p-2 hover:bg-surface rounded text-lg"
+                      >
+                        {emoji}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              
+                <div className="flex items-center justify-between mt-2">
+                  <div className="flex items-center space-x-2 text-xs text-secondary">
+                    <AtSign className="w-3 h-3" />
+                    <span>Use @username to mention users{commandContext ? ' • Type / for commands' : ''}</span>
+                    {mentions.length > 0 && (
+                      <span className="text-yellow-500">
+                        • Mentioning: {mentions.join(', ')}
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-xs text-secondary">
+                    Enter to send • Shift+Enter for new line
+                  </div>
                 </div>
               </div>
-            </div>
 
-            <Button
-              onClick={handleSendMessage}
-              variant="premium"
-              size="sm"
-              className="p-3"
-              disabled={!messageInput.trim() && attachments.length === 0}
-            >
-              <Send className="w-4 h-4" />
-            </Button>
+              {onScheduleMessage && (
+                <div className="relative">
+                  <Button
+                    onClick={() => setShowScheduleMenu(!showScheduleMenu)}
+                    variant="ghost"
+                    size="sm"
+                    className="p-3"
+                    disabled={!messageInput.trim() || attachments.length > 0}
+                    title={attachments.length > 0 ? 'Messages with attachments cannot be scheduled' : 'Schedule send'}
+                  >
+                    <Clock className="w-4 h-4" />
+                  </Button>
+                  <AnimatePresence>
+                    {showScheduleMenu && messageInput.trim() && (
+                      <ScheduleSendMenu onSchedule={handleScheduleMessage} />
+                    )}
+                  </AnimatePresence>
+                </div>
+              )}
+
+              <Button
+                onClick={handleSendMessage}
+                variant="premium"
+                size="sm"
+                className="p-3"
+                disabled={(!messageInput.trim() && attachments.length === 0) || runningCommand}
+              >
+                {runningCommand ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+              </Button>
+            </div>
           </div>
-        </div>
+        )}
+      </div>
+
+      {/* Thread side panel */}
+      {activeThread && (
+        <ThreadPanel
+          parentMessage={activeThread}
+          replies={threadReplies}
+          onClose={onCloseThread}
+          onSendReply={onSendThreadReply}
+          readOnly={isArchived}
+          renderMessageBody={(reply) => reply.deleted_at ? renderDeletedMessage() : (
+            <>
+              {renderMessageContent(reply.content, reply.type, reply.metadata, reply.id)}
+              {reply.metadata?.link_previews?.map((preview: LinkPreview) => (
+                <LinkPreviewCard key={preview.url} preview={preview} />
+              ))}
+              {renderReactions(reply)}
+            </>
+          )}
+        />
       )}
+
+      {/* Edit history */}
+      <AnimatePresence>
+        {historyMessage && (
+          <MessageHistoryModal
+            message={messages.find(m => m.id === historyMessage.id) || historyMessage}
+            onClose={() => setHistoryMessage(null)}
+          />
+        )}
+      </AnimatePresence>
     </div>
   );
 };
@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { BarChart3, Plus, Trash2, X } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { type Channel, type PollDraft } from '../lib/supabase';
+import GlassCard from './ui/GlassCard';
+import Button from './ui/Button';
+
+interface CreatePollModalProps {
+  channel: Channel;
+  onClose: () => void;
+  onCreate: (draft: PollDraft) => Promise<boolean>;
+}
+
+// Matches MAX_POLL_OPTIONS in the workspace API
+const MAX_OPTIONS = 10;
+
+const DURATION_OPTIONS: { label: string; hours: number | null }[] = [
+  { label: 'No end time', hours: null },
+  { label: '1 hour', hours: 1 },
+  { label: '4 hours', hours: 4 },
+  { label: '1 day', hours: 24 },
+  { label: '3 days', hours: 24 * 3 },
+  { label: '1 week', hours: 24 * 7 }
+];
+
+const CreatePollModal: React.FC<CreatePollModalProps> = ({ channel, onClose, onCreate }) => {
+  const [question, setQuestion] = useState('');
+  const [options, setOptions] = useState(['', '']);
+  const [allowMultiple, setAllowMultiple] = useState(false);
+  const [anonymous, setAnonymous] = useState(false);
+  const [durationIndex, setDurationIndex] = useState(0);
+  const [creating, setCreating] = useState(false);
+
+  const filledOptions = options.map(option => option.trim()).filter(Boolean);
+  const hasDuplicates = new Set(filledOptions.map(option => option.toLowerCase())).size !== filledOptions.length;
+  const isValid = !!question.trim() && filledOptions.length >= 2 && !hasDuplicates;
+
+  const updateOption = (index: number, value: string) => {
+    setOptions(prev => prev.map((option, i) => (i === index ? value : option)));
+  };
+
+  const handleCreate = async () => {
+    if (!isValid) return;
+
+    const hours = DURATION_OPTIONS[durationIndex].hours;
+    setCreating(true);
+    const created = await onCreate({
+      question: question.trim(),
+      options: filledOptions,
+      allowMultiple,
+      anonymous,
+      closesAt: hours ? new Date(Date.now() + hours * 60 * 60 * 1000).toISOString() : null
+    });
+    setCreating(false);
+
+    if (created) {
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-start justify-center z-50 p-4 pt-24"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        className="w-full max-w-md"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <GlassCard className="p-0 overflow-hidden" goldBorder>
+          {/* Header */}
+          <div className="flex items-center justify-between px-4 py-3 border-b silver-border">
+            <div className="flex items-center space-x-2">
+              <BarChart3 className="w-5 h-5 text-yellow-600" />
+              <h3 className="font-bold text-primary">
+                New poll in {channel.type === 'dm' ? channel.name : `#${channel.name}`}
+              </h3>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-1 text-secondary hover:text-primary"
+              title="Close"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="p-4 space-y-4 max-h-[60vh] overflow-y-auto" style={{ scrollbarWidth: 'thin' }}>
+            <div>
+              <label className="block text-sm font-medium text-primary mb-1">Question</label>
+              <input
+                type="text"
+                value={question}
+                onChange={(e) => setQuestion(e.target.value)}
+                maxLength={300}
+                placeholder="What should we decide?"
+                className="w-full glass-panel rounded-lg px-3 py-2 text-sm text-primary placeholder-secondary focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                autoFocus
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-primary mb-1">Options</label>
+              <div className="space-y-2">
+                {options.map((option, index) => (
+                  <div key={index} className="flex items-center space-x-2">
+                    <input
+                      type="text"
+                      value={option}
+                      onChange={(e) => updateOption(index, e.target.value)}
+                      maxLength={100}
+                      placeholder={`Option ${index + 1}`}
+                      className="flex-1 glass-panel rounded-lg px-3 py-2 text-sm text-primary placeholder-secondary focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                    />
+                    {options.length > 2 && (
+                      <button
+                        onClick={() => setOptions(prev => prev.filter((_, i) => i !== index))}
+                        className="p-1 text-secondary hover:text-red-400"
+                        title="Remove option"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+              {options.length < MAX_OPTIONS && (
+                <button
+                  onClick={() => setOptions(prev => [...prev, ''])}
+                  className="mt-2 flex items-center space-x-1 text-xs text-secondary hover:text-primary"
+                >
+                  <Plus className="w-3 h-3" />
+                  <span>Add option</span>
+                </button>
+              )}
+              {hasDuplicates && (
+                <p className="mt-2 text-xs text-red-400">Options must be different from each other</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <label className="flex items-center space-x-2 text-sm text-primary">
+                <input
+                  type="checkbox"
+                  checked={allowMultiple}
+                  onChange={(e) => setAllowMultiple(e.target.checked)}
+                  className="rounded"
+                />
+                <span>Allow multiple choices</span>
+              </label>
+              <label className="flex items-center space-x-2 text-sm text-primary">
+                <input
+                  type="checkbox"
+                  checked={anonymous}
+                  onChange={(e) => setAnonymous(e.target.checked)}
+                  className="rounded"
+                />
+                <span>Anonymous voting</span>
+              </label>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-primary mb-1">Close poll after</label>
+              <select
+                value={durationIndex}
+                onChange={(e) => setDurationIndex(Number(e.target.value))}
+                className="w-full glass-panel rounded-lg px-3 py-2 text-sm text-primary bg-transparent focus:outline-none focus:ring-2 focus:ring-yellow-500"
+              >
+                {DURATION_OPTIONS.map((option, index) => (
+                  <option key={option.label} value={index}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="p-4 border-t silver-border">
+            <Button
+              onClick={handleCreate}
+              variant="premium"
+              size="sm"
+              className="w-full"
+              disabled={!isValid || creating}
+            >
+              {creating ? 'Posting...' : 'Post poll'}
+            </Button>
+          </div>
+        </GlassCard>
+      </motion.div>
+    </div>
+  );
+};
+
+export default CreatePollModal;
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { Download, FileJson, FileText, FileCode, X } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { useAuth } from '../contexts/AuthContext';
+import { type Channel } from '../lib/supabase';
+import GlassCard from './ui/GlassCard';
+import Button from './ui/Button';
+
+interface ExportChannelModalProps {
+  channel: Channel;
+  onClose: () => void;
+}
+
+type ExportFormat = 'json' | 'markdown' | 'html';
+
+const FORMAT_OPTIONS: { value: ExportFormat; label: string; description: string; icon: React.ElementType }[] = [
+  { value: 'html', label: 'HTML transcript', description: 'Standalone page to read, print or share', icon: FileCode },
+  { value: 'markdown', label: 'Markdown', description: 'Plain text that is easy to edit', icon: FileText },
+  { value: 'json', label: 'JSON', description: 'Machine-readable, with reactions and attachment details', icon: FileJson }
+];
+
+const toDateInputValue = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 10);
+};
+
+const ExportChannelModal: React.FC<ExportChannelModalProps> = ({ channel, onClose }) => {
+  const { user } = useAuth();
+  const [format, setFormat] = useState<ExportFormat>('html');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState(toDateInputValue(new Date()));
+
+  const isValidRange = !fromDate || !toDate || fromDate <= toDate;
+
+  const handleExport = () => {
+    if (!user || !isValidRange) return;
+
+    // Whole local days, so the range matches the dates picked
+    const params = new URLSearchParams({ userId: user.id, format });
+    if (fromDate) params.set('from', new Date(`${fromDate}T00:00:00`).toISOString());
+    if (toDate) params.set('to', new Date(`${toDate}T23:59:59.999`).toISOString());
+
+    // The API streams the file as an attachment, so the browser downloads it without leaving the page
+    window.location.href = `${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/channels/${channel.id}/export?${params}`;
+    onClose();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-start justify-center z-50 p-4 pt-24"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        className="w-full max-w-md"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <GlassCard className="p-0 overflow-hidden" goldBorder>
+          {/* Header */}
+          <div className="flex items-center justify-between px-4 py-3 border-b silver-border">
+            <div className="flex items-center space-x-2">
+              <Download className="w-5 h-5 text-yellow-600" />
+              <h3 className="font-bold text-primary">
+                Export {channel.type === 'dm' ? channel.name : `#${channel.name}`}
+              </h3>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-1 text-secondary hover:text-primary"
+              title="Close"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="p-4 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-primary mb-1">Format</label>
+              <div className="space-y-2">
+                {FORMAT_OPTIONS.map(option => {
+                  const Icon = option.icon;
+                  return (
+                    <label
+                      key={option.value}
+                      className="flex items-center space-x-3 cursor-pointer p-3 glass-panel rounded-lg hover:border-gold-border transition-all"
+                    >
+                      <input
+                        type="radio"
+                        name="exportFormat"
+                        value={option.value}
+                        checked={format === option.value}
+                        onChange={() => setFormat(option.value)}
+                        className="text-yellow-500 focus:ring-yellow-500"
+                      />
+                      <Icon className="w-4 h-4 text-secondary" />
+                      <div>
+                        <div className="text-sm font-medium text-primary">{option.label}</div>
+                        <div className="text-xs text-secondary">{option.description}</div>
+                      </div>
+                    </label>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-primary mb-1">From</label>
+                <input
+                  type="date"
+                  value={fromDate}
+                  max={toDate || undefined}
+                  onChange={(e) => setFromDate(e.target.value)}
+                  className="w-full glass-panel rounded-lg px-3 py-2 text-sm text-primary focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-primary mb-1">To</label>
+                <input
+                  type="date"
+                  value={toDate}
+                  min={fromDate || undefined}
+                  onChange={(e) => setToDate(e.target.value)}
+                  className="w-full glass-panel rounded-lg px-3 py-2 text-sm text-primary focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-secondary">
+              {fromDate ? 'Only messages in this range are exported.' : 'Leave "From" empty to export from the first message.'}
+            </p>
+          </div>
+
+          <div className="p-4 border-t silver-border">
+            <Button
+              onClick={handleExport}
+              variant="premium"
+              size="sm"
+              className="w-full"
+              disabled={!isValidRange}
+            >
+              Download export
+            </Button>
+          </div>
+        </GlassCard>
+      </motion.div>
+    </div>
+  );
+};
+
+export default ExportChannelModal;
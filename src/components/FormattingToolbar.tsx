@@ -0,0 +1,79 @@
+import React from 'react';
+import { Bold, Italic, Strikethrough, Code, SquareCode, Link, TextQuote, List, ListOrdered } from 'lucide-react';
+
+interface FormattingToolbarProps {
+  inputRef: React.RefObject<HTMLTextAreaElement>;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+type Format =
+  | { label: string; icon: React.ElementType; wrap: [string, string]; placeholder: string }
+  | { label: string; icon: React.ElementType; linePrefix: (index: number) => string };
+
+const FORMATS: Format[] = [
+  { label: 'Bold', icon: Bold, wrap: ['**', '**'], placeholder: 'bold text' },
+  { label: 'Italic', icon: Italic, wrap: ['_', '_'], placeholder: 'italic text' },
+  { label: 'Strikethrough', icon: Strikethrough, wrap: ['~~', '~~'], placeholder: 'struck text' },
+  { label: 'Inline code', icon: Code, wrap: ['`', '`'], placeholder: 'code' },
+  { label: 'Code block', icon: SquareCode, wrap: ['```\n', '\n```'], placeholder: 'code' },
+  { label: 'Link', icon: Link, wrap: ['[', '](https://)'], placeholder: 'link text' },
+  { label: 'Quote', icon: TextQuote, linePrefix: () => '> ' },
+  { label: 'Bulleted list', icon: List, linePrefix: () => '- ' },
+  { label: 'Numbered list', icon: ListOrdered, linePrefix: (index) => `${index + 1}. ` }
+];
+
+const FormattingToolbar: React.FC<FormattingToolbarProps> = ({ inputRef, value, onChange }) => {
+  const applyFormat = (format: Format) => {
+    const textarea = inputRef.current;
+    if (!textarea) return;
+
+    const { selectionStart, selectionEnd } = textarea;
+    let next: string;
+    let nextSelection: [number, number];
+
+    if ('wrap' in format) {
+      // Wrap the selection, or a placeholder that stays selected so typing replaces it
+      const [before, after] = format.wrap;
+      const inner = value.slice(selectionStart, selectionEnd) || format.placeholder;
+      next = value.slice(0, selectionStart) + before + inner + after + value.slice(selectionEnd);
+      nextSelection = [selectionStart + before.length, selectionStart + before.length + inner.length];
+    } else {
+      // Prefix every line the selection touches
+      const lineStart = value.lastIndexOf('\n', selectionStart - 1) + 1;
+      const block = value.slice(lineStart, selectionEnd)
+        .split('\n')
+        .map((line, index) => format.linePrefix(index) + line)
+        .join('\n');
+      next = value.slice(0, lineStart) + block + value.slice(selectionEnd);
+      nextSelection = [lineStart + block.length, lineStart + block.length];
+    }
+
+    onChange(next);
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(...nextSelection);
+    });
+  };
+
+  return (
+    <div className="flex items-center space-x-1 mb-2">
+      {FORMATS.map(format => {
+        const Icon = format.icon;
+        return (
+          <button
+            key={format.label}
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => applyFormat(format)}
+            className="p-1 hover:bg-surface rounded"
+            title={format.label}
+          >
+            <Icon className="w-4 h-4 text-secondary" />
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default FormattingToolbar;
@@ -1,47 +1,62 @@
 import React, { useState, useEffect } from 'react';
 import { DndContext, DragEndEvent, DragOverlay, DragStartEvent, PointerSensor, useSensor, useSensors } from '@dnd-kit/core';
-import { SortableContext, arrayMove, verticalListSortingStrategy } from '@dnd-kit/sortable';
-import { CheckSquare, Clock, AlertTriangle, Loader2 } from 'lucide-react';
+import { arrayMove } from '@dnd-kit/sortable';
+import { AnimatePresence } from 'framer-motion';
+import { useSearchParams } from 'react-router-dom';
+import { Ban, CheckSquare, ChevronDown, ChevronRight, Clock, Eye, Inbox, Loader2, Settings, XCircle } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
-import { supabase, type Task } from '../lib/supabase';
-import KanbanColumn from './KanbanColumn';
+import { workspaceAPI, type BoardColumn, type KanbanBoardConfig, type Project, type Task, type TaskStatus } from '../lib/supabase';
+import { compareTaskRanks, rankBetween } from '../lib/rank';
+import { describeBlockers, getBlockers, getStartBlockers, type Blocker } from '../lib/taskDependencies';
+import { BOARD_PARAMS, getTaskSwimlanes, matchesBoardFilters, parseBoardView, sortSwimlanes, type Swimlane } from '../lib/kanbanFilters';
+import KanbanColumn, { KanbanColumnHeader } from './KanbanColumn';
+import KanbanFilterBar from './KanbanFilterBar';
 import KanbanTask from './KanbanTask';
-import GlassCard from './ui/GlassCard';
+import BoardSettingsModal from './BoardSettingsModal';
 import Button from './ui/Button';
 
 interface KanbanBoardProps {
   tasks: Task[];
   onTaskUpdate: () => void;
+  onTaskChange: (change: Partial<Task> & Pick<Task, 'id'>) => void;
 }
 
-type KanbanStatus = 'backlog' | 'todo' | 'in_progress' | 'completed';
+type PendingMove = Pick<Task, 'status' | 'rank'>;
 
-interface KanbanColumn {
-  id: KanbanStatus;
-  title: string;
-  icon: React.ElementType;
-  color: string;
-}
+// Column icon and colour follow the status a column shows
+const STATUS_STYLES: Record<TaskStatus, { icon: React.ElementType; color: string }> = {
+  backlog: { icon: Inbox, color: 'text-gray-500' },
+  todo: { icon: CheckSquare, color: 'text-blue-500' },
+  in_progress: { icon: Clock, color: 'text-yellow-500' },
+  in_review: { icon: Eye, color: 'text-purple-500' },
+  blocked: { icon: Ban, color: 'text-orange-500' },
+  completed: { icon: CheckSquare, color: 'text-green-500' },
+  cancelled: { icon: XCircle, color: 'text-red-500' }
+};
+
+// Cards and lane cells get ids of the form "<lane>|<task or column id>" so a card can sit in several lanes
+const splitLaneId = (id: string) => {
+  const separator = id.lastIndexOf('|');
+  return separator === -1 ? id : id.slice(separator + 1);
+};
 
-const KanbanBoard: React.FC<KanbanBoardProps> = ({ tasks, onTaskUpdate }) => {
+const KanbanBoard: React.FC<KanbanBoardProps> = ({ tasks, onTaskUpdate, onTaskChange }) => {
   const { user } = useAuth();
-  const [columns, setColumns] = useState<KanbanColumn[]>([
-    { id: 'backlog', title: 'Backlog', icon: AlertTriangle, color: 'text-red-500' },
-    { id: 'todo', title: 'To Do', icon: CheckSquare, color: 'text-blue-500' },
-    { id: 'in_progress', title: 'In Progress', icon: Clock, color: 'text-yellow-500' },
-    { id: 'completed', title: 'Done', icon: CheckSquare, color: 'text-green-500' }
-  ]);
-  
-  const [tasksByColumn, setTasksByColumn] = useState<Record<KanbanStatus, Task[]>>({
-    backlog: [],
-    todo: [],
-    in_progress: [],
-    completed: []
-  });
-  
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { projectId, lane, filters } = parseBoardView(searchParams);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [collapsedLanes, setCollapsedLanes] = useState<string[]>([]);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [board, setBoard] = useState<KanbanBoardConfig | null>(null);
+  const [canEditBoard, setCanEditBoard] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+
+  const [tasksByColumn, setTasksByColumn] = useState<Record<string, Task[]>>({});
+  // Moves shown on the board while the server stores them
+  const [pendingMoves, setPendingMoves] = useState<Record<string, PendingMove>>({});
+
   const [activeTask, setActiveTask] = useState<Task | null>(null);
-  const [isUpdating, setIsUpdating] = useState(false);
-  
+
   // Configure DnD sensors
   const sensors = useSensors(
     useSensor(PointerSensor, {
@@ -51,41 +66,136 @@ const KanbanBoard: React.FC<KanbanBoardProps> = ({ tasks, onTaskUpdate }) => {
     })
   );
 
+  const columns = board?.columns || [];
+  const boardTasks = projectId ? tasks.filter(task => task.project_id === projectId) : tasks;
+  const columnTasks = boardTasks.filter(task => columns.some(column => column.status === task.status));
+  const hiddenTaskCount = board ? boardTasks.length - columnTasks.length : 0;
+  const shownTaskCount = columns.reduce((sum, column) => sum + (tasksByColumn[column.id] || []).length, 0);
+  const boardName = projectId ? projects.find(project => project.id === projectId)?.name || 'Project board' : 'My board';
+
+  // Filter options come from the tasks on the board
+  const assignees = Array.from(
+    new Map(boardTasks.flatMap(task => task.assignments || []).map(assignment => [
+      assignment.user_id,
+      { id: assignment.user_id, name: assignment.user?.full_name || assignment.user?.username || 'Unknown User' }
+    ])).values()
+  ).sort((a, b) => a.name.localeCompare(b.name));
+  const tags = Array.from(new Set(boardTasks.flatMap(task => task.tags || []))).sort();
+
+  // Cards that can't start yet because a task they depend on isn't far enough along
+  const tasksById = new Map(tasks.map(task => [task.id, task]));
+  const blockersByTask: Record<string, Blocker[]> = {};
+  for (const task of boardTasks) {
+    const blockers = getStartBlockers(task, tasksById);
+    if (blockers.length > 0) blockersByTask[task.id] = blockers;
+  }
+
+  const swimlanes: Swimlane[] = lane === 'none'
+    ? []
+    : sortSwimlanes(
+      Array.from(new Map(
+        columns.flatMap(column => tasksByColumn[column.id] || [])
+          .flatMap(task => getTaskSwimlanes(task, lane))
+          .map(swimlane => [swimlane.key, swimlane])
+      ).values()),
+      lane
+    );
+
+  // The board view lives in the URL so it survives reloads and can be shared
+  const updateBoardView = (changes: Record<string, string>) => {
+    const next = new URLSearchParams(searchParams);
+    for (const [key, value] of Object.entries(changes)) {
+      if (value) {
+        next.set(key, value);
+      } else {
+        next.delete(key);
+      }
+    }
+
+    if (BOARD_PARAMS.some(param => next.has(param))) {
+      next.set('panel', 'kanban');
+    } else {
+      next.delete('panel');
+    }
+
+    setSearchParams(next, { replace: true });
+  };
+
+  const handleShareView = async () => {
+    const params = new URLSearchParams(searchParams);
+    params.set('panel', 'kanban');
+
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${window.location.pathname}?${params}`);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (error) {
+      console.error('Error copying board link:', error);
+    }
+  };
+
+  const toggleLane = (key: string) => {
+    setCollapsedLanes(prev => (prev.includes(key) ? prev.filter(laneKey => laneKey !== key) : [...prev, key]));
+  };
+
+  useEffect(() => {
+    if (!user) return;
+    workspaceAPI.getUserProjects(user.id).then(setProjects);
+  }, [user]);
+
+  // Load the board configuration of the selected project, or the personal board
+  useEffect(() => {
+    if (!user) return;
+
+    const loadBoard = async () => {
+      try {
+        const params = new URLSearchParams({ userId: user.id });
+        if (projectId) params.set('projectId', projectId);
+
+        const response = await fetch(`${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/boards?${params}`, {
+          credentials: 'include'
+        });
+        const data = await response.json();
+
+        if (data.success) {
+          setBoard(data.board);
+          setCanEditBoard(data.canEdit);
+        } else {
+          console.error('Error loading board:', data.error);
+        }
+      } catch (error) {
+        console.error('Error loading board:', error);
+      }
+    };
+
+    setBoard(null);
+    loadBoard();
+  }, [user, projectId]);
+
   // Organize tasks into columns
   useEffect(() => {
-    const now = new Date();
-    
-    const backlogTasks = tasks.filter(task => {
-      if (task.status === 'completed' || task.status === 'cancelled') return false;
-      if (!task.due_date) return false;
-      const dueDate = new Date(task.due_date);
-      return dueDate < now;
-    });
-    
-    const todoTasks = tasks.filter(task => 
-      task.status === 'todo' && (!task.due_date || new Date(task.due_date) >= now)
-    );
-    
-    const inProgressTasks = tasks.filter(task => 
-      task.status === 'in_progress'
-    );
-    
-    const completedTasks = tasks.filter(task => 
-      task.status === 'completed'
-    );
-    
-    setTasksByColumn({
-      backlog: backlogTasks,
-      todo: todoTasks,
-      in_progress: inProgressTasks,
-      completed: completedTasks
-    });
-  }, [tasks]);
+    const grouped: Record<string, Task[]> = {};
+    const shownTasks = tasks.map(task => (pendingMoves[task.id] ? { ...task, ...pendingMoves[task.id] } : task));
+    const view = parseBoardView(searchParams);
+
+    for (const column of board?.columns || []) {
+      grouped[column.id] = shownTasks
+        .filter(task => task.status === column.status && (!view.projectId || task.project_id === view.projectId))
+        .filter(task => matchesBoardFilters(task, view.filters))
+        .sort(compareTaskRanks);
+    }
+
+    setTasksByColumn(grouped);
+  }, [tasks, board, pendingMoves, searchParams]);
+
+  const findColumnOfTask = (taskId: string) => {
+    return columns.find(column => (tasksByColumn[column.id] || []).some(task => task.id === taskId));
+  };
 
   const handleDragStart = (event: DragStartEvent) => {
     const { active } = event;
-    const taskId = active.id as string;
-    
+    const taskId = splitLaneId(active.id as string);
+
     // Find the task that is being dragged
     const draggedTask = tasks.find(task => task.id === taskId);
     if (draggedTask) {
@@ -95,113 +205,302 @@ const KanbanBoard: React.FC<KanbanBoardProps> = ({ tasks, onTaskUpdate }) => {
 
   const handleDragEnd = async (event: DragEndEvent) => {
     const { active, over } = event;
-    
-    if (!over) return;
-    
-    const taskId = active.id as string;
-    const targetColumnId = over.id as KanbanStatus;
-    
-    // Find the task that was dragged
-    const draggedTask = tasks.find(task => task.id === taskId);
+    setActiveTask(null);
+
+    if (!over || !user) return;
+
+    // Lanes only group cards: dropping a card in another lane changes its column, not its lane
+    const taskId = splitLaneId(active.id as string);
+    const overId = splitLaneId(over.id as string);
+
+    // Cards can be dropped on a column or on another card in it
+    const sourceColumn = findColumnOfTask(taskId);
+    const targetColumn = columns.find(column => column.id === overId) || findColumnOfTask(overId);
+    if (!sourceColumn || !targetColumn) return;
+
+    const draggedTask = tasksByColumn[sourceColumn.id].find(task => task.id === taskId);
     if (!draggedTask) return;
-    
-    // Map column IDs to task statuses
-    const columnToStatus: Record<KanbanStatus, Task['status']> = {
-      backlog: 'todo', // We keep backlog items as 'todo' in the database
-      todo: 'todo',
-      in_progress: 'in_progress',
-      completed: 'completed'
+
+    // Starting or finishing a task before the tasks it depends on is allowed, but only on purpose
+    let force = false;
+    if (sourceColumn.status !== targetColumn.status) {
+      const blockers = getBlockers(draggedTask, targetColumn.status, tasksById);
+      if (blockers.length > 0) {
+        if (!confirm(describeBlockers(draggedTask.title, blockers))) return;
+        force = true;
+      }
+    }
+
+    const targetTasks = tasksByColumn[targetColumn.id] || [];
+    let orderedTasks: Task[];
+
+    if (sourceColumn.id === targetColumn.id) {
+      const oldIndex = targetTasks.findIndex(task => task.id === taskId);
+      const newIndex = overId === targetColumn.id ? targetTasks.length - 1 : targetTasks.findIndex(task => task.id === overId);
+      if (oldIndex === newIndex) return;
+      orderedTasks = arrayMove(targetTasks, oldIndex, newIndex);
+    } else {
+      const overIndex = targetTasks.findIndex(task => task.id === overId);
+      const movedTask = { ...draggedTask, status: targetColumn.status };
+      orderedTasks = [...targetTasks];
+      orderedTasks.splice(overIndex === -1 ? targetTasks.length : overIndex, 0, movedTask);
+    }
+
+    // Show the move right away with a provisional rank; the server decides the final one
+    const newIndex = orderedTasks.findIndex(task => task.id === taskId);
+    const before = orderedTasks[newIndex - 1];
+    const after = orderedTasks[newIndex + 1];
+    setPendingMoves(prev => ({
+      ...prev,
+      [taskId]: { status: targetColumn.status, rank: rankBetween(before?.rank || null, after?.rank || null) }
+    }));
+
+    const clearPendingMove = () => {
+      setPendingMoves(prev => {
+        const next = { ...prev };
+        delete next[taskId];
+        return next;
+      });
     };
-    
-    // If the task is already in the target column, do nothing
-    if (draggedTask.status === columnToStatus[targetColumnId]) return;
-    
-    // Update the task status in the database
-    setIsUpdating(true);
-    try {
-      const { error } = await supabase
-        .from('tasks')
-        .update({ 
-          status: columnToStatus[targetColumnId],
-          updated_at: new Date().toISOString()
+
+    const sendMove = async (forceMove: boolean) => {
+      const response = await fetch(`${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/tasks/${taskId}/move`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          userId: user.id,
+          status: targetColumn.status,
+          beforeTaskId: before?.id || null,
+          afterTaskId: after?.id || null,
+          force: forceMove
         })
-        .eq('id', taskId);
-      
-      if (error) {
-        console.error('Error updating task status:', error);
-        return;
+      });
+      return response.json();
+    };
+
+    try {
+      let data = await sendMove(force);
+
+      // The server knew of blockers this board hadn't loaded yet
+      if (!data.success && data.blockers && confirm(describeBlockers(draggedTask.title, data.blockers))) {
+        data = await sendMove(true);
+      }
+
+      if (data.success) {
+        onTaskChange(data.task);
+      } else if (!data.blockers) {
+        alert(data.error || 'Failed to move task');
       }
-      
-      // Refresh tasks
-      onTaskUpdate();
     } catch (error) {
-      console.error('Error updating task status:', error);
+      console.error('Error moving task:', error);
+      alert('Failed to move task');
     } finally {
-      setIsUpdating(false);
-      setActiveTask(null);
+      clearPendingMove();
     }
   };
 
-  const getColumnTasks = (columnId: KanbanStatus) => {
-    return tasksByColumn[columnId] || [];
+  const handleSaveColumns = async (newColumns: BoardColumn[]) => {
+    if (!user) return false;
+
+    try {
+      const response = await fetch(`${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/boards`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          userId: user.id,
+          projectId: projectId || null,
+          columns: newColumns
+        })
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setBoard(data.board);
+        return true;
+      }
+
+      alert(data.error || 'Failed to save board');
+      return false;
+    } catch (error) {
+      console.error('Error saving board:', error);
+      alert('Failed to save board');
+      return false;
+    }
   };
 
   return (
     <div className="flex-1 flex flex-col h-full">
       {/* Header */}
       <div className="glass-panel border-b silver-border p-4 flex-shrink-0">
-        <div className="flex items-center justify-between mb-4">
-          <h2 className="text-xl font-bold gradient-gold-silver">Kanban Board</h2>
-          <Button
-            onClick={onTaskUpdate}
-            variant="secondary"
-            size="sm"
-            className="flex items-center space-x-2"
-          >
-            <span>Refresh</span>
-          </Button>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <h2 className="text-xl font-bold gradient-gold-silver">Kanban Board</h2>
+            <select
+              value={projectId}
+              onChange={(e) => updateBoardView({ project: e.target.value })}
+              className="glass-panel rounded-lg px-3 py-2 text-sm text-primary focus:outline-none focus:ring-2 focus:ring-yellow-500"
+            >
+              <option value="">My board</option>
+              {projects.map(project => (
+                <option key={project.id} value={project.id}>{project.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-center space-x-2">
+            {canEditBoard && board && (
+              <Button
+                onClick={() => setShowSettings(true)}
+                variant="secondary"
+                size="sm"
+                className="flex items-center space-x-2"
+              >
+                <Settings className="w-4 h-4" />
+                <span>Columns</span>
+              </Button>
+            )}
+            <Button
+              onClick={onTaskUpdate}
+              variant="secondary"
+              size="sm"
+              className="flex items-center space-x-2"
+            >
+              <span>Refresh</span>
+            </Button>
+          </div>
         </div>
+        <KanbanFilterBar
+          filters={filters}
+          lane={lane}
+          assignees={assignees}
+          tags={tags}
+          shownCount={shownTaskCount}
+          totalCount={columnTasks.length}
+          linkCopied={linkCopied}
+          onChange={updateBoardView}
+          onShare={handleShareView}
+        />
+        {hiddenTaskCount > 0 && (
+          <p className="text-xs text-secondary mt-2">
+            {hiddenTaskCount} {hiddenTaskCount === 1 ? 'task has a status' : 'tasks have statuses'} without a column on this board
+          </p>
+        )}
       </div>
 
       {/* Kanban Board */}
       <div className="flex-1 overflow-x-auto p-4">
-        <DndContext 
-          sensors={sensors}
-          onDragStart={handleDragStart}
-          onDragEnd={handleDragEnd}
-        >
-          <div className="flex space-x-4 min-h-[500px]">
-            {columns.map(column => (
-              <KanbanColumn
-                key={column.id}
-                id={column.id}
-                title={column.title}
-                icon={column.icon}
-                color={column.color}
-                tasks={getColumnTasks(column.id)}
-              />
-            ))}
+        {!board ? (
+          <div className="flex items-center justify-center h-full">
+            <Loader2 className="w-6 h-6 animate-spin text-secondary" />
           </div>
-          
-          <DragOverlay>
-            {activeTask ? <KanbanTask task={activeTask} /> : null}
-          </DragOverlay>
-        </DndContext>
+        ) : (
+          <DndContext
+            sensors={sensors}
+            onDragStart={handleDragStart}
+            onDragEnd={handleDragEnd}
+          >
+            {lane === 'none' ? (
+              <div className="flex space-x-4 min-h-[500px]">
+                {columns.map(column => (
+                  <KanbanColumn
+                    key={column.id}
+                    id={column.id}
+                    title={column.title}
+                    icon={STATUS_STYLES[column.status].icon}
+                    color={STATUS_STYLES[column.status].color}
+                    tasks={tasksByColumn[column.id] || []}
+                    wipLimit={column.wip_limit}
+                    count={columnTasks.filter(task => task.status === column.status).length}
+                    blockersByTask={blockersByTask}
+                  />
+                ))}
+              </div>
+            ) : (
+              <div className="space-y-4 min-h-[500px]">
+                {/* Column headers, shared by every lane */}
+                <div className="flex space-x-4">
+                  {columns.map(column => (
+                    <div key={column.id} className="flex-1 min-w-[280px] glass-panel rounded-lg">
+                      <KanbanColumnHeader
+                        title={column.title}
+                        icon={STATUS_STYLES[column.status].icon}
+                        color={STATUS_STYLES[column.status].color}
+                        count={columnTasks.filter(task => task.status === column.status).length}
+                        wipLimit={column.wip_limit}
+                      />
+                    </div>
+                  ))}
+                </div>
+
+                {swimlanes.map(swimlane => {
+                  const isCollapsed = collapsedLanes.includes(swimlane.key);
+                  const laneTasks = (column: BoardColumn) => (tasksByColumn[column.id] || []).filter(task =>
+                    getTaskSwimlanes(task, lane).some(taskLane => taskLane.key === swimlane.key)
+                  );
+                  const laneCount = columns.reduce((sum, column) => sum + laneTasks(column).length, 0);
+
+                  return (
+                    <div key={swimlane.key}>
+                      <button
+                        onClick={() => toggleLane(swimlane.key)}
+                        className="flex items-center space-x-2 mb-2 text-sm font-medium text-primary hover:text-yellow-600"
+                      >
+                        {isCollapsed ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                        <span>{swimlane.label}</span>
+                        <span className="text-xs text-secondary">{laneCount}</span>
+                      </button>
+
+                      {!isCollapsed && (
+                        <div className="flex space-x-4">
+                          {columns.map(column => (
+                            <KanbanColumn
+                              key={column.id}
+                              id={`${swimlane.key}|${column.id}`}
+                              title={column.title}
+                              icon={STATUS_STYLES[column.status].icon}
+                              color={STATUS_STYLES[column.status].color}
+                              tasks={laneTasks(column)}
+                              laneKey={swimlane.key}
+                              blockersByTask={blockersByTask}
+                            />
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+
+                {swimlanes.length === 0 && (
+                  <p className="text-secondary text-sm text-center py-8">No tasks match these filters</p>
+                )}
+              </div>
+            )}
+
+            <DragOverlay>
+              {activeTask ? <KanbanTask task={activeTask} blockers={blockersByTask[activeTask.id]} /> : null}
+            </DragOverlay>
+          </DndContext>
+        )}
       </div>
-      
-      {/* Loading Overlay */}
-      {isUpdating && (
-        <div className="fixed inset-0 bg-black/20 backdrop-blur-sm flex items-center justify-center z-50">
-          <GlassCard className="p-4">
-            <div className="flex items-center space-x-3">
-              <Loader2 className="w-5 h-5 animate-spin text-secondary" />
-              <span className="text-primary">Updating task...</span>
-            </div>
-          </GlassCard>
-        </div>
-      )}
+
+      {/* Board Settings Modal */}
+      <AnimatePresence>
+        {showSettings && board && (
+          <BoardSettingsModal
+            boardName={boardName}
+            columns={board.columns}
+            onSave={handleSaveColumns}
+            onClose={() => setShowSettings(false)}
+          />
+        )}
+      </AnimatePresence>
     </div>
   );
 };
 
-export default KanbanBoard;
\ No newline at end of file
+export default KanbanBoard;
@@ -1,42 +1,87 @@
 import React from 'react';
 import { useDroppable } from '@dnd-kit/core';
 import { SortableContext, verticalListSortingStrategy } from '@dnd-kit/sortable';
+import { AlertTriangle } from 'lucide-react';
 import { type Task } from '../lib/supabase';
+import { type Blocker } from '../lib/taskDependencies';
 import KanbanTask from './KanbanTask';
 import GlassCard from './ui/GlassCard';
 
+interface KanbanColumnHeaderProps {
+  title: string;
+  icon: React.ElementType;
+  color: string;
+  count: number;
+  wipLimit?: number | null;
+}
+
 interface KanbanColumnProps {
   id: string;
   title: string;
   icon: React.ElementType;
   color: string;
   tasks: Task[];
+  wipLimit?: number | null;
+  // Tasks in the column before filters, which is what the WIP limit applies to
+  count?: number;
+  // Set when the column is one cell of a swimlane; cards then get lane-scoped ids
+  laneKey?: string;
+  // Unmet start dependencies of the cards, by task id
+  blockersByTask?: Record<string, Blocker[]>;
 }
 
-const KanbanColumn: React.FC<KanbanColumnProps> = ({ id, title, icon: Icon, color, tasks }) => {
+export const KanbanColumnHeader: React.FC<KanbanColumnHeaderProps> = ({ title, icon: Icon, color, count, wipLimit }) => {
+  const isAtLimit = !!wipLimit && count === wipLimit;
+  const isOverLimit = !!wipLimit && count > wipLimit;
+
+  return (
+    <div className="p-4 border-b silver-border">
+      <div className="flex items-center space-x-2">
+        <Icon className={`w-5 h-5 ${color}`} />
+        <h3 className="font-bold text-primary">{title}</h3>
+        <span
+          className={`text-sm ml-auto ${
+            isOverLimit ? 'text-red-500 font-medium' : isAtLimit ? 'text-yellow-500' : 'text-secondary'
+          }`}
+          title={wipLimit ? `Work-in-progress limit: ${wipLimit}` : undefined}
+        >
+          {wipLimit ? `${count} / ${wipLimit}` : count}
+        </span>
+      </div>
+      {isOverLimit && (
+        <div className="flex items-center space-x-1 mt-2 text-xs text-red-500">
+          <AlertTriangle className="w-3 h-3" />
+          <span>Over the WIP limit by {count - (wipLimit || 0)}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const KanbanColumn: React.FC<KanbanColumnProps> = ({ id, title, icon, color, tasks, wipLimit, count, laneKey, blockersByTask = {} }) => {
   const { setNodeRef, isOver } = useDroppable({
     id,
   });
+
+  const columnCount = count ?? tasks.length;
+  const isOverLimit = !!wipLimit && columnCount > wipLimit;
+  const getSortableId = (task: Task) => (laneKey ? `${laneKey}|${task.id}` : task.id);
   
   return (
     <div 
       ref={setNodeRef}
       className={`flex-1 min-w-[280px] flex flex-col glass-panel rounded-lg ${
-        isOver ? 'border-gold-border bg-gradient-gold-silver/5' : ''
+        isOver ? 'border-gold-border bg-gradient-gold-silver/5' : isOverLimit ? 'border-red-500/50' : ''
       }`}
     >
-      <div className="p-4 border-b silver-border">
-        <div className="flex items-center space-x-2">
-          <Icon className={`w-5 h-5 ${color}`} />
-          <h3 className="font-bold text-primary">{title}</h3>
-          <span className="text-secondary text-sm ml-auto">{tasks.length}</span>
-        </div>
-      </div>
+      {!laneKey && (
+        <KanbanColumnHeader title={title} icon={icon} color={color} count={columnCount} wipLimit={wipLimit} />
+      )}
       
-      <div className="flex-1 p-3 overflow-y-auto space-y-3 min-h-[400px]">
-        <SortableContext items={tasks.map(task => task.id)} strategy={verticalListSortingStrategy}>
+      <div className={`flex-1 p-3 overflow-y-auto space-y-3 ${laneKey ? 'min-h-[120px]' : 'min-h-[400px]'}`}>
+        <SortableContext items={tasks.map(getSortableId)} strategy={verticalListSortingStrategy}>
           {tasks.map(task => (
-            <KanbanTask key={task.id} task={task} />
+            <KanbanTask key={task.id} task={task} sortableId={getSortableId(task)} blockers={blockersByTask[task.id]} />
           ))}
         </SortableContext>
         
@@ -50,4 +95,4 @@ const KanbanColumn: React.FC<KanbanColumnProps> = ({ id, title, icon: Icon, colo
   );
 };
 
-export default KanbanColumn;
\ No newline at end of file
+export default KanbanColumn;
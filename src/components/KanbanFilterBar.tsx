@@ -0,0 +1,127 @@
+import React from 'react';
+import { Check, Filter, Layers, Link, Search, X } from 'lucide-react';
+import {
+  DUE_WINDOW_LABELS,
+  NO_TAG,
+  SWIMLANE_LABELS,
+  UNASSIGNED,
+  type BoardFilters,
+  type DueWindow,
+  type SwimlaneField
+} from '../lib/kanbanFilters';
+
+interface KanbanFilterBarProps {
+  filters: BoardFilters;
+  lane: SwimlaneField;
+  assignees: { id: string; name: string }[];
+  tags: string[];
+  shownCount: number;
+  totalCount: number;
+  linkCopied: boolean;
+  onChange: (changes: Record<string, string>) => void;
+  onShare: () => void;
+}
+
+const selectClassName = 'glass-panel rounded-lg px-3 py-2 text-sm text-primary focus:outline-none focus:ring-2 focus:ring-yellow-500';
+
+const KanbanFilterBar: React.FC<KanbanFilterBarProps> = ({
+  filters,
+  lane,
+  assignees,
+  tags,
+  shownCount,
+  totalCount,
+  linkCopied,
+  onChange,
+  onShare
+}) => {
+  const hasFilters = !!(filters.assignee || filters.tag || filters.due !== 'any' || filters.text);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-4">
+      <div className="relative">
+        <Search className="w-4 h-4 text-secondary absolute left-3 top-1/2 -translate-y-1/2" />
+        <input
+          type="text"
+          value={filters.text}
+          onChange={(e) => onChange({ q: e.target.value })}
+          placeholder="Filter tasks..."
+          className="glass-panel rounded-lg pl-9 pr-3 py-2 text-sm text-primary w-48 focus:outline-none focus:ring-2 focus:ring-yellow-500"
+        />
+      </div>
+
+      <Filter className="w-4 h-4 text-secondary ml-1" />
+      <select
+        value={filters.assignee}
+        onChange={(e) => onChange({ assignee: e.target.value })}
+        className={selectClassName}
+      >
+        <option value="">Anyone</option>
+        <option value={UNASSIGNED}>Unassigned</option>
+        {assignees.map(assignee => (
+          <option key={assignee.id} value={assignee.id}>{assignee.name}</option>
+        ))}
+      </select>
+
+      <select
+        value={filters.tag}
+        onChange={(e) => onChange({ tag: e.target.value })}
+        className={selectClassName}
+      >
+        <option value="">Any label</option>
+        <option value={NO_TAG}>No label</option>
+        {tags.map(tag => (
+          <option key={tag} value={tag}>{tag}</option>
+        ))}
+      </select>
+
+      <select
+        value={filters.due}
+        onChange={(e) => onChange({ due: e.target.value === 'any' ? '' : e.target.value as DueWindow })}
+        className={selectClassName}
+      >
+        {Object.entries(DUE_WINDOW_LABELS).map(([value, label]) => (
+          <option key={value} value={value}>{label}</option>
+        ))}
+      </select>
+
+      <Layers className="w-4 h-4 text-secondary ml-1" />
+      <select
+        value={lane}
+        onChange={(e) => onChange({ lane: e.target.value === 'none' ? '' : e.target.value })}
+        className={selectClassName}
+        title="Swimlanes"
+      >
+        {Object.entries(SWIMLANE_LABELS).map(([value, label]) => (
+          <option key={value} value={value}>{value === 'none' ? label : `Lanes by ${label.toLowerCase()}`}</option>
+        ))}
+      </select>
+
+      {hasFilters && (
+        <>
+          <span className="text-xs text-secondary ml-1">
+            {shownCount} of {totalCount} tasks
+          </span>
+          <button
+            onClick={() => onChange({ assignee: '', tag: '', due: '', q: '' })}
+            className="flex items-center space-x-1 text-xs text-secondary hover:text-primary"
+          >
+            <X className="w-3 h-3" />
+            <span>Clear filters</span>
+          </button>
+        </>
+      )}
+
+      <button
+        onClick={onShare}
+        className="flex items-center space-x-1 text-xs text-secondary hover:text-primary ml-auto"
+        title="Copy a link to this board view"
+      >
+        {linkCopied ? <Check className="w-3 h-3 text-green-500" /> : <Link className="w-3 h-3" />}
+        <span>{linkCopied ? 'Copied' : 'Copy link'}</span>
+      </button>
+    </div>
+  );
+};
+
+export default KanbanFilterBar;
@@ -1,15 +1,19 @@
 import React from 'react';
 import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
-import { Calendar, CheckSquare, Clock, User } from 'lucide-react';
+import { Calendar, CheckSquare, Clock, Lock, User } from 'lucide-react';
 import { type Task } from '../lib/supabase';
+import { type Blocker } from '../lib/taskDependencies';
 import GlassCard from './ui/GlassCard';
 
 interface KanbanTaskProps {
   task: Task;
+  sortableId?: string;
+  // Unfinished tasks this one waits on before it can start
+  blockers?: Blocker[];
 }
 
-const KanbanTask: React.FC<KanbanTaskProps> = ({ task }) => {
+const KanbanTask: React.FC<KanbanTaskProps> = ({ task, sortableId, blockers = [] }) => {
   const {
     attributes,
     listeners,
@@ -18,7 +22,7 @@ const KanbanTask: React.FC<KanbanTaskProps> = ({ task }) => {
     transition,
     isDragging
   } = useSortable({
-    id: task.id,
+    id: sortableId || task.id,
   });
   
   const style = {
@@ -96,6 +100,16 @@ const KanbanTask: React.FC<KanbanTaskProps> = ({ task }) => {
                 </span>
               )}
               
+              {blockers.length > 0 && (
+                <span
+                  className="flex items-center px-2 py-0.5 rounded-full text-xs font-medium text-orange-500 bg-orange-500/10 border border-orange-500/30"
+                  title={`Waiting on ${blockers.map(blocker => blocker.title).join(', ')}`}
+                >
+                  <Lock className="w-3 h-3 mr-1" />
+                  Blocked by {blockers.length}
+                </span>
+              )}
+
               {task.assignments && task.assignments.length > 0 && (
                 <span className="flex items-center text-xs text-secondary">
                   <User className="w-3 h-3 mr-1" />
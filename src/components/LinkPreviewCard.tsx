@@ -0,0 +1,39 @@
+import React, { useState } from 'react';
+import { type LinkPreview } from '../lib/supabase';
+
+interface LinkPreviewCardProps {
+  preview: LinkPreview;
+}
+
+const LinkPreviewCard: React.FC<LinkPreviewCardProps> = ({ preview }) => {
+  const [imageFailed, setImageFailed] = useState(false);
+
+  return (
+    <a
+      href={preview.url}
+      target="_blank"
+      rel="noopener noreferrer nofollow"
+      className="mt-2 flex max-w-md glass-panel rounded-lg overflow-hidden border-l-4 border-yellow-500/60 hover:bg-surface transition-colors"
+    >
+      <div className="flex-1 min-w-0 p-3">
+        <p className="text-xs text-secondary truncate">{preview.site_name}</p>
+        <p className="text-sm font-bold text-primary line-clamp-2 break-words">{preview.title}</p>
+        {preview.description && (
+          <p className="text-xs text-secondary mt-1 line-clamp-2 break-words">{preview.description}</p>
+        )}
+      </div>
+      {preview.image_url && !imageFailed && (
+        <img
+          src={preview.image_url}
+          alt=""
+          loading="lazy"
+          referrerPolicy="no-referrer"
+          onError={() => setImageFailed(true)}
+          className="w-24 h-24 object-cover flex-shrink-0 self-center"
+        />
+      )}
+    </a>
+  );
+};
+
+export default LinkPreviewCard;
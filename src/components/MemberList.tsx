@@ -0,0 +1,162 @@
+import React, { useState, useEffect } from 'react';
+import { Users, ChevronDown, ChevronUp, MinusCircle, Check, MessageCircle } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useAuth } from '../contexts/AuthContext';
+import { workspaceAPI, type Profile, type PresenceState, type PresenceStatus } from '../lib/supabase';
+
+interface MemberListProps {
+  presence: Record<string, PresenceState>;
+  onMessageMember?: (memberId: string) => void;
+}
+
+const STATUS_STYLES: Record<PresenceStatus | 'offline', { label: string; dot: string }> = {
+  online: { label: 'Online', dot: 'bg-green-500' },
+  away: { label: 'Away', dot: 'bg-yellow-500' },
+  busy: { label: 'Do not disturb', dot: 'bg-red-500' },
+  offline: { label: 'Offline', dot: 'bg-gray-400' }
+};
+
+const STATUS_ORDER: (PresenceStatus | 'offline')[] = ['online', 'busy', 'away', 'offline'];
+
+const MemberList: React.FC<MemberListProps> = ({ presence, onMessageMember }) => {
+  const { user, presenceStatus, setPresenceStatus } = useAuth();
+  const [members, setMembers] = useState<Profile[]>([]);
+  const [collapsed, setCollapsed] = useState(false);
+  const [showStatusMenu, setShowStatusMenu] = useState(false);
+
+  useEffect(() => {
+    workspaceAPI.getWorkspaceMembers().then(setMembers);
+  }, []);
+
+  // Only realtime presence is trusted; the stored profile status can be stale
+  const getStatus = (memberId: string): PresenceStatus | 'offline' => {
+    if (memberId === user?.id) return presenceStatus;
+    return presence[memberId]?.status || 'offline';
+  };
+
+  const sortedMembers = [...members].sort((a, b) => {
+    const statusDiff = STATUS_ORDER.indexOf(getStatus(a.id)) - STATUS_ORDER.indexOf(getStatus(b.id));
+    if (statusDiff !== 0) return statusDiff;
+    return (a.full_name || a.username).localeCompare(b.full_name || b.username);
+  });
+
+  const onlineCount = members.filter(member => getStatus(member.id) !== 'offline').length;
+
+  const handleStatusSelect = (status: 'online' | 'busy') => {
+    setPresenceStatus(status);
+    setShowStatusMenu(false);
+  };
+
+  const renderStatusDot = (status: PresenceStatus | 'offline', className = '') => (
+    <span
+      className={`w-2.5 h-2.5 rounded-full ${STATUS_STYLES[status].dot} ${className}`}
+      title={STATUS_STYLES[status].label}
+    />
+  );
+
+  return (
+    <div className="border-t silver-border flex-shrink-0">
+      {/* Own status */}
+      <div className="relative p-3 border-b silver-border">
+        <button
+          onClick={() => setShowStatusMenu(!showStatusMenu)}
+          className="w-full flex items-center justify-between p-2 rounded-lg text-sm hover:bg-surface transition-colors"
+        >
+          <div className="flex items-center space-x-2 min-w-0">
+            {renderStatusDot(presenceStatus)}
+            <span className="text-primary font-medium truncate">{user?.full_name || user?.username}</span>
+            <span className="text-xs text-secondary">{STATUS_STYLES[presenceStatus].label}</span>
+          </div>
+          <ChevronDown className="w-3 h-3 text-secondary" />
+        </button>
+
+        <AnimatePresence>
+          {showStatusMenu && (
+            <motion.div
+              initial={{ opacity: 0, y: 5 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: 5 }}
+              className="absolute bottom-full left-3 right-3 mb-1 z-20 glass-panel rounded-lg shadow-lg border silver-border bg-primary"
+            >
+              <button
+                onClick={() => handleStatusSelect('online')}
+                className="w-full px-3 py-2 text-left text-sm text-primary hover:bg-surface flex items-center justify-between rounded-t-lg"
+              >
+                <div className="flex items-center space-x-2">
+                  {renderStatusDot('online')}
+                  <span>Available</span>
+                </div>
+                {presenceStatus !== 'busy' && <Check className="w-3 h-3 text-secondary" />}
+              </button>
+              <button
+                onClick={() => handleStatusSelect('busy')}
+                className="w-full px-3 py-2 text-left text-sm text-primary hover:bg-surface flex items-center justify-between rounded-b-lg"
+              >
+                <div className="flex items-center space-x-2">
+                  <MinusCircle className="w-3 h-3 text-red-500" />
+                  <span>Do not disturb</span>
+                </div>
+                {presenceStatus === 'busy' && <Check className="w-3 h-3 text-secondary" />}
+              </button>
+              <p className="px-3 py-2 text-xs text-secondary border-t silver-border">
+                You are shown as away after 5 minutes of inactivity.
+              </p>
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </div>
+
+      {/* Workspace members */}
+      <div className="p-3">
+        <button
+          onClick={() => setCollapsed(!collapsed)}
+          className="w-full flex items-center justify-between text-xs font-semibold text-secondary uppercase tracking-wider mb-2"
+        >
+          <span className="flex items-center">
+            <Users className="w-3 h-3 mr-1" />
+            Members ({onlineCount}/{members.length} online)
+          </span>
+          {collapsed ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+        </button>
+
+        {!collapsed && (
+          <div className="max-h-48 overflow-y-auto space-y-1" style={{ scrollbarWidth: 'thin' }}>
+            {sortedMembers.map(member => {
+              const status = getStatus(member.id);
+              return (
+                <div
+                  key={member.id}
+                  className={`group flex items-center space-x-2 px-2 py-1 rounded-lg text-sm hover:bg-surface ${
+                    status === 'offline' ? 'opacity-60' : ''
+                  }`}
+                >
+                  <div className="relative flex-shrink-0">
+                    <div className="w-6 h-6 bg-gradient-gold-silver rounded-full flex items-center justify-center text-white text-xs font-bold">
+                      {(member.full_name || member.username).charAt(0).toUpperCase()}
+                    </div>
+                    {renderStatusDot(status, 'absolute -bottom-0.5 -right-0.5 border-2 border-white dark:border-gray-900')}
+                  </div>
+                  <span className="flex-1 text-primary truncate">
+                    {member.full_name || member.username}
+                    {member.id === user?.id && <span className="text-secondary"> (you)</span>}
+                  </span>
+                  {onMessageMember && member.id !== user?.id && (
+                    <button
+                      onClick={() => onMessageMember(member.id)}
+                      className="p-1 rounded opacity-0 group-hover:opacity-100 text-secondary hover:text-primary transition-opacity"
+                      title={`Message ${member.full_name || member.username}`}
+                    >
+                      <MessageCircle className="w-3 h-3" />
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MemberList;
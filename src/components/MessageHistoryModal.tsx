@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import { History, Loader2, X } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { useAuth } from '../contexts/AuthContext';
+import { type Message, type MessageRevision } from '../lib/supabase';
+import GlassCard from './ui/GlassCard';
+import MessageMarkdown from './MessageMarkdown';
+
+interface MessageHistoryModalProps {
+  message: Message;
+  onClose: () => void;
+}
+
+interface MessageVersion {
+  content: string;
+  since: string;
+  label: string;
+}
+
+const MessageHistoryModal: React.FC<MessageHistoryModalProps> = ({ message, onClose }) => {
+  const { user } = useAuth();
+  const [revisions, setRevisions] = useState<MessageRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadRevisions = async () => {
+      try {
+        const response = await fetch(
+          `${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/messages/${message.id}/revisions?userId=${user.id}`,
+          { credentials: 'include' }
+        );
+        const data = await response.json();
+
+        if (data.success) {
+          setRevisions(data.revisions);
+        } else {
+          setError(data.error || 'Failed to load edit history');
+        }
+      } catch (error) {
+        console.error('Error loading edit history:', error);
+        setError('Failed to load edit history');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadRevisions();
+  }, [message.id, message.edited_at, user]);
+
+  const formatTime = (timestamp: string) => {
+    return new Date(timestamp).toLocaleString([], {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  // Each revision holds the content that was replaced, so a version was current from the
+  // previous edit (or from posting) until its revision was recorded
+  const versions: MessageVersion[] = [
+    ...revisions.map((revision, index) => ({
+      content: revision.content,
+      since: index === 0 ? message.created_at : revisions[index - 1].created_at,
+      label: index === 0 ? 'Original' : `Edit ${index}`
+    })),
+    {
+      content: message.content,
+      since: revisions.length > 0 ? revisions[revisions.length - 1].created_at : message.edited_at || message.created_at,
+      label: 'Current'
+    }
+  ].reverse();
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-start justify-center z-50 p-4 pt-24"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        className="w-full max-w-lg"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <GlassCard className="p-0 overflow-hidden" goldBorder>
+          {/* Header */}
+          <div className="flex items-center justify-between px-4 py-3 border-b silver-border">
+            <div className="flex items-center space-x-2">
+              <History className="w-5 h-5 text-yellow-600" />
+              <h3 className="font-bold text-primary">Edit history</h3>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-1 text-secondary hover:text-primary"
+              title="Close"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="p-4 space-y-3 max-h-[60vh] overflow-y-auto" style={{ scrollbarWidth: 'thin' }}>
+            {loading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="w-5 h-5 text-secondary animate-spin" />
+              </div>
+            ) : error ? (
+              <p className="text-sm text-red-400 text-center py-4">{error}</p>
+            ) : (
+              versions.map(version => (
+                <div key={version.label} className="glass-panel rounded-lg p-3">
+                  <div className="flex items-center justify-between mb-1 text-xs">
+                    <span className={`font-medium ${version.label === 'Current' ? 'text-yellow-600' : 'text-primary'}`}>
+                      {version.label}
+                    </span>
+                    <span className="text-secondary">{formatTime(version.since)}</span>
+                  </div>
+                  <div className="text-sm text-primary break-words">
+                    <MessageMarkdown content={version.content} />
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </GlassCard>
+      </motion.div>
+    </div>
+  );
+};
+
+export default MessageHistoryModal;
@@ -0,0 +1,98 @@
+import React from 'react';
+import ReactMarkdown, { type Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeHighlight from 'rehype-highlight';
+
+interface MessageMarkdownProps {
+  content: string;
+}
+
+// The parts of a markdown syntax tree node the mention plugin reads or writes
+interface MarkdownNode {
+  type: string;
+  value?: string;
+  children?: MarkdownNode[];
+  data?: Record<string, unknown>;
+}
+
+// Text inside these nodes is shown as written, so mentions are left alone
+const LITERAL_NODE_TYPES = ['link', 'linkReference', 'inlineCode', 'code'];
+
+const splitMentions = (node: MarkdownNode): MarkdownNode[] =>
+  (node.value || '').split(/(@\w+)/g).filter(Boolean).map(part =>
+    part.startsWith('@')
+      ? {
+          type: 'mention',
+          value: part,
+          data: {
+            hName: 'span',
+            hProperties: { className: 'mention' },
+            hChildren: [{ type: 'text', value: part }]
+          }
+        }
+      : { type: 'text', value: part }
+  );
+
+const highlightMentions = (node: MarkdownNode) => {
+  if (!node.children || LITERAL_NODE_TYPES.includes(node.type)) return;
+
+  node.children = node.children.flatMap(child => {
+    if (child.type === 'text') return splitMentions(child);
+    highlightMentions(child);
+    return [child];
+  });
+};
+
+const remarkMentions = () => (tree: MarkdownNode) => {
+  highlightMentions(tree);
+};
+
+// Assistant messages link with <a href> tags; turn them into markdown links since raw HTML is never rendered
+const htmlLinksToMarkdown = (content: string) =>
+  content.replace(/<a\s[^>]*href="([^"]+)"[^>]*>(.*?)<\/a>/gi, (_match, href: string, text: string) => `[${text}](${href})`);
+
+const components: Components = {
+  a: ({ href, children }) => (
+    <a
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer nofollow"
+      className="text-yellow-600 underline hover:text-yellow-500 break-words"
+    >
+      {children}
+    </a>
+  ),
+  // Images from message text would load from arbitrary hosts, so they are shown as links
+  img: ({ src, alt }) => (
+    <a
+      href={src}
+      target="_blank"
+      rel="noopener noreferrer nofollow"
+      className="text-yellow-600 underline hover:text-yellow-500 break-words"
+    >
+      {alt || src}
+    </a>
+  ),
+  span: ({ className, children }) => (
+    <span className={className === 'mention' ? 'bg-yellow-500/20 text-yellow-600 px-1 rounded' : className}>
+      {children}
+    </span>
+  )
+};
+
+// Renders user-written markdown. Raw HTML is dropped and unsafe link protocols are stripped by
+// react-markdown, so message content can never inject markup or scripts.
+const MessageMarkdown: React.FC<MessageMarkdownProps> = ({ content }) => (
+  <div className="message-markdown">
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm, remarkMentions]}
+      rehypePlugins={[[rehypeHighlight, { detect: true }]]}
+      components={components}
+      skipHtml
+    >
+      {htmlLinksToMarkdown(content)}
+    </ReactMarkdown>
+  </div>
+);
+
+export default MessageMarkdown;
@@ -0,0 +1,158 @@
+import React, { useState, useEffect } from 'react';
+import { MessageCircle, Search, Check, X } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { useAuth } from '../contexts/AuthContext';
+import { workspaceAPI, type Profile } from '../lib/supabase';
+import GlassCard from './ui/GlassCard';
+import Button from './ui/Button';
+
+interface NewMessageModalProps {
+  onClose: () => void;
+  onStart: (participantIds: string[]) => void;
+}
+
+// Matches MAX_DM_PARTICIPANTS in the workspace API, minus the current user
+const MAX_RECIPIENTS = 7;
+
+const NewMessageModal: React.FC<NewMessageModalProps> = ({ onClose, onStart }) => {
+  const { user } = useAuth();
+  const [members, setMembers] = useState<Profile[]>([]);
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState<Profile[]>([]);
+
+  useEffect(() => {
+    workspaceAPI.getWorkspaceMembers().then(setMembers);
+  }, []);
+
+  const normalizedQuery = query.trim().toLowerCase();
+  const matches = members.filter(member =>
+    member.id !== user?.id &&
+    (!normalizedQuery ||
+      member.username.toLowerCase().includes(normalizedQuery) ||
+      member.full_name?.toLowerCase().includes(normalizedQuery))
+  );
+
+  const isSelected = (member: Profile) => selected.some(s => s.id === member.id);
+
+  const toggleMember = (member: Profile) => {
+    if (isSelected(member)) {
+      setSelected(prev => prev.filter(s => s.id !== member.id));
+    } else if (selected.length < MAX_RECIPIENTS) {
+      setSelected(prev => [...prev, member]);
+      setQuery('');
+    }
+  };
+
+  const handleStart = () => {
+    if (selected.length === 0) return;
+    onStart(selected.map(member => member.id));
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-start justify-center z-50 p-4 pt-24"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        className="w-full max-w-md"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <GlassCard className="p-0 overflow-hidden" goldBorder>
+          {/* Header */}
+          <div className="flex items-center justify-between px-4 py-3 border-b silver-border">
+            <div className="flex items-center space-x-2">
+              <MessageCircle className="w-5 h-5 text-yellow-600" />
+              <h3 className="font-bold text-primary">New message</h3>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-1 text-secondary hover:text-primary"
+              title="Close"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          {/* Recipients */}
+          <div className="p-4 border-b silver-border">
+            {selected.length > 0 && (
+              <div className="flex flex-wrap gap-2 mb-3">
+                {selected.map(member => (
+                  <span
+                    key={member.id}
+                    className="flex items-center space-x-1 bg-yellow-500/20 text-yellow-600 text-xs px-2 py-1 rounded-full"
+                  >
+                    <span>{member.full_name || member.username}</span>
+                    <button onClick={() => toggleMember(member)} title="Remove">
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+            <div className="relative">
+              <Search className="absolute left-3 top-3 w-4 h-4 text-secondary" />
+              <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !query && selected.length > 0) handleStart();
+                  if (e.key === 'Enter' && query && matches.length > 0) toggleMember(matches[0]);
+                  if (e.key === 'Backspace' && !query && selected.length > 0) {
+                    setSelected(prev => prev.slice(0, -1));
+                  }
+                }}
+                placeholder={selected.length < MAX_RECIPIENTS ? 'Search people by name or username' : 'Group is full'}
+                disabled={selected.length >= MAX_RECIPIENTS}
+                className="w-full pl-9 pr-4 py-2 glass-panel rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-yellow-500 text-primary placeholder-secondary"
+                autoFocus
+              />
+            </div>
+          </div>
+
+          {/* People */}
+          <div className="max-h-72 overflow-y-auto" style={{ scrollbarWidth: 'thin' }}>
+            {matches.length === 0 && (
+              <p className="px-4 py-6 text-center text-sm text-secondary">No people found</p>
+            )}
+
+            {matches.map(member => (
+              <button
+                key={member.id}
+                onClick={() => toggleMember(member)}
+                className="w-full text-left px-4 py-2 flex items-center space-x-3 hover:bg-yellow-500/10 transition-colors"
+              >
+                <div className="w-7 h-7 bg-gradient-gold-silver rounded-full flex items-center justify-center text-white text-xs font-bold flex-shrink-0">
+                  {(member.full_name || member.username).charAt(0).toUpperCase()}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-primary truncate">{member.full_name || member.username}</p>
+                  <p className="text-xs text-secondary truncate">@{member.username}</p>
+                </div>
+                {isSelected(member) && <Check className="w-4 h-4 text-yellow-600" />}
+              </button>
+            ))}
+          </div>
+
+          <div className="p-4 border-t silver-border">
+            <Button
+              onClick={handleStart}
+              variant="premium"
+              size="sm"
+              className="w-full"
+              disabled={selected.length === 0}
+            >
+              {selected.length > 1 ? `Start group message (${selected.length + 1} people)` : 'Start conversation'}
+            </Button>
+          </div>
+        </GlassCard>
+      </motion.div>
+    </div>
+  );
+};
+
+export default NewMessageModal;
@@ -14,7 +14,7 @@ interface Notification {
 }
 
 const NotificationManager: React.FC = () => {
-  const { user } = useAuth();
+  const { user, presenceStatus } = useAuth();
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [notifiedItems, setNotifiedItems] = useState<Set<string>>(new Set());
   const checkIntervalRef = useRef<number | null>(null);
@@ -211,7 +211,8 @@ const NotificationManager: React.FC = () => {
   return (
     <div className="fixed bottom-4 right-4 z-50 space-y-2 max-w-sm">
       <AnimatePresence>
-        {notifications.map((notification) => (
+        {/* Do not disturb holds notifications until the user is available again */}
+        {presenceStatus !== 'busy' && notifications.map((notification) => (
           <motion.div
             key={notification.id}
             initial={{ opacity: 0, y: 50, scale: 0.9 }}
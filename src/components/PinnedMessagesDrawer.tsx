@@ -0,0 +1,92 @@
+import React from 'react';
+import { Pin, PinOff, X } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { type PinnedMessage } from '../lib/supabase';
+
+interface PinnedMessagesDrawerProps {
+  channelName: string;
+  pins: PinnedMessage[];
+  onClose: () => void;
+  onSelect: (pin: PinnedMessage) => void;
+  onUnpin: (messageId: string) => void;
+}
+
+const PinnedMessagesDrawer: React.FC<PinnedMessagesDrawerProps> = ({
+  channelName,
+  pins,
+  onClose,
+  onSelect,
+  onUnpin
+}) => {
+  const formatDate = (timestamp: string) => {
+    return new Date(timestamp).toLocaleString([], {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -10 }}
+      className="absolute right-4 top-full mt-2 w-96 max-h-[60vh] flex flex-col glass-panel rounded-lg shadow-lg border silver-border bg-primary z-30"
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 border-b silver-border">
+        <div className="flex items-center space-x-2">
+          <Pin className="w-4 h-4 text-yellow-600" />
+          <h3 className="font-bold text-primary text-sm">Pinned in #{channelName}</h3>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 text-secondary hover:text-primary"
+          title="Close"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Pins */}
+      <div className="flex-1 overflow-y-auto p-2 space-y-2" style={{ scrollbarWidth: 'thin' }}>
+        {pins.length === 0 && (
+          <p className="px-2 py-6 text-center text-sm text-secondary">
+            Nothing is pinned yet. Pin important messages from their hover menu.
+          </p>
+        )}
+
+        {pins.map(pin => (
+          <div
+            key={pin.id}
+            onClick={() => onSelect(pin)}
+            className="group glass-panel rounded-lg p-3 cursor-pointer hover:bg-surface transition-colors"
+          >
+            <div className="flex items-start justify-between">
+              <span className="text-sm font-medium text-primary">
+                {pin.message?.sender?.full_name || 'Unknown User'}
+              </span>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onUnpin(pin.message_id);
+                }}
+                className="p-1 rounded opacity-0 group-hover:opacity-100 text-secondary hover:text-red-400 transition-opacity"
+                title="Unpin"
+              >
+                <PinOff className="w-3 h-3" />
+              </button>
+            </div>
+            <p className="text-sm text-primary line-clamp-3 break-words">{pin.message?.content}</p>
+            <p className="text-xs text-secondary mt-1">
+              Pinned by {pin.pinned_by_user?.full_name || pin.pinned_by_user?.username || 'Unknown User'} • {formatDate(pin.pinned_at)}
+            </p>
+          </div>
+        ))}
+      </div>
+    </motion.div>
+  );
+};
+
+export default PinnedMessagesDrawer;
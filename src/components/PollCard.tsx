@@ -0,0 +1,211 @@
+import React, { useState, useEffect } from 'react';
+import { BarChart3, Circle, CircleDot, Square, CheckSquare, Trophy, EyeOff, Lock } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { type Poll } from '../lib/supabase';
+
+interface PollCardProps {
+  messageId: string;
+  poll: Poll;
+  canClose: boolean;
+  // Polls in archived channels can be viewed but not voted on
+  readOnly?: boolean;
+  onUpdated: (messageId: string, poll: Poll) => void;
+}
+
+const PollCard: React.FC<PollCardProps> = ({ messageId, poll, canClose, readOnly = false, onUpdated }) => {
+  const { user } = useAuth();
+  const [anonymousVotes, setAnonymousVotes] = useState<string[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    // Anonymous results never name voters, so ask the API which options the user picked
+    if (!user || !poll.anonymous) return;
+
+    const loadVotes = async () => {
+      try {
+        const response = await fetch(
+          `${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/polls/${poll.id}/votes?userId=${user.id}`,
+          { credentials: 'include' }
+        );
+        const data = await response.json();
+        if (data.success) {
+          setAnonymousVotes(data.option_ids);
+        }
+      } catch (error) {
+        console.error('Error loading poll votes:', error);
+      }
+    };
+
+    loadVotes();
+  }, [poll.id, poll.anonymous, user]);
+
+  const myVotes = poll.anonymous
+    ? anonymousVotes
+    : poll.results.filter(result => user && result.user_ids?.includes(user.id)).map(result => result.option_id);
+
+  const isClosed = !!poll.closed_at;
+  const isExpired = !isClosed && !!poll.closes_at && new Date(poll.closes_at).getTime() <= Date.now();
+  const canVote = !readOnly && !isClosed && !isExpired && !submitting;
+
+  const topCount = Math.max(0, ...poll.results.map(result => result.count));
+
+  const vote = async (optionId: string) => {
+    if (!user || !canVote) return;
+
+    const selected = myVotes.includes(optionId);
+    const optionIds = poll.allow_multiple
+      ? (selected ? myVotes.filter(id => id !== optionId) : [...myVotes, optionId])
+      : (selected ? [] : [optionId]);
+
+    setSubmitting(true);
+    try {
+      const response = await fetch(`${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/polls/${poll.id}/votes`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          userId: user.id,
+          optionIds
+        })
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setAnonymousVotes(data.option_ids);
+        onUpdated(messageId, data.poll);
+      } else {
+        alert(data.error || 'Failed to record vote');
+      }
+    } catch (error) {
+      console.error('Error voting on poll:', error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const closePoll = async () => {
+    if (!user || !confirm('Close this poll? No one will be able to vote afterwards.')) return;
+
+    try {
+      const response = await fetch(`${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/polls/${poll.id}/close`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({ userId: user.id })
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        onUpdated(messageId, data.poll);
+      } else {
+        alert(data.error || 'Failed to close poll');
+      }
+    } catch (error) {
+      console.error('Error closing poll:', error);
+    }
+  };
+
+  const formatCloseTime = (timestamp: string) =>
+    new Date(timestamp).toLocaleString([], {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+
+  const status = isClosed
+    ? 'Closed'
+    : isExpired
+      ? 'Closing...'
+      : poll.closes_at
+        ? `Closes ${formatCloseTime(poll.closes_at)}`
+        : null;
+
+  return (
+    <div className="mt-1 w-full max-w-md glass-panel rounded-lg p-3 border silver-border">
+      <div className="flex items-start space-x-2 mb-3">
+        <BarChart3 className="w-4 h-4 mt-0.5 text-yellow-600 flex-shrink-0" />
+        <p className="font-bold text-primary break-words">{poll.question}</p>
+      </div>
+
+      <div className="space-y-2">
+        {poll.options.map(option => {
+          const result = poll.results.find(r => r.option_id === option.id);
+          const count = result?.count || 0;
+          const percent = poll.total_voters > 0 ? Math.round((count / poll.total_voters) * 100) : 0;
+          const selected = myVotes.includes(option.id);
+          const isWinner = isClosed && count > 0 && count === topCount;
+          const SelectionIcon = poll.allow_multiple
+            ? (selected ? CheckSquare : Square)
+            : (selected ? CircleDot : Circle);
+
+          return (
+            <button
+              key={option.id}
+              onClick={() => vote(option.id)}
+              disabled={!canVote}
+              title={result?.user_names?.length ? result.user_names.join(', ') : undefined}
+              className={`relative w-full text-left rounded-lg overflow-hidden border transition-colors ${
+                selected ? 'border-yellow-500/60' : 'silver-border'
+              } ${canVote ? 'hover:border-yellow-500/40' : 'cursor-default'}`}
+            >
+              {/* Result bar */}
+              <div
+                className={`absolute inset-y-0 left-0 transition-all duration-500 ${
+                  isWinner ? 'bg-yellow-500/30' : 'bg-yellow-500/15'
+                }`}
+                style={{ width: `${percent}%` }}
+              />
+              <div className="relative flex items-center space-x-2 px-3 py-2">
+                {isWinner ? (
+                  <Trophy className="w-4 h-4 text-yellow-600 flex-shrink-0" />
+                ) : (
+                  <SelectionIcon className={`w-4 h-4 flex-shrink-0 ${selected ? 'text-yellow-600' : 'text-secondary'}`} />
+                )}
+                <span className="flex-1 text-sm text-primary break-words">{option.text}</span>
+                <span className="text-xs text-secondary flex-shrink-0">
+                  {count} • {percent}%
+                </span>
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center justify-between mt-3 text-xs text-secondary">
+        <div className="flex items-center space-x-2">
+          <span>{poll.total_voters} voter{poll.total_voters === 1 ? '' : 's'}</span>
+          <span>• {poll.allow_multiple ? 'Multiple choice' : 'Single choice'}</span>
+          {poll.anonymous && (
+            <span className="flex items-center space-x-1">
+              <span>•</span>
+              <EyeOff className="w-3 h-3" />
+              <span>Anonymous</span>
+            </span>
+          )}
+          {status && (
+            <span className="flex items-center space-x-1">
+              <span>•</span>
+              {isClosed && <Lock className="w-3 h-3" />}
+              <span>{status}</span>
+            </span>
+          )}
+        </div>
+        {canClose && !isClosed && (
+          <button onClick={closePoll} className="text-secondary hover:text-primary">
+            Close poll
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PollCard;
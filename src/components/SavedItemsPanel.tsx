@@ -0,0 +1,91 @@
+import React from 'react';
+import { Bookmark, Hash, X } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { type SavedItem } from '../lib/supabase';
+import GlassCard from './ui/GlassCard';
+
+interface SavedItemsPanelProps {
+  items: SavedItem[];
+  onClose: () => void;
+  onSelect: (item: SavedItem) => void;
+  onRemove: (messageId: string) => void;
+}
+
+const SavedItemsPanel: React.FC<SavedItemsPanelProps> = ({ items, onClose, onSelect, onRemove }) => {
+  const formatDate = (timestamp: string) => {
+    return new Date(timestamp).toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-start justify-center z-50 p-4 pt-24"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        className="w-full max-w-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <GlassCard className="p-0 overflow-hidden" goldBorder>
+          {/* Header */}
+          <div className="flex items-center justify-between px-4 py-3 border-b silver-border">
+            <div className="flex items-center space-x-2">
+              <Bookmark className="w-5 h-5 text-yellow-600" />
+              <h3 className="font-bold text-primary">Saved Items ({items.length})</h3>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-1 text-secondary hover:text-primary"
+              title="Close"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          {/* Items */}
+          <div className="max-h-96 overflow-y-auto" style={{ scrollbarWidth: 'thin' }}>
+            {items.length === 0 && (
+              <p className="px-4 py-6 text-center text-sm text-secondary">
+                Save messages from any channel to find them here later.
+              </p>
+            )}
+
+            {items.map(item => (
+              <div
+                key={item.id}
+                onClick={() => onSelect(item)}
+                className="group w-full text-left px-4 py-3 flex items-start space-x-3 cursor-pointer hover:bg-yellow-500/10 transition-colors"
+              >
+                <Hash className="w-4 h-4 text-secondary mt-1 flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-primary break-words line-clamp-3">{item.message?.content}</p>
+                  <p className="text-xs text-secondary mt-1 truncate">
+                    {[
+                      item.message?.channel?.name && `#${item.message.channel.name}`,
+                      item.message?.sender?.full_name,
+                      `Saved ${formatDate(item.created_at)}`
+                    ].filter(Boolean).join(' • ')}
+                  </p>
+                </div>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onRemove(item.message_id);
+                  }}
+                  className="p-1 rounded opacity-0 group-hover:opacity-100 text-secondary hover:text-red-400 transition-opacity"
+                  title="Remove from saved items"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </GlassCard>
+      </motion.div>
+    </div>
+  );
+};
+
+export default SavedItemsPanel;
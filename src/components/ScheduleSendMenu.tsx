@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { Clock } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { toDateTimeLocalValue } from '../lib/utils';
+import Button from './ui/Button';
+
+interface ScheduleSendMenuProps {
+  onSchedule: (scheduledFor: string) => void;
+}
+
+const atNineAm = (daysFromNow: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() + daysFromNow);
+  date.setHours(9, 0, 0, 0);
+  return date;
+};
+
+const getPresets = () => {
+  const inOneHour = new Date(Date.now() + 60 * 60 * 1000);
+  const daysUntilMonday = ((8 - new Date().getDay()) % 7) || 7;
+
+  return [
+    { label: 'In 1 hour', date: inOneHour },
+    { label: 'Tomorrow at 9:00 AM', date: atNineAm(1) },
+    { label: 'Monday at 9:00 AM', date: atNineAm(daysUntilMonday) }
+  ];
+};
+
+const ScheduleSendMenu: React.FC<ScheduleSendMenuProps> = ({ onSchedule }) => {
+  const [customTime, setCustomTime] = useState(() => toDateTimeLocalValue(new Date(Date.now() + 60 * 60 * 1000)));
+
+  const customDate = new Date(customTime);
+  const isCustomValid = !isNaN(customDate.getTime()) && customDate.getTime() > Date.now();
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 5 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 5 }}
+      className="absolute bottom-full right-0 mb-2 w-72 glass-panel rounded-lg shadow-lg border silver-border bg-primary z-20"
+    >
+      <div className="px-3 py-2 border-b silver-border flex items-center space-x-2">
+        <Clock className="w-4 h-4 text-yellow-600" />
+        <span className="text-sm font-bold text-primary">Schedule message</span>
+      </div>
+
+      {getPresets().map(preset => (
+        <button
+          key={preset.label}
+          onClick={() => onSchedule(preset.date.toISOString())}
+          className="w-full px-3 py-2 text-left text-sm text-primary hover:bg-surface flex items-center justify-between"
+        >
+          <span>{preset.label}</span>
+          <span className="text-xs text-secondary">
+            {preset.date.toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' })}
+          </span>
+        </button>
+      ))}
+
+      <div className="p-3 border-t silver-border space-y-2">
+        <input
+          type="datetime-local"
+          value={customTime}
+          min={toDateTimeLocalValue(new Date())}
+          onChange={(e) => setCustomTime(e.target.value)}
+          className="w-full glass-panel rounded-lg px-3 py-2 text-sm text-primary bg-transparent focus:outline-none focus:ring-2 focus:ring-yellow-500"
+        />
+        <Button
+          onClick={() => onSchedule(customDate.toISOString())}
+          variant="premium"
+          size="sm"
+          className="w-full"
+          disabled={!isCustomValid}
+        >
+          Schedule
+        </Button>
+      </div>
+    </motion.div>
+  );
+};
+
+export default ScheduleSendMenu;
@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { Clock, Edit, Trash2, AlertCircle, X } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { type ScheduledMessage } from '../lib/supabase';
+import { toDateTimeLocalValue } from '../lib/utils';
+import GlassCard from './ui/GlassCard';
+import Button from './ui/Button';
+
+interface ScheduledMessagesPanelProps {
+  messages: ScheduledMessage[];
+  onClose: () => void;
+  onUpdate: (id: string, content: string, scheduledFor: string) => Promise<boolean>;
+  onCancel: (id: string) => void;
+}
+
+const ScheduledMessagesPanel: React.FC<ScheduledMessagesPanelProps> = ({ messages, onClose, onUpdate, onCancel }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editContent, setEditContent] = useState('');
+  const [editTime, setEditTime] = useState('');
+
+  const startEditing = (message: ScheduledMessage) => {
+    setEditingId(message.id);
+    setEditContent(message.content);
+    // Failed messages are usually past due; suggest a new time a few minutes out
+    const sendAt = new Date(message.scheduled_for);
+    setEditTime(toDateTimeLocalValue(sendAt.getTime() > Date.now() ? sendAt : new Date(Date.now() + 5 * 60 * 1000)));
+  };
+
+  const handleSave = async () => {
+    if (!editingId || !editContent.trim()) return;
+
+    const saved = await onUpdate(editingId, editContent.trim(), new Date(editTime).toISOString());
+    if (saved) {
+      setEditingId(null);
+    }
+  };
+
+  const editTimeValid = !isNaN(new Date(editTime).getTime()) && new Date(editTime).getTime() > Date.now();
+
+  const formatChannel = (message: ScheduledMessage) => {
+    if (!message.channel) return '';
+    return message.channel.type === 'dm' ? 'Direct message' : `#${message.channel.name}`;
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-start justify-center z-50 p-4 pt-24"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        className="w-full max-w-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <GlassCard className="p-0 overflow-hidden" goldBorder>
+          {/* Header */}
+          <div className="flex items-center justify-between px-4 py-3 border-b silver-border">
+            <div className="flex items-center space-x-2">
+              <Clock className="w-5 h-5 text-yellow-600" />
+              <h3 className="font-bold text-primary">Scheduled Messages ({messages.length})</h3>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-1 text-secondary hover:text-primary"
+              title="Close"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          {/* Messages */}
+          <div className="max-h-96 overflow-y-auto" style={{ scrollbarWidth: 'thin' }}>
+            {messages.length === 0 && (
+              <p className="px-4 py-6 text-center text-sm text-secondary">
+                Use the clock next to the send button to schedule a message.
+              </p>
+            )}
+
+            {messages.map(message => (
+              <div key={message.id} className="group px-4 py-3 border-b silver-border last:border-b-0">
+                {editingId === message.id ? (
+                  <div className="space-y-2">
+                    <textarea
+                      value={editContent}
+                      onChange={(e) => setEditContent(e.target.value)}
+                      className="w-full glass-panel rounded-lg px-3 py-2 text-sm text-primary focus:outline-none focus:ring-2 focus:ring-yellow-500 resize-none"
+                      rows={3}
+                      autoFocus
+                    />
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="datetime-local"
+                        value={editTime}
+                        min={toDateTimeLocalValue(new Date())}
+                        onChange={(e) => setEditTime(e.target.value)}
+                        className="flex-1 glass-panel rounded-lg px-3 py-2 text-sm text-primary bg-transparent focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                      />
+                      <Button onClick={() => setEditingId(null)} variant="secondary" size="sm">
+                        Cancel
+                      </Button>
+                      <Button
+                        onClick={handleSave}
+                        variant="premium"
+                        size="sm"
+                        disabled={!editContent.trim() || !editTimeValid}
+                      >
+                        Save
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex items-start space-x-3">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-primary break-words line-clamp-3">{message.content}</p>
+                      <p className="text-xs text-secondary mt-1 truncate">
+                        {[
+                          formatChannel(message),
+                          `Sends ${new Date(message.scheduled_for).toLocaleString([], {
+                            weekday: 'short',
+                            month: 'short',
+                            day: 'numeric',
+                            hour: '2-digit',
+                            minute: '2-digit'
+                          })}`
+                        ].filter(Boolean).join(' • ')}
+                      </p>
+                      {message.status === 'failed' && (
+                        <p className="text-xs text-red-400 mt-1 flex items-center space-x-1">
+                          <AlertCircle className="w-3 h-3" />
+                          <span>Not sent{message.error ? `: ${message.error}` : ''}. Edit to reschedule.</span>
+                        </p>
+                      )}
+                    </div>
+                    <button
+                      onClick={() => startEditing(message)}
+                      className="p-1 rounded opacity-0 group-hover:opacity-100 text-secondary hover:text-primary transition-opacity"
+                      title="Edit"
+                    >
+                      <Edit className="w-3 h-3" />
+                    </button>
+                    <button
+                      onClick={() => onCancel(message.id)}
+                      className="p-1 rounded opacity-0 group-hover:opacity-100 text-secondary hover:text-red-400 transition-opacity"
+                      title="Cancel scheduled message"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </GlassCard>
+      </motion.div>
+    </div>
+  );
+};
+
+export default ScheduledMessagesPanel;
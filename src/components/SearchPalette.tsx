@@ -0,0 +1,325 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Search, Hash, CheckSquare, Calendar, Briefcase, MessageCircle, Filter, Loader2, X } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { useAuth } from '../contexts/AuthContext';
+import { workspaceAPI, type Channel, type Profile, type SearchResult, type SearchResultType } from '../lib/supabase';
+import GlassCard from './ui/GlassCard';
+
+interface SearchPaletteProps {
+  channels: Channel[];
+  onClose: () => void;
+  onSelectResult: (result: SearchResult) => void;
+}
+
+const RESULT_TYPES: { id: SearchResultType; label: string; icon: React.ElementType }[] = [
+  { id: 'message', label: 'Messages', icon: Hash },
+  { id: 'task', label: 'Tasks', icon: CheckSquare },
+  { id: 'event', label: 'Events', icon: Calendar },
+  { id: 'project', label: 'Projects', icon: Briefcase },
+  { id: 'comment', label: 'Comments', icon: MessageCircle }
+];
+
+const SearchPalette: React.FC<SearchPaletteProps> = ({ channels, onClose, onSelectResult }) => {
+  const { user } = useAuth();
+  const [query, setQuery] = useState('');
+  const [typeFilter, setTypeFilter] = useState<SearchResultType[]>([]);
+  const [channelFilter, setChannelFilter] = useState('');
+  const [senderFilter, setSenderFilter] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [showFilters, setShowFilters] = useState(false);
+  const [members, setMembers] = useState<Profile[]>([]);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const requestIdRef = useRef(0);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    workspaceAPI.getWorkspaceMembers().then(setMembers);
+  }, []);
+
+  useEffect(() => {
+    if (!user || query.trim().length < 2) {
+      setResults([]);
+      setError(null);
+      setLoading(false);
+      return;
+    }
+
+    // Debounce typing and ignore responses for outdated queries
+    const requestId = ++requestIdRef.current;
+    const timeout = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const params = new URLSearchParams({ userId: user.id, q: query.trim() });
+        if (typeFilter.length > 0) params.set('types', typeFilter.join(','));
+        if (channelFilter) params.set('channelId', channelFilter);
+        if (senderFilter) params.set('senderId', senderFilter);
+        if (fromDate) params.set('from', new Date(`${fromDate}T00:00:00`).toISOString());
+        if (toDate) params.set('to', new Date(`${toDate}T23:59:59.999`).toISOString());
+
+        const response = await fetch(`${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/search?${params.toString()}`, {
+          credentials: 'include'
+        });
+
+        const data = await response.json();
+        if (requestId !== requestIdRef.current) return;
+
+        if (data.success) {
+          setResults(data.results);
+          setSelectedIndex(0);
+          setError(null);
+        } else {
+          setResults([]);
+          setError(data.error);
+        }
+      } catch (error) {
+        console.error('Error searching workspace:', error);
+        if (requestId === requestIdRef.current) {
+          setError('Search failed. Please try again.');
+        }
+      } finally {
+        if (requestId === requestIdRef.current) {
+          setLoading(false);
+        }
+      }
+    }, 250);
+
+    return () => clearTimeout(timeout);
+  }, [user, query, typeFilter, channelFilter, senderFilter, fromDate, toDate]);
+
+  const toggleType = (type: SearchResultType) => {
+    setTypeFilter(prev => prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]);
+  };
+
+  const clearFilters = () => {
+    setTypeFilter([]);
+    setChannelFilter('');
+    setSenderFilter('');
+    setFromDate('');
+    setToDate('');
+  };
+
+  const handleSelect = (result: SearchResult) => {
+    onSelectResult(result);
+    onClose();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onClose();
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelectedIndex(prev => Math.min(prev + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelectedIndex(prev => Math.max(prev - 1, 0));
+    } else if (e.key === 'Enter' && results[selectedIndex]) {
+      e.preventDefault();
+      handleSelect(results[selectedIndex]);
+    }
+  };
+
+  // ts_headline wraps matched terms in [[ ]]
+  const renderSnippet = (snippet: string) => {
+    return snippet.split(/(\[\[.*?\]\])/g).map((part, index) => {
+      if (part.startsWith('[[') && part.endsWith(']]')) {
+        return (
+          <mark key={index} className="bg-yellow-500/20 text-yellow-600 rounded px-0.5">
+            {part.slice(2, -2)}
+          </mark>
+        );
+      }
+      return part;
+    });
+  };
+
+  const getResultContext = (result: SearchResult) => {
+    const parts = [];
+    if (result.result_type === 'message' || result.channel_name) {
+      parts.push(`#${result.channel_name}`);
+    }
+    if (result.result_type !== 'message' && result.result_type !== 'comment') {
+      parts.push(result.title);
+    }
+    if (result.result_type === 'comment') {
+      parts.push(`Comment on ${result.title}`);
+    }
+    if (result.author_name) {
+      parts.push(result.author_name);
+    }
+    parts.push(new Date(result.occurred_at).toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' }));
+    return parts.join(' • ');
+  };
+
+  const activeFilterCount = [
+    typeFilter.length > 0,
+    channelFilter,
+    senderFilter,
+    fromDate,
+    toDate
+  ].filter(Boolean).length;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-start justify-center z-50 p-4 pt-24"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        className="w-full max-w-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <GlassCard className="p-0 overflow-hidden" goldBorder>
+          {/* Search input */}
+          <div className="flex items-center px-4 py-3 border-b silver-border">
+            <Search className="w-5 h-5 text-secondary mr-3 flex-shrink-0" />
+            <input
+              ref={inputRef}
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="Search messages, tasks, events and projects..."
+              className="flex-1 bg-transparent text-primary placeholder-secondary focus:outline-none"
+            />
+            {loading && <Loader2 className="w-4 h-4 animate-spin text-secondary mr-2" />}
+            <button
+              onClick={() => setShowFilters(!showFilters)}
+              className={`p-1 rounded flex items-center space-x-1 text-xs ${
+                showFilters || activeFilterCount > 0 ? 'text-yellow-600' : 'text-secondary hover:text-primary'
+              }`}
+              title="Filters"
+            >
+              <Filter className="w-4 h-4" />
+              {activeFilterCount > 0 && <span>{activeFilterCount}</span>}
+            </button>
+            <button
+              onClick={onClose}
+              className="p-1 ml-1 text-secondary hover:text-primary"
+              title="Close"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          {/* Filters */}
+          {showFilters && (
+            <div className="px-4 py-3 border-b silver-border space-y-3">
+              <div className="flex flex-wrap gap-2">
+                {RESULT_TYPES.map(({ id, label, icon: Icon }) => (
+                  <button
+                    key={id}
+                    onClick={() => toggleType(id)}
+                    className={`flex items-center space-x-1 px-2 py-1 rounded-full text-xs border transition-colors ${
+                      typeFilter.includes(id)
+                        ? 'bg-yellow-500/20 border-yellow-500/50 text-yellow-600'
+                        : 'glass-panel border-transparent text-secondary hover:text-primary'
+                    }`}
+                  >
+                    <Icon className="w-3 h-3" />
+                    <span>{label}</span>
+                  </button>
+                ))}
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <select
+                  value={channelFilter}
+                  onChange={(e) => setChannelFilter(e.target.value)}
+                  className="glass-panel rounded-lg px-3 py-2 text-sm text-primary focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                >
+                  <option value="">All channels</option>
+                  {channels.map(channel => (
+                    <option key={channel.id} value={channel.id}>#{channel.name}</option>
+                  ))}
+                </select>
+                <select
+                  value={senderFilter}
+                  onChange={(e) => setSenderFilter(e.target.value)}
+                  className="glass-panel rounded-lg px-3 py-2 text-sm text-primary focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                >
+                  <option value="">Anyone</option>
+                  {members.map(member => (
+                    <option key={member.id} value={member.id}>{member.full_name || member.username}</option>
+                  ))}
+                </select>
+                <input
+                  type="date"
+                  value={fromDate}
+                  onChange={(e) => setFromDate(e.target.value)}
+                  className="glass-panel rounded-lg px-3 py-2 text-sm text-primary focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                  title="From date"
+                />
+                <input
+                  type="date"
+                  value={toDate}
+                  onChange={(e) => setToDate(e.target.value)}
+                  className="glass-panel rounded-lg px-3 py-2 text-sm text-primary focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                  title="To date"
+                />
+              </div>
+              {activeFilterCount > 0 && (
+                <button
+                  onClick={clearFilters}
+                  className="text-xs text-secondary hover:text-primary"
+                >
+                  Clear filters
+                </button>
+              )}
+            </div>
+          )}
+
+          {/* Results */}
+          <div className="max-h-96 overflow-y-auto" style={{ scrollbarWidth: 'thin' }}>
+            {error && (
+              <p className="px-4 py-6 text-center text-sm text-red-500">{error}</p>
+            )}
+
+            {!error && query.trim().length >= 2 && !loading && results.length === 0 && (
+              <p className="px-4 py-6 text-center text-sm text-secondary">No results for "{query.trim()}"</p>
+            )}
+
+            {query.trim().length < 2 && (
+              <p className="px-4 py-6 text-center text-sm text-secondary">
+                Type at least 2 characters to search. Use quotes for exact phrases and - to exclude words.
+              </p>
+            )}
+
+            {results.map((result, index) => {
+              const Icon = RESULT_TYPES.find(type => type.id === result.result_type)?.icon || Search;
+              return (
+                <button
+                  key={`${result.result_type}-${result.id}`}
+                  onClick={() => handleSelect(result)}
+                  onMouseEnter={() => setSelectedIndex(index)}
+                  className={`w-full text-left px-4 py-3 flex items-start space-x-3 transition-colors ${
+                    index === selectedIndex ? 'bg-yellow-500/10' : ''
+                  }`}
+                >
+                  <Icon className="w-4 h-4 text-secondary mt-1 flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-primary break-words">{renderSnippet(result.snippet)}</p>
+                    <p className="text-xs text-secondary mt-1 truncate">{getResultContext(result)}</p>
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+
+          {/* Footer */}
+          <div className="px-4 py-2 border-t silver-border text-xs text-secondary flex justify-between">
+            <span>↑↓ to navigate • Enter to open • Esc to close</span>
+            <span>Ctrl+K</span>
+          </div>
+        </GlassCard>
+      </motion.div>
+    </div>
+  );
+};
+
+export default SearchPalette;
@@ -0,0 +1,136 @@
+import React, { useState, useEffect } from 'react';
+import { Check, Plus, X } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { type Task, type TaskChecklistItem } from '../lib/supabase';
+
+interface TaskChecklistProps {
+  task: Task;
+  // Opens the "add item" input straight away, e.g. when the checklist is still empty
+  autoFocus?: boolean;
+  onChange: () => void;
+  onClose?: () => void;
+}
+
+const TaskChecklist: React.FC<TaskChecklistProps> = ({ task, autoFocus = false, onChange, onClose }) => {
+  const { user } = useAuth();
+  // Local copy so ticks show immediately; replaced whenever the task reloads
+  const [items, setItems] = useState<TaskChecklistItem[]>([]);
+  const [newItem, setNewItem] = useState('');
+  const [adding, setAdding] = useState(autoFocus);
+
+  useEffect(() => {
+    setItems([...(task.checklist || [])].sort((a, b) => a.position - b.position));
+  }, [task.checklist]);
+
+  const checklistUrl = `${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/tasks/${task.id}/checklist`;
+
+  const sendChange = async (url: string, method: string, body: Record<string, unknown>, failure: string) => {
+    if (!user) return false;
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({ userId: user.id, ...body })
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        alert(data.error || failure);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      alert(failure);
+      return false;
+    } finally {
+      onChange();
+    }
+  };
+
+  const handleToggle = (item: TaskChecklistItem) => {
+    setItems(prev => prev.map(i => (i.id === item.id ? { ...i, is_completed: !item.is_completed } : i)));
+    sendChange(`${checklistUrl}/${item.id}`, 'PUT', { isCompleted: !item.is_completed }, 'Failed to update checklist item');
+  };
+
+  const handleRemove = (item: TaskChecklistItem) => {
+    setItems(prev => prev.filter(i => i.id !== item.id));
+    sendChange(`${checklistUrl}/${item.id}`, 'DELETE', {}, 'Failed to remove checklist item');
+  };
+
+  const handleAdd = async () => {
+    const content = newItem.trim();
+    if (!content) return;
+
+    setNewItem('');
+    const added = await sendChange(checklistUrl, 'POST', { content }, 'Failed to add checklist item');
+    if (!added) setNewItem(content);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      handleAdd();
+    } else if (e.key === 'Escape') {
+      setNewItem('');
+      setAdding(false);
+      onClose?.();
+    }
+  };
+
+  return (
+    <div className="space-y-1 mt-3">
+      {items.map(item => (
+        <div key={item.id} className="flex items-center space-x-2 group/item">
+          <button
+            onClick={() => handleToggle(item)}
+            className={`w-4 h-4 rounded border flex items-center justify-center flex-shrink-0 transition-all ${
+              item.is_completed ? 'bg-green-500 border-green-500' : 'border-gray-400 hover:border-green-500'
+            }`}
+            title={item.is_completed ? 'Mark as not done' : 'Mark as done'}
+          >
+            {item.is_completed && <Check className="w-3 h-3 text-white" />}
+          </button>
+          <span className={`flex-1 text-sm ${item.is_completed ? 'text-secondary line-through' : 'text-primary'}`}>
+            {item.content}
+          </span>
+          <button
+            onClick={() => handleRemove(item)}
+            className="opacity-0 group-hover/item:opacity-100 p-0.5 text-secondary hover:text-red-400 transition-opacity"
+            title="Remove item"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      ))}
+
+      {adding ? (
+        <input
+          type="text"
+          value={newItem}
+          onChange={(e) => setNewItem(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => !newItem.trim() && items.length > 0 && setAdding(false)}
+          placeholder="Add an item and press Enter"
+          maxLength={500}
+          autoFocus
+          className="w-full glass-panel rounded-lg px-3 py-1.5 text-sm text-primary placeholder-secondary focus:outline-none focus:ring-1 focus:ring-yellow-500"
+        />
+      ) : (
+        <button
+          onClick={() => setAdding(true)}
+          className="flex items-center space-x-1 text-xs text-secondary hover:text-primary"
+        >
+          <Plus className="w-3 h-3" />
+          <span>Add item</span>
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default TaskChecklist;
@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import { Link2, Loader2, Plus, Trash2, X } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { useAuth } from '../contexts/AuthContext';
+import { TASK_STATUS_LABELS, type Task, type TaskDependency } from '../lib/supabase';
+import { DEPENDENCY_TYPE_LABELS, getBlockers } from '../lib/taskDependencies';
+import GlassCard from './ui/GlassCard';
+import Button from './ui/Button';
+
+interface TaskDependenciesModalProps {
+  task: Task;
+  tasks: Task[];
+  onChange: () => void;
+  onClose: () => void;
+}
+
+const TaskDependenciesModal: React.FC<TaskDependenciesModalProps> = ({ task, tasks, onChange, onClose }) => {
+  const { user } = useAuth();
+  const [dependsOnTaskId, setDependsOnTaskId] = useState('');
+  const [dependencyType, setDependencyType] = useState<TaskDependency['dependency_type']>('finish_to_start');
+  const [saving, setSaving] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  const dependencies = task.dependencies || [];
+  const tasksById = new Map(tasks.map(t => [t.id, t]));
+  const unmetIds = new Set(getBlockers(task, 'completed', tasksById).map(blocker => blocker.id));
+  const candidates = tasks
+    .filter(t => t.id !== task.id && !dependencies.some(dependency => dependency.depends_on_task_id === t.id))
+    .sort((a, b) => a.title.localeCompare(b.title));
+
+  const handleAdd = async () => {
+    if (!user || !dependsOnTaskId) return;
+
+    setSaving(true);
+    try {
+      const response = await fetch(`${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/tasks/${task.id}/dependencies`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          userId: user.id,
+          dependsOnTaskId,
+          dependencyType
+        })
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setDependsOnTaskId('');
+        onChange();
+      } else {
+        alert(data.error || 'Failed to add dependency');
+      }
+    } catch (error) {
+      console.error('Error adding dependency:', error);
+      alert('Failed to add dependency');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (dependencyId: string) => {
+    if (!user) return;
+
+    setRemovingId(dependencyId);
+    try {
+      const response = await fetch(
+        `${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/tasks/${task.id}/dependencies/${dependencyId}`,
+        {
+          method: 'DELETE',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          credentials: 'include',
+          body: JSON.stringify({ userId: user.id })
+        }
+      );
+      const data = await response.json();
+
+      if (data.success) {
+        onChange();
+      } else {
+        alert(data.error || 'Failed to remove dependency');
+      }
+    } catch (error) {
+      console.error('Error removing dependency:', error);
+      alert('Failed to remove dependency');
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-start justify-center z-50 p-4 pt-24"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        className="w-full max-w-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <GlassCard className="p-0 overflow-hidden" goldBorder>
+          {/* Header */}
+          <div className="flex items-center justify-between px-4 py-3 border-b silver-border">
+            <div className="flex items-center space-x-2 min-w-0">
+              <Link2 className="w-5 h-5 text-yellow-600 flex-shrink-0" />
+              <h3 className="font-bold text-primary truncate">Dependencies of {task.title}</h3>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-1 text-secondary hover:text-primary"
+              title="Close"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="p-4 space-y-2 max-h-[50vh] overflow-y-auto" style={{ scrollbarWidth: 'thin' }}>
+            {dependencies.length === 0 && (
+              <p className="text-sm text-secondary text-center py-4">This task doesn't wait on any other task</p>
+            )}
+
+            {dependencies.map(dependency => {
+              const predecessor = tasksById.get(dependency.depends_on_task_id) || dependency.predecessor;
+
+              return (
+                <div key={dependency.id} className="flex items-center justify-between glass-panel rounded-lg px-3 py-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-primary truncate">{predecessor?.title || 'Unknown task'}</p>
+                    <p className="text-xs text-secondary">
+                      {DEPENDENCY_TYPE_LABELS[dependency.dependency_type]}
+                      {predecessor && (
+                        <>
+                          {' · '}
+                          <span className={unmetIds.has(predecessor.id) ? 'text-orange-500' : 'text-green-500'}>
+                            {TASK_STATUS_LABELS[predecessor.status]}
+                          </span>
+                        </>
+                      )}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleRemove(dependency.id)}
+                    disabled={removingId === dependency.id}
+                    className="p-1 text-red-400 hover:text-red-300 disabled:opacity-50"
+                    title="Remove dependency"
+                  >
+                    {removingId === dependency.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Add dependency */}
+          <div className="p-4 border-t silver-border space-y-2">
+            <div className="flex items-center space-x-2">
+              <select
+                value={dependsOnTaskId}
+                onChange={(e) => setDependsOnTaskId(e.target.value)}
+                className="flex-1 min-w-0 glass-panel rounded-lg px-3 py-2 text-sm text-primary focus:outline-none focus:ring-2 focus:ring-yellow-500"
+              >
+                <option value="">Choose a task to wait on...</option>
+                {candidates.map(candidate => (
+                  <option key={candidate.id} value={candidate.id}>{candidate.title}</option>
+                ))}
+              </select>
+              <select
+                value={dependencyType}
+                onChange={(e) => setDependencyType(e.target.value as TaskDependency['dependency_type'])}
+                className="glass-panel rounded-lg px-3 py-2 text-sm text-primary focus:outline-none focus:ring-2 focus:ring-yellow-500"
+              >
+                {Object.entries(DEPENDENCY_TYPE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <Button
+              onClick={handleAdd}
+              variant="premium"
+              size="sm"
+              className="w-full flex items-center justify-center space-x-2"
+              disabled={!dependsOnTaskId || saving}
+            >
+              {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+              <span>Add dependency</span>
+            </Button>
+          </div>
+        </GlassCard>
+      </motion.div>
+    </div>
+  );
+};
+
+export default TaskDependenciesModal;
@@ -1,8 +1,12 @@
-import React, { useState } from 'react';
-import { CheckSquare, Clock, User, Plus, Filter, Calendar, Trash2, Edit, Bot, Loader2 } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { CheckSquare, Clock, User, Plus, Filter, Calendar, Trash2, Edit, Bot, Loader2, Link2, Lock, ChevronDown, ChevronRight, ListChecks, ListPlus, CornerDownRight } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useAuth } from '../contexts/AuthContext';
-import { supabase, type Task } from '../lib/supabase';
+import { supabase, TASK_STATUS_LABELS, type Task, type TaskStatus } from '../lib/supabase';
+import { describeBlockers, getBlockers, getStartBlockers } from '../lib/taskDependencies';
+import { getChecklistProgress, getSubtaskProgress, groupSubtasks, isReadyToComplete } from '../lib/subtasks';
+import TaskDependenciesModal from './TaskDependenciesModal';
+import TaskChecklist from './TaskChecklist';
 import GlassCard from './ui/GlassCard';
 import Button from './ui/Button';
 const VITE_AI_API_URL = import.meta.env.VITE_AI_API_URL;
@@ -15,12 +19,13 @@ const FRONTEND_URL = import.meta.env.VITE_FRONTEND_URL;
 interface TaskPanelProps {
   tasks: Task[];
   onTaskUpdate: () => void;
+  highlightedTaskId?: string | null;
 }
 
-const TaskPanel: React.FC<TaskPanelProps> = ({ tasks, onTaskUpdate }) => {
+const TaskPanel: React.FC<TaskPanelProps> = ({ tasks, onTaskUpdate, highlightedTaskId }) => {
   const { user } = useAuth();
   const [filter, setFilter] = useState<'all' | 'assigned' | 'created'>('all');
-  const [statusFilter, setStatusFilter] = useState<'all' | 'todo' | 'in_progress' | 'completed'>('all');
+  const [statusFilter, setStatusFilter] = useState<'all' | TaskStatus>('all');
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
   const [showAIHelpModal, setShowAIHelpModal] = useState(false);
@@ -28,6 +33,12 @@ const TaskPanel: React.FC<TaskPanelProps> = ({ tasks, onTaskUpdate }) => {
   const [aiHelpQuery, setAiHelpQuery] = useState('');
   const [aiResponse, setAiResponse] = useState('');
   const [isLoadingAI, setIsLoadingAI] = useState(false);
+  const [dependenciesTaskId, setDependenciesTaskId] = useState<string | null>(null);
+  // Parents whose subtasks and checklist are folded away
+  const [collapsedTaskIds, setCollapsedTaskIds] = useState<string[]>([]);
+  const [checklistTaskId, setChecklistTaskId] = useState<string | null>(null);
+  const [subtaskParentId, setSubtaskParentId] = useState<string | null>(null);
+  const [subtaskTitle, setSubtaskTitle] = useState('');
   const [newTask, setNewTask] = useState({
     title: '',
     description: '',
@@ -35,6 +46,18 @@ const TaskPanel: React.FC<TaskPanelProps> = ({ tasks, onTaskUpdate }) => {
     due_date: ''
   });
 
+  useEffect(() => {
+    if (!highlightedTaskId) return;
+
+    // Make sure the highlighted task is not hidden by the current filters or a folded parent
+    setFilter('all');
+    setStatusFilter('all');
+    setCollapsedTaskIds([]);
+    setTimeout(() => {
+      document.getElementById(`task-${highlightedTaskId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, 100);
+  }, [highlightedTaskId]);
+
   const filteredTasks = tasks.filter(task => {
     // Filter by ownership
     if (filter === 'assigned') {
@@ -52,6 +75,14 @@ const TaskPanel: React.FC<TaskPanelProps> = ({ tasks, onTaskUpdate }) => {
     return true;
   });
 
+  const tasksById = new Map(tasks.map(task => [task.id, task]));
+  // Subtasks sit under their parent when the parent is listed too
+  const filteredTaskIds = new Set(filteredTasks.map(task => task.id));
+  const rootTasks = filteredTasks.filter(task => !task.parent_task_id || !filteredTaskIds.has(task.parent_task_id));
+  const subtasksByParent = groupSubtasks(tasks);
+  const startBlockers = Object.fromEntries(tasks.map(task => [task.id, getStartBlockers(task, tasksById)]));
+  const dependenciesTask = tasks.find(task => task.id === dependenciesTaskId);
+
   const handleCreateTask = async () => {
     if (!newTask.title.trim() || !user) return;
 
@@ -88,6 +119,50 @@ const TaskPanel: React.FC<TaskPanelProps> = ({ tasks, onTaskUpdate }) => {
     }
   };
 
+  const handleCreateSubtask = async (parent: Task) => {
+    const title = subtaskTitle.trim();
+    if (!title || !user) return;
+
+    try {
+      const { error } = await supabase
+        .from('tasks')
+        .insert({
+          title,
+          priority: parent.priority,
+          created_by: user.id,
+          parent_task_id: parent.id,
+          project_id: parent.project_id || null
+        });
+
+      if (error) {
+        console.error('Error creating subtask:', error);
+        alert('Failed to create subtask');
+        return;
+      }
+
+      // Keep the input open for the next subtask
+      setSubtaskTitle('');
+      onTaskUpdate();
+    } catch (error) {
+      console.error('Error creating subtask:', error);
+    }
+  };
+
+  const toggleTaskCollapsed = (taskId: string) => {
+    setCollapsedTaskIds(prev => (prev.includes(taskId) ? prev.filter(id => id !== taskId) : [...prev, taskId]));
+  };
+
+  const openChecklist = (taskId: string) => {
+    setChecklistTaskId(taskId);
+    setCollapsedTaskIds(prev => prev.filter(id => id !== taskId));
+  };
+
+  const openSubtaskInput = (taskId: string) => {
+    setSubtaskParentId(taskId);
+    setSubtaskTitle('');
+    setCollapsedTaskIds(prev => prev.filter(id => id !== taskId));
+  };
+
   const handleUpdateTask = async () => {
     if (!editingTask || !newTask.title.trim()) return;
 
@@ -212,6 +287,11 @@ const TaskPanel: React.FC<TaskPanelProps> = ({ tasks, onTaskUpdate }) => {
   };
 
   const handleUpdateTaskStatus = async (taskId: string, status: Task['status']) => {
+    // Starting or finishing a task before the tasks it depends on needs confirming
+    const task = tasks.find(t => t.id === taskId);
+    const blockers = task ? getBlockers(task, status, tasksById) : [];
+    if (task && blockers.length > 0 && !confirm(describeBlockers(task.title, blockers))) return;
+
     try {
       const { error } = await supabase
         .from('tasks')
@@ -243,6 +323,8 @@ const TaskPanel: React.FC<TaskPanelProps> = ({ tasks, onTaskUpdate }) => {
     switch (status) {
       case 'completed': return 'text-green-500';
       case 'in_progress': return 'text-blue-500';
+      case 'in_review': return 'text-purple-500';
+      case 'blocked': return 'text-orange-500';
       case 'cancelled': return 'text-red-500';
       default: return 'text-gray-500';
     }
@@ -266,6 +348,259 @@ const TaskPanel: React.FC<TaskPanelProps> = ({ tasks, onTaskUpdate }) => {
     setNewTask({ title: '', description: '', priority: 'medium', due_date: '' });
   };
 
+  // Renders a task card with its checklist and, below it, its subtasks
+  const renderTask = (task: Task): React.ReactNode => {
+    const subtasks = subtasksByParent.get(task.id) || [];
+    const shownSubtasks = subtasks.filter(subtask => filteredTaskIds.has(subtask.id));
+    const subtaskProgress = getSubtaskProgress(subtasks);
+    const checklistProgress = getChecklistProgress(task.checklist);
+    const showChecklist = checklistProgress.total > 0 || checklistTaskId === task.id;
+    const hasDetails = subtasks.length > 0 || showChecklist || subtaskParentId === task.id;
+    const isCollapsed = collapsedTaskIds.includes(task.id);
+
+    return (
+      <motion.div
+        key={task.id}
+        id={`task-${task.id}`}
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        exit={{ opacity: 0, y: -20 }}
+      >
+        <GlassCard
+          className={`p-4 group ${highlightedTaskId === task.id ? 'ring-2 ring-yellow-500' : ''}`}
+          hover
+        >
+          <div className="flex items-start justify-between">
+            <div className="flex-1">
+              <div className="flex items-center space-x-3 mb-2">
+                {hasDetails && (
+                  <button
+                    onClick={() => toggleTaskCollapsed(task.id)}
+                    className="-ml-1 -mr-2 text-secondary hover:text-primary"
+                    title={isCollapsed ? 'Show subtasks and checklist' : 'Hide subtasks and checklist'}
+                  >
+                    {isCollapsed ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                  </button>
+                )}
+                <button
+                  onClick={() => handleUpdateTaskStatus(
+                    task.id, 
+                    task.status === 'completed' ? 'todo' : 'completed'
+                  )}
+                  className={`w-5 h-5 rounded border-2 flex items-center justify-center transition-all ${
+                    task.status === 'completed'
+                      ? 'bg-green-500 border-green-500'
+                      : 'border-gray-400 hover:border-green-500'
+                  }`}
+                >
+                  {task.status === 'completed' && (
+                    <CheckSquare className="w-3 h-3 text-white" />
+                  )}
+                </button>
+                        
+                <h3 className={`font-semibold ${
+                  task.status === 'completed' 
+                    ? 'text-secondary line-through' 
+                    : 'text-primary'
+                }`}>
+                  {task.title}
+                </h3>
+
+                <span className={`px-2 py-1 rounded-full text-xs font-medium ${getPriorityColor(task.priority)}`}>
+                  {task.priority}
+                </span>
+              </div>
+
+              {task.description && (
+                <p className="text-secondary text-sm mb-3">{task.description}</p>
+              )}
+
+              <div className="flex items-center space-x-4 text-xs text-secondary">
+                <div className="flex items-center space-x-1">
+                  <span className={`w-2 h-2 rounded-full ${getStatusColor(task.status)}`} />
+                  <span className="capitalize">{task.status.replace('_', ' ')}</span>
+                </div>
+
+                {task.due_date && (
+                  <div className="flex items-center space-x-1">
+                    <Calendar className="w-3 h-3" />
+                    <span>{formatDate(task.due_date)}</span>
+                  </div>
+                )}
+
+                {startBlockers[task.id].length > 0 && (
+                  <div
+                    className="flex items-center space-x-1 text-orange-500"
+                    title={`Waiting on ${startBlockers[task.id].map(blocker => blocker.title).join(', ')}`}
+                  >
+                    <Lock className="w-3 h-3" />
+                    <span>Blocked by {startBlockers[task.id].length}</span>
+                  </div>
+                )}
+
+                {task.assignments && task.assignments.length > 0 && (
+                  <div className="flex items-center space-x-1">
+                    <User className="w-3 h-3" />
+                    <span>{task.assignments.length} assigned</span>
+                  </div>
+                )}
+
+                {checklistProgress.total > 0 && (
+                  <div className="flex items-center space-x-1" title="Checklist items done">
+                    <ListChecks className="w-3 h-3" />
+                    <span>{checklistProgress.done}/{checklistProgress.total}</span>
+                  </div>
+                )}
+
+                <div className="flex items-center space-x-1">
+                  <Clock className="w-3 h-3" />
+                  <span>{formatDate(task.created_at)}</span>
+                </div>
+              </div>
+
+              {/* Rollup of the subtasks */}
+              {subtaskProgress.total > 0 && (
+                <div className="flex items-center space-x-2 mt-3 text-xs text-secondary">
+                  <div className="flex-1 h-1.5 rounded-full bg-gray-500/20 overflow-hidden">
+                    <div
+                      className="h-full bg-green-500 transition-all"
+                      style={{ width: `${(subtaskProgress.done / subtaskProgress.total) * 100}%` }}
+                    />
+                  </div>
+                  <span>{subtaskProgress.done}/{subtaskProgress.total} subtasks</span>
+                </div>
+              )}
+
+              {isReadyToComplete(task, subtasks) && (
+                <div className="flex items-center justify-between mt-3 px-3 py-2 rounded-lg bg-green-500/10 border border-green-500/30 text-xs">
+                  <span className="text-green-500">All subtasks are done</span>
+                  <button
+                    onClick={() => handleUpdateTaskStatus(task.id, 'completed')}
+                    className="font-medium text-green-500 hover:text-green-400"
+                  >
+                    Mark complete
+                  </button>
+                </div>
+              )}
+
+              {showChecklist && !isCollapsed && (
+                <TaskChecklist
+                  task={task}
+                  autoFocus={checklistTaskId === task.id}
+                  onChange={onTaskUpdate}
+                  onClose={() => setChecklistTaskId(null)}
+                />
+              )}
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <select
+                value={task.status}
+                onChange={(e) => handleUpdateTaskStatus(task.id, e.target.value as Task['status'])}
+                className="glass-panel rounded-lg px-2 py-1 text-xs text-primary focus:outline-none focus:ring-1 focus:ring-yellow-500"
+              >
+                {Object.entries(TASK_STATUS_LABELS).map(([status, label]) => (
+                  <option key={status} value={status}>{label}</option>
+                ))}
+              </select>
+
+              {/* Task Actions */}
+              <div className="opacity-0 group-hover:opacity-100 transition-opacity flex items-center space-x-1">
+                <Button
+                  onClick={() => handleAIHelp(task)}
+                  variant="ghost"
+                  size="sm"
+                  className="p-1"
+                  title="AI Help"
+                >
+                  <Bot className="w-3 h-3 text-blue-500" />
+                </Button>
+                <Button
+                  onClick={() => setDependenciesTaskId(task.id)}
+                  variant="ghost"
+                  size="sm"
+                  className="p-1"
+                  title="Dependencies"
+                >
+                  <Link2 className="w-3 h-3" />
+                </Button>
+                <Button
+                  onClick={() => openChecklist(task.id)}
+                  variant="ghost"
+                  size="sm"
+                  className="p-1"
+                  title="Add checklist item"
+                >
+                  <ListChecks className="w-3 h-3" />
+                </Button>
+                <Button
+                  onClick={() => openSubtaskInput(task.id)}
+                  variant="ghost"
+                  size="sm"
+                  className="p-1"
+                  title="Add subtask"
+                >
+                  <ListPlus className="w-3 h-3" />
+                </Button>
+                {canEditTask(task) && (
+                  <>
+                    <Button
+                      onClick={() => handleEditTask(task)}
+                      variant="ghost"
+                      size="sm"
+                      className="p-1"
+                    >
+                      <Edit className="w-3 h-3" />
+                    </Button>
+                    <Button
+                      onClick={() => handleDeleteTask(task.id)}
+                      variant="ghost"
+                      size="sm"
+                      className="p-1 text-red-400 hover:text-red-300"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          </div>
+        </GlassCard>
+
+        {/* Subtasks */}
+        {!isCollapsed && (shownSubtasks.length > 0 || subtaskParentId === task.id) && (
+          <div className="ml-6 mt-3 pl-3 border-l silver-border space-y-3">
+            <AnimatePresence>
+              {shownSubtasks.map(subtask => renderTask(subtask))}
+            </AnimatePresence>
+
+            {subtaskParentId === task.id && (
+              <div className="flex items-center space-x-2">
+                <CornerDownRight className="w-4 h-4 text-secondary flex-shrink-0" />
+                <input
+                  type="text"
+                  value={subtaskTitle}
+                  onChange={(e) => setSubtaskTitle(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      handleCreateSubtask(task);
+                    } else if (e.key === 'Escape') {
+                      setSubtaskParentId(null);
+                    }
+                  }}
+                  placeholder="Subtask title, then Enter"
+                  autoFocus
+                  className="flex-1 glass-panel rounded-lg px-3 py-2 text-sm text-primary placeholder-secondary focus:outline-none focus:ring-1 focus:ring-yellow-500"
+                />
+              </div>
+            )}
+          </div>
+        )}
+      </motion.div>
+    );
+  };
+
   return (
     <>
       <div className="flex-1 flex flex-col h-full">
@@ -305,9 +640,9 @@ const TaskPanel: React.FC<TaskPanelProps> = ({ tasks, onTaskUpdate }) => {
               className="glass-panel rounded-lg px-3 py-2 text-sm text-primary focus:outline-none focus:ring-2 focus:ring-yellow-500"
             >
               <option value="all">All Status</option>
-              <option value="todo">To Do</option>
-              <option value="in_progress">In Progress</option>
-              <option value="completed">Completed</option>
+              {Object.entries(TASK_STATUS_LABELS).map(([status, label]) => (
+                <option key={status} value={status}>{label}</option>
+              ))}
             </select>
           </div>
         </div>
@@ -315,126 +650,7 @@ const TaskPanel: React.FC<TaskPanelProps> = ({ tasks, onTaskUpdate }) => {
         {/* Tasks List */}
         <div className="flex-1 overflow-y-auto p-4 space-y-4">
           <AnimatePresence>
-            {filteredTasks.map((task) => (
-              <motion.div
-                key={task.id}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                exit={{ opacity: 0, y: -20 }}
-              >
-                <GlassCard className="p-4 group" hover>
-                  <div className="flex items-start justify-between">
-                    <div className="flex-1">
-                      <div className="flex items-center space-x-3 mb-2">
-                        <button
-                          onClick={() => handleUpdateTaskStatus(
-                            task.id, 
-                            task.status === 'completed' ? 'todo' : 'completed'
-                          )}
-                          className={`w-5 h-5 rounded border-2 flex items-center justify-center transition-all ${
-                            task.status === 'completed'
-                              ? 'bg-green-500 border-green-500'
-                              : 'border-gray-400 hover:border-green-500'
-                          }`}
-                        >
-                          {task.status === 'completed' && (
-                            <CheckSquare className="w-3 h-3 text-white" />
-                          )}
-                        </button>
-                        
-                        <h3 className={`font-semibold ${
-                          task.status === 'completed' 
-                            ? 'text-secondary line-through' 
-                            : 'text-primary'
-                        }`}>
-                          {task.title}
-                        </h3>
-
-                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${getPriorityColor(task.priority)}`}>
-                          {task.priority}
-                        </span>
-                      </div>
-
-                      {task.description && (
-                        <p className="text-secondary text-sm mb-3">{task.description}</p>
-                      )}
-
-                      <div className="flex items-center space-x-4 text-xs text-secondary">
-                        <div className="flex items-center space-x-1">
-                          <span className={`w-2 h-2 rounded-full ${getStatusColor(task.status)}`} />
-                          <span className="capitalize">{task.status.replace('_', ' ')}</span>
-                        </div>
-
-                        {task.due_date && (
-                          <div className="flex items-center space-x-1">
-                            <Calendar className="w-3 h-3" />
-                            <span>{formatDate(task.due_date)}</span>
-                          </div>
-                        )}
-
-                        {task.assignments && task.assignments.length > 0 && (
-                          <div className="flex items-center space-x-1">
-                            <User className="w-3 h-3" />
-                            <span>{task.assignments.length} assigned</span>
-                          </div>
-                        )}
-
-                        <div className="flex items-center space-x-1">
-                          <Clock className="w-3 h-3" />
-                          <span>{formatDate(task.created_at)}</span>
-                        </div>
-                      </div>
-                    </div>
-
-                    <div className="flex items-center space-x-2">
-                      <select
-                        value={task.status}
-                        onChange={(e) => handleUpdateTaskStatus(task.id, e.target.value as Task['status'])}
-                        className="glass-panel rounded-lg px-2 py-1 text-xs text-primary focus:outline-none focus:ring-1 focus:ring-yellow-500"
-                      >
-                        <option value="todo">To Do</option>
-                        <option value="in_progress">In Progress</option>
-                        <option value="completed">Completed</option>
-                        <option value="cancelled">Cancelled</option>
-                      </select>
-
-                      {/* Task Actions */}
-                      <div className="opacity-0 group-hover:opacity-100 transition-opacity flex items-center space-x-1">
-                        <Button
-                          onClick={() => handleAIHelp(task)}
-                          variant="ghost"
-                          size="sm"
-                          className="p-1"
-                          title="AI Help"
-                        >
-                          <Bot className="w-3 h-3 text-blue-500" />
-                        </Button>
-                        {canEditTask(task) && (
-                          <>
-                            <Button
-                              onClick={() => handleEditTask(task)}
-                              variant="ghost"
-                              size="sm"
-                              className="p-1"
-                            >
-                              <Edit className="w-3 h-3" />
-                            </Button>
-                            <Button
-                              onClick={() => handleDeleteTask(task.id)}
-                              variant="ghost"
-                              size="sm"
-                              className="p-1 text-red-400 hover:text-red-300"
-                            >
-                              <Trash2 className="w-3 h-3" />
-                            </Button>
-                          </>
-                        )}
-                      </div>
-                    </div>
-                  </div>
-                </GlassCard>
-              </motion.div>
-            ))}
+            {rootTasks.map(task => renderTask(task))}
           </AnimatePresence>
 
           {filteredTasks.length === 0 && (
@@ -641,6 +857,18 @@ const TaskPanel: React.FC<TaskPanelProps> = ({ tasks, onTaskUpdate }) => {
           </div>
         )}
       </AnimatePresence>
+
+      {/* Dependencies Modal */}
+      <AnimatePresence>
+        {dependenciesTask && (
+          <TaskDependenciesModal
+            task={dependenciesTask}
+            tasks={tasks}
+            onChange={onTaskUpdate}
+            onClose={() => setDependenciesTaskId(null)}
+          />
+        )}
+      </AnimatePresence>
     </>
   );
 };
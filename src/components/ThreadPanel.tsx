@@ -0,0 +1,173 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { MessageSquare, Send, User, X, Archive } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useAuth } from '../contexts/AuthContext';
+import { type Message } from '../lib/supabase';
+import Button from './ui/Button';
+
+interface ThreadPanelProps {
+  parentMessage: Message;
+  replies: Message[];
+  onClose: () => void;
+  onSendReply: (content: string, mentions: string[]) => void;
+  renderMessageBody: (message: Message) => React.ReactNode;
+  readOnly?: boolean;
+}
+
+const ThreadPanel: React.FC<ThreadPanelProps> = ({
+  parentMessage,
+  replies,
+  onClose,
+  onSendReply,
+  renderMessageBody,
+  readOnly = false
+}) => {
+  const { user } = useAuth();
+  const [replyInput, setReplyInput] = useState('');
+  const repliesEndRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    repliesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [replies]);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, [parentMessage.id]);
+
+  const handleSendReply = () => {
+    const content = replyInput.trim();
+    if (!content) return;
+
+    const mentionMatches = content.match(/@(\w+)/g);
+    const mentions = mentionMatches ? mentionMatches.map(mention => mention.substring(1)) : [];
+
+    onSendReply(content, mentions);
+    setReplyInput('');
+  };
+
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSendReply();
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  const formatTime = (timestamp: string) => {
+    return new Date(timestamp).toLocaleString([], {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  const renderThreadMessage = (message: Message, isParent = false) => (
+    <div className={`glass-panel rounded-xl p-3 ${isParent ? 'border-gold-border' : ''}`}>
+      <div className="flex items-center space-x-2 mb-1">
+        <div className={`w-6 h-6 rounded-full flex items-center justify-center flex-shrink-0 ${
+          message.sender_id === user?.id
+            ? 'bg-gradient-to-r from-blue-500 to-purple-500'
+            : 'bg-gradient-gold-silver'
+        }`}>
+          <User className="w-3 h-3 text-white" />
+        </div>
+        <span className="font-medium text-primary text-sm">
+          {message.sender?.full_name || 'Unknown User'}
+        </span>
+        <span className="text-xs text-secondary">
+          {formatTime(message.created_at)}
+        </span>
+        {message.edited_at && !message.deleted_at && (
+          <span className="text-xs text-secondary opacity-75">(edited)</span>
+        )}
+      </div>
+      <div className="text-primary text-sm max-w-full break-words">
+        {renderMessageBody(message)}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="w-96 flex-shrink-0 flex flex-col h-full glass-panel border-l silver-border">
+      {/* Thread Header */}
+      <div className="p-4 border-b silver-border flex items-center justify-between flex-shrink-0">
+        <div className="flex items-center space-x-2">
+          <MessageSquare className="w-4 h-4 text-secondary" />
+          <h3 className="font-bold text-primary">Thread</h3>
+          <span className="text-xs text-secondary">
+            {replies.length} {replies.length === 1 ? 'reply' : 'replies'}
+          </span>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 hover:bg-surface rounded text-secondary hover:text-primary"
+          title="Close thread"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Parent message and replies - Scrollable */}
+      <div className="flex-1 overflow-y-auto p-4 space-y-3" style={{ scrollbarWidth: 'thin' }}>
+        {renderThreadMessage(parentMessage, true)}
+
+        <div className="flex items-center space-x-2 text-xs text-secondary">
+          <div className="flex-1 border-t silver-border" />
+          <span>{replies.length > 0 ? 'Replies' : 'No replies yet'}</span>
+          <div className="flex-1 border-t silver-border" />
+        </div>
+
+        <AnimatePresence>
+          {replies.map(reply => (
+            <motion.div
+              key={reply.id}
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -10 }}
+            >
+              {renderThreadMessage(reply)}
+            </motion.div>
+          ))}
+        </AnimatePresence>
+
+        <div ref={repliesEndRef} />
+      </div>
+
+      {/* Reply Input - Fixed at bottom */}
+      {readOnly ? (
+        <div className="border-t silver-border p-3 flex-shrink-0 flex items-center justify-center space-x-2 text-sm text-secondary">
+          <Archive className="w-4 h-4" />
+          <span>This channel is archived</span>
+        </div>
+      ) : (
+        <div className="border-t silver-border p-3 flex-shrink-0">
+          <div className="flex items-end space-x-2">
+            <textarea
+              ref={inputRef}
+              value={replyInput}
+              onChange={(e) => setReplyInput(e.target.value)}
+              onKeyPress={handleKeyPress}
+              placeholder="Reply in thread..."
+              className="flex-1 glass-panel rounded-xl px-3 py-2 text-sm text-primary placeholder-secondary focus:outline-none focus:ring-2 focus:ring-yellow-500 resize-none min-h-[40px] max-h-32"
+              rows={1}
+            />
+            <Button
+              onClick={handleSendReply}
+              variant="premium"
+              size="sm"
+              className="p-3"
+              disabled={!replyInput.trim()}
+            >
+              <Send className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ThreadPanel;
@@ -1,6 +1,6 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import { authService, type User, type Session } from '../lib/auth';
-import { supabase } from '../lib/supabase';
+import { supabase, type PresenceStatus } from '../lib/supabase';
 
 interface AuthContextType {
   user: User | null;
@@ -9,6 +9,8 @@ interface AuthContextType {
   isAuthenticated: boolean;
   googleToken: string | null;
   isGoogleConnected: boolean;
+  presenceStatus: PresenceStatus;
+  setPresenceStatus: (status: 'online' | 'busy') => void;
   signUp: (username: string, password: string, fullName: string) => Promise<{ error?: string }>;
   signIn: (username: string, password: string) => Promise<{ error?: string }>;
   signOut: () => Promise<void>;
@@ -24,6 +26,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [loading, setLoading] = useState(true);
   const [googleToken, setGoogleToken] = useState<string | null>(null);
   const [isGoogleConnected, setIsGoogleConnected] = useState(false);
+  const [presenceStatus, setPresenceStatusState] = useState<PresenceStatus>('online');
 
   useEffect(() => {
     // Listen for auth state changes
@@ -42,6 +45,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       }
     });
 
+    // Follow online/away/busy changes from activity tracking
+    const unsubscribePresence = authService.onPresenceChange(setPresenceStatusState);
+
     // Verify current session on mount
     authService.verifySession().finally(() => {
       setLoading(false);
@@ -50,7 +56,10 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     // Check Google connection status
     checkGoogleConnectionStatus();
 
-    return unsubscribe;
+    return () => {
+      unsubscribe();
+      unsubscribePresence();
+    };
   }, []);
 
   const checkGoogleConnectionStatus = async () => {
@@ -103,6 +112,10 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     await authService.signOut();
   };
 
+  const setPresenceStatus = (status: 'online' | 'busy') => {
+    authService.setPresenceStatus(status);
+  };
+
   const connectGoogle = async () => {
     try {
       const userId = authService.getCurrentUser()?.id;
@@ -177,6 +190,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       isAuthenticated,
       googleToken,
       isGoogleConnected,
+      presenceStatus,
+      setPresenceStatus,
       signUp,
       signIn,
       signOut,
@@ -1,5 +1,5 @@
 // Custom authentication service for username/password login with enhanced security
-import { supabase } from './supabase';
+import { supabase, type PresenceStatus } from './supabase';
 
 export interface User {
   id: string;
@@ -21,6 +21,11 @@ class AuthService {
   private activityTimeout: number | null = null;
   private lastActivity: number = Date.now();
   private inactivityThreshold: number = 30 * 60 * 1000; // 30 minutes in milliseconds
+  private presenceListeners: ((status: PresenceStatus) => void)[] = [];
+  private awayTimeout: number | null = null;
+  private awayThreshold: number = 5 * 60 * 1000; // 5 minutes in milliseconds
+  private isAway: boolean = false;
+  private manualStatus: 'online' | 'busy' = localStorage.getItem('simally_status') === 'busy' ? 'busy' : 'online';
 
   constructor() {
     // Load session from localStorage on init
@@ -100,6 +105,20 @@ class AuthService {
     this.listeners.forEach(listener => listener(this.currentSession));
   }
 
+  private notifyPresenceListeners() {
+    const status = this.getPresenceStatus();
+    this.presenceListeners.forEach(listener => listener(status));
+  }
+
+  private setAway(isAway: boolean) {
+    if (this.isAway === isAway) return;
+    this.isAway = isAway;
+    this.notifyPresenceListeners();
+    if (this.currentSession) {
+      this.updateUserStatus(this.getPresenceStatus());
+    }
+  }
+
   private setupTabCloseDetection() {
     // Listen for page unload events (tab close, refresh, etc.)
     window.addEventListener('beforeunload', () => {
@@ -114,11 +133,12 @@ class AuthService {
     document.addEventListener('visibilitychange', () => {
       if (this.currentSession) {
         if (document.visibilityState === 'hidden') {
-          this.updateUserStatus('offline');
+          // The tab is still open, so the user is away rather than offline
+          this.setAway(true);
         } else {
-          this.updateUserStatus('online');
           // Reset inactivity timer when page becomes visible
           this.resetInactivityTimer();
+          this.updateUserStatus(this.getPresenceStatus());
         }
       }
     });
@@ -155,11 +175,20 @@ class AuthService {
   private resetInactivityTimer() {
     // Update last activity time
     this.lastActivity = Date.now();
+    this.setAway(false);
     
-    // Clear existing timeout
+    // Clear existing timeouts
     if (this.activityTimeout !== null) {
       window.clearTimeout(this.activityTimeout);
     }
+    if (this.awayTimeout !== null) {
+      window.clearTimeout(this.awayTimeout);
+    }
+    
+    // Mark the user as away after a shorter period of inactivity
+    this.awayTimeout = window.setTimeout(() => {
+      this.setAway(true);
+    }, this.awayThreshold) as unknown as number;
     
     // Set new timeout
     this.activityTimeout = window.setTimeout(() => {
@@ -209,6 +238,17 @@ class AuthService {
     }
   }
 
+  onPresenceChange(callback: (status: PresenceStatus) => void) {
+    this.presenceListeners.push(callback);
+    // Immediately call with current status
+    callback(this.getPresenceStatus());
+    
+    // Return unsubscribe function
+    return () => {
+      this.presenceListeners = this.presenceListeners.filter(listener => listener !== callback);
+    };
+  }
+
   onAuthStateChange(callback: (session: Session | null) => void) {
     this.listeners.push(callback);
     // Immediately call with current session
@@ -253,7 +293,7 @@ class AuthService {
       this.saveSession(session);
       
       // Update user status to online
-      this.updateUserStatus('online');
+      this.updateUserStatus(this.getPresenceStatus());
       
       // Reset inactivity timer
       this.resetInactivityTimer();
@@ -290,7 +330,7 @@ class AuthService {
       this.saveSession(session);
       
       // Update user status to online
-      this.updateUserStatus('online');
+      this.updateUserStatus(this.getPresenceStatus());
       
       // Reset inactivity timer
       this.resetInactivityTimer();
@@ -340,11 +380,15 @@ class AuthService {
       this.sessionCheckInterval = null;
     }
     
-    // Clear activity timeout
+    // Clear activity timeouts
     if (this.activityTimeout) {
       window.clearTimeout(this.activityTimeout);
       this.activityTimeout = null;
     }
+    if (this.awayTimeout) {
+      window.clearTimeout(this.awayTimeout);
+      this.awayTimeout = null;
+    }
     
     this.clearSession();
   }
@@ -363,7 +407,7 @@ class AuthService {
       }
 
       // Update user status to online
-      this.updateUserStatus('online');
+      this.updateUserStatus(this.getPresenceStatus());
       
       // Reset inactivity timer
       this.resetInactivityTimer();
@@ -391,6 +435,25 @@ class AuthService {
     return !!this.currentSession;
   }
 
+  // Busy (do not disturb) is chosen by the user and wins over automatic away
+  getPresenceStatus(): PresenceStatus {
+    if (this.manualStatus === 'busy') return 'busy';
+    return this.isAway ? 'away' : 'online';
+  }
+
+  setPresenceStatus(status: 'online' | 'busy'): void {
+    this.manualStatus = status;
+    localStorage.setItem('simally_status', status);
+    this.notifyPresenceListeners();
+    this.updateUserStatus(this.getPresenceStatus());
+  }
+
+  // Set the away threshold (in minutes)
+  setAwayThreshold(minutes: number): void {
+    this.awayThreshold = minutes * 60 * 1000;
+    this.resetInactivityTimer();
+  }
+
   // Set the inactivity threshold (in minutes)
   setInactivityThreshold(minutes: number): void {
     this.inactivityThreshold = minutes * 60 * 1000;
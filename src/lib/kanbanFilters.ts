@@ -0,0 +1,148 @@
+import { type Task } from './supabase';
+
+export type SwimlaneField = 'none' | 'assignee' | 'project' | 'priority' | 'tag';
+export type DueWindow = 'any' | 'overdue' | 'today' | 'week' | 'none';
+
+export interface BoardFilters {
+  assignee: string;
+  tag: string;
+  due: DueWindow;
+  text: string;
+}
+
+export interface Swimlane {
+  key: string;
+  label: string;
+}
+
+export const SWIMLANE_LABELS: Record<SwimlaneField, string> = {
+  none: 'No swimlanes',
+  assignee: 'Assignee',
+  project: 'Project',
+  priority: 'Priority',
+  tag: 'Label'
+};
+
+export const DUE_WINDOW_LABELS: Record<DueWindow, string> = {
+  any: 'Any due date',
+  overdue: 'Overdue',
+  today: 'Due today',
+  week: 'Due this week',
+  none: 'No due date'
+};
+
+// Filter values and lane keys for tasks without an assignee, label or project. User and project IDs
+// are UUIDs, but labels are free text, so the no-label value starts with a NUL character, which a
+// Postgres text value (and so a real label) can never contain.
+export const UNASSIGNED = 'unassigned';
+export const NO_TAG = '\u0000none';
+const NO_PROJECT = 'none';
+
+const EMPTY_LANE_KEYS: Partial<Record<SwimlaneField, string>> = {
+  assignee: UNASSIGNED,
+  project: NO_PROJECT,
+  tag: NO_TAG
+};
+
+// Search params that describe a board view, so a filtered board can be shared as a link
+export const BOARD_PARAMS = ['project', 'lane', 'assignee', 'tag', 'due', 'q'] as const;
+
+const PRIORITY_ORDER: Task['priority'][] = ['urgent', 'high', 'medium', 'low'];
+
+// Reads the board view from the page URL, ignoring values it doesn't recognise
+export function parseBoardView(params: URLSearchParams) {
+  const lane = params.get('lane') as SwimlaneField;
+  const due = params.get('due') as DueWindow;
+
+  return {
+    projectId: params.get('project') || '',
+    lane: Object.keys(SWIMLANE_LABELS).includes(lane) ? lane : 'none',
+    filters: {
+      assignee: params.get('assignee') || '',
+      tag: params.get('tag') || '',
+      due: Object.keys(DUE_WINDOW_LABELS).includes(due) ? due : 'any',
+      text: params.get('q') || ''
+    } as BoardFilters
+  };
+}
+
+const isInDueWindow = (task: Task, due: DueWindow) => {
+  if (due === 'any') return true;
+  if (due === 'none') return !task.due_date;
+  if (!task.due_date) return false;
+
+  const dueDate = new Date(task.due_date);
+  const now = new Date();
+  const endOfToday = new Date(now);
+  endOfToday.setHours(23, 59, 59, 999);
+
+  switch (due) {
+    case 'overdue':
+      return dueDate < now && task.status !== 'completed' && task.status !== 'cancelled';
+    case 'today':
+      return dueDate >= now && dueDate <= endOfToday;
+    case 'week': {
+      const endOfWeek = new Date(endOfToday);
+      endOfWeek.setDate(endOfWeek.getDate() + 7);
+      return dueDate >= now && dueDate <= endOfWeek;
+    }
+  }
+};
+
+// Whether a task passes every filter of the board
+export function matchesBoardFilters(task: Task, filters: BoardFilters) {
+  const assigneeIds = (task.assignments || []).map(assignment => assignment.user_id);
+  if (filters.assignee === UNASSIGNED && assigneeIds.length > 0) return false;
+  if (filters.assignee && filters.assignee !== UNASSIGNED && !assigneeIds.includes(filters.assignee)) return false;
+
+  const tags = task.tags || [];
+  if (filters.tag === NO_TAG && tags.length > 0) return false;
+  if (filters.tag && filters.tag !== NO_TAG && !tags.includes(filters.tag)) return false;
+
+  if (!isInDueWindow(task, filters.due)) return false;
+
+  const text = filters.text.trim().toLowerCase();
+  if (text && !`${task.title} ${task.description || ''}`.toLowerCase().includes(text)) return false;
+
+  return true;
+}
+
+// Lanes a task belongs to; a task with several assignees or labels appears in each of their lanes
+export function getTaskSwimlanes(task: Task, field: SwimlaneField): Swimlane[] {
+  switch (field) {
+    case 'assignee': {
+      const lanes = (task.assignments || []).map(assignment => ({
+        key: assignment.user_id,
+        label: assignment.user?.full_name || assignment.user?.username || 'Unknown User'
+      }));
+      return lanes.length > 0 ? lanes : [{ key: UNASSIGNED, label: 'Unassigned' }];
+    }
+    case 'project':
+      return [task.project_id ? { key: task.project_id, label: task.project?.name || 'Project' } : { key: NO_PROJECT, label: 'No project' }];
+    case 'priority':
+      return [{ key: task.priority, label: task.priority.charAt(0).toUpperCase() + task.priority.slice(1) }];
+    case 'tag': {
+      const tags = task.tags || [];
+      return tags.length > 0 ? tags.map(tag => ({ key: tag, label: tag })) : [{ key: NO_TAG, label: 'No label' }];
+    }
+    default:
+      return [{ key: 'all', label: '' }];
+  }
+}
+
+// Sorts lanes for display: priorities by urgency, everything else by name with the empty lane last
+export function sortSwimlanes(lanes: Swimlane[], field: SwimlaneField) {
+  if (field === 'priority') {
+    return [...lanes].sort((a, b) =>
+      PRIORITY_ORDER.indexOf(a.key as Task['priority']) - PRIORITY_ORDER.indexOf(b.key as Task['priority'])
+    );
+  }
+
+  const emptyKey = EMPTY_LANE_KEYS[field];
+  return [...lanes].sort((a, b) => {
+    const aEmpty = a.key === emptyKey;
+    const bEmpty = b.key === emptyKey;
+    if (aEmpty !== bEmpty) return aEmpty ? 1 : -1;
+    return a.label.localeCompare(b.label);
+  });
+}
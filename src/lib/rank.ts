@@ -0,0 +1,31 @@
+import { type Task } from './supabase';
+
+// Digits of task ranks, in byte order so ranks sort the same here as in Postgres (C collation)
+const RANK_DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+// Creates a rank that sorts strictly between two others; null means the top or bottom of the column
+export function rankBetween(before: string | null, after: string | null) {
+  let upper = after;
+  let rank = '';
+
+  for (let i = 0; ; i++) {
+    const low = before && i < before.length ? RANK_DIGITS.indexOf(before[i]) : 0;
+    const high = upper && i < upper.length ? RANK_DIGITS.indexOf(upper[i]) : RANK_DIGITS.length;
+
+    if (high - low > 1) {
+      return rank + RANK_DIGITS[Math.floor((low + high) / 2)];
+    }
+
+    rank += RANK_DIGITS[low];
+    // Once the prefix is below the upper rank, any longer rank with this prefix is too
+    if (high > low) upper = null;
+  }
+}
+
+// Orders tasks by rank; equal ranks from concurrent moves are broken by id so every client agrees
+export function compareTaskRanks(a: Pick<Task, 'id' | 'rank'>, b: Pick<Task, 'id' | 'rank'>) {
+  const rankA = a.rank || '';
+  const rankB = b.rank || '';
+  if (rankA !== rankB) return rankA < rankB ? -1 : 1;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
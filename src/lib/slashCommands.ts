@@ -0,0 +1,260 @@
+import { supabase, type Channel, type PollDraft } from './supabase';
+import { type User } from './auth';
+
+// What a command can see and do; the workspace page supplies the actions so commands reuse its handlers
+export interface SlashCommandContext {
+  user: User;
+  channel: Channel;
+  createPoll: (draft: PollDraft) => Promise<void>;
+  openPollComposer: () => void;
+  startMeeting: (title: string, duration: number) => Promise<void>;
+  summarizeChannel: () => Promise<void>;
+  setPresenceStatus: (status: 'online' | 'busy') => void;
+  refreshTasks: () => void;
+}
+
+export interface SlashCommand {
+  name: string;
+  description: string;
+  usage: string;
+  // Resolves to a short confirmation for the composer; throw an Error to report a problem
+  execute: (args: string, context: SlashCommandContext) => Promise<string | void>;
+}
+
+const registry = new Map<string, SlashCommand>();
+
+export function registerSlashCommand(command: SlashCommand) {
+  registry.set(command.name.toLowerCase(), command);
+}
+
+export function getSlashCommands(prefix = '') {
+  const normalizedPrefix = prefix.toLowerCase();
+  return [...registry.values()]
+    .filter(command => command.name.startsWith(normalizedPrefix))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function findSlashCommand(name: string) {
+  return registry.get(name.toLowerCase());
+}
+
+// Splits "/name rest of input" into its parts; returns null for plain messages
+export function parseSlashCommand(input: string) {
+  const match = input.trim().match(/^\/(\w+)(?:\s+([\s\S]*))?$/);
+  if (!match) return null;
+  return { name: match[1].toLowerCase(), args: (match[2] || '').trim() };
+}
+
+const TASK_PRIORITIES = ['low', 'medium', 'high', 'urgent'] as const;
+const DURATION_UNITS_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000
+};
+
+const endOfDay = (date: Date) => {
+  const end = new Date(date);
+  end.setHours(23, 59, 59, 999);
+  return end;
+};
+
+const parseDueDate = (value: string) => {
+  const lower = value.toLowerCase();
+  if (lower === 'today') return endOfDay(new Date());
+  if (lower === 'tomorrow') return endOfDay(new Date(Date.now() + DURATION_UNITS_MS.d));
+
+  const date = new Date(`${value}T00:00:00`);
+  return isNaN(date.getTime()) ? null : endOfDay(date);
+};
+
+const atTimeOfDay = (date: Date, time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  if (hours > 23 || minutes > 59) return null;
+  const result = new Date(date);
+  result.setHours(hours, minutes, 0, 0);
+  return result;
+};
+
+// Reads the leading time expression of a reminder: "in 30m", "at 14:30" or "tomorrow [at 9:00]"
+const parseReminderTime = (args: string): { time: Date; text: string } | null => {
+  const relative = args.match(/^in\s+(\d+)\s*([mhd])\w*\s+([\s\S]+)$/i);
+  if (relative) {
+    const amount = Number(relative[1]) * DURATION_UNITS_MS[relative[2].toLowerCase()];
+    return { time: new Date(Date.now() + amount), text: relative[3] };
+  }
+
+  const tomorrow = args.match(/^tomorrow(?:\s+(?:at\s+)?(\d{1,2}:\d{2}))?\s+([\s\S]+)$/i);
+  if (tomorrow) {
+    const time = atTimeOfDay(new Date(Date.now() + DURATION_UNITS_MS.d), tomorrow[1] || '09:00');
+    return time ? { time, text: tomorrow[2] } : null;
+  }
+
+  const at = args.match(/^at\s+(\d{1,2}:\d{2})\s+([\s\S]+)$/i);
+  if (at) {
+    const time = atTimeOfDay(new Date(), at[1]);
+    if (!time) return null;
+    // A time that has already passed today means tomorrow
+    if (time.getTime() <= Date.now()) time.setDate(time.getDate() + 1);
+    return { time, text: at[2] };
+  }
+
+  return null;
+};
+
+registerSlashCommand({
+  name: 'task',
+  description: 'Create a task',
+  usage: '/task <title> [due:YYYY-MM-DD|today|tomorrow] [!low|!medium|!high|!urgent]',
+  execute: async (args, { user, refreshTasks }) => {
+    let priority: typeof TASK_PRIORITIES[number] = 'medium';
+    let dueDate: Date | null = null;
+
+    const titleWords: string[] = [];
+
+    for (const word of args.split(/\s+/)) {
+      const priorityMatch = word.match(/^!(\w+)$/);
+      const dueMatch = word.match(/^due:(\S+)$/i);
+
+      if (priorityMatch && TASK_PRIORITIES.includes(priorityMatch[1].toLowerCase() as typeof priority)) {
+        priority = priorityMatch[1].toLowerCase() as typeof priority;
+      } else if (dueMatch) {
+        dueDate = parseDueDate(dueMatch[1]);
+        if (!dueDate) throw new Error(`Could not read the due date "${dueMatch[1]}"`);
+      } else {
+        titleWords.push(word);
+      }
+    }
+
+    const title = titleWords.join(' ').trim();
+    if (!title) throw new Error('Give the task a title, e.g. /task Update the roadmap due:tomorrow');
+
+    const { error } = await supabase
+      .from('tasks')
+      .insert({
+        title,
+        priority,
+        due_date: dueDate ? dueDate.toISOString() : null,
+        created_by: user.id
+      });
+
+    if (error) {
+      console.error('Error creating task:', error);
+      throw new Error('Failed to create task');
+    }
+
+    refreshTasks();
+    return `Task created: ${title}`;
+  }
+});
+
+registerSlashCommand({
+  name: 'remind',
+  description: 'Add a reminder to your calendar',
+  usage: '/remind in 30m|at 14:30|tomorrow [9:00] <what>',
+  execute: async (args, { user, channel }) => {
+    const reminder = parseReminderTime(args);
+    if (!reminder) throw new Error('Try /remind in 30m Check the build, /remind at 14:30 Standup or /remind tomorrow Send report');
+
+    const { error } = await supabase
+      .from('calendar_events')
+      .insert({
+        title: reminder.text.trim(),
+        description: channel.type === 'dm' ? null : `From #${channel.name}`,
+        start_time: reminder.time.toISOString(),
+        end_time: new Date(reminder.time.getTime() + 30 * DURATION_UNITS_MS.m).toISOString(),
+        user_id: user.id,
+        is_reminder: true
+      });
+
+    if (error) {
+      console.error('Error creating reminder:', error);
+      throw new Error('Failed to create reminder');
+    }
+
+    return `Reminder set for ${reminder.time.toLocaleString([], {
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit'
+    })}`;
+  }
+});
+
+registerSlashCommand({
+  name: 'meet',
+  description: 'Start a Google Meet in this conversation',
+  usage: '/meet [minutes] [title]',
+  execute: async (args, { channel, startMeeting }) => {
+    const match = args.match(/^(\d+)(?:\s+([\s\S]*))?$/);
+    const duration = match ? Number(match[1]) : 30;
+    const title = (match ? match[2] || '' : args).trim() || `${channel.name} meeting`;
+
+    if (duration < 5 || duration > 480) throw new Error('Meetings can last between 5 and 480 minutes');
+
+    await startMeeting(title, duration);
+  }
+});
+
+registerSlashCommand({
+  name: 'summarize',
+  description: 'Summarize the last 24 hours of this conversation',
+  usage: '/summarize',
+  execute: async (_args, { summarizeChannel }) => {
+    await summarizeChannel();
+  }
+});
+
+registerSlashCommand({
+  name: 'poll',
+  description: 'Ask the channel to vote; without options opens the poll builder',
+  usage: '/poll "Question" "Option 1" "Option 2" [multi] [anonymous] [closes:2h]',
+  execute: async (args, { createPoll, openPollComposer }) => {
+    if (!args) {
+      openPollComposer();
+      return;
+    }
+
+    const quoted = [...args.matchAll(/"([^"]*)"/g)].map(match => match[1].trim()).filter(Boolean);
+    const [question, ...options] = quoted;
+    const flags = args.replace(/"[^"]*"/g, ' ').split(/\s+/).filter(Boolean).map(flag => flag.toLowerCase());
+
+    if (!question || options.length < 2) throw new Error('A poll needs a question and at least two options in quotes');
+
+    let closesAt: string | null = null;
+    for (const flag of flags) {
+      const closes = flag.match(/^closes:(\d+)([mhd])$/);
+      if (closes) {
+        closesAt = new Date(Date.now() + Number(closes[1]) * DURATION_UNITS_MS[closes[2]]).toISOString();
+      } else if (flag !== 'multi' && flag !== 'anonymous') {
+        throw new Error(`Unknown poll option "${flag}"; use multi, anonymous or closes:2h`);
+      }
+    }
+
+    await createPoll({
+      question,
+      options,
+      allowMultiple: flags.includes('multi'),
+      anonymous: flags.includes('anonymous'),
+      closesAt
+    });
+  }
+});
+
+registerSlashCommand({
+  name: 'status',
+  description: 'Set your presence to available or busy',
+  usage: '/status available|busy',
+  execute: async (args, { setPresenceStatus }) => {
+    const value = args.toLowerCase();
+
+    if (['available', 'online', 'active'].includes(value)) {
+      setPresenceStatus('online');
+      return 'You are now available';
+    }
+    if (['busy', 'dnd'].includes(value)) {
+      setPresenceStatus('busy');
+      return 'You are now busy';
+    }
+
+    throw new Error('Use /status available or /status busy');
+  }
+});
@@ -0,0 +1,48 @@
+import { type Task, type TaskChecklistItem } from './supabase';
+
+export interface Progress {
+  done: number;
+  total: number;
+}
+
+const CLOSED_STATUSES: Task['status'][] = ['completed', 'cancelled'];
+
+// Subtasks of each task, oldest first so they read in the order they were added
+export function groupSubtasks(tasks: Task[]) {
+  const byParent = new Map<string, Task[]>();
+  for (const task of tasks) {
+    if (!task.parent_task_id) continue;
+    byParent.set(task.parent_task_id, [...(byParent.get(task.parent_task_id) || []), task]);
+  }
+
+  for (const children of byParent.values()) {
+    children.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+  }
+
+  return byParent;
+}
+
+// Completed subtasks out of those still counted; cancelled ones drop out of the total
+export function getSubtaskProgress(subtasks: Task[]): Progress {
+  const counted = subtasks.filter(task => task.status !== 'cancelled');
+  return {
+    done: counted.filter(task => task.status === 'completed').length,
+    total: counted.length
+  };
+}
+
+export function getChecklistProgress(checklist: TaskChecklistItem[] = []): Progress {
+  return {
+    done: checklist.filter(item => item.is_completed).length,
+    total: checklist.length
+  };
+}
+
+// A parent looks ready to complete once every subtask is closed and at least one was finished;
+// suggest_parent_completion applies the same rule when it notifies people
+export function isReadyToComplete(task: Task, subtasks: Task[]) {
+  return !CLOSED_STATUSES.includes(task.status)
+    && subtasks.length > 0
+    && subtasks.every(subtask => CLOSED_STATUSES.includes(subtask.status))
+    && subtasks.some(subtask => subtask.status === 'completed');
+}
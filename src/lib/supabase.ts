@@ -1,4 +1,4 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, type RealtimeChannel, type RealtimePostgresChangesPayload, type RealtimePostgresInsertPayload, type RealtimePostgresUpdatePayload } from '@supabase/supabase-js';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -37,27 +37,259 @@ export interface Channel {
   name: string;
   description?: string;
   type: 'public' | 'private' | 'dm';
+  announcement_only?: boolean;
+  // Days history is kept before it is purged; null keeps it forever
+  retention_days?: number | null;
+  legal_hold?: boolean;
+  legal_hold_at?: string | null;
+  // Archived channels are read-only but keep their history
+  archived_at?: string | null;
+  archived_by?: string | null;
+  // Other participants of a DM, as listed for the current user
+  dm_participants?: Pick<Profile, 'id' | 'username' | 'full_name'>[];
   created_by: string;
   created_at: string;
   updated_at: string;
 }
 
+// Dry-run result of a retention policy: what the purge job would delete
+export interface RetentionReport {
+  retention_days: number | null;
+  legal_hold: boolean;
+  cutoff: string | null;
+  messages: number;
+  attachments: number;
+  attachment_bytes: number;
+  summaries: number;
+  oldest_message_at: string | null;
+  newest_message_at: string | null;
+}
+
+// Owners and admins moderate a channel; only the owner can change roles
+export type ChannelRole = 'owner' | 'admin' | 'member';
+
+export interface ChannelMember {
+  user_id: string;
+  role: ChannelRole;
+  joined_at: string;
+  user?: Pick<Profile, 'id' | 'username' | 'full_name' | 'avatar_url'>;
+}
+
 export interface Message {
   id: string;
   channel_id: string;
   sender_id: string;
   content: string;
-  type: 'text' | 'ai_task_creation' | 'ai_summary' | 'system';
+  type: 'text' | 'ai_task_creation' | 'ai_summary' | 'system' | 'poll';
   metadata: any;
   created_at: string;
+  edited_at?: string;
+  deleted_at?: string | null;
+  deleted_by?: string | null;
+  thread_parent_id?: string | null;
+  reply_count?: number;
+  last_reply_at?: string | null;
+  reactions?: MessageReaction[];
   sender?: Profile;
 }
 
+export interface MessageRevision {
+  id: string;
+  message_id: string;
+  content: string;
+  edited_by: string | null;
+  created_at: string;
+  editor?: Pick<Profile, 'full_name' | 'username'> | null;
+}
+
+export interface MessagePage {
+  messages: Message[];
+  hasMore: boolean;
+}
+
+export type MessageCursor = Pick<Message, 'id' | 'created_at'>;
+
+export interface MessagePageOptions {
+  before?: MessageCursor;
+  after?: MessageCursor;
+  limit?: number;
+}
+
+export interface ChannelUnreadCount {
+  channel_id: string;
+  unread_count: number;
+  mention_count: number;
+}
+
+export interface ChannelReadState {
+  user_id: string;
+  last_read_message_id: string | null;
+  last_read_at: string | null;
+  user?: {
+    full_name: string;
+    username: string;
+  };
+}
+
+export interface PinnedMessage {
+  id: string;
+  channel_id: string;
+  message_id: string;
+  pinned_by: string | null;
+  pinned_at: string;
+  pinned_by_user?: {
+    full_name: string;
+    username: string;
+  };
+  message?: Message;
+}
+
+export interface ChannelInvite {
+  id: string;
+  channel_id: string;
+  created_by: string;
+  invite_code: string;
+  expires_at: string | null;
+  max_uses: number | null;
+  current_uses: number;
+  revoked_at: string | null;
+  created_at: string;
+  creator?: {
+    full_name: string;
+    username: string;
+  };
+}
+
+// What an invite link shows before it is redeemed
+export interface ChannelInvitePreview {
+  status: 'valid' | 'revoked' | 'expired' | 'used_up';
+  expires_at: string | null;
+  creator?: {
+    full_name: string;
+    username: string;
+  };
+  channel: Pick<Channel, 'id' | 'name' | 'description' | 'type'>;
+  member_count: number;
+}
+
+// A message the user saved for later ("saved items")
+export interface SavedItem {
+  id: string;
+  user_id: string;
+  message_id: string;
+  created_at: string;
+  message?: Message & {
+    channel?: Pick<Channel, 'id' | 'name' | 'type'>;
+  };
+}
+
+// A message queued to be posted later by the workspace API
+export interface ScheduledMessage {
+  id: string;
+  channel_id: string;
+  sender_id: string;
+  content: string;
+  thread_parent_id: string | null;
+  scheduled_for: string;
+  status: 'pending' | 'sent' | 'failed' | 'cancelled';
+  message_id: string | null;
+  error: string | null;
+  created_at: string;
+  channel?: Pick<Channel, 'id' | 'name' | 'type'>;
+}
+
+// Live status shared over realtime presence; users without presence are offline
+export type PresenceStatus = 'online' | 'away' | 'busy';
+
+export interface PresenceState {
+  user_id: string;
+  username: string;
+  full_name: string;
+  status: PresenceStatus;
+  online_at: string;
+}
+
+export interface TypingEvent {
+  user_id: string;
+  name: string;
+  is_typing: boolean;
+}
+
+export type SearchResultType = 'message' | 'task' | 'event' | 'project' | 'comment';
+
+export interface SearchResult {
+  result_type: SearchResultType;
+  id: string;
+  title: string;
+  snippet: string;
+  channel_id: string | null;
+  channel_name: string | null;
+  thread_parent_id: string | null;
+  task_id: string | null;
+  author_id: string | null;
+  author_name: string | null;
+  occurred_at: string;
+  rank: number;
+}
+
+export interface MessageReaction {
+  emoji: string;
+  count: number;
+  user_ids: string[];
+  user_names: string[];
+}
+
+// Kept in metadata.link_previews of messages containing links
+export interface LinkPreview {
+  url: string;
+  title: string;
+  description: string | null;
+  image_url: string | null;
+  site_name: string;
+}
+
+export interface PollOption {
+  id: string;
+  text: string;
+}
+
+// Voters are omitted for anonymous polls
+export interface PollResult {
+  option_id: string;
+  count: number;
+  user_ids?: string[];
+  user_names?: string[];
+}
+
+// Kept in the metadata of poll messages
+export interface Poll {
+  id: string;
+  question: string;
+  options: PollOption[];
+  allow_multiple: boolean;
+  anonymous: boolean;
+  created_by: string;
+  closes_at: string | null;
+  closed_at: string | null;
+  total_voters: number;
+  results: PollResult[];
+}
+
+export interface PollDraft {
+  question: string;
+  options: string[];
+  allowMultiple: boolean;
+  anonymous: boolean;
+  closesAt: string | null;
+}
+
+export type TaskStatus = 'backlog' | 'todo' | 'in_progress' | 'in_review' | 'blocked' | 'completed' | 'cancelled';
+
 export interface Task {
   id: string;
   title: string;
   description?: string;
-  status: 'todo' | 'in_progress' | 'completed' | 'cancelled';
+  status: TaskStatus;
   priority: 'low' | 'medium' | 'high' | 'urgent';
   due_date?: string;
   created_by: string;
@@ -66,12 +298,31 @@ export interface Task {
   updated_at: string;
   assignments?: TaskAssignment[];
   project_id?: string;
+  project?: Pick<Project, 'name'> | null;
   estimated_hours?: number;
   actual_hours?: number;
   story_points?: number;
   tags?: string[];
   blocked_reason?: string;
   parent_task_id?: string;
+  rank?: string | null;
+  dependencies?: TaskDependency[];
+  checklist?: TaskChecklistItem[];
+}
+
+export interface BoardColumn {
+  id: string;
+  title: string;
+  status: TaskStatus;
+  wip_limit: number | null;
+}
+
+export interface KanbanBoardConfig {
+  id: string | null;
+  project_id: string | null;
+  user_id: string | null;
+  columns: BoardColumn[];
+  updated_at?: string;
 }
 
 export interface TaskAssignment {
@@ -182,6 +433,18 @@ export interface TaskDependency {
   depends_on_task_id: string;
   dependency_type: 'finish_to_start' | 'start_to_start' | 'finish_to_finish' | 'start_to_finish';
   created_at: string;
+  predecessor?: Pick<Task, 'id' | 'title' | 'status'> | null;
+}
+
+export interface TaskChecklistItem {
+  id: string;
+  task_id: string;
+  content: string;
+  is_completed: boolean;
+  position: number;
+  created_by: string | null;
+  completed_at: string | null;
+  created_at: string;
 }
 
 export interface TaskComment {
@@ -218,6 +481,35 @@ export interface MeetingRecording {
   created_at: string;
 }
 
+// Number of messages loaded per page of channel history
+export const MESSAGE_PAGE_SIZE = 50;
+
+// Display names of task statuses, in workflow order
+export const TASK_STATUS_LABELS: Record<TaskStatus, string> = {
+  backlog: 'Backlog',
+  todo: 'To Do',
+  in_progress: 'In Progress',
+  in_review: 'In Review',
+  blocked: 'Blocked',
+  completed: 'Completed',
+  cancelled: 'Cancelled'
+};
+
+// Columns and relations loaded with every task
+const TASK_SELECT = `
+  *,
+  assignments:task_assignments(
+    user_id,
+    user:profiles(*)
+  ),
+  project:projects(name),
+  dependencies:task_dependencies!task_id(
+    id, task_id, depends_on_task_id, dependency_type, created_at,
+    predecessor:tasks!depends_on_task_id(id, title, status)
+  ),
+  checklist:task_checklist_items(*)
+`;
+
 // Enhanced API functions for workspace functionality
 export const workspaceAPI = {
   // Get channels for current user
@@ -261,27 +553,121 @@ export const workspaceAPI = {
     }
   },
 
-  // Get messages for a channel
-  async getMessagesForChannel(channelId: string): Promise<Message[]> {
+  // Get a page of messages for a channel, oldest first.
+  // Without a cursor the latest page is returned; `before` pages back through history
+  // and `after` fetches messages newer than the cursor. Cursors are (created_at, id) keys.
+  async getMessagesForChannel(channelId: string, options: MessagePageOptions = {}): Promise<MessagePage> {
+    const { before, after, limit = MESSAGE_PAGE_SIZE } = options;
+
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from('messages')
         .select(`
           *,
           sender:profiles(*)
         `)
         .eq('channel_id', channelId)
-        .order('created_at', { ascending: true })
-        .limit(100);
+        .is('thread_parent_id', null);
+
+      if (after) {
+        query = query
+          .or(`created_at.gt."${after.created_at}",and(created_at.eq."${after.created_at}",id.gt.${after.id})`)
+          .order('created_at', { ascending: true })
+          .order('id', { ascending: true });
+      } else {
+        if (before) {
+          query = query.or(`created_at.lt."${before.created_at}",and(created_at.eq."${before.created_at}",id.lt.${before.id})`);
+        }
+        query = query
+          .order('created_at', { ascending: false })
+          .order('id', { ascending: false });
+      }
+
+      // Fetch one extra row to know whether another page exists
+      const { data, error } = await query.limit(limit + 1);
 
       if (error) {
         console.error('Error fetching messages:', error);
+        return { messages: [], hasMore: false };
+      }
+
+      const rows = data || [];
+      const pageRows = rows.slice(0, limit);
+
+      return {
+        messages: after ? pageRows : pageRows.reverse(),
+        hasMore: rows.length > limit
+      };
+    } catch (error) {
+      console.error('Error in getMessagesForChannel:', error);
+      return { messages: [], hasMore: false };
+    }
+  },
+
+  // Get a single message with its sender
+  async getMessage(messageId: string): Promise<Message | null> {
+    try {
+      const { data, error } = await supabase
+        .from('messages')
+        .select(`
+          *,
+          sender:profiles(*)
+        `)
+        .eq('id', messageId)
+        .single();
+
+      if (error) {
+        console.error('Error fetching message:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error in getMessage:', error);
+      return null;
+    }
+  },
+
+  // Get replies in a message thread
+  async getThreadReplies(parentMessageId: string): Promise<Message[]> {
+    try {
+      const { data, error } = await supabase
+        .from('messages')
+        .select(`
+          *,
+          sender:profiles(*)
+        `)
+        .eq('thread_parent_id', parentMessageId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching thread replies:', error);
         return [];
       }
 
       return data || [];
     } catch (error) {
-      console.error('Error in getMessagesForChannel:', error);
+      console.error('Error in getThreadReplies:', error);
+      return [];
+    }
+  },
+
+  // Get all workspace members
+  async getWorkspaceMembers(): Promise<Profile[]> {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('*')
+        .order('full_name', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching workspace members:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error in getWorkspaceMembers:', error);
       return [];
     }
   },
@@ -292,14 +678,7 @@ export const workspaceAPI = {
       // Get tasks created by user
       const { data: createdTasks, error: createdError } = await supabase
         .from('tasks')
-        .select(`
-          *,
-          assignments:task_assignments(
-            user_id,
-            user:profiles(*)
-          ),
-          project:projects(name)
-        `)
+        .select(TASK_SELECT)
         .eq('created_by', userId);
 
       if (createdError) {
@@ -321,14 +700,7 @@ export const workspaceAPI = {
         const taskIds = assignedTaskIds.map(t => t.task_id);
         const { data: tasks, error: tasksError } = await supabase
           .from('tasks')
-          .select(`
-            *,
-            assignments:task_assignments(
-              user_id,
-              user:profiles(*)
-            ),
-            project:projects(name)
-          `)
+          .select(TASK_SELECT)
           .in('id', taskIds);
 
         if (tasksError) {
@@ -338,8 +710,24 @@ export const workspaceAPI = {
         }
       }
 
+      // Subtasks of these tasks, so every parent shows its full progress
+      const parentIds = [...(createdTasks || []), ...assignedTasks].map(task => task.id);
+      let subtasks: Task[] = [];
+      if (parentIds.length > 0) {
+        const { data: children, error: subtasksError } = await supabase
+          .from('tasks')
+          .select(TASK_SELECT)
+          .in('parent_task_id', parentIds);
+
+        if (subtasksError) {
+          console.error('Error fetching subtasks:', subtasksError);
+        } else {
+          subtasks = children || [];
+        }
+      }
+
       // Combine and deduplicate
-      const allTasks = [...(createdTasks || []), ...assignedTasks];
+      const allTasks = [...(createdTasks || []), ...assignedTasks, ...subtasks];
       const uniqueTasks = allTasks.filter((task, index, self) => 
         index === self.findIndex(t => t.id === task.id)
       );
@@ -466,6 +854,100 @@ export const workspaceAPI = {
       .subscribe();
   },
 
+  // New messages in every channel, used for unread counts
+  subscribeToAllMessages(userId: string, callback: (payload: RealtimePostgresInsertPayload<Message>) => void) {
+    return supabase
+      .channel(`all-messages:${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'messages',
+        },
+        callback
+      )
+      .subscribe();
+  },
+
+  // Read marker changes of a channel's members, used for read receipts
+  subscribeToChannelReadState(channelId: string, callback: (payload: RealtimePostgresUpdatePayload<ChannelMember>) => void) {
+    return supabase
+      .channel(`read-state:${channelId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'channel_members',
+          filter: `channel_id=eq.${channelId}`,
+        },
+        callback
+      )
+      .subscribe();
+  },
+
+  // Pins being added or removed. Delete events can't be filtered by channel,
+  // so callers match removed pins by id.
+  subscribeToPinnedMessages(channelId: string, callback: (payload: RealtimePostgresChangesPayload<PinnedMessage>) => void) {
+    return supabase
+      .channel(`pins:${channelId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'pinned_messages',
+        },
+        callback
+      )
+      .subscribe();
+  },
+
+  // Workspace-wide presence. Each tab tracks its own state under the user's key,
+  // so the callback receives one merged entry per user.
+  subscribeToPresence(userId: string, getPresence: () => PresenceState, callback: (presence: Record<string, PresenceState>) => void) {
+    const channel = supabase.channel('presence:workspace', {
+      config: { presence: { key: userId } }
+    });
+
+    const statusPriority: PresenceStatus[] = ['away', 'online', 'busy'];
+
+    return channel
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<PresenceState>();
+        const presence: Record<string, PresenceState> = {};
+        Object.entries(state).forEach(([key, tabs]) => {
+          presence[key] = tabs.reduce((merged, tab) =>
+            statusPriority.indexOf(tab.status) > statusPriority.indexOf(merged.status) ? tab : merged
+          );
+        });
+        callback(presence);
+      })
+      .subscribe((status) => {
+        // Track again after every (re)connect
+        if (status === 'SUBSCRIBED') {
+          channel.track(getPresence());
+        }
+      });
+  },
+
+  // Ephemeral typing notifications for a channel
+  subscribeToTyping(channelId: string, callback: (event: TypingEvent) => void) {
+    return supabase
+      .channel(`typing:${channelId}`)
+      .on('broadcast', { event: 'typing' }, ({ payload }) => callback(payload as TypingEvent))
+      .subscribe();
+  },
+
+  sendTyping(subscription: RealtimeChannel, event: TypingEvent) {
+    return subscription.send({
+      type: 'broadcast',
+      event: 'typing',
+      payload: event
+    });
+  },
+
   subscribeToTasks(userId: string, callback: (payload: any) => void) {
     return supabase
       .channel(`tasks:${userId}`)
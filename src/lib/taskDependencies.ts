@@ -0,0 +1,58 @@
+import { type Task, type TaskDependency, type TaskStatus } from './supabase';
+
+export const DEPENDENCY_TYPE_LABELS: Record<TaskDependency['dependency_type'], string> = {
+  finish_to_start: 'Can start when it finishes',
+  start_to_start: 'Can start when it starts',
+  finish_to_finish: 'Can finish when it finishes',
+  start_to_finish: 'Can finish when it starts'
+};
+
+export interface Blocker {
+  id: string;
+  title: string;
+  status: TaskStatus;
+  dependency_type: TaskDependency['dependency_type'];
+}
+
+const STARTED_STATUSES: TaskStatus[] = ['in_progress', 'in_review', 'completed', 'cancelled'];
+const FINISHED_STATUSES: TaskStatus[] = ['completed', 'cancelled'];
+const NOT_STARTED_STATUSES: TaskStatus[] = ['backlog', 'todo', 'blocked'];
+
+const isDependencyMet = (dependency: TaskDependency, predecessorStatus: TaskStatus) => {
+  return dependency.dependency_type.startsWith('finish_')
+    ? FINISHED_STATUSES.includes(predecessorStatus)
+    : STARTED_STATUSES.includes(predecessorStatus);
+};
+
+// Unmet dependencies that stop a task from moving to a status, using the freshest status known for
+// each predecessor. Starting needs the *_to_start dependencies met; completing needs all of them.
+export function getBlockers(task: Task, targetStatus: TaskStatus, tasksById: Map<string, Task>): Blocker[] {
+  if (targetStatus !== 'completed' && targetStatus !== 'in_progress' && targetStatus !== 'in_review') {
+    return [];
+  }
+
+  return (task.dependencies || [])
+    .filter(dependency => targetStatus === 'completed' || dependency.dependency_type.endsWith('_to_start'))
+    .flatMap(dependency => {
+      const predecessor = tasksById.get(dependency.depends_on_task_id) || dependency.predecessor;
+      if (!predecessor || isDependencyMet(dependency, predecessor.status)) return [];
+      return [{
+        id: predecessor.id,
+        title: predecessor.title,
+        status: predecessor.status,
+        dependency_type: dependency.dependency_type
+      }];
+    });
+}
+
+// Tasks that haven't started yet and can't start because of their dependencies
+export function getStartBlockers(task: Task, tasksById: Map<string, Task>) {
+  return NOT_STARTED_STATUSES.includes(task.status) ? getBlockers(task, 'in_progress', tasksById) : [];
+}
+
+// Text for the confirmation shown before moving a blocked task anyway
+export function describeBlockers(taskTitle: string, blockers: Pick<Blocker, 'title'>[]) {
+  return `"${taskTitle}" is blocked by ${blockers.map(blocker => `"${blocker.title}"`).join(', ')}, which ${
+    blockers.length === 1 ? "isn't" : "aren't"
+  } done yet.\n\nMove it anyway?`;
+}
@@ -1,8 +1,9 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ArrowLeft, Send, Bot, User, Loader2, Mail, MailOpen, Trash2, CheckSquare, Calendar, Download, RefreshCw, ExternalLink, Check, X, AlertCircle, Inbox, Users, FileText, Zap, ChevronDown, ChevronUp, Eye, Search, Video, Gamepad2, MessageSquare, Shield, Presentation, Sparkles } from 'lucide-react';
+import { ArrowLeft, Send, Bot, User, Loader2, Mail, MailOpen, Trash2, CheckSquare, Calendar, Download, RefreshCw, ExternalLink, Check, X, AlertCircle, Inbox, Users, FileText, Zap, ChevronDown, ChevronUp, Eye, Search, Video, Gamepad2, MessageSquare, Shield, Presentation, Sparkles, Pin, Bookmark } from 'lucide-react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import { type Channel, type PinnedMessage, type SavedItem } from '../lib/supabase';
 import ThemeToggle from '../components/ThemeToggle';
 import GlassCard from '../components/ui/GlassCard';
 import Button from '../components/ui/Button';
@@ -486,6 +487,50 @@ const AssistantPage: React.FC = () => {
       );
     }
 
+    // Pinned messages
+    if (data.pins) {
+      return (
+        <div className="space-y-3">
+          <h4 className="font-medium text-primary mb-2 flex items-center">
+            <Pin className="w-4 h-4 mr-2" />
+            Pinned Messages ({data.pins.length})
+          </h4>
+          {data.pins.map((pin: PinnedMessage & { channel?: Pick<Channel, 'name'> }) => (
+            <div key={pin.id} className="glass-panel p-3 rounded-lg">
+              <p className="text-sm text-primary whitespace-pre-wrap">{pin.message?.content}</p>
+              <div className="flex items-center space-x-4 mt-2 text-xs text-secondary">
+                {pin.channel?.name && <span>#{pin.channel.name}</span>}
+                <span>{pin.message?.sender?.full_name || pin.message?.sender?.username}</span>
+                <span>Pinned by {pin.pinned_by_user?.full_name || 'Unknown User'} on {new Date(pin.pinned_at).toLocaleDateString()}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    // Saved items
+    if (data.bookmarks) {
+      return (
+        <div className="space-y-3">
+          <h4 className="font-medium text-primary mb-2 flex items-center">
+            <Bookmark className="w-4 h-4 mr-2" />
+            Saved Items ({data.bookmarks.length})
+          </h4>
+          {data.bookmarks.map((bookmark: SavedItem) => (
+            <div key={bookmark.id} className="glass-panel p-3 rounded-lg">
+              <p className="text-sm text-primary whitespace-pre-wrap">{bookmark.message?.content}</p>
+              <div className="flex items-center space-x-4 mt-2 text-xs text-secondary">
+                {bookmark.message?.channel?.name && <span>#{bookmark.message.channel.name}</span>}
+                <span>{bookmark.message?.sender?.full_name || bookmark.message?.sender?.username}</span>
+                <span>Saved {new Date(bookmark.created_at).toLocaleDateString()}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      );
+    }
+
     // Calendar events
     if (data.events) {
       return (
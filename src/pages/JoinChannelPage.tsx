@@ -0,0 +1,144 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Hash, Lock, Users, AlertCircle } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { type ChannelInvitePreview } from '../lib/supabase';
+import GlassCard from '../components/ui/GlassCard';
+import Button from '../components/ui/Button';
+
+const INVALID_INVITE_MESSAGES: Record<Exclude<ChannelInvitePreview['status'], 'valid'>, string> = {
+  revoked: 'This invite has been revoked.',
+  expired: 'This invite has expired.',
+  used_up: 'This invite has reached its usage limit.'
+};
+
+const JoinChannelPage: React.FC = () => {
+  const { code } = useParams<{ code: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [invite, setInvite] = useState<ChannelInvitePreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [joining, setJoining] = useState(false);
+
+  useEffect(() => {
+    const loadInvite = async () => {
+      try {
+        const response = await fetch(`${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/invites/${code}`, {
+          credentials: 'include'
+        });
+        const data = await response.json();
+
+        if (data.success) {
+          setInvite(data.invite);
+          if (data.invite.status !== 'valid') {
+            setError(INVALID_INVITE_MESSAGES[data.invite.status as keyof typeof INVALID_INVITE_MESSAGES]);
+          }
+        } else {
+          setError(data.error || 'Invite not found');
+        }
+      } catch (error) {
+        console.error('Error loading invite:', error);
+        setError('Failed to load invite');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadInvite();
+  }, [code]);
+
+  const handleJoin = async () => {
+    if (!user) return;
+
+    setJoining(true);
+    try {
+      const response = await fetch(`${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/invites/${code}/redeem`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ userId: user.id })
+      });
+
+      const data = await response.json();
+      if (data.success) {
+        navigate('/workspace', { state: { channelId: data.channel_id } });
+      } else {
+        setError(data.error || 'Failed to join channel');
+      }
+    } catch (error) {
+      console.error('Error redeeming invite:', error);
+      setError('Failed to join channel');
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-primary flex items-center justify-center">
+        <div className="glass-panel rounded-2xl p-8 max-w-md mx-auto text-center">
+          <div className="animate-spin w-8 h-8 border-2 border-gold-text border-t-transparent rounded-full mx-auto mb-4"></div>
+          <h3 className="text-xl font-bold text-primary mb-2">Loading...</h3>
+          <p className="text-secondary">Checking your invite</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-primary flex items-center justify-center p-4">
+      <GlassCard className="p-8 w-full max-w-md text-center" goldBorder>
+        {invite && (
+          <>
+            <div className="w-16 h-16 bg-gradient-gold-silver rounded-2xl flex items-center justify-center mx-auto mb-4">
+              {invite.channel.type === 'private'
+                ? <Lock className="w-8 h-8 text-white" />
+                : <Hash className="w-8 h-8 text-white" />}
+            </div>
+            <p className="text-sm text-secondary mb-1">
+              {invite.creator?.full_name || invite.creator?.username || 'Someone'} invited you to join
+            </p>
+            <h2 className="text-2xl font-bold gradient-gold-silver mb-2">#{invite.channel.name}</h2>
+            {invite.channel.description && (
+              <p className="text-secondary mb-3">{invite.channel.description}</p>
+            )}
+            <p className="text-xs text-secondary flex items-center justify-center mb-6">
+              <Users className="w-3 h-3 mr-1" />
+              {invite.member_count} member{invite.member_count === 1 ? '' : 's'}
+            </p>
+          </>
+        )}
+
+        {error && (
+          <div className="p-3 glass-panel rounded-lg bg-red-500/10 border-red-500/30 text-red-400 text-sm flex items-center justify-center space-x-2 mb-6">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="flex space-x-4">
+          <Button
+            onClick={() => navigate('/workspace')}
+            variant="secondary"
+            className="flex-1"
+          >
+            {error ? 'Go to Workspace' : 'Cancel'}
+          </Button>
+          {!error && invite && (
+            <Button
+              onClick={handleJoin}
+              variant="premium"
+              className="flex-1"
+              disabled={joining}
+            >
+              {joining ? 'Joining...' : 'Join Channel'}
+            </Button>
+          )}
+        </div>
+      </GlassCard>
+    </div>
+  );
+};
+
+export default JoinChannelPage;
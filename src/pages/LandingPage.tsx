@@ -1,5 +1,5 @@
-import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useLocation } from 'react-router-dom';
 import { Bot, Gamepad2, Sparkles, ArrowRight, Users, Shield, Zap, LogOut, MessageSquare, CheckSquare, Calendar, Mail, Brain, FileText, Settings, Target, Video, Presentation, Stethoscope, Scale } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { useTheme } from '../contexts/ThemeContext';
@@ -18,6 +18,7 @@ import logoLight from '../../public/logo(light).svg';
 
 const LandingPage: React.FC = () => {
   const navigate = useNavigate();
+  const location = useLocation();
   const { isAuthenticated, signOut } = useAuth();
   const { isDark } = useTheme();
   const [authModal, setAuthModal] = useState<{ isOpen: boolean; mode: 'signin' | 'signup' }>({
@@ -28,6 +29,14 @@ const LandingPage: React.FC = () => {
   // Initialize scroll reveal animations
   useScrollReveal();
 
+  // Return to the page a protected route redirected from (e.g. an invite link) once signed in
+  useEffect(() => {
+    const from = (location.state as { from?: { pathname: string } } | null)?.from;
+    if (isAuthenticated && from?.pathname) {
+      navigate(from.pathname, { replace: true });
+    }
+  }, [isAuthenticated, location.state, navigate]);
+
   // Stats data for showcase
   const statsData = [
     { value: '10000', label: 'Active Users', suffix: '+' },
@@ -1,19 +1,29 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ArrowLeft, Hash, Users, Plus, Settings, Calendar, CheckSquare, MessageSquare, Upload, Paperclip, UserPlus, Clock, Target, TrendingUp, Video, Loader2, ExternalLink, FileText, Presentation, Kanban as LayoutKanban } from 'lucide-react';
-import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Search, Hash, Users, Plus, Settings, Calendar, CheckSquare, MessageSquare, Upload, Paperclip, UserPlus, Clock, Target, TrendingUp, Video, Loader2, ExternalLink, FileText, Presentation, Kanban as LayoutKanban, Bookmark } from 'lucide-react';
+import { useNavigate, useLocation } from 'react-router-dom';
+import type { RealtimeChannel } from '@supabase/supabase-js';
 import { useAuth } from '../contexts/AuthContext';
-import { supabase, workspaceAPI, type Channel, type Message, type Task } from '../lib/supabase';
+import { type User } from '../lib/auth';
+import { supabase, workspaceAPI, type Channel, type Message, type MessageCursor, type Task, type FileAttachment, type SearchResult, type ChannelUnreadCount, type ChannelReadState, type PresenceState, type PresenceStatus, type TypingEvent, type PinnedMessage, type SavedItem, type ChannelRole, type ScheduledMessage, type Poll, type PollDraft } from '../lib/supabase';
 import { meetingService } from '../services/meetingService';
+import { type SlashCommandContext } from '../lib/slashCommands';
+import { toDateTimeLocalValue } from '../lib/utils';
 import ThemeToggle from '../components/ThemeToggle';
 import ChatPanel from '../components/ChatPanel';
 import ChannelList from '../components/ChannelList';
+import MemberList from '../components/MemberList';
 import TaskPanel from '../components/TaskPanel';
 import CalendarPanel from '../components/CalendarPanel';
 import DocumentGenerationPanel from '../components/DocumentGenerationPanel';
 import KanbanBoard from '../components/KanbanBoard';
 import CreateChannelMeetingModal from '../components/CreateChannelMeetingModal';
 import NotificationManager from '../components/NotificationManager';
+import SearchPalette from '../components/SearchPalette';
+import SavedItemsPanel from '../components/SavedItemsPanel';
+import ChannelSettingsModal from '../components/ChannelSettingsModal';
+import ScheduledMessagesPanel from '../components/ScheduledMessagesPanel';
+import CreatePollModal from '../components/CreatePollModal';
 import GlassCard from '../components/ui/GlassCard';
 import Button from '../components/ui/Button';
 const VITE_AI_API_URL = import.meta.env.VITE_AI_API_URL;
@@ -23,36 +33,237 @@ const VITE_WORKSPACE_API_URL = import.meta.env.VITE_WORKSPACE_API_URL;
 const VITE_APP_URL = import.meta.env.VITE_APP_URL;
 const FRONTEND_URL = import.meta.env.VITE_FRONTEND_URL;
 
+const buildPresenceState = (user: User, status: PresenceStatus): PresenceState => ({
+  user_id: user.id,
+  username: user.username,
+  full_name: user.full_name,
+  status,
+  online_at: new Date().toISOString()
+});
+
 const WorkspacePage: React.FC = () => {
   const navigate = useNavigate();
-  const { user, isGoogleConnected } = useAuth();
-  const [channels, setChannels] = useState<(Channel & { is_member?: boolean })[]>([]);
+  const location = useLocation();
+  const { user, isGoogleConnected, presenceStatus, setPresenceStatus } = useAuth();
+  const [channels, setChannels] = useState<(Channel & { is_member?: boolean; member_role?: ChannelRole | null })[]>([]);
   const [activeChannel, setActiveChannel] = useState<Channel | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
+  const [hasMoreMessages, setHasMoreMessages] = useState(false);
+  const [loadingOlderMessages, setLoadingOlderMessages] = useState(false);
+  const messagesRef = useRef<Message[]>([]);
+  const [activeThread, setActiveThread] = useState<Message | null>(null);
+  const [threadReplies, setThreadReplies] = useState<Message[]>([]);
+  const activeThreadRef = useRef<Message | null>(null);
   const [tasks, setTasks] = useState<Task[]>([]);
-  const [activePanel, setActivePanel] = useState<'chat' | 'tasks' | 'calendar' | 'documents' | 'kanban'>('chat');
+  // A shared board link opens straight on the Kanban board
+  const [activePanel, setActivePanel] = useState<'chat' | 'tasks' | 'calendar' | 'documents' | 'kanban'>(
+    new URLSearchParams(location.search).get('panel') === 'kanban' ? 'kanban' : 'chat'
+  );
   const [loading, setLoading] = useState(true);
   const [isCreatingMeeting, setIsCreatingMeeting] = useState(false);
   const [showMeetingModal, setShowMeetingModal] = useState(false);
   const [selectedChannelForMeeting, setSelectedChannelForMeeting] = useState<{id: string, name: string} | null>(null);
+  const [showSearch, setShowSearch] = useState(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [highlightedTaskId, setHighlightedTaskId] = useState<string | null>(null);
+  const [calendarFocusDate, setCalendarFocusDate] = useState<string | null>(null);
+  const pendingJumpRef = useRef<{ messageId: string; openThread: boolean } | null>(null);
+  const [unreadCounts, setUnreadCounts] = useState<Record<string, ChannelUnreadCount>>({});
+  const [readState, setReadState] = useState<ChannelReadState[]>([]);
+  const [newMessagesSince, setNewMessagesSince] = useState<string | null>(null);
+  const activeChannelRef = useRef<Channel | null>(null);
+  const activePanelRef = useRef(activePanel);
+  const [presence, setPresence] = useState<Record<string, PresenceState>>({});
+  const [typingUsers, setTypingUsers] = useState<TypingEvent[]>([]);
+  const presenceChannelRef = useRef<RealtimeChannel | null>(null);
+  const presenceStatusRef = useRef(presenceStatus);
+  const typingChannelRef = useRef<RealtimeChannel | null>(null);
+  const [pinnedMessages, setPinnedMessages] = useState<PinnedMessage[]>([]);
+  const [savedItems, setSavedItems] = useState<SavedItem[]>([]);
+  const [showSavedItems, setShowSavedItems] = useState(false);
+  const [showChannelSettings, setShowChannelSettings] = useState(false);
+  const [scheduledMessages, setScheduledMessages] = useState<ScheduledMessage[]>([]);
+  const [showScheduledMessages, setShowScheduledMessages] = useState(false);
+  const [showPollModal, setShowPollModal] = useState(false);
+  // Channel to open first, e.g. after joining through an invite link
+  const requestedChannelIdRef = useRef<string | null>((location.state as { channelId?: string } | null)?.channelId || null);
+
+  // Board filters in the URL only apply while the board is open
+  useEffect(() => {
+    if (activePanel !== 'kanban' && location.search) {
+      navigate({ search: '' }, { replace: true });
+    }
+  }, [activePanel, location.search, navigate]);
 
   useEffect(() => {
     if (user) {
       loadChannels();
       loadTasks();
+      loadSavedItems(user.id);
+      loadScheduledMessages(user.id);
     }
   }, [user]);
 
   useEffect(() => {
+    activeThreadRef.current = activeThread;
+  }, [activeThread]);
+
+  useEffect(() => {
+    activeChannelRef.current = activeChannel;
+  }, [activeChannel]);
+
+  useEffect(() => {
+    activePanelRef.current = activePanel;
+  }, [activePanel]);
+
+  useEffect(() => {
+    messagesRef.current = messages;
+  }, [messages]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    // Share our status with the workspace; AuthService decides between online, away and busy
+    const presenceChannel = workspaceAPI.subscribeToPresence(
+      user.id,
+      () => buildPresenceState(user, presenceStatusRef.current),
+      setPresence
+    );
+    presenceChannelRef.current = presenceChannel;
+
+    return () => {
+      presenceChannelRef.current = null;
+      presenceChannel.unsubscribe();
+      setPresence({});
+    };
+  }, [user]);
+
+  useEffect(() => {
+    presenceStatusRef.current = presenceStatus;
+    if (user && presenceChannelRef.current?.state === 'joined') {
+      presenceChannelRef.current.track(buildPresenceState(user, presenceStatus));
+    }
+  }, [presenceStatus, user]);
+
+  useEffect(() => {
+    setPinnedMessages([]);
+    if (!activeChannel || !user) return;
+
+    const channelId = activeChannel.id;
+    loadPinnedMessages(channelId, user.id);
+
+    const pinSubscription = workspaceAPI.subscribeToPinnedMessages(channelId, (payload) => {
+      if (payload.eventType === 'DELETE') {
+        setPinnedMessages(prev => prev.filter(pin => pin.id !== payload.old.id));
+      } else if (payload.new?.channel_id === channelId) {
+        loadPinnedMessages(channelId, user.id);
+      }
+    });
+
+    return () => {
+      pinSubscription.unsubscribe();
+    };
+  }, [activeChannel, user]);
+
+  useEffect(() => {
+    setTypingUsers([]);
+    if (!activeChannel || !user) return;
+
+    // Typing events expire unless repeated, in case a "stopped typing" event is missed
+    const expiryTimeouts: Record<string, ReturnType<typeof setTimeout>> = {};
+    const removeTypingUser = (userId: string) => {
+      clearTimeout(expiryTimeouts[userId]);
+      delete expiryTimeouts[userId];
+      setTypingUsers(prev => prev.filter(typing => typing.user_id !== userId));
+    };
+
+    const typingChannel = workspaceAPI.subscribeToTyping(activeChannel.id, (event) => {
+      if (event.user_id === user.id) return;
+      if (!event.is_typing) {
+        removeTypingUser(event.user_id);
+        return;
+      }
+
+      clearTimeout(expiryTimeouts[event.user_id]);
+      expiryTimeouts[event.user_id] = setTimeout(() => removeTypingUser(event.user_id), 6000);
+      setTypingUsers(prev => [...prev.filter(typing => typing.user_id !== event.user_id), event]);
+    });
+    typingChannelRef.current = typingChannel;
+
+    return () => {
+      Object.values(expiryTimeouts).forEach(clearTimeout);
+      typingChannelRef.current = null;
+      typingChannel.unsubscribe();
+    };
+  }, [activeChannel, user]);
+
+  useEffect(() => {
+    // Ctrl+K / Cmd+K opens workspace search
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setShowSearch(true);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    // Search highlights fade after a few seconds
+    if (!highlightedMessageId && !highlightedTaskId && !calendarFocusDate) return;
+
+    const timeout = setTimeout(() => {
+      setHighlightedMessageId(null);
+      setHighlightedTaskId(null);
+      setCalendarFocusDate(null);
+    }, 4000);
+
+    return () => clearTimeout(timeout);
+  }, [highlightedMessageId, highlightedTaskId, calendarFocusDate]);
+
+  useEffect(() => {
+    // Threads belong to a single channel
+    setActiveThread(null);
+    setThreadReplies([]);
+
     if (activeChannel) {
-      loadMessages(activeChannel.id);
+      // A search result in another channel jumps straight to the matching message
+      const pendingJump = pendingJumpRef.current;
+      pendingJumpRef.current = null;
+      if (pendingJump) {
+        loadMessagesAround(activeChannel.id, pendingJump.messageId, pendingJump.openThread);
+      } else {
+        loadMessages(activeChannel.id);
+      }
       
       // Subscribe to real-time messages for this channel
       const subscription = workspaceAPI.subscribeToChannel(activeChannel.id, (payload) => {
         //console.log('Real-time message update:', payload);
         if (payload.eventType === 'INSERT') {
-          // Fetch the complete message with sender info
-          loadMessages(activeChannel.id);
+          const threadParentId = payload.new?.thread_parent_id;
+          if (threadParentId) {
+            // Thread replies only show up in the thread panel
+            if (activeThreadRef.current?.id === threadParentId) {
+              loadThreadReplies(threadParentId);
+            }
+          } else {
+            // Fetch the new message(s) with sender info and append them
+            loadNewMessages(activeChannel.id);
+          }
+        } else if (payload.eventType === 'UPDATE') {
+          // Reply counts are kept on the parent row, so merge updated columns in place
+          setMessages(prev => prev.map(m => m.id === payload.new.id ? { ...m, ...payload.new, sender: m.sender } : m));
+          if (activeThreadRef.current?.id === payload.new.id) {
+            setActiveThread(prev => prev ? { ...prev, ...payload.new, sender: prev.sender } : prev);
+          }
+          if (payload.new.thread_parent_id) {
+            setThreadReplies(prev => prev.map(m => m.id === payload.new.id ? { ...m, ...payload.new, sender: m.sender } : m));
+          }
+        } else if (payload.eventType === 'DELETE') {
+          setMessages(prev => prev.filter(m => m.id !== payload.old.id));
+          setThreadReplies(prev => prev.filter(m => m.id !== payload.old.id));
         }
       });
 
@@ -68,13 +279,23 @@ const WorkspacePage: React.FC = () => {
     // Subscribe to real-time task updates
     const taskSubscription = workspaceAPI.subscribeToTasks(user.id, (payload) => {
       //console.log('Real-time task update:', payload);
-      loadTasks();
+      // Updates are merged in place so board moves by others don't reload every task
+      if (payload.eventType === 'UPDATE') {
+        applyTaskChange(payload.new);
+      } else {
+        loadTasks();
+      }
     });
 
     // Subscribe to real-time channel updates
     const channelSubscription = workspaceAPI.subscribeToChannels(user.id, (payload) => {
       //console.log('Real-time channel update:', payload);
+      // Keep the open channel current, e.g. when an admin archives or restores it
+      if (payload.eventType === 'UPDATE') {
+        setActiveChannel(prev => (prev?.id === payload.new.id ? { ...prev, ...payload.new } : prev));
+      }
       loadChannels();
+      loadUnreadCounts(user.id);
     });
 
     return () => {
@@ -83,6 +304,91 @@ const WorkspacePage: React.FC = () => {
     };
   }, [user]);
 
+  useEffect(() => {
+    if (!user) return;
+
+    loadUnreadCounts(user.id);
+
+    // Messages in the channel being viewed are read right away; others update the unread badges
+    const isViewingChannel = (channelId: string) =>
+      activeChannelRef.current?.id === channelId &&
+      activePanelRef.current === 'chat' &&
+      document.visibilityState === 'visible';
+
+    let unreadRefreshTimeout: ReturnType<typeof setTimeout> | undefined;
+    let markReadTimeout: ReturnType<typeof setTimeout> | undefined;
+
+    const messageSubscription = workspaceAPI.subscribeToAllMessages(user.id, (payload) => {
+      const message = payload.new;
+
+      // A scheduled message went out; it is no longer pending
+      if (message?.sender_id === user.id && message.metadata?.scheduled_message_id) {
+        setScheduledMessages(prev => prev.filter(m => m.id !== message.metadata.scheduled_message_id));
+      }
+
+      if (!message || message.sender_id === user.id || message.thread_parent_id) return;
+
+      // Debounce bursts of messages into a single request
+      if (isViewingChannel(message.channel_id)) {
+        clearTimeout(markReadTimeout);
+        markReadTimeout = setTimeout(() => markChannelRead(message.channel_id, user.id), 500);
+      } else {
+        clearTimeout(unreadRefreshTimeout);
+        unreadRefreshTimeout = setTimeout(() => loadUnreadCounts(user.id), 500);
+      }
+    });
+
+    const handleVisibilityChange = () => {
+      const channel = activeChannelRef.current;
+      if (channel && isViewingChannel(channel.id)) {
+        markChannelRead(channel.id, user.id);
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      clearTimeout(unreadRefreshTimeout);
+      clearTimeout(markReadTimeout);
+      messageSubscription.unsubscribe();
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [user]);
+
+  useEffect(() => {
+    setReadState([]);
+    setNewMessagesSince(null);
+    if (!activeChannel || !user) return;
+
+    const channelId = activeChannel.id;
+
+    // Remember where the user left off for the "new messages" divider, then mark the channel read
+    loadReadState(channelId, user.id).then(members => {
+      if (activeChannelRef.current?.id !== channelId) return;
+      const ownState = members.find(member => member.user_id === user.id);
+      setNewMessagesSince(ownState?.last_read_at || null);
+      if (activePanelRef.current === 'chat') {
+        markChannelRead(channelId, user.id);
+      }
+    });
+
+    // Keep read receipts live
+    const readStateSubscription = workspaceAPI.subscribeToChannelReadState(channelId, () => {
+      loadReadState(channelId, user.id);
+    });
+
+    return () => {
+      readStateSubscription.unsubscribe();
+    };
+  }, [activeChannel, user]);
+
+  useEffect(() => {
+    // Returning to the chat panel reads the active channel
+    const channel = activeChannelRef.current;
+    if (activePanel === 'chat' && channel && user) {
+      markChannelRead(channel.id, user.id);
+    }
+  }, [activePanel, user]);
+
   const loadChannels = async () => {
     if (!user) return;
     
@@ -96,13 +402,17 @@ const WorkspacePage: React.FC = () => {
       if (data.success) {
         setChannels(data.channels);
         
-        // Set first channel as active if none selected
+        // Set the requested or first channel as active if none selected
         if (data.channels.length > 0 && !activeChannel) {
           const memberChannels = data.channels.filter((c: any) => c.is_member);
+          const requestedChannel = memberChannels.find((c: Channel) => c.id === requestedChannelIdRef.current);
+          requestedChannelIdRef.current = null;
           if (memberChannels.length > 0) {
-            setActiveChannel(memberChannels[0]);
+            setActiveChannel(requestedChannel || memberChannels[0]);
           }
         }
+
+        return data.channels as Channel[];
       }
     } catch (error) {
       console.error('Error loading channels:', error);
@@ -111,15 +421,222 @@ const WorkspacePage: React.FC = () => {
     }
   };
 
+  const loadUnreadCounts = async (userId: string) => {
+    try {
+      const response = await fetch(`${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/unread/${userId}`, {
+        credentials: 'include'
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        const counts: Record<string, ChannelUnreadCount> = {};
+        data.counts.forEach((count: ChannelUnreadCount) => {
+          counts[count.channel_id] = count;
+        });
+        setUnreadCounts(counts);
+      }
+    } catch (error) {
+      console.error('Error loading unread counts:', error);
+    }
+  };
+
+  const loadReadState = async (channelId: string, userId: string): Promise<ChannelReadState[]> => {
+    try {
+      const response = await fetch(`${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/channels/${channelId}/read-state?userId=${userId}`, {
+        credentials: 'include'
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setReadState(data.members);
+        return data.members;
+      }
+    } catch (error) {
+      console.error('Error loading read state:', error);
+    }
+    return [];
+  };
+
+  const loadPinnedMessages = async (channelId: string, userId: string) => {
+    try {
+      const response = await fetch(`${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/channels/${channelId}/pins?userId=${userId}`, {
+        credentials: 'include'
+      });
+
+      const data = await response.json();
+
+      // Ignore responses for a channel the user already left
+      if (data.success && activeChannelRef.current?.id === channelId) {
+        setPinnedMessages(data.pins);
+      }
+    } catch (error) {
+      console.error('Error loading pinned messages:', error);
+    }
+  };
+
+  const loadSavedItems = async (userId: string) => {
+    try {
+      const response = await fetch(`${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/bookmarks/${userId}`, {
+        credentials: 'include'
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setSavedItems(data.bookmarks);
+      }
+    } catch (error) {
+      console.error('Error loading saved items:', error);
+    }
+  };
+
+  const loadScheduledMessages = async (userId: string) => {
+    try {
+      const response = await fetch(`${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/scheduled-messages/${userId}`, {
+        credentials: 'include'
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setScheduledMessages(data.scheduled_messages);
+      }
+    } catch (error) {
+      console.error('Error loading scheduled messages:', error);
+    }
+  };
+
+  const markChannelRead = async (channelId: string, userId: string) => {
+    try {
+      const response = await fetch(`${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/channels/${channelId}/read`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({ userId })
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setUnreadCounts(prev => ({
+          ...prev,
+          [channelId]: { channel_id: channelId, unread_count: 0, mention_count: 0 }
+        }));
+      } else {
+        console.error('Error marking channel as read:', data.error);
+      }
+    } catch (error) {
+      console.error('Error marking channel as read:', error);
+    }
+  };
+
   const loadMessages = async (channelId: string) => {
     try {
-      const messageData = await workspaceAPI.getMessagesForChannel(channelId);
-      setMessages(messageData);
+      const page = await workspaceAPI.getMessagesForChannel(channelId);
+      setMessages(page.messages);
+      setHasMoreMessages(page.hasMore);
     } catch (error) {
       console.error('Error loading messages:', error);
     }
   };
 
+  const loadMessagesAround = async (channelId: string, messageId: string, openThread = false) => {
+    try {
+      const target = await workspaceAPI.getMessage(messageId);
+      if (!target || target.channel_id !== channelId) {
+        // The message is gone; fall back to the latest page
+        const page = await workspaceAPI.getMessagesForChannel(channelId);
+        setMessages(page.messages);
+        setHasMoreMessages(page.hasMore);
+        return;
+      }
+
+      const olderPage = await workspaceAPI.getMessagesForChannel(channelId, { before: target });
+
+      // Load everything after the target so realtime appends continue from the newest message
+      const newerMessages: Message[] = [];
+      let cursor: MessageCursor = target;
+      for (;;) {
+        const page = await workspaceAPI.getMessagesForChannel(channelId, { after: cursor });
+        newerMessages.push(...page.messages);
+        if (!page.hasMore || page.messages.length === 0) break;
+        cursor = page.messages[page.messages.length - 1];
+      }
+
+      setMessages([...olderPage.messages, target, ...newerMessages]);
+      setHasMoreMessages(olderPage.hasMore);
+      setHighlightedMessageId(target.id);
+
+      if (openThread) {
+        setActiveThread(target);
+        setThreadReplies(await workspaceAPI.getThreadReplies(target.id));
+      }
+    } catch (error) {
+      console.error('Error loading messages around search result:', error);
+    }
+  };
+
+  const loadOlderMessages = async () => {
+    const oldestMessage = messagesRef.current[0];
+    if (!activeChannel || !oldestMessage || loadingOlderMessages) return;
+
+    setLoadingOlderMessages(true);
+    try {
+      const page = await workspaceAPI.getMessagesForChannel(activeChannel.id, { before: oldestMessage });
+      setMessages(prev => {
+        const knownIds = new Set(prev.map(m => m.id));
+        return [...page.messages.filter(m => !knownIds.has(m.id)), ...prev];
+      });
+      setHasMoreMessages(page.hasMore);
+    } catch (error) {
+      console.error('Error loading older messages:', error);
+    } finally {
+      setLoadingOlderMessages(false);
+    }
+  };
+
+  const loadNewMessages = async (channelId: string) => {
+    const newestMessage = messagesRef.current[messagesRef.current.length - 1];
+
+    try {
+      // An empty channel has no cursor yet, so fall back to the latest page
+      const page = await workspaceAPI.getMessagesForChannel(channelId, newestMessage ? { after: newestMessage } : {});
+      setMessages(prev => {
+        const knownIds = new Set(prev.map(m => m.id));
+        return [...prev, ...page.messages.filter(m => !knownIds.has(m.id))];
+      });
+      if (!newestMessage) {
+        setHasMoreMessages(page.hasMore);
+      }
+    } catch (error) {
+      console.error('Error loading new messages:', error);
+    }
+  };
+
+  const loadThreadReplies = async (parentMessageId: string) => {
+    try {
+      const replies = await workspaceAPI.getThreadReplies(parentMessageId);
+      setThreadReplies(replies);
+    } catch (error) {
+      console.error('Error loading thread replies:', error);
+    }
+  };
+
+  const handleOpenThread = (message: Message) => {
+    setActiveThread(message);
+    setThreadReplies([]);
+    loadThreadReplies(message.id);
+  };
+
+  const handleCloseThread = () => {
+    setActiveThread(null);
+    setThreadReplies([]);
+  };
+
   const loadTasks = async () => {
     if (!user) return;
     
@@ -131,6 +648,15 @@ const WorkspacePage: React.FC = () => {
     }
   };
 
+  // Merge a changed task into the list; when updates race, the most recent write wins
+  const applyTaskChange = (change: Partial<Task> & Pick<Task, 'id'>) => {
+    setTasks(prev => prev.map(task => {
+      if (task.id !== change.id) return task;
+      if (change.updated_at && task.updated_at && new Date(change.updated_at) < new Date(task.updated_at)) return task;
+      return { ...task, ...change };
+    }));
+  };
+
   const handleBack = () => {
     navigate('/dashboard');
   };
@@ -151,35 +677,125 @@ const WorkspacePage: React.FC = () => {
     setActivePanel('chat'); // Always switch to chat when selecting a channel
   };
 
-  const uploadFile = async (file: File): Promise<string> => {
-    // In a real implementation, you would upload to a cloud storage service
-    // For now, we'll create a mock URL
-    return new Promise((resolve) => {
-      setTimeout(() => {
-        const mockUrl = `https://example.com/uploads/${file.name}`;
-        resolve(mockUrl);
-      }, 1000);
+  const jumpToMessage = (channelId: string, messageId: string, threadParentId?: string | null) => {
+    const channel = channels.find(c => c.id === channelId && c.is_member);
+    if (!channel) return;
+
+    // Thread replies open their thread next to the root message
+    const rootMessageId = threadParentId || messageId;
+    const openThread = !!threadParentId;
+
+    setActivePanel('chat');
+    if (activeChannel?.id === channel.id) {
+      loadMessagesAround(channel.id, rootMessageId, openThread);
+    } else {
+      pendingJumpRef.current = { messageId: rootMessageId, openThread };
+      setActiveChannel(channel);
+    }
+  };
+
+  const handleSelectPin = (pin: PinnedMessage) => {
+    jumpToMessage(pin.channel_id, pin.message_id, pin.message?.thread_parent_id);
+  };
+
+  const handleSelectSavedItem = (item: SavedItem) => {
+    if (!item.message) return;
+    setShowSavedItems(false);
+    jumpToMessage(item.message.channel_id, item.message_id, item.message.thread_parent_id);
+  };
+
+  const handleSearchResultSelect = (result: SearchResult) => {
+    switch (result.result_type) {
+      case 'message':
+        if (result.channel_id) {
+          jumpToMessage(result.channel_id, result.id, result.thread_parent_id);
+        }
+        break;
+      case 'task':
+      case 'comment':
+        setHighlightedTaskId(result.task_id);
+        setActivePanel('tasks');
+        break;
+      case 'event':
+        setCalendarFocusDate(result.occurred_at);
+        setActivePanel('calendar');
+        break;
+      case 'project':
+        // Projects have no page of their own; their tasks are listed in the task panel
+        setActivePanel('tasks');
+        break;
+    }
+  };
+
+  const uploadFile = async (file: File): Promise<FileAttachment> => {
+    const params = new URLSearchParams({
+      userId: user!.id,
+      filename: file.name,
+      mimeType: file.type || 'application/octet-stream'
     });
+
+    const response = await fetch(`${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/attachments?${params.toString()}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/octet-stream',
+      },
+      credentials: 'include',
+      body: file
+    });
+
+    const data = await response.json();
+
+    if (!data.success) {
+      throw new Error(data.error || `Failed to upload ${file.name}`);
+    }
+
+    return data.attachment;
+  };
+
+  const requestLinkPreviews = async (messageId: string) => {
+    if (!user) return;
+
+    try {
+      await fetch(`${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/messages/${messageId}/link-previews`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({ userId: user.id })
+      });
+    } catch (error) {
+      console.error('Error requesting link previews:', error);
+    }
   };
 
-  const handleSendMessage = async (content: string, mentions: string[] = [], attachments: File[] = []) => {
+  const handleSendMessage = async (content: string, mentions: string[] = [], attachments: File[] = [], threadParentId?: string) => {
     if (!activeChannel || !user) return;
 
     try {
       // Upload attachments first
       const uploadedAttachments = [];
       for (const file of attachments) {
-        const url = await uploadFile(file);
-        uploadedAttachments.push({
-          id: Date.now().toString() + Math.random(),
-          name: file.name,
-          type: file.type,
-          size: file.size,
-          url: url
-        });
+        try {
+          const attachment = await uploadFile(file);
+          const attachmentUrl = `${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/attachments/${attachment.id}`;
+          uploadedAttachments.push({
+            id: attachment.id,
+            name: attachment.original_filename,
+            type: attachment.mime_type,
+            size: attachment.file_size,
+            url: `${attachmentUrl}/content`,
+            download_url: `${attachmentUrl}/download`
+          });
+        } catch (error) {
+          console.error('Error uploading attachment:', error);
+          alert(error instanceof Error ? error.message : `Failed to upload ${file.name}`);
+          return;
+        }
       }
 
-      // Send message to database
+      // Send message to database; a database trigger links the uploaded attachments to it in the
+      // same transaction, so other members can open them as soon as the message arrives
       const { data: messageData, error } = await supabase
         .from('messages')
         .insert({
@@ -187,7 +803,8 @@ const WorkspacePage: React.FC = () => {
           sender_id: user.id,
           content,
           type: 'text',
-          metadata: uploadedAttachments.length > 0 ? { attachments: uploadedAttachments } : {}
+          metadata: uploadedAttachments.length > 0 ? { attachments: uploadedAttachments } : {},
+          thread_parent_id: threadParentId || null
         })
         .select(`
           *,
@@ -200,6 +817,11 @@ const WorkspacePage: React.FC = () => {
         return;
       }
 
+      // Previews are added to the message metadata and arrive through the realtime update
+      if (/https?:\/\//i.test(content)) {
+        requestLinkPreviews(messageData.id);
+      }
+
       // Process with AI for task detection (only for text messages)
       if (content && content !== '[Media]') {
         await processMessageForTasks(messageData, mentions);
@@ -210,6 +832,11 @@ const WorkspacePage: React.FC = () => {
     }
   };
 
+  const handleSendThreadReply = (content: string, mentions: string[]) => {
+    if (!activeThread) return;
+    handleSendMessage(content, mentions, [], activeThread.id);
+  };
+
   const handleEditMessage = async (messageId: string, newContent: string) => {
     try {
       const response = await fetch(`${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/messages/${messageId}`, {
@@ -227,10 +854,12 @@ const WorkspacePage: React.FC = () => {
       const data = await response.json();
       
       if (data.success) {
-        // Reload messages to show the edit
-        if (activeChannel) {
-          loadMessages(activeChannel.id);
-        }
+        // Show the edit right away; the realtime update carries the stored row
+        const applyEdit = (m: Message) => m.id === messageId
+          ? { ...m, content: newContent, edited_at: new Date().toISOString() }
+          : m;
+        setMessages(prev => prev.map(applyEdit));
+        setThreadReplies(prev => prev.map(applyEdit));
       } else {
         console.error('Error editing message:', data.error);
       }
@@ -239,6 +868,104 @@ const WorkspacePage: React.FC = () => {
     }
   };
 
+  const handleTyping = (isTyping: boolean) => {
+    if (!user || !typingChannelRef.current) return;
+
+    workspaceAPI.sendTyping(typingChannelRef.current, {
+      user_id: user.id,
+      name: user.full_name || user.username,
+      is_typing: isTyping
+    });
+  };
+
+  const handleToggleReaction = async (messageId: string, emoji: string) => {
+    if (!user) return;
+
+    try {
+      const response = await fetch(`${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/messages/${messageId}/reactions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          userId: user.id,
+          emoji
+        })
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        // Apply the new summary right away; the realtime update will carry it to everyone else
+        const applyReactions = (m: Message) => m.id === messageId ? { ...m, reactions: data.reactions } : m;
+        setMessages(prev => prev.map(applyReactions));
+        setThreadReplies(prev => prev.map(applyReactions));
+        setActiveThread(prev => prev ? applyReactions(prev) : prev);
+      } else {
+        console.error('Error toggling reaction:', data.error);
+      }
+    } catch (error) {
+      console.error('Error toggling reaction:', error);
+    }
+  };
+
+  const handleTogglePin = async (messageId: string) => {
+    if (!user || !activeChannel) return;
+
+    const isPinned = pinnedMessages.some(pin => pin.message_id === messageId);
+
+    try {
+      const response = await fetch(`${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/messages/${messageId}/pin`, {
+        method: isPinned ? 'DELETE' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({ userId: user.id })
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        loadPinnedMessages(activeChannel.id, user.id);
+      } else {
+        console.error('Error updating pin:', data.error);
+        alert(data.error || 'Failed to update pin');
+      }
+    } catch (error) {
+      console.error('Error updating pin:', error);
+    }
+  };
+
+  const handleToggleSaved = async (messageId: string) => {
+    if (!user) return;
+
+    const isSaved = savedItems.some(item => item.message_id === messageId);
+
+    try {
+      const response = await fetch(`${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/messages/${messageId}/bookmark`, {
+        method: isSaved ? 'DELETE' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({ userId: user.id })
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        loadSavedItems(user.id);
+      } else {
+        console.error('Error updating saved items:', data.error);
+        alert(data.error || 'Failed to update saved items');
+      }
+    } catch (error) {
+      console.error('Error updating saved items:', error);
+    }
+  };
+
   const handleDeleteMessage = async (messageId: string) => {
     try {
       const response = await fetch(`${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/messages/${messageId}`, {
@@ -255,10 +982,15 @@ const WorkspacePage: React.FC = () => {
       const data = await response.json();
       
       if (data.success) {
-        // Reload messages to reflect the deletion
-        if (activeChannel) {
-          loadMessages(activeChannel.id);
-        }
+        // Replace the message with its tombstone right away so replies keep their thread;
+        // the realtime update carries the stored row
+        const applyDeletion = (m: Message) => m.id === messageId
+          ? { ...m, content: '', metadata: {}, reactions: [], deleted_at: new Date().toISOString(), deleted_by: user?.id }
+          : m;
+        setMessages(prev => prev.map(applyDeletion));
+        setThreadReplies(prev => prev.map(applyDeletion));
+        setActiveThread(prev => prev ? applyDeletion(prev) : prev);
+        setSavedItems(prev => prev.filter(item => item.message_id !== messageId));
       } else {
         console.error('Error deleting message:', data.error);
       }
@@ -414,7 +1146,7 @@ const WorkspacePage: React.FC = () => {
     }
   };
 
-  const handleDeleteChannel = async (channelId: string) => {
+  const handleDeleteChannel = async (channelId: string, confirmName: string) => {
     try {
       const response = await fetch(`${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/channels/${channelId}`, {
         method: 'DELETE',
@@ -423,7 +1155,8 @@ const WorkspacePage: React.FC = () => {
         },
         credentials: 'include',
         body: JSON.stringify({
-          userId: user?.id
+          userId: user?.id,
+          confirmName
         })
       });
 
@@ -447,6 +1180,203 @@ const WorkspacePage: React.FC = () => {
     }
   };
 
+  const handleArchiveChannel = async (channelId: string, archived: boolean) => {
+    try {
+      const response = await fetch(`${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/channels/${channelId}/${archived ? 'archive' : 'unarchive'}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          userId: user?.id
+        })
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        handleChannelUpdated(data.channel);
+      } else {
+        alert(data.error || `Failed to ${archived ? 'archive' : 'restore'} channel`);
+      }
+    } catch (error) {
+      console.error('Error archiving channel:', error);
+    }
+  };
+
+  const handleScheduleMessage = async (content: string, scheduledFor: string) => {
+    if (!activeChannel || !user) return;
+
+    try {
+      const response = await fetch(`${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/scheduled-messages`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          userId: user.id,
+          channelId: activeChannel.id,
+          content,
+          scheduledFor
+        })
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setScheduledMessages(prev =>
+          [...prev, data.scheduled_message].sort((a, b) => a.scheduled_for.localeCompare(b.scheduled_for))
+        );
+      } else {
+        alert(data.error || 'Failed to schedule message');
+      }
+    } catch (error) {
+      console.error('Error scheduling message:', error);
+    }
+  };
+
+  const handleUpdateScheduledMessage = async (id: string, content: string, scheduledFor: string) => {
+    if (!user) return false;
+
+    try {
+      const response = await fetch(`${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/scheduled-messages/${id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          userId: user.id,
+          content,
+          scheduledFor
+        })
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setScheduledMessages(prev =>
+          prev
+            .map(m => (m.id === id ? data.scheduled_message : m))
+            .sort((a, b) => a.scheduled_for.localeCompare(b.scheduled_for))
+        );
+        return true;
+      }
+
+      alert(data.error || 'Failed to update scheduled message');
+      loadScheduledMessages(user.id);
+    } catch (error) {
+      console.error('Error updating scheduled message:', error);
+    }
+    return false;
+  };
+
+  const handleCancelScheduledMessage = async (id: string) => {
+    if (!user || !confirm('Cancel this scheduled message?')) return;
+
+    try {
+      const response = await fetch(`${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/scheduled-messages/${id}`, {
+        method: 'DELETE',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({ userId: user.id })
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setScheduledMessages(prev => prev.filter(m => m.id !== id));
+      } else {
+        alert(data.error || 'Failed to cancel scheduled message');
+        loadScheduledMessages(user.id);
+      }
+    } catch (error) {
+      console.error('Error cancelling scheduled message:', error);
+    }
+  };
+
+  const handleStartDirectMessage = async (participantIds: string[]) => {
+    if (!user) return;
+
+    try {
+      const response = await fetch(`${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/dms`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          userId: user.id,
+          participantIds
+        })
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        // Reload channels to pick up the DM named after its participants
+        const channelList = await loadChannels();
+        setActiveChannel(channelList?.find(c => c.id === data.channel.id) || data.channel);
+        setActivePanel('chat');
+      } else {
+        alert(data.error || 'Failed to start conversation');
+      }
+    } catch (error) {
+      console.error('Error starting direct message:', error);
+    }
+  };
+
+  const createPoll = async (draft: PollDraft) => {
+    if (!activeChannel || !user) return;
+
+    const response = await fetch(`${import.meta.env.VITE_WORKSPACE_API_URL}/api/workspace/polls`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      credentials: 'include',
+      body: JSON.stringify({
+        userId: user.id,
+        channelId: activeChannel.id,
+        ...draft
+      })
+    });
+
+    const data = await response.json();
+
+    // The poll message itself arrives through the realtime subscription
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to create poll');
+    }
+  };
+
+  const handleCreatePoll = async (draft: PollDraft) => {
+    try {
+      await createPoll(draft);
+      return true;
+    } catch (error) {
+      console.error('Error creating poll:', error);
+      alert(error instanceof Error ? error.message : 'Failed to create poll');
+      return false;
+    }
+  };
+
+  const handlePollUpdated = (messageId: string, poll: Poll) => {
+    // Apply new results right away; the realtime update will carry them to everyone else
+    const applyPoll = (m: Message) => m.id === messageId ? { ...m, metadata: { ...m.metadata, poll } } : m;
+    setMessages(prev => prev.map(applyPoll));
+    setThreadReplies(prev => prev.map(applyPoll));
+  };
+
+  const handleChannelUpdated = (channel: Channel) => {
+    setActiveChannel(prev => (prev?.id === channel.id ? { ...prev, ...channel } : prev));
+    setChannels(prev => prev.map(c => (c.id === channel.id ? { ...c, ...channel } : c)));
+  };
+
   const handleSummarizeChannel = async (channelId: string) => {
     if (!user) return;
 
@@ -584,6 +1514,24 @@ const WorkspacePage: React.FC = () => {
     window.open(url, '_blank');
   };
 
+  const activeChannelRole = channels.find(c => c.id === activeChannel?.id)?.member_role || null;
+
+  // Actions available to slash commands typed in the composer
+  const slashCommandContext: Omit<SlashCommandContext, 'channel'> | undefined = user && activeChannel ? {
+    user,
+    createPoll,
+    openPollComposer: () => setShowPollModal(true),
+    startMeeting: async (title: string, duration: number) => {
+      if (!isGoogleConnected) {
+        throw new Error('Connect your Google account to start meetings');
+      }
+      await handleCreateMeeting(activeChannel.id, title, '', toDateTimeLocalValue(new Date()), duration);
+    },
+    summarizeChannel: () => handleSummarizeChannel(activeChannel.id),
+    setPresenceStatus,
+    refreshTasks: loadTasks
+  } : undefined;
+
   if (loading) {
     return (
       <div className="min-h-screen bg-primary flex items-center justify-center">
@@ -622,6 +1570,50 @@ const WorkspacePage: React.FC = () => {
             </div>
             
             <div className="flex items-center space-x-3">
+              {/* Search */}
+              <button
+                onClick={() => setShowSearch(true)}
+                className="glass-panel rounded-lg px-3 py-2 flex items-center space-x-2 text-secondary hover:text-primary transition-colors"
+                title="Search (Ctrl+K)"
+              >
+                <Search className="w-4 h-4" />
+                <span className="text-sm hidden md:inline">Search</span>
+                <kbd className="text-xs hidden md:inline opacity-70">Ctrl+K</kbd>
+              </button>
+
+              {/* Saved Items */}
+              <button
+                onClick={() => setShowSavedItems(true)}
+                className="glass-panel rounded-lg px-3 py-2 flex items-center space-x-2 text-secondary hover:text-primary transition-colors"
+                title="Saved items"
+              >
+                <Bookmark className="w-4 h-4" />
+                {savedItems.length > 0 && <span className="text-sm">{savedItems.length}</span>}
+              </button>
+
+              {/* Scheduled Messages */}
+              {scheduledMessages.length > 0 && (
+                <button
+                  onClick={() => setShowScheduledMessages(true)}
+                  className="glass-panel rounded-lg px-3 py-2 flex items-center space-x-2 text-secondary hover:text-primary transition-colors"
+                  title="Scheduled messages"
+                >
+                  <Clock className="w-4 h-4" />
+                  <span className="text-sm">{scheduledMessages.length}</span>
+                </button>
+              )}
+
+              {/* Channel Settings */}
+              {activeChannel && activeChannel.type !== 'dm' && (
+                <button
+                  onClick={() => setShowChannelSettings(true)}
+                  className="glass-panel rounded-lg px-3 py-2 flex items-center space-x-2 text-secondary hover:text-primary transition-colors"
+                  title="Channel settings"
+                >
+                  <Settings className="w-4 h-4" />
+                </button>
+              )}
+
               {/* Panel Toggle Buttons */}
               <div className="flex items-center space-x-1 glass-panel rounded-lg p-1">
                 <button
@@ -692,16 +1684,26 @@ const WorkspacePage: React.FC = () => {
         {/* Sidebar - Fixed height with internal scrolling */}
         <div className="w-80 glass-panel border-r silver-border flex flex-col h-full">
           <ChannelList
-            channels={channels}
+            channels={channels.map(channel => ({
+              ...channel,
+              unread_count: unreadCounts[channel.id]?.unread_count,
+              mention_count: unreadCounts[channel.id]?.mention_count
+            }))}
             activeChannel={activeChannel}
             onChannelSelect={handleChannelSelect}
             onCreateChannel={handleCreateChannel}
             onJoinChannel={handleJoinChannel}
             onLeaveChannel={handleLeaveChannel}
             onDeleteChannel={handleDeleteChannel}
+            onArchiveChannel={handleArchiveChannel}
             onSummarizeChannel={handleSummarizeChannel}
             onStartMeeting={handleStartMeeting}
             onJoinMeeting={handleJoinMeeting}
+            onStartDirectMessage={handleStartDirectMessage}
+          />
+          <MemberList
+            presence={presence}
+            onMessageMember={(memberId) => handleStartDirectMessage([memberId])}
           />
         </div>
 
@@ -732,6 +1734,31 @@ const WorkspacePage: React.FC = () => {
                   onSendMessage={handleSendMessage}
                   onEditMessage={handleEditMessage}
                   onDeleteMessage={handleDeleteMessage}
+                  activeThread={activeThread}
+                  threadReplies={threadReplies}
+                  onOpenThread={handleOpenThread}
+                  onCloseThread={handleCloseThread}
+                  onSendThreadReply={handleSendThreadReply}
+                  onToggleReaction={handleToggleReaction}
+                  hasMoreMessages={hasMoreMessages}
+                  loadingOlderMessages={loadingOlderMessages}
+                  onLoadOlderMessages={loadOlderMessages}
+                  highlightedMessageId={highlightedMessageId}
+                  newMessagesSince={newMessagesSince}
+                  readState={readState}
+                  typingUsers={typingUsers}
+                  onTyping={handleTyping}
+                  pinnedMessages={pinnedMessages}
+                  savedMessageIds={savedItems.map(item => item.message_id)}
+                  onTogglePin={handleTogglePin}
+                  onToggleSaved={handleToggleSaved}
+                  onSelectPin={handleSelectPin}
+                  memberRole={activeChannelRole}
+                  scheduledCount={scheduledMessages.filter(m => m.channel_id === activeChannel?.id).length}
+                  onScheduleMessage={handleScheduleMessage}
+                  onShowScheduled={() => setShowScheduledMessages(true)}
+                  commandContext={slashCommandContext}
+                  onPollUpdated={handlePollUpdated}
                 />
               </motion.div>
             )}
@@ -748,6 +1775,7 @@ const WorkspacePage: React.FC = () => {
                 <TaskPanel
                   tasks={tasks}
                   onTaskUpdate={loadTasks}
+                  highlightedTaskId={highlightedTaskId}
                 />
               </motion.div>
             )}
@@ -764,6 +1792,7 @@ const WorkspacePage: React.FC = () => {
                 <KanbanBoard
                   tasks={tasks}
                   onTaskUpdate={loadTasks}
+                  onTaskChange={applyTaskChange}
                 />
               </motion.div>
             )}
@@ -779,6 +1808,7 @@ const WorkspacePage: React.FC = () => {
               >
                 <CalendarPanel
                   tasks={tasks}
+                  focusDate={calendarFocusDate}
                 />
               </motion.div>
             )}
@@ -799,6 +1829,63 @@ const WorkspacePage: React.FC = () => {
         </div>
       </div>
 
+      {/* Search Palette */}
+      <AnimatePresence>
+        {showSearch && (
+          <SearchPalette
+            channels={channels.filter(c => c.is_member)}
+            onClose={() => setShowSearch(false)}
+            onSelectResult={handleSearchResultSelect}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Saved Items */}
+      <AnimatePresence>
+        {showSavedItems && (
+          <SavedItemsPanel
+            items={savedItems}
+            onClose={() => setShowSavedItems(false)}
+            onSelect={handleSelectSavedItem}
+            onRemove={handleToggleSaved}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Scheduled Messages */}
+      <AnimatePresence>
+        {showScheduledMessages && (
+          <ScheduledMessagesPanel
+            messages={scheduledMessages}
+            onClose={() => setShowScheduledMessages(false)}
+            onUpdate={handleUpdateScheduledMessage}
+            onCancel={handleCancelScheduledMessage}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Create Poll */}
+      <AnimatePresence>
+        {showPollModal && activeChannel && (
+          <CreatePollModal
+            channel={activeChannel}
+            onClose={() => setShowPollModal(false)}
+            onCreate={handleCreatePoll}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Channel Settings */}
+      <AnimatePresence>
+        {showChannelSettings && activeChannel && (
+          <ChannelSettingsModal
+            channel={activeChannel}
+            onClose={() => setShowChannelSettings(false)}
+            onChannelUpdated={handleChannelUpdated}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Meeting Modal */}
       {showMeetingModal && selectedChannelForMeeting && (
         <CreateChannelMeetingModal
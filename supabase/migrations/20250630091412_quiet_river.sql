@@ -0,0 +1,89 @@
+/*
+  # Add threaded replies to messages
+
+  1. Changes
+    - Add `thread_parent_id` to messages, referencing the message that started the thread
+    - Add `reply_count` and `last_reply_at` to messages for thread summaries on the parent
+
+  2. New Functions
+    - `normalize_thread_parent` - Keeps threads one level deep and in the parent's channel
+    - `update_thread_reply_stats` - Maintains reply_count and last_reply_at on the parent
+
+  3. New Triggers
+    - `normalize_thread_parent_trigger` - Fires before a message is inserted
+    - `update_thread_reply_stats_trigger` - Fires after a reply is inserted or deleted
+
+  4. Security
+    - No changes to RLS policies
+*/
+
+-- Add thread columns to messages
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS thread_parent_id uuid REFERENCES messages(id) ON DELETE CASCADE;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS reply_count integer DEFAULT 0;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS last_reply_at timestamptz;
+
+-- Create function to keep replies attached to the thread root
+CREATE OR REPLACE FUNCTION normalize_thread_parent()
+RETURNS TRIGGER AS $$
+DECLARE
+  parent_record RECORD;
+BEGIN
+  IF NEW.thread_parent_id IS NOT NULL THEN
+    SELECT id, channel_id, thread_parent_id INTO parent_record
+    FROM messages
+    WHERE id = NEW.thread_parent_id;
+
+    IF parent_record.id IS NULL THEN
+      RAISE EXCEPTION 'Thread parent message not found';
+    END IF;
+
+    IF parent_record.channel_id <> NEW.channel_id THEN
+      RAISE EXCEPTION 'Thread replies must be in the same channel as the parent message';
+    END IF;
+
+    -- Replying to a reply continues the original thread
+    IF parent_record.thread_parent_id IS NOT NULL THEN
+      NEW.thread_parent_id := parent_record.thread_parent_id;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER normalize_thread_parent_trigger
+BEFORE INSERT ON messages
+FOR EACH ROW
+EXECUTE FUNCTION normalize_thread_parent();
+
+-- Create function to maintain reply stats on the parent message
+CREATE OR REPLACE FUNCTION update_thread_reply_stats()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.thread_parent_id IS NOT NULL THEN
+    UPDATE messages
+    SET reply_count = COALESCE(reply_count, 0) + 1,
+        last_reply_at = NEW.created_at
+    WHERE id = NEW.thread_parent_id;
+  ELSIF TG_OP = 'DELETE' AND OLD.thread_parent_id IS NOT NULL THEN
+    UPDATE messages
+    SET reply_count = GREATEST(COALESCE(reply_count, 0) - 1, 0),
+        last_reply_at = (
+          SELECT MAX(created_at) FROM messages
+          WHERE thread_parent_id = OLD.thread_parent_id
+        )
+    WHERE id = OLD.thread_parent_id;
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER update_thread_reply_stats_trigger
+AFTER INSERT OR DELETE ON messages
+FOR EACH ROW
+EXECUTE FUNCTION update_thread_reply_stats();
+
+-- Add indexes for thread lookups
+CREATE INDEX IF NOT EXISTS idx_messages_thread_parent ON messages(thread_parent_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_messages_channel_created ON messages(channel_id, created_at);
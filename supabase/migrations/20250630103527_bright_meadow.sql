@@ -0,0 +1,103 @@
+/*
+  # Add emoji reactions to messages
+
+  1. New Tables
+    - `message_reactions` - One row per user, message and emoji
+      - `message_id` (uuid, references messages.id)
+      - `user_id` (uuid, references profiles.id)
+      - `emoji` (text)
+      - unique on (message_id, user_id, emoji)
+
+  2. Changes
+    - Add `reactions` jsonb column to messages holding the grouped reaction summary
+      (emoji, count, user_ids, user_names) so realtime message updates carry reaction state
+
+  3. New Functions
+    - `refresh_message_reactions` - Recomputes the reaction summary for a message
+
+  4. New Triggers
+    - `refresh_message_reactions_trigger` - Fires after a reaction is added or removed
+
+  5. Security
+    - Enable RLS on `message_reactions`
+    - Reactions are readable by everyone; writes go through the workspace API
+*/
+
+-- Create message_reactions table
+CREATE TABLE IF NOT EXISTS message_reactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  emoji text NOT NULL CHECK (char_length(emoji) BETWEEN 1 AND 32),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(message_id, user_id, emoji)
+);
+
+-- Enable RLS
+ALTER TABLE message_reactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view message reactions"
+  ON message_reactions
+  FOR SELECT
+  TO public
+  USING (true);
+
+-- Add grouped reaction summary to messages
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS reactions jsonb DEFAULT '[]';
+
+-- Create function to recompute the reaction summary of a message
+CREATE OR REPLACE FUNCTION refresh_message_reactions()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_message_id uuid;
+BEGIN
+  target_message_id := COALESCE(NEW.message_id, OLD.message_id);
+
+  UPDATE messages
+  SET reactions = COALESCE((
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'emoji', grouped.emoji,
+        'count', grouped.reaction_count,
+        'user_ids', grouped.user_ids,
+        'user_names', grouped.user_names
+      )
+      ORDER BY grouped.first_reacted_at
+    )
+    FROM (
+      SELECT
+        mr.emoji,
+        COUNT(*) AS reaction_count,
+        jsonb_agg(mr.user_id ORDER BY mr.created_at) AS user_ids,
+        jsonb_agg(COALESCE(p.full_name, p.username) ORDER BY mr.created_at) AS user_names,
+        MIN(mr.created_at) AS first_reacted_at
+      FROM message_reactions mr
+      LEFT JOIN profiles p ON p.id = mr.user_id
+      WHERE mr.message_id = target_message_id
+      GROUP BY mr.emoji
+    ) grouped
+  ), '[]'::jsonb)
+  WHERE id = target_message_id;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER refresh_message_reactions_trigger
+AFTER INSERT OR DELETE ON message_reactions
+FOR EACH ROW
+EXECUTE FUNCTION refresh_message_reactions();
+
+-- Add indexes for reaction lookups
+CREATE INDEX IF NOT EXISTS idx_message_reactions_message ON message_reactions(message_id);
+CREATE INDEX IF NOT EXISTS idx_message_reactions_user ON message_reactions(user_id);
+
+-- Enable real-time for reactions (ignore errors if already enabled)
+DO $$
+BEGIN
+  BEGIN
+    ALTER PUBLICATION supabase_realtime ADD TABLE message_reactions;
+  EXCEPTION WHEN duplicate_object THEN
+    -- Table already added to publication
+  END;
+END $$;
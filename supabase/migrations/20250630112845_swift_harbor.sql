@@ -0,0 +1,81 @@
+/*
+  # Back chat attachments with file_attachments and storage
+
+  1. Changes
+    - Create the private `workspace-attachments` storage bucket used by the workspace API
+    - Add lookup indexes on file_attachments for messages, tasks, projects and uploaders
+
+  2. New Functions
+    - `increment_attachment_download_count` - Atomically bumps download_count for an attachment
+    - `link_message_attachments` - Links the attachments listed in a new message's metadata to the
+      message in the same transaction, so members never see a message whose files they cannot open
+
+  3. Security
+    - Replace the auth.uid() based policies on file_attachments; uploads go through the workspace API
+      with the service role, and attachments are readable by everyone like other workspace content
+    - Only the service role may call `increment_attachment_download_count`; the workspace API counts
+      a download once it has checked the user's access
+*/
+
+-- Create storage bucket for attachments (files are served through the workspace API)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('workspace-attachments', 'workspace-attachments', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Create function to count attachment downloads
+CREATE OR REPLACE FUNCTION increment_attachment_download_count(attachment_id_param uuid)
+RETURNS integer AS $$
+DECLARE
+  new_count integer;
+BEGIN
+  UPDATE file_attachments
+  SET download_count = COALESCE(download_count, 0) + 1
+  WHERE id = attachment_id_param
+  RETURNING download_count INTO new_count;
+
+  RETURN new_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION increment_attachment_download_count(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Create function to link a message's attachments as it is posted; only the sender's own
+-- unlinked uploads are claimed
+CREATE OR REPLACE FUNCTION link_message_attachments()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE file_attachments
+  SET message_id = NEW.id
+  WHERE message_id IS NULL
+    AND uploaded_by = NEW.sender_id
+    AND id::text IN (
+      SELECT attachment->>'id'
+      FROM jsonb_array_elements(NEW.metadata->'attachments') AS attachment
+    );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS link_message_attachments_trigger ON messages;
+CREATE TRIGGER link_message_attachments_trigger
+AFTER INSERT ON messages
+FOR EACH ROW
+WHEN (jsonb_typeof(NEW.metadata->'attachments') = 'array')
+EXECUTE FUNCTION link_message_attachments();
+
+-- Update RLS policies to work with custom auth
+DROP POLICY IF EXISTS "Users can view file attachments" ON file_attachments;
+DROP POLICY IF EXISTS "Users can upload files" ON file_attachments;
+
+CREATE POLICY "Users can view file attachments"
+  ON file_attachments
+  FOR SELECT
+  TO public
+  USING (true);
+
+-- Add indexes for attachment lookups
+CREATE INDEX IF NOT EXISTS idx_file_attachments_message ON file_attachments(message_id);
+CREATE INDEX IF NOT EXISTS idx_file_attachments_task ON file_attachments(task_id);
+CREATE INDEX IF NOT EXISTS idx_file_attachments_project ON file_attachments(project_id);
+CREATE INDEX IF NOT EXISTS idx_file_attachments_uploaded_by ON file_attachments(uploaded_by);
@@ -0,0 +1,270 @@
+/*
+  # Add full-text search across workspace content
+
+  1. Changes
+    - Add GIN full-text indexes on messages, tasks, calendar_events, projects and task_comments
+
+  2. New Functions
+    - `search_workspace` - Ranked search over messages, tasks, events, projects and task comments
+      - Messages are limited to channels the user is a member of
+      - Tasks and task comments are limited to tasks the user created or is assigned to
+      - Events are limited to the user's own calendar
+      - Optional filters for result types, channel, sender, and date range
+
+  3. Security
+    - No changes to RLS policies; search runs through the workspace API
+    - Only the service role may call `search_workspace`, since it scopes results to the user ID it
+      is given
+*/
+
+-- Add full-text indexes. Expression indexes keep tsvectors out of row payloads
+-- (including realtime messages); search_workspace uses the same expressions.
+CREATE INDEX IF NOT EXISTS idx_messages_search ON messages
+  USING GIN(to_tsvector('english', COALESCE(content, '')));
+
+CREATE INDEX IF NOT EXISTS idx_tasks_search ON tasks
+  USING GIN((
+    setweight(to_tsvector('english', COALESCE(title, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(description, '')), 'B')
+  ));
+
+CREATE INDEX IF NOT EXISTS idx_calendar_events_search ON calendar_events
+  USING GIN((
+    setweight(to_tsvector('english', COALESCE(title, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(description, '')), 'B')
+  ));
+
+CREATE INDEX IF NOT EXISTS idx_projects_search ON projects
+  USING GIN((
+    setweight(to_tsvector('english', COALESCE(name, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(description, '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(client_name, '')), 'C')
+  ));
+
+CREATE INDEX IF NOT EXISTS idx_task_comments_search ON task_comments
+  USING GIN(to_tsvector('english', COALESCE(content, '')));
+
+-- Create unified search function
+-- Result types: 'message', 'task', 'event', 'project', 'comment'.
+-- Events and projects have no channel, so they are excluded when a channel filter is set;
+-- tasks and comments match a channel through the message the task was created from.
+CREATE OR REPLACE FUNCTION search_workspace(
+  user_id_param uuid,
+  query_text text,
+  result_types text[] DEFAULT ARRAY['message', 'task', 'event', 'project', 'comment'],
+  channel_id_param uuid DEFAULT NULL,
+  sender_id_param uuid DEFAULT NULL,
+  from_date timestamptz DEFAULT NULL,
+  to_date timestamptz DEFAULT NULL,
+  limit_count integer DEFAULT 50
+)
+RETURNS TABLE (
+  result_type text,
+  id uuid,
+  title text,
+  snippet text,
+  channel_id uuid,
+  channel_name text,
+  thread_parent_id uuid,
+  task_id uuid,
+  author_id uuid,
+  author_name text,
+  occurred_at timestamptz,
+  rank real
+) AS $$
+  WITH search_query AS (
+    SELECT websearch_to_tsquery('english', query_text) AS q
+  ),
+  visible_tasks AS (
+    SELECT t.id FROM tasks t WHERE t.created_by = user_id_param
+    UNION
+    SELECT ta.task_id FROM task_assignments ta WHERE ta.user_id = user_id_param
+  ),
+  matches AS (
+    -- Messages in channels the user belongs to
+    SELECT
+      'message'::text AS result_type,
+      m.id,
+      c.name AS title,
+      m.content AS body,
+      m.channel_id,
+      c.name AS channel_name,
+      m.thread_parent_id,
+      NULL::uuid AS task_id,
+      m.sender_id AS author_id,
+      COALESCE(p.full_name, p.username) AS author_name,
+      m.created_at AS occurred_at,
+      ts_rank(to_tsvector('english', COALESCE(m.content, '')), sq.q) AS rank
+    FROM messages m
+    CROSS JOIN search_query sq
+    JOIN channels c ON c.id = m.channel_id
+    JOIN channel_members cm ON cm.channel_id = m.channel_id AND cm.user_id = user_id_param
+    LEFT JOIN profiles p ON p.id = m.sender_id
+    WHERE 'message' = ANY(result_types)
+      AND to_tsvector('english', COALESCE(m.content, '')) @@ sq.q
+      AND (channel_id_param IS NULL OR m.channel_id = channel_id_param)
+      AND (sender_id_param IS NULL OR m.sender_id = sender_id_param)
+      AND (from_date IS NULL OR m.created_at >= from_date)
+      AND (to_date IS NULL OR m.created_at <= to_date)
+
+    UNION ALL
+
+    -- Tasks the user created or is assigned to
+    SELECT
+      'task'::text,
+      t.id,
+      t.title,
+      COALESCE(NULLIF(t.description, ''), t.title),
+      sm.channel_id,
+      c.name,
+      NULL::uuid,
+      t.id,
+      t.created_by,
+      COALESCE(p.full_name, p.username),
+      t.created_at,
+      ts_rank(
+        setweight(to_tsvector('english', COALESCE(t.title, '')), 'A') ||
+        setweight(to_tsvector('english', COALESCE(t.description, '')), 'B'),
+        sq.q
+      )
+    FROM tasks t
+    CROSS JOIN search_query sq
+    JOIN visible_tasks vt ON vt.id = t.id
+    LEFT JOIN messages sm ON sm.id = t.source_message_id
+    LEFT JOIN channels c ON c.id = sm.channel_id
+    LEFT JOIN profiles p ON p.id = t.created_by
+    WHERE 'task' = ANY(result_types)
+      AND (
+        setweight(to_tsvector('english', COALESCE(t.title, '')), 'A') ||
+        setweight(to_tsvector('english', COALESCE(t.description, '')), 'B')
+      ) @@ sq.q
+      AND (channel_id_param IS NULL OR sm.channel_id = channel_id_param)
+      AND (sender_id_param IS NULL OR t.created_by = sender_id_param)
+      AND (from_date IS NULL OR t.created_at >= from_date)
+      AND (to_date IS NULL OR t.created_at <= to_date)
+
+    UNION ALL
+
+    -- The user's calendar events, filtered by when they happen
+    SELECT
+      'event'::text,
+      e.id,
+      e.title,
+      COALESCE(NULLIF(e.description, ''), e.title),
+      NULL::uuid,
+      NULL::text,
+      NULL::uuid,
+      e.task_id,
+      e.user_id,
+      COALESCE(p.full_name, p.username),
+      e.start_time,
+      ts_rank(
+        setweight(to_tsvector('english', COALESCE(e.title, '')), 'A') ||
+        setweight(to_tsvector('english', COALESCE(e.description, '')), 'B'),
+        sq.q
+      )
+    FROM calendar_events e
+    CROSS JOIN search_query sq
+    LEFT JOIN profiles p ON p.id = e.user_id
+    WHERE 'event' = ANY(result_types)
+      AND e.user_id = user_id_param
+      AND (
+        setweight(to_tsvector('english', COALESCE(e.title, '')), 'A') ||
+        setweight(to_tsvector('english', COALESCE(e.description, '')), 'B')
+      ) @@ sq.q
+      AND channel_id_param IS NULL
+      AND (sender_id_param IS NULL OR e.user_id = sender_id_param)
+      AND (from_date IS NULL OR e.start_time >= from_date)
+      AND (to_date IS NULL OR e.start_time <= to_date)
+
+    UNION ALL
+
+    -- Projects, attributed to their project manager
+    SELECT
+      'project'::text,
+      pr.id,
+      pr.name,
+      COALESCE(NULLIF(pr.description, ''), pr.name),
+      NULL::uuid,
+      NULL::text,
+      NULL::uuid,
+      NULL::uuid,
+      pr.project_manager_id,
+      COALESCE(p.full_name, p.username),
+      pr.created_at,
+      ts_rank(
+        setweight(to_tsvector('english', COALESCE(pr.name, '')), 'A') ||
+        setweight(to_tsvector('english', COALESCE(pr.description, '')), 'B') ||
+        setweight(to_tsvector('english', COALESCE(pr.client_name, '')), 'C'),
+        sq.q
+      )
+    FROM projects pr
+    CROSS JOIN search_query sq
+    LEFT JOIN profiles p ON p.id = pr.project_manager_id
+    WHERE 'project' = ANY(result_types)
+      AND (
+        setweight(to_tsvector('english', COALESCE(pr.name, '')), 'A') ||
+        setweight(to_tsvector('english', COALESCE(pr.description, '')), 'B') ||
+        setweight(to_tsvector('english', COALESCE(pr.client_name, '')), 'C')
+      ) @@ sq.q
+      AND channel_id_param IS NULL
+      AND (sender_id_param IS NULL OR pr.project_manager_id = sender_id_param)
+      AND (from_date IS NULL OR pr.created_at >= from_date)
+      AND (to_date IS NULL OR pr.created_at <= to_date)
+
+    UNION ALL
+
+    -- Comments on tasks the user can see
+    SELECT
+      'comment'::text,
+      tc.id,
+      t.title,
+      tc.content,
+      sm.channel_id,
+      c.name,
+      NULL::uuid,
+      tc.task_id,
+      tc.user_id,
+      COALESCE(p.full_name, p.username),
+      tc.created_at,
+      ts_rank(to_tsvector('english', COALESCE(tc.content, '')), sq.q)
+    FROM task_comments tc
+    CROSS JOIN search_query sq
+    JOIN visible_tasks vt ON vt.id = tc.task_id
+    JOIN tasks t ON t.id = tc.task_id
+    LEFT JOIN messages sm ON sm.id = t.source_message_id
+    LEFT JOIN channels c ON c.id = sm.channel_id
+    LEFT JOIN profiles p ON p.id = tc.user_id
+    WHERE 'comment' = ANY(result_types)
+      AND to_tsvector('english', COALESCE(tc.content, '')) @@ sq.q
+      AND (channel_id_param IS NULL OR sm.channel_id = channel_id_param)
+      AND (sender_id_param IS NULL OR tc.user_id = sender_id_param)
+      AND (from_date IS NULL OR tc.created_at >= from_date)
+      AND (to_date IS NULL OR tc.created_at <= to_date)
+  ),
+  top_matches AS (
+    SELECT * FROM matches
+    ORDER BY matches.rank DESC, matches.occurred_at DESC
+    LIMIT limit_count
+  )
+  -- Highlight only the rows that are returned; matched terms are wrapped in [[ ]]
+  SELECT
+    tm.result_type,
+    tm.id,
+    tm.title,
+    ts_headline('english', tm.body, sq.q, 'StartSel=[[, StopSel=]], MaxWords=30, MinWords=10, MaxFragments=2'),
+    tm.channel_id,
+    tm.channel_name,
+    tm.thread_parent_id,
+    tm.task_id,
+    tm.author_id,
+    tm.author_name,
+    tm.occurred_at,
+    tm.rank
+  FROM top_matches tm
+  CROSS JOIN search_query sq
+  ORDER BY tm.rank DESC, tm.occurred_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Search scopes results to the user ID it is given, so only the workspace API may call it
+REVOKE EXECUTE ON FUNCTION search_workspace(uuid, text, text[], uuid, uuid, timestamptz, timestamptz, integer) FROM PUBLIC, anon, authenticated;
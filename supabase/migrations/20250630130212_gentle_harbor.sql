@@ -0,0 +1,90 @@
+/*
+  # Track read state per channel member
+
+  1. Changes
+    - Add `last_read_message_id` and `last_read_at` to channel_members
+
+  2. New Functions
+    - `get_channel_unread_counts` - Unread and mention counts for each channel a user belongs to
+    - `mark_channel_read` - Moves a member's read marker forward to a message (or the latest message)
+
+  3. Security
+    - No changes to RLS policies; read markers are updated through the workspace API
+    - Only the service role may call the new functions, since they act for the user ID they are given
+*/
+
+-- Add read markers to channel members
+ALTER TABLE channel_members ADD COLUMN IF NOT EXISTS last_read_message_id uuid REFERENCES messages(id) ON DELETE SET NULL;
+ALTER TABLE channel_members ADD COLUMN IF NOT EXISTS last_read_at timestamptz;
+
+-- Create function to count unread messages and mentions per channel.
+-- Members who have never read a channel count messages since they joined.
+CREATE OR REPLACE FUNCTION get_channel_unread_counts(user_id_param uuid)
+RETURNS TABLE (
+  channel_id uuid,
+  unread_count integer,
+  mention_count integer
+) AS $$
+  SELECT
+    cm.channel_id,
+    COUNT(m.id)::integer AS unread_count,
+    COUNT(m.id) FILTER (
+      WHERE m.content ~* ('(^|[^[:alnum:]_])@' || regexp_replace(p.username, '([^[:alnum:]_])', '\\\1', 'g') || '($|[^[:alnum:]_])')
+    )::integer AS mention_count
+  FROM channel_members cm
+  JOIN profiles p ON p.id = cm.user_id
+  LEFT JOIN messages m ON m.channel_id = cm.channel_id
+    AND m.sender_id <> cm.user_id
+    AND m.thread_parent_id IS NULL
+    AND m.created_at > COALESCE(cm.last_read_at, cm.joined_at)
+  WHERE cm.user_id = user_id_param
+  GROUP BY cm.channel_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Create function to mark a channel as read. The marker never moves backwards.
+CREATE OR REPLACE FUNCTION mark_channel_read(
+  channel_id_param uuid,
+  user_id_param uuid,
+  message_id_param uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  last_read_message_id uuid,
+  last_read_at timestamptz
+) AS $$
+DECLARE
+  target_message RECORD;
+BEGIN
+  IF message_id_param IS NULL THEN
+    SELECT m.id, m.created_at INTO target_message
+    FROM messages m
+    WHERE m.channel_id = channel_id_param
+      AND m.thread_parent_id IS NULL
+    ORDER BY m.created_at DESC, m.id DESC
+    LIMIT 1;
+  ELSE
+    SELECT m.id, m.created_at INTO target_message
+    FROM messages m
+    WHERE m.id = message_id_param
+      AND m.channel_id = channel_id_param;
+  END IF;
+
+  IF target_message.id IS NOT NULL THEN
+    UPDATE channel_members cm
+    SET last_read_message_id = target_message.id,
+        last_read_at = target_message.created_at
+    WHERE cm.channel_id = channel_id_param
+      AND cm.user_id = user_id_param
+      AND (cm.last_read_at IS NULL OR cm.last_read_at < target_message.created_at);
+  END IF;
+
+  RETURN QUERY
+  SELECT cm.last_read_message_id, cm.last_read_at
+  FROM channel_members cm
+  WHERE cm.channel_id = channel_id_param
+    AND cm.user_id = user_id_param;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Both functions act for the user ID they are given, so only the workspace API may call them
+REVOKE EXECUTE ON FUNCTION get_channel_unread_counts(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION mark_channel_read(uuid, uuid, uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,63 @@
+/*
+  # Add pinned messages and personal saved items
+
+  1. New Tables
+    - `pinned_messages` - Messages pinned to their channel
+      - `channel_id` (uuid, references channels.id)
+      - `message_id` (uuid, references messages.id, unique)
+      - `pinned_by` (uuid, references profiles.id)
+      - `pinned_at` (timestamptz)
+    - `message_bookmarks` - Messages a user saved for later, across channels
+      - `user_id` (uuid, references profiles.id)
+      - `message_id` (uuid, references messages.id)
+      - unique on (user_id, message_id)
+
+  2. Security
+    - Enable RLS on both tables
+    - Pins are readable by everyone; bookmarks are only exposed through the workspace API
+    - Writes go through the workspace API
+*/
+
+-- Create pinned_messages table
+CREATE TABLE IF NOT EXISTS pinned_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  channel_id uuid NOT NULL REFERENCES channels(id) ON DELETE CASCADE,
+  message_id uuid NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  pinned_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  pinned_at timestamptz DEFAULT now(),
+  UNIQUE(message_id)
+);
+
+-- Create message_bookmarks table
+CREATE TABLE IF NOT EXISTS message_bookmarks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  message_id uuid NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(user_id, message_id)
+);
+
+-- Enable RLS
+ALTER TABLE pinned_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE message_bookmarks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view pinned messages"
+  ON pinned_messages
+  FOR SELECT
+  TO public
+  USING (true);
+
+-- Add indexes for pin and bookmark lookups
+CREATE INDEX IF NOT EXISTS idx_pinned_messages_channel ON pinned_messages(channel_id, pinned_at DESC);
+CREATE INDEX IF NOT EXISTS idx_message_bookmarks_user ON message_bookmarks(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_message_bookmarks_message ON message_bookmarks(message_id);
+
+-- Enable real-time for pins (ignore errors if already enabled)
+DO $$
+BEGIN
+  BEGIN
+    ALTER PUBLICATION supabase_realtime ADD TABLE pinned_messages;
+  EXCEPTION WHEN duplicate_object THEN
+    -- Table already added to publication
+  END;
+END $$;
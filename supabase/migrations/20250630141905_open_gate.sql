@@ -0,0 +1,82 @@
+/*
+  # Channel invite links
+
+  1. Changes
+    - Add `revoked_at` to channel_invites so revoked links can be reported as such
+
+  2. New Functions
+    - `redeem_channel_invite` - Validates an invite code and adds the user to its channel
+      - Rejects revoked, expired and used-up invites
+      - Counts a use only when a new member joins; locks the invite row so usage limits hold
+        under concurrent redemptions
+
+  3. Updated Functions
+    - `cleanup_expired_invites` - Also removes revoked invites
+
+  4. Security
+    - No changes to RLS policies; invites are created, listed and redeemed through the workspace API
+    - Only the service role may call `redeem_channel_invite`, since it enrolls the user ID it is given
+*/
+
+-- Add revocation marker to invites
+ALTER TABLE channel_invites ADD COLUMN IF NOT EXISTS revoked_at timestamptz;
+
+-- Create function to redeem an invite code
+CREATE OR REPLACE FUNCTION redeem_channel_invite(invite_code_param text, user_id_param uuid)
+RETURNS jsonb AS $$
+DECLARE
+  invite RECORD;
+BEGIN
+  SELECT * INTO invite
+  FROM channel_invites
+  WHERE invite_code = invite_code_param
+  FOR UPDATE;
+
+  IF invite.id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Invite not found');
+  END IF;
+
+  IF invite.revoked_at IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This invite has been revoked');
+  END IF;
+
+  -- Existing members don't use up the invite
+  IF EXISTS (
+    SELECT 1 FROM channel_members
+    WHERE channel_id = invite.channel_id
+      AND user_id = user_id_param
+  ) THEN
+    RETURN jsonb_build_object('success', true, 'channel_id', invite.channel_id, 'already_member', true);
+  END IF;
+
+  IF invite.expires_at IS NOT NULL AND invite.expires_at < now() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This invite has expired');
+  END IF;
+
+  IF invite.max_uses IS NOT NULL AND invite.current_uses >= invite.max_uses THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This invite has reached its usage limit');
+  END IF;
+
+  INSERT INTO channel_members (channel_id, user_id, role)
+  VALUES (invite.channel_id, user_id_param, 'member');
+
+  UPDATE channel_invites
+  SET current_uses = current_uses + 1
+  WHERE id = invite.id;
+
+  RETURN jsonb_build_object('success', true, 'channel_id', invite.channel_id, 'already_member', false);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION redeem_channel_invite(text, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Update cleanup to remove revoked invites as well
+CREATE OR REPLACE FUNCTION cleanup_expired_invites()
+RETURNS void AS $$
+BEGIN
+  DELETE FROM channel_invites
+  WHERE expires_at < now()
+  OR (max_uses IS NOT NULL AND current_uses >= max_uses)
+  OR revoked_at IS NOT NULL;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,101 @@
+/*
+  # Channel roles and moderation
+
+  1. Changes
+    - `channel_members.role` now allows `owner`, `admin` and `member`
+      - Existing creator memberships become `owner`
+    - Add `announcement_only` to channels; only owners and admins can post in such channels
+
+  2. New Functions
+    - `get_channel_role` - Returns a user's role in a channel, or NULL when they are not a member
+    - `can_post_in_channel` - Whether a user may send messages to a channel
+
+  3. Updated Functions
+    - `handle_new_channel` - Adds the creator of a new channel as `owner`
+
+  4. Security
+    - Messages can only be inserted by channel members, and only by owners/admins in
+      announcement-only channels
+    - Channels and memberships can no longer be updated or removed by clients; renames, role
+      changes and kicks go through the workspace API, which checks the caller's role
+    - Clients can only add themselves as plain members
+*/
+
+-- Allow the owner role
+ALTER TABLE channel_members DROP CONSTRAINT IF EXISTS channel_members_role_check;
+ALTER TABLE channel_members
+  ADD CONSTRAINT channel_members_role_check CHECK (role IN ('owner', 'admin', 'member'));
+
+UPDATE channel_members cm
+SET role = 'owner'
+FROM channels c
+WHERE cm.channel_id = c.id
+  AND cm.user_id = c.created_by;
+
+-- New channels are owned by their creator
+CREATE OR REPLACE FUNCTION handle_new_channel()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  INSERT INTO channel_members (channel_id, user_id, role)
+  VALUES (NEW.id, NEW.created_by, 'owner')
+  ON CONFLICT (channel_id, user_id) DO UPDATE SET role = 'owner';
+
+  RETURN NEW;
+END;
+$$;
+
+-- Add announcement-only mode to channels
+ALTER TABLE channels ADD COLUMN IF NOT EXISTS announcement_only boolean NOT NULL DEFAULT false;
+
+-- Create function to look up a member's role
+CREATE OR REPLACE FUNCTION get_channel_role(channel_id_param uuid, user_id_param uuid)
+RETURNS text AS $$
+  SELECT role
+  FROM channel_members
+  WHERE channel_id = channel_id_param
+    AND user_id = user_id_param;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Create function to check posting permission
+CREATE OR REPLACE FUNCTION can_post_in_channel(channel_id_param uuid, user_id_param uuid)
+RETURNS boolean AS $$
+DECLARE
+  member_role text;
+BEGIN
+  member_role := get_channel_role(channel_id_param, user_id_param);
+
+  IF member_role IS NULL THEN
+    RETURN false;
+  END IF;
+
+  RETURN member_role IN ('owner', 'admin') OR NOT EXISTS (
+    SELECT 1 FROM channels
+    WHERE id = channel_id_param
+      AND announcement_only
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Enforce membership and announcement-only mode when sending messages
+DROP POLICY IF EXISTS "Users can send messages" ON messages;
+CREATE POLICY "Users can send messages"
+  ON messages
+  FOR INSERT
+  TO public
+  WITH CHECK (can_post_in_channel(channel_id, sender_id));
+
+-- Channel settings are changed through the workspace API only
+DROP POLICY IF EXISTS "Channel creators can update their channels" ON channels;
+
+-- Members join as plain members; role changes and kicks go through the workspace API
+DROP POLICY IF EXISTS "Channel admins can manage members" ON channel_members;
+
+DROP POLICY IF EXISTS "Users can join channels" ON channel_members;
+CREATE POLICY "Users can join channels"
+  ON channel_members
+  FOR INSERT
+  TO public
+  WITH CHECK (role = 'member');
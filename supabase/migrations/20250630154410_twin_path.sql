@@ -0,0 +1,76 @@
+/*
+  # Direct messages and group DMs
+
+  1. Changes
+    - Add `dm_key` to channels - the sorted participant ids of a DM channel, unique so each set of
+      participants has exactly one conversation
+
+  2. New Functions
+    - `get_or_create_dm_channel` - Returns the DM channel for a set of participants, creating it
+      and its memberships on first use
+
+  3. Updated Functions
+    - `handle_new_channel` - DM participants are all plain members; no one owns a DM
+
+  4. Security
+    - No changes to RLS policies; DMs are created and listed through the workspace API
+    - Only the service role may call `get_or_create_dm_channel`, since it trusts the participant IDs
+      it is given
+*/
+
+-- Add participant key to DM channels
+ALTER TABLE channels ADD COLUMN IF NOT EXISTS dm_key text UNIQUE;
+
+-- DM creators join as plain members
+CREATE OR REPLACE FUNCTION handle_new_channel()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  creator_role text := CASE WHEN NEW.type = 'dm' THEN 'member' ELSE 'owner' END;
+BEGIN
+  INSERT INTO channel_members (channel_id, user_id, role)
+  VALUES (NEW.id, NEW.created_by, creator_role)
+  ON CONFLICT (channel_id, user_id) DO UPDATE SET role = creator_role;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Create function to find or create a DM channel
+CREATE OR REPLACE FUNCTION get_or_create_dm_channel(
+  participant_ids uuid[],
+  created_by_param uuid,
+  channel_name text
+)
+RETURNS uuid AS $$
+DECLARE
+  key text;
+  dm_channel_id uuid;
+BEGIN
+  key := array_to_string(ARRAY(SELECT DISTINCT unnest(participant_ids) ORDER BY 1), ':');
+
+  INSERT INTO channels (name, type, created_by, dm_key)
+  VALUES (channel_name, 'dm', created_by_param, key)
+  ON CONFLICT (dm_key) DO NOTHING
+  RETURNING id INTO dm_channel_id;
+
+  IF dm_channel_id IS NULL THEN
+    SELECT id INTO dm_channel_id FROM channels WHERE dm_key = key;
+  END IF;
+
+  -- Re-adds participants who left the conversation
+  INSERT INTO channel_members (channel_id, user_id, role)
+  SELECT dm_channel_id, participant_id, 'member'
+  FROM unnest(participant_ids) AS participant_id
+  ON CONFLICT (channel_id, user_id) DO NOTHING;
+
+  RETURN dm_channel_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION get_or_create_dm_channel(uuid[], uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- Add index for listing a user's channels
+CREATE INDEX IF NOT EXISTS idx_channel_members_user ON channel_members(user_id);
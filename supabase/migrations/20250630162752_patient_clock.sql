@@ -0,0 +1,150 @@
+/*
+  # Scheduled messages
+
+  1. New Tables
+    - `scheduled_messages` - Messages composed now and posted at a chosen time
+      - `channel_id` (uuid, references channels.id)
+      - `sender_id` (uuid, references profiles.id)
+      - `content` (text)
+      - `thread_parent_id` (uuid, references messages.id, optional)
+      - `scheduled_for` (timestamptz)
+      - `status` (text) - pending, sent, failed or cancelled
+      - `message_id` (uuid, references messages.id) - the posted message once sent
+      - `error` (text) - why sending failed
+
+  2. New Functions
+    - `send_message_as` - Posts a message for a given sender after checking they may post in the
+      channel; `send_message` now goes through it as well
+    - `dispatch_scheduled_messages` - Posts due scheduled messages and records the outcome in the
+      same transaction, so a message is never sent twice and pending ones survive restarts
+
+  3. Security
+    - Enable RLS on scheduled_messages without client policies; the workspace API manages them
+    - Only the service role may call `send_message_as` and `dispatch_scheduled_messages`, since they
+      post as the sender they are given; clients keep using `send_message`
+*/
+
+-- Create scheduled_messages table
+CREATE TABLE IF NOT EXISTS scheduled_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  channel_id uuid NOT NULL REFERENCES channels(id) ON DELETE CASCADE,
+  sender_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  content text NOT NULL,
+  thread_parent_id uuid REFERENCES messages(id) ON DELETE CASCADE,
+  scheduled_for timestamptz NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed', 'cancelled')),
+  message_id uuid REFERENCES messages(id) ON DELETE SET NULL,
+  error text,
+  sent_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE scheduled_messages ENABLE ROW LEVEL SECURITY;
+
+-- Add indexes for the dispatcher and the author's list
+CREATE INDEX IF NOT EXISTS idx_scheduled_messages_due ON scheduled_messages(scheduled_for) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_scheduled_messages_sender ON scheduled_messages(sender_id, scheduled_for);
+
+-- Create function to send a message on behalf of a user
+CREATE OR REPLACE FUNCTION send_message_as(
+  sender_id_param uuid,
+  channel_id_param uuid,
+  content_param text,
+  message_type text DEFAULT 'text',
+  metadata_param jsonb DEFAULT '{}'::jsonb,
+  thread_parent_id_param uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  new_message_id uuid;
+BEGIN
+  IF NOT can_post_in_channel(channel_id_param, sender_id_param) THEN
+    RAISE EXCEPTION 'User cannot post in this channel';
+  END IF;
+
+  INSERT INTO messages (channel_id, sender_id, content, type, metadata, thread_parent_id)
+  VALUES (channel_id_param, sender_id_param, content_param, message_type, metadata_param, thread_parent_id_param)
+  RETURNING id INTO new_message_id;
+
+  RETURN new_message_id;
+END;
+$$;
+
+-- Route send_message through the same checks
+CREATE OR REPLACE FUNCTION send_message(
+  channel_id_param uuid,
+  content_param text,
+  message_type text DEFAULT 'text',
+  metadata_param jsonb DEFAULT '{}'::jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  current_user_id uuid;
+BEGIN
+  current_user_id := get_current_user_id();
+
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'No authenticated user found';
+  END IF;
+
+  RETURN send_message_as(current_user_id, channel_id_param, content_param, message_type, metadata_param);
+END;
+$$;
+
+-- Create function to post due scheduled messages
+CREATE OR REPLACE FUNCTION dispatch_scheduled_messages(batch_size integer DEFAULT 50)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  scheduled RECORD;
+  new_message_id uuid;
+  sent_count integer := 0;
+BEGIN
+  FOR scheduled IN
+    SELECT *
+    FROM scheduled_messages
+    WHERE status = 'pending'
+      AND scheduled_for <= now()
+    ORDER BY scheduled_for
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    BEGIN
+      new_message_id := send_message_as(
+        scheduled.sender_id,
+        scheduled.channel_id,
+        scheduled.content,
+        'text',
+        jsonb_build_object('scheduled_message_id', scheduled.id),
+        scheduled.thread_parent_id
+      );
+
+      UPDATE scheduled_messages
+      SET status = 'sent', message_id = new_message_id, sent_at = now(), updated_at = now()
+      WHERE id = scheduled.id;
+
+      sent_count := sent_count + 1;
+    EXCEPTION WHEN OTHERS THEN
+      -- e.g. the author left the channel or it became announcement-only
+      UPDATE scheduled_messages
+      SET status = 'failed', error = SQLERRM, updated_at = now()
+      WHERE id = scheduled.id;
+    END;
+  END LOOP;
+
+  RETURN sent_count;
+END;
+$$;
+
+-- Both functions post as a sender they are given, so only the workspace API may call them
+REVOKE EXECUTE ON FUNCTION send_message_as(uuid, uuid, text, text, jsonb, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION dispatch_scheduled_messages(integer) FROM PUBLIC, anon, authenticated;
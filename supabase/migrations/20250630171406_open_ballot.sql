@@ -0,0 +1,291 @@
+/*
+  # Polls inside channels
+
+  1. New Tables
+    - `polls` - A question posted in a channel as a message of type `poll`
+      - `message_id` (uuid, references messages.id, unique)
+      - `channel_id` (uuid, references channels.id)
+      - `created_by` (uuid, references profiles.id)
+      - `question` (text)
+      - `options` (jsonb) - array of { id, text }
+      - `allow_multiple` (boolean) - voters may pick more than one option
+      - `anonymous` (boolean) - only vote counts are ever shown
+      - `closes_at` (timestamptz, optional) - when voting ends automatically
+      - `closed_at` (timestamptz) - when voting ended
+    - `poll_votes` - One row per user and chosen option
+      - unique on (poll_id, user_id, option_id)
+
+  2. Changes
+    - Allow `poll` as a message type
+    - Poll messages keep the poll and its result summary in `metadata.poll`, so realtime message
+      updates carry live results
+
+  3. New Functions
+    - `refresh_poll_results` - Recomputes the result summary stored on the poll message
+    - `create_poll` - Posts a poll message and its poll in one transaction
+    - `cast_poll_vote` - Replaces a user's votes on an open poll
+    - `close_poll` - Ends voting and announces the result as a system message
+    - `close_due_polls` - Closes polls whose closing time has passed
+
+  4. Security
+    - Enable RLS on polls and poll_votes without client policies; votes are only exposed through
+      the workspace API so anonymous polls stay anonymous
+    - Only the service role may call the poll functions; they act for the user they are given, and
+      the workspace API checks membership and ownership first
+*/
+
+-- Allow poll messages
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS messages_type_check;
+ALTER TABLE messages ADD CONSTRAINT messages_type_check
+  CHECK (type IN ('text', 'ai_task_creation', 'ai_summary', 'system', 'poll'));
+
+-- Create polls table
+CREATE TABLE IF NOT EXISTS polls (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid NOT NULL UNIQUE REFERENCES messages(id) ON DELETE CASCADE,
+  channel_id uuid NOT NULL REFERENCES channels(id) ON DELETE CASCADE,
+  created_by uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  question text NOT NULL,
+  options jsonb NOT NULL,
+  allow_multiple boolean NOT NULL DEFAULT false,
+  anonymous boolean NOT NULL DEFAULT false,
+  closes_at timestamptz,
+  closed_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create poll_votes table
+CREATE TABLE IF NOT EXISTS poll_votes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  poll_id uuid NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  option_id text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(poll_id, user_id, option_id)
+);
+
+ALTER TABLE polls ENABLE ROW LEVEL SECURITY;
+ALTER TABLE poll_votes ENABLE ROW LEVEL SECURITY;
+
+-- Add indexes for closing polls and tallying votes
+CREATE INDEX IF NOT EXISTS idx_polls_due ON polls(closes_at) WHERE closed_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_poll_votes_poll_user ON poll_votes(poll_id, user_id);
+
+-- Create function to recompute the result summary of a poll
+CREATE OR REPLACE FUNCTION refresh_poll_results(poll_id_param uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  target polls%ROWTYPE;
+  summary jsonb;
+BEGIN
+  SELECT * INTO target FROM polls WHERE id = poll_id_param;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  summary := jsonb_build_object(
+    'id', target.id,
+    'question', target.question,
+    'options', target.options,
+    'allow_multiple', target.allow_multiple,
+    'anonymous', target.anonymous,
+    'created_by', target.created_by,
+    'closes_at', target.closes_at,
+    'closed_at', target.closed_at,
+    'total_voters', (SELECT COUNT(DISTINCT user_id) FROM poll_votes WHERE poll_id = target.id),
+    'results', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'option_id', opt.value->>'id',
+          'count', COALESCE(tally.vote_count, 0)
+        ) ||
+        -- Voters are left out entirely for anonymous polls
+        CASE WHEN target.anonymous THEN '{}'::jsonb ELSE jsonb_build_object(
+          'user_ids', COALESCE(tally.user_ids, '[]'::jsonb),
+          'user_names', COALESCE(tally.user_names, '[]'::jsonb)
+        ) END
+        ORDER BY opt.position
+      )
+      FROM jsonb_array_elements(target.options) WITH ORDINALITY AS opt(value, position)
+      LEFT JOIN (
+        SELECT
+          pv.option_id,
+          COUNT(*) AS vote_count,
+          jsonb_agg(pv.user_id ORDER BY pv.created_at) AS user_ids,
+          jsonb_agg(COALESCE(p.full_name, p.username) ORDER BY pv.created_at) AS user_names
+        FROM poll_votes pv
+        LEFT JOIN profiles p ON p.id = pv.user_id
+        WHERE pv.poll_id = target.id
+        GROUP BY pv.option_id
+      ) tally ON tally.option_id = opt.value->>'id'
+    ), '[]'::jsonb)
+  );
+
+  UPDATE messages
+  SET metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object('poll', summary)
+  WHERE id = target.message_id;
+
+  RETURN summary;
+END;
+$$;
+
+-- Create function to post a poll
+CREATE OR REPLACE FUNCTION create_poll(
+  sender_id_param uuid,
+  channel_id_param uuid,
+  question_param text,
+  options_param jsonb,
+  allow_multiple_param boolean DEFAULT false,
+  anonymous_param boolean DEFAULT false,
+  closes_at_param timestamptz DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  new_message_id uuid;
+  new_poll_id uuid;
+BEGIN
+  new_message_id := send_message_as(sender_id_param, channel_id_param, question_param, 'poll');
+
+  INSERT INTO polls (message_id, channel_id, created_by, question, options, allow_multiple, anonymous, closes_at)
+  VALUES (new_message_id, channel_id_param, sender_id_param, question_param, options_param,
+          allow_multiple_param, anonymous_param, closes_at_param)
+  RETURNING id INTO new_poll_id;
+
+  PERFORM refresh_poll_results(new_poll_id);
+
+  RETURN new_message_id;
+END;
+$$;
+
+-- Create function to replace a user's votes on a poll
+CREATE OR REPLACE FUNCTION cast_poll_vote(
+  poll_id_param uuid,
+  user_id_param uuid,
+  option_ids text[]
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  target polls%ROWTYPE;
+BEGIN
+  -- Lock the poll so votes and closing never interleave
+  SELECT * INTO target FROM polls WHERE id = poll_id_param FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+
+  IF target.closed_at IS NOT NULL OR (target.closes_at IS NOT NULL AND target.closes_at <= now()) THEN
+    RAISE EXCEPTION 'Poll is closed';
+  END IF;
+
+  DELETE FROM poll_votes WHERE poll_id = poll_id_param AND user_id = user_id_param;
+
+  INSERT INTO poll_votes (poll_id, user_id, option_id)
+  SELECT DISTINCT poll_id_param, user_id_param, option_id
+  FROM unnest(option_ids) AS option_id;
+
+  RETURN refresh_poll_results(poll_id_param);
+END;
+$$;
+
+-- Create function to close a poll and announce its result
+CREATE OR REPLACE FUNCTION close_poll(poll_id_param uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  target polls%ROWTYPE;
+  summary jsonb;
+  voter_count integer;
+  top_count integer;
+  winner_count integer;
+  winner_names text;
+  announcement text;
+BEGIN
+  SELECT * INTO target FROM polls WHERE id = poll_id_param FOR UPDATE;
+
+  IF NOT FOUND OR target.closed_at IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE polls SET closed_at = now() WHERE id = poll_id_param;
+  summary := refresh_poll_results(poll_id_param);
+  voter_count := (summary->>'total_voters')::integer;
+
+  SELECT MAX((result->>'count')::integer) INTO top_count
+  FROM jsonb_array_elements(summary->'results') AS result;
+
+  SELECT COUNT(*), string_agg(format('"%s"', opt->>'text'), ', ' ORDER BY result.position)
+  INTO winner_count, winner_names
+  FROM jsonb_array_elements(summary->'results') WITH ORDINALITY AS result(value, position)
+  JOIN jsonb_array_elements(target.options) AS opt ON opt->>'id' = result.value->>'option_id'
+  WHERE (result.value->>'count')::integer = top_count;
+
+  IF voter_count = 0 THEN
+    announcement := format('Poll closed: "%s" received no votes', target.question);
+  ELSIF winner_count = 1 THEN
+    announcement := format('Poll closed: "%s" — %s won with %s of %s voter%s',
+      target.question, winner_names, top_count, voter_count, CASE WHEN voter_count = 1 THEN '' ELSE 's' END);
+  ELSE
+    announcement := format('Poll closed: "%s" — tie between %s with %s vote%s each',
+      target.question, winner_names, top_count, CASE WHEN top_count = 1 THEN '' ELSE 's' END);
+  END IF;
+
+  INSERT INTO messages (channel_id, sender_id, content, type, metadata)
+  VALUES (
+    target.channel_id,
+    target.created_by,
+    announcement,
+    'system',
+    jsonb_build_object('poll_id', target.id, 'poll_message_id', target.message_id)
+  );
+
+  RETURN summary;
+END;
+$$;
+
+-- Create function to close polls whose closing time has passed
+CREATE OR REPLACE FUNCTION close_due_polls(batch_size integer DEFAULT 50)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  due RECORD;
+  closed_count integer := 0;
+BEGIN
+  FOR due IN
+    SELECT id
+    FROM polls
+    WHERE closed_at IS NULL
+      AND closes_at <= now()
+    ORDER BY closes_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    IF close_poll(due.id) IS NOT NULL THEN
+      closed_count := closed_count + 1;
+    END IF;
+  END LOOP;
+
+  RETURN closed_count;
+END;
+$$;
+
+-- The workspace API checks who may create, vote on and close a poll; clients must not call these directly
+REVOKE EXECUTE ON FUNCTION refresh_poll_results(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION create_poll(uuid, uuid, text, jsonb, boolean, boolean, timestamptz) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION cast_poll_vote(uuid, uuid, text[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION close_poll(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION close_due_polls(integer) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,67 @@
+/*
+  # Link previews
+
+  1. New Tables
+    - `link_previews` - Cache of OpenGraph metadata fetched for URLs posted in chat
+      - `url` (text, primary key)
+      - `status` (text) - ok, or failed so unreachable links are not fetched on every message
+      - `title`, `description`, `image_url`, `site_name` (text)
+      - `fetched_at` (timestamptz)
+      - `expires_at` (timestamptz) - the cached entry is refetched after this time
+
+  2. New Functions
+    - `set_message_link_previews` - Stores the previews for a message in `metadata.link_previews`
+      without overwriting other metadata written at the same time
+    - `cleanup_expired_link_previews` - Removes expired cache entries
+
+  3. Security
+    - Enable RLS on link_previews without client policies; the workspace API manages the cache
+    - Only the service role may call `set_message_link_previews`, so previews always come from the
+      workspace API's own fetches
+*/
+
+-- Create link_previews table
+CREATE TABLE IF NOT EXISTS link_previews (
+  url text PRIMARY KEY,
+  status text NOT NULL DEFAULT 'ok' CHECK (status IN ('ok', 'failed')),
+  title text,
+  description text,
+  image_url text,
+  site_name text,
+  fetched_at timestamptz DEFAULT now(),
+  expires_at timestamptz NOT NULL
+);
+
+ALTER TABLE link_previews ENABLE ROW LEVEL SECURITY;
+
+-- Add index for expiring cache entries
+CREATE INDEX IF NOT EXISTS idx_link_previews_expires ON link_previews(expires_at);
+
+-- Create function to store the previews of a message
+CREATE OR REPLACE FUNCTION set_message_link_previews(message_id_param uuid, previews jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE messages
+  SET metadata = CASE
+    WHEN jsonb_array_length(previews) = 0 THEN COALESCE(metadata, '{}'::jsonb) - 'link_previews'
+    ELSE COALESCE(metadata, '{}'::jsonb) || jsonb_build_object('link_previews', previews)
+  END
+  WHERE id = message_id_param;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION set_message_link_previews(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- Create function to remove expired cache entries
+CREATE OR REPLACE FUNCTION cleanup_expired_link_previews()
+RETURNS void AS $$
+BEGIN
+  DELETE FROM link_previews WHERE expires_at < now();
+END;
+$$ LANGUAGE plpgsql;
+
+-- Schedule cleanup (if pg_cron is available)
+-- SELECT cron.schedule('cleanup-expired-link-previews', '0 3 * * *', 'SELECT cleanup_expired_link_previews();');
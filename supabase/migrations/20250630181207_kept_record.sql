@@ -0,0 +1,138 @@
+/*
+  # Message revisions and soft deletion
+
+  1. New Tables
+    - `message_revisions` - Earlier versions of edited messages
+      - `id` (uuid, primary key)
+      - `message_id` (uuid, references messages)
+      - `content` (text) - the message content before the edit
+      - `edited_by` (uuid, references profiles)
+      - `created_at` (timestamptz) - when the content was replaced
+
+  2. Changes
+    - `messages.deleted_at`, `messages.deleted_by` - deleted messages stay in place as a tombstone
+      so replies keep their thread
+
+  3. New Functions
+    - `edit_message` - Stores the previous content as a revision, updates the message and records
+      the edit in activity_logs
+    - `soft_delete_message` - Clears the content of a message, removes its reactions, pins, saves
+      and poll, and records the deletion in activity_logs
+
+  4. Security
+    - Enable RLS on message_revisions without client policies; history is read through the
+      workspace API, which checks channel access
+    - `edit_message` and `soft_delete_message` trust the editor or deleter they are given, so only
+      the service role may call them
+*/
+
+-- Track soft deletion on messages. deleted_by is deliberately not a foreign key: a second
+-- reference from messages to profiles would make every sender:profiles(...) embed ambiguous
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS deleted_by uuid;
+
+-- Create message_revisions table
+CREATE TABLE IF NOT EXISTS message_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  content text NOT NULL,
+  edited_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE message_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Add index for listing the history of a message
+CREATE INDEX IF NOT EXISTS idx_message_revisions_message ON message_revisions(message_id, created_at);
+
+-- Create function to edit a message while keeping its history
+CREATE OR REPLACE FUNCTION edit_message(
+  message_id_param uuid,
+  editor_id_param uuid,
+  content_param text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  previous_content text;
+BEGIN
+  SELECT content INTO previous_content FROM messages WHERE id = message_id_param FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  INSERT INTO message_revisions (message_id, content, edited_by)
+  VALUES (message_id_param, previous_content, editor_id_param);
+
+  UPDATE messages
+  SET content = content_param,
+      edited_at = now(),
+      original_content = COALESCE(original_content, previous_content)
+  WHERE id = message_id_param;
+
+  INSERT INTO activity_logs (user_id, action, resource_type, resource_id, old_values, new_values)
+  VALUES (
+    editor_id_param,
+    'message_edited',
+    'message',
+    message_id_param,
+    jsonb_build_object('content', previous_content),
+    jsonb_build_object('content', content_param)
+  );
+END;
+$$;
+
+-- Create function to replace a message with a deletion tombstone
+CREATE OR REPLACE FUNCTION soft_delete_message(message_id_param uuid, deleter_id_param uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  target messages%ROWTYPE;
+  deleted_time timestamptz := now();
+BEGIN
+  SELECT * INTO target FROM messages WHERE id = message_id_param FOR UPDATE;
+
+  IF NOT FOUND OR target.deleted_at IS NOT NULL THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO activity_logs (user_id, action, resource_type, resource_id, old_values, new_values)
+  VALUES (
+    deleter_id_param,
+    'message_deleted',
+    'message',
+    message_id_param,
+    jsonb_build_object(
+      'content', target.content,
+      'type', target.type,
+      'metadata', target.metadata,
+      'sender_id', target.sender_id
+    ),
+    jsonb_build_object('deleted_by', deleter_id_param, 'deleted_at', deleted_time)
+  );
+
+  -- Nothing of the original message stays attached to the tombstone
+  DELETE FROM message_reactions WHERE message_id = message_id_param;
+  DELETE FROM pinned_messages WHERE message_id = message_id_param;
+  DELETE FROM message_bookmarks WHERE message_id = message_id_param;
+  DELETE FROM polls WHERE message_id = message_id_param;
+
+  UPDATE messages
+  SET content = '',
+      metadata = '{}'::jsonb,
+      deleted_at = deleted_time,
+      deleted_by = deleter_id_param
+  WHERE id = message_id_param;
+
+  RETURN true;
+END;
+$$;
+
+-- The workspace API checks permissions before calling these; clients must not call them directly
+REVOKE EXECUTE ON FUNCTION edit_message(uuid, uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION soft_delete_message(uuid, uuid) FROM PUBLIC, anon, authenticated;
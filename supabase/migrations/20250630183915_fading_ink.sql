@@ -0,0 +1,214 @@
+/*
+  # Channel retention policies
+
+  1. Changes
+    - `channels.retention_days` - messages, attachments and summaries older than this many days are
+      purged; NULL keeps history forever
+    - `channels.legal_hold`, `legal_hold_by`, `legal_hold_at` - a legal hold suspends purging
+      regardless of the retention policy
+    - `channels.last_purged_at` - when the purge job last deleted anything from the channel
+
+  2. New Functions
+    - `preview_channel_purge` - Dry run reporting what a retention policy would delete
+    - `purge_channel_history` - Deletes expired messages, attachments and summaries of one channel
+      and returns the storage paths of the deleted attachment files
+    - `purge_expired_history` - Runs the purge for every channel with a policy and no legal hold,
+      recording each purge in activity_logs
+
+  3. Security
+    - The purge functions skip the admin checks of the workspace API, so only the service role
+      may call them
+
+  4. Notes
+    - A thread is only purged once its latest reply has expired, so a recent reply never
+      disappears with an old parent
+    - Edit and deletion records of purged messages are removed from activity_logs as well, since
+      they contain the message content
+*/
+
+-- Add retention settings to channels
+ALTER TABLE channels ADD COLUMN IF NOT EXISTS retention_days integer CHECK (retention_days IS NULL OR retention_days > 0);
+ALTER TABLE channels ADD COLUMN IF NOT EXISTS legal_hold boolean NOT NULL DEFAULT false;
+ALTER TABLE channels ADD COLUMN IF NOT EXISTS legal_hold_by uuid REFERENCES profiles(id) ON DELETE SET NULL;
+ALTER TABLE channels ADD COLUMN IF NOT EXISTS legal_hold_at timestamptz;
+ALTER TABLE channels ADD COLUMN IF NOT EXISTS last_purged_at timestamptz;
+
+-- Add indexes for finding expired history
+CREATE INDEX IF NOT EXISTS idx_messages_channel_created ON messages(channel_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_channel_summaries_channel_end ON channel_summaries(channel_id, end_date);
+
+-- Create function to report what a retention policy would purge without deleting anything
+CREATE OR REPLACE FUNCTION preview_channel_purge(
+  channel_id_param uuid,
+  retention_days_param integer DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  target channels%ROWTYPE;
+  days integer;
+  cutoff timestamptz;
+  report jsonb;
+BEGIN
+  SELECT * INTO target FROM channels WHERE id = channel_id_param;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Channel not found';
+  END IF;
+
+  days := COALESCE(retention_days_param, target.retention_days);
+
+  IF days IS NULL THEN
+    RETURN jsonb_build_object(
+      'retention_days', NULL,
+      'legal_hold', target.legal_hold,
+      'cutoff', NULL,
+      'messages', 0,
+      'attachments', 0,
+      'attachment_bytes', 0,
+      'summaries', 0,
+      'oldest_message_at', NULL,
+      'newest_message_at', NULL
+    );
+  END IF;
+
+  cutoff := now() - make_interval(days => days);
+
+  WITH expired AS (
+    SELECT id, created_at
+    FROM messages
+    WHERE channel_id = channel_id_param
+      AND created_at < cutoff
+      AND COALESCE(last_reply_at, created_at) < cutoff
+  )
+  SELECT jsonb_build_object(
+    'retention_days', days,
+    'legal_hold', target.legal_hold,
+    'cutoff', cutoff,
+    'messages', (SELECT COUNT(*) FROM expired),
+    'attachments', (SELECT COUNT(*) FROM file_attachments WHERE message_id IN (SELECT id FROM expired)),
+    'attachment_bytes', (SELECT COALESCE(SUM(file_size), 0) FROM file_attachments WHERE message_id IN (SELECT id FROM expired)),
+    'summaries', (SELECT COUNT(*) FROM channel_summaries WHERE channel_id = channel_id_param AND end_date < cutoff),
+    'oldest_message_at', (SELECT MIN(created_at) FROM expired),
+    'newest_message_at', (SELECT MAX(created_at) FROM expired)
+  ) INTO report;
+
+  RETURN report;
+END;
+$$;
+
+-- Create function to purge the expired history of one channel
+CREATE OR REPLACE FUNCTION purge_channel_history(channel_id_param uuid, batch_size integer DEFAULT 500)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  target channels%ROWTYPE;
+  cutoff timestamptz;
+  expired_ids uuid[];
+  file_paths text[];
+  summary_count integer;
+BEGIN
+  SELECT * INTO target FROM channels WHERE id = channel_id_param FOR UPDATE;
+
+  IF NOT FOUND OR target.retention_days IS NULL OR target.legal_hold THEN
+    RETURN jsonb_build_object('messages', 0, 'attachments', 0, 'summaries', 0, 'file_paths', '[]'::jsonb);
+  END IF;
+
+  cutoff := now() - make_interval(days => target.retention_days);
+
+  SELECT COALESCE(array_agg(id), '{}') INTO expired_ids
+  FROM (
+    SELECT id
+    FROM messages
+    WHERE channel_id = channel_id_param
+      AND created_at < cutoff
+      AND COALESCE(last_reply_at, created_at) < cutoff
+    ORDER BY created_at
+    LIMIT batch_size
+  ) batch;
+
+  -- Replies go with their parent; include them so their attachments and logs are found too
+  expired_ids := expired_ids || COALESCE((
+    SELECT array_agg(id) FROM messages
+    WHERE thread_parent_id = ANY(expired_ids) AND NOT (id = ANY(expired_ids))
+  ), '{}');
+
+  -- Remove attachment rows first so the files can be deleted from storage afterwards
+  WITH removed AS (
+    DELETE FROM file_attachments WHERE message_id = ANY(expired_ids) RETURNING file_path
+  )
+  SELECT COALESCE(array_agg(file_path), '{}') INTO file_paths FROM removed;
+
+  DELETE FROM activity_logs WHERE resource_type = 'message' AND resource_id = ANY(expired_ids);
+  DELETE FROM messages WHERE id = ANY(expired_ids);
+
+  DELETE FROM channel_summaries WHERE channel_id = channel_id_param AND end_date < cutoff;
+  GET DIAGNOSTICS summary_count = ROW_COUNT;
+
+  IF cardinality(expired_ids) > 0 OR summary_count > 0 THEN
+    UPDATE channels SET last_purged_at = now() WHERE id = channel_id_param;
+
+    INSERT INTO activity_logs (user_id, action, resource_type, resource_id, new_values)
+    VALUES (
+      NULL,
+      'retention_purge',
+      'channel',
+      channel_id_param,
+      jsonb_build_object(
+        'retention_days', target.retention_days,
+        'cutoff', cutoff,
+        'messages', cardinality(expired_ids),
+        'attachments', cardinality(file_paths),
+        'summaries', summary_count
+      )
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'messages', cardinality(expired_ids),
+    'attachments', cardinality(file_paths),
+    'summaries', summary_count,
+    'file_paths', to_jsonb(file_paths)
+  );
+END;
+$$;
+
+-- Create function to purge expired history across all channels with a retention policy
+CREATE OR REPLACE FUNCTION purge_expired_history(batch_size integer DEFAULT 500)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  policy RECORD;
+  result jsonb;
+  totals jsonb := jsonb_build_object('channels', 0, 'messages', 0, 'attachments', 0, 'summaries', 0, 'file_paths', '[]'::jsonb);
+BEGIN
+  FOR policy IN
+    SELECT id FROM channels WHERE retention_days IS NOT NULL AND NOT legal_hold
+  LOOP
+    result := purge_channel_history(policy.id, batch_size);
+
+    IF (result->>'messages')::integer > 0 OR (result->>'summaries')::integer > 0 THEN
+      totals := jsonb_build_object(
+        'channels', (totals->>'channels')::integer + 1,
+        'messages', (totals->>'messages')::integer + (result->>'messages')::integer,
+        'attachments', (totals->>'attachments')::integer + (result->>'attachments')::integer,
+        'summaries', (totals->>'summaries')::integer + (result->>'summaries')::integer,
+        'file_paths', (totals->'file_paths') || (result->'file_paths')
+      );
+    END IF;
+  END LOOP;
+
+  RETURN totals;
+END;
+$$;
+
+-- Retention is managed through the workspace API, which checks that the caller is a channel admin
+REVOKE EXECUTE ON FUNCTION preview_channel_purge(uuid, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION purge_channel_history(uuid, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION purge_expired_history(integer) FROM PUBLIC, anon, authenticated;
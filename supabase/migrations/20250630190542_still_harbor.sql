@@ -0,0 +1,37 @@
+/*
+  # Channel archiving
+
+  1. Changes
+    - `channels.archived_at`, `channels.archived_by` - archived channels keep their history and stay
+      searchable but are read-only
+
+  2. New Triggers
+    - `prevent_posting_to_archived_channel_trigger` - Rejects new messages in archived channels,
+      except system announcements such as the archive notice itself
+
+  3. Security
+    - No changes to RLS policies; archiving and restoring go through the workspace API
+*/
+
+-- Track archiving on channels
+ALTER TABLE channels ADD COLUMN IF NOT EXISTS archived_at timestamptz;
+ALTER TABLE channels ADD COLUMN IF NOT EXISTS archived_by uuid REFERENCES profiles(id) ON DELETE SET NULL;
+
+-- Create function to keep archived channels read-only
+CREATE OR REPLACE FUNCTION prevent_posting_to_archived_channel()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.type <> 'system' AND EXISTS (
+    SELECT 1 FROM channels WHERE id = NEW.channel_id AND archived_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'This channel is archived';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prevent_posting_to_archived_channel_trigger
+BEFORE INSERT ON messages
+FOR EACH ROW
+EXECUTE FUNCTION prevent_posting_to_archived_channel();
@@ -0,0 +1,56 @@
+/*
+  # Configurable Kanban boards
+
+  1. Changes
+    - `tasks.status` - Adds `backlog`, `in_review` and `blocked`, so every board column can be
+      backed by a real status instead of sharing `todo`
+    - `tasks.board_position` (integer) - Order of a task within its board column
+
+  2. New Tables
+    - `kanban_boards` - Column configuration of a project board or of a user's personal board
+      - `project_id` (uuid) - set for a project board
+      - `user_id` (uuid) - set for a personal board
+      - `columns` (jsonb) - ordered columns of `{id, title, status, wip_limit}`
+      - `updated_by` (uuid)
+
+  3. Security
+    - Enable RLS on kanban_boards; users can read their own board and the boards of their
+      projects. Boards are saved through the workspace API
+*/
+
+-- Allow the new task statuses
+ALTER TABLE tasks DROP CONSTRAINT IF EXISTS tasks_status_check;
+ALTER TABLE tasks ADD CONSTRAINT tasks_status_check
+  CHECK (status IN ('backlog', 'todo', 'in_progress', 'in_review', 'blocked', 'completed', 'cancelled'));
+
+-- Track the order of tasks within a column
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS board_position integer;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_status_position ON tasks(status, board_position);
+
+-- Create kanban_boards table
+CREATE TABLE IF NOT EXISTS kanban_boards (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE,
+  columns jsonb NOT NULL DEFAULT '[]',
+  updated_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK ((project_id IS NULL) <> (user_id IS NULL))
+);
+
+ALTER TABLE kanban_boards ENABLE ROW LEVEL SECURITY;
+
+-- One board per project and one personal board per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_kanban_boards_project ON kanban_boards(project_id) WHERE project_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_kanban_boards_user ON kanban_boards(user_id) WHERE user_id IS NOT NULL;
+
+CREATE POLICY "Users can view their boards"
+  ON kanban_boards
+  FOR SELECT
+  TO authenticated
+  USING (
+    user_id = auth.uid() OR
+    EXISTS (SELECT 1 FROM project_members WHERE project_id = kanban_boards.project_id AND user_id = auth.uid())
+  );
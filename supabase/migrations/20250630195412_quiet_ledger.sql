@@ -0,0 +1,81 @@
+/*
+  # Fractional task ranks
+
+  1. Changes
+    - `tasks.rank` (text, C collation) - Position of a task within its board column. Ranks are
+      base-62 strings compared byte by byte, so a task can always be placed between two others
+      by updating only its own row
+    - Replaces `tasks.board_position`, which needed every task in a column renumbered on each move
+
+  2. New Functions
+    - `next_task_rank` - Rank that places a task after every other task of a status
+
+  3. New Triggers
+    - `assign_task_rank_trigger` - Gives new tasks, and tasks whose status changes without a new
+      rank, a place at the end of their column
+
+  4. Notes
+    - Existing tasks keep their current order; unordered tasks follow in the order the board
+      showed them, newest first
+*/
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS rank text COLLATE "C";
+
+-- Carry over the current board order
+UPDATE tasks
+SET rank = ranked.rank
+FROM (
+  SELECT
+    id,
+    lpad(row_number() OVER (PARTITION BY status ORDER BY board_position NULLS LAST, created_at DESC)::text, 6, '0') || 'V' AS rank
+  FROM tasks
+) ranked
+WHERE tasks.id = ranked.id AND tasks.rank IS NULL;
+
+DROP INDEX IF EXISTS idx_tasks_status_position;
+ALTER TABLE tasks DROP COLUMN IF EXISTS board_position;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_status_rank ON tasks(status, rank);
+
+-- Create function to find the rank after the last task of a status
+CREATE OR REPLACE FUNCTION next_task_rank(status_param text)
+RETURNS text AS $$
+DECLARE
+  digits constant text := '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+  last_rank text;
+  last_digit integer;
+BEGIN
+  SELECT MAX(rank) INTO last_rank FROM tasks WHERE status = status_param;
+
+  IF last_rank IS NULL OR last_rank = '' THEN
+    RETURN 'V';
+  END IF;
+
+  -- Step the final digit up where there is room; otherwise extend the rank
+  last_digit := strpos(digits, right(last_rank, 1));
+  IF last_digit < length(digits) THEN
+    RETURN left(last_rank, -1) || substr(digits, last_digit + 1, 1);
+  END IF;
+
+  RETURN last_rank || 'V';
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create function to rank tasks that arrive in a column without a position
+CREATE OR REPLACE FUNCTION assign_task_rank()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.rank IS NULL OR (
+    TG_OP = 'UPDATE' AND NEW.status IS DISTINCT FROM OLD.status AND NEW.rank IS NOT DISTINCT FROM OLD.rank
+  ) THEN
+    NEW.rank := next_task_rank(NEW.status);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER assign_task_rank_trigger
+BEFORE INSERT OR UPDATE OF status, rank ON tasks
+FOR EACH ROW
+EXECUTE FUNCTION assign_task_rank();
@@ -0,0 +1,79 @@
+/*
+  # Task dependency enforcement
+
+  1. Changes
+    - `task_dependencies` - A task can no longer depend on itself; cycles across several tasks are
+      rejected by the workspace API when a dependency is added
+
+  2. New Functions
+    - `notify_unblocked_tasks` - When a task is completed, notifies the creator and assignees of
+      each task that depends on it, saying whether anything still blocks that task
+
+  3. New Triggers
+    - `notify_unblocked_tasks_trigger` - Runs on every completion, however the task was completed
+*/
+
+ALTER TABLE task_dependencies DROP CONSTRAINT IF EXISTS task_dependencies_not_self;
+ALTER TABLE task_dependencies ADD CONSTRAINT task_dependencies_not_self CHECK (task_id <> depends_on_task_id);
+
+-- Add index for finding the tasks that wait on a task
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_depends_on ON task_dependencies(depends_on_task_id);
+
+-- Create function to notify people whose tasks were waiting on a completed task
+CREATE OR REPLACE FUNCTION notify_unblocked_tasks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  dependent RECORD;
+  remaining integer;
+BEGIN
+  FOR dependent IN
+    SELECT DISTINCT t.id, t.title, t.created_by
+    FROM task_dependencies d
+    JOIN tasks t ON t.id = d.task_id
+    WHERE d.depends_on_task_id = NEW.id
+      AND t.status NOT IN ('completed', 'cancelled')
+  LOOP
+    -- Other dependencies of the task that are still unmet
+    SELECT COUNT(*) INTO remaining
+    FROM task_dependencies d
+    JOIN tasks p ON p.id = d.depends_on_task_id
+    WHERE d.task_id = dependent.id
+      AND d.depends_on_task_id <> NEW.id
+      AND CASE
+        WHEN d.dependency_type LIKE 'finish_%' THEN p.status NOT IN ('completed', 'cancelled')
+        ELSE p.status NOT IN ('in_progress', 'in_review', 'completed', 'cancelled')
+      END;
+
+    INSERT INTO notifications (user_id, title, message, type, category, action_url, metadata)
+    SELECT
+      recipient.user_id,
+      CASE WHEN remaining = 0 THEN 'Task Unblocked' ELSE 'Blocker Completed' END,
+      CASE WHEN remaining = 0
+        THEN '"' || NEW.title || '" is done, so nothing blocks "' || dependent.title || '" any more'
+        ELSE '"' || NEW.title || '" is done; "' || dependent.title || '" still waits on ' || remaining ||
+          CASE WHEN remaining = 1 THEN ' other task' ELSE ' other tasks' END
+      END,
+      CASE WHEN remaining = 0 THEN 'success' ELSE 'info' END,
+      'task',
+      '/workspace?task=' || dependent.id,
+      jsonb_build_object('task_id', dependent.id, 'blocker_task_id', NEW.id)
+    FROM (
+      SELECT dependent.created_by AS user_id
+      UNION
+      SELECT user_id FROM task_assignments WHERE task_id = dependent.id
+    ) recipient
+    WHERE recipient.user_id IS NOT NULL;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_unblocked_tasks_trigger
+AFTER UPDATE OF status ON tasks
+FOR EACH ROW
+WHEN (NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed')
+EXECUTE FUNCTION notify_unblocked_tasks();
@@ -0,0 +1,132 @@
+/*
+  # Subtasks and checklists
+
+  1. New Tables
+    - `task_checklist_items` - Lightweight steps inside a task that are ticked off rather than tracked
+      as tasks of their own
+
+  2. Changes
+    - `tasks` - A task can no longer be its own parent, nor be nested under one of its own subtasks
+
+  3. New Functions
+    - `prevent_task_parent_cycle` - Rejects a parent that is the task itself or one of its descendants
+    - `suggest_parent_completion` - When the last open subtask of a task is completed or cancelled and
+      at least one of them was completed, notifies the creator and assignees of the parent that it
+      looks ready to complete (the same rule the task panel uses)
+
+  4. Security
+    - Enable RLS on `task_checklist_items`; changes go through the workspace API
+*/
+
+CREATE TABLE IF NOT EXISTS task_checklist_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id uuid NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  content text NOT NULL CHECK (char_length(content) BETWEEN 1 AND 500),
+  is_completed boolean NOT NULL DEFAULT false,
+  position integer NOT NULL DEFAULT 0,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  completed_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE task_checklist_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view task checklist items" ON task_checklist_items FOR SELECT TO authenticated USING (true);
+
+-- Add index for loading the checklist of a task in order
+CREATE INDEX IF NOT EXISTS idx_task_checklist_items_task ON task_checklist_items(task_id, position);
+
+ALTER TABLE tasks DROP CONSTRAINT IF EXISTS tasks_parent_not_self;
+ALTER TABLE tasks ADD CONSTRAINT tasks_parent_not_self CHECK (parent_task_id <> id);
+
+-- Create function to reject parent chains that loop back to the task, e.g. A under B under A
+CREATE OR REPLACE FUNCTION prevent_task_parent_cycle()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT id, parent_task_id FROM tasks WHERE id = NEW.parent_task_id
+      UNION
+      SELECT tasks.id, tasks.parent_task_id
+      FROM tasks
+      JOIN ancestors ON tasks.id = ancestors.parent_task_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'A task cannot be nested under one of its own subtasks'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_task_parent_cycle_trigger
+BEFORE INSERT OR UPDATE OF parent_task_id ON tasks
+FOR EACH ROW
+WHEN (NEW.parent_task_id IS NOT NULL)
+EXECUTE FUNCTION prevent_task_parent_cycle();
+
+-- Create function to suggest completing a parent once all of its subtasks are done
+CREATE OR REPLACE FUNCTION suggest_parent_completion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  parent RECORD;
+  open_subtasks integer;
+  completed_subtasks integer;
+BEGIN
+  SELECT id, title, status, created_by INTO parent
+  FROM tasks
+  WHERE id = NEW.parent_task_id;
+
+  IF parent.id IS NULL OR parent.status IN ('completed', 'cancelled') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT
+    COUNT(*) FILTER (WHERE status NOT IN ('completed', 'cancelled')),
+    COUNT(*) FILTER (WHERE status = 'completed')
+  INTO open_subtasks, completed_subtasks
+  FROM tasks
+  WHERE parent_task_id = parent.id;
+
+  -- A parent whose subtasks were all cancelled has nothing done to complete
+  IF open_subtasks > 0 OR completed_subtasks = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO notifications (user_id, title, message, type, category, action_url, metadata)
+  SELECT
+    recipient.user_id,
+    'Subtasks Complete',
+    'Every subtask of "' || parent.title || '" is done; it may be ready to complete',
+    'success',
+    'task',
+    '/workspace?task=' || parent.id,
+    jsonb_build_object('task_id', parent.id, 'subtask_id', NEW.id, 'suggested_status', 'completed')
+  FROM (
+    SELECT parent.created_by AS user_id
+    UNION
+    SELECT user_id FROM task_assignments WHERE task_id = parent.id
+  ) recipient
+  WHERE recipient.user_id IS NOT NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER suggest_parent_completion_trigger
+AFTER UPDATE OF status ON tasks
+FOR EACH ROW
+WHEN (
+  NEW.parent_task_id IS NOT NULL
+  AND NEW.status IN ('completed', 'cancelled')
+  AND OLD.status NOT IN ('completed', 'cancelled')
+)
+EXECUTE FUNCTION suggest_parent_completion();